@@ -29,6 +29,9 @@ const nextConfig: NextConfig = {
         source: '/.well-known/way-auth-configuration',
         destination: `${authUpstreamUrl}/.well-known/way-auth-configuration`,
       },
+      // Checked after app routes, so the portfolio API under src/app/api/v1 is
+      // served locally. Its routes must stay static: a dynamic segment there
+      // would lose to this rewrite.
       {
         source: '/api/v1/:path*',
         destination: `${authUpstreamUrl}/api/v1/:path*`,
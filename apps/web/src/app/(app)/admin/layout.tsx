@@ -1,6 +1,12 @@
+import type { Metadata } from 'next';
 import type { CSSProperties, ReactNode } from 'react';
 import { AdminSessionBootstrap } from '@/app/(app)/admin/session-bootstrap';
 
+export const metadata: Metadata = {
+  title: 'Admin',
+  robots: { index: false, follow: false },
+};
+
 const adminFontVars: CSSProperties = {
   ['--font-admin-display' as string]: '"Bebas Neue", "Arial Narrow", "Impact", sans-serif',
   ['--font-admin-mono' as string]:
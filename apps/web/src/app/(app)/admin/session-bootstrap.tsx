@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { auth } from '@/lib/auth';
 
 const DEFAULT_KEEP_ALIVE_INTERVAL_MS = 60_000;
@@ -25,6 +25,7 @@ function normalizePath(pathname: string): string {
 
 export function AdminSessionBootstrap() {
   const pathname = usePathname();
+  const router = useRouter();
   const hasStartedRef = useRef(false);
   const normalizedPath = normalizePath(pathname);
   const keepAliveIntervalMs = resolveKeepAliveIntervalMs();
@@ -51,5 +52,15 @@ export function AdminSessionBootstrap() {
     };
   }, [keepAliveIntervalMs, normalizedPath]);
 
+  useEffect(
+    () =>
+      auth.client.onSessionChange((change) => {
+        if (change.type === 'logout' && !auth.client.isPublicAuthRoute(normalizedPath)) {
+          router.replace('/admin/login');
+        }
+      }),
+    [normalizedPath, router],
+  );
+
   return null;
 }
@@ -1,9 +1,27 @@
+import type { Metadata } from 'next';
+import { draftMode } from 'next/headers';
 import PortfolioPage from '@/features/public/PortfolioPage';
+import JsonLd from '@/features/public/components/JsonLd';
+import { buildPortfolioJsonLd } from '@/features/public/lib/seo';
 import { getPortfolioSnapshot } from '@/server/backend/portfolio';
+import { getSiteUrl } from '@/server/env';
 
-export const revalidate = 60;
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  alternates: {
+    canonical: '/',
+    types: { 'application/atom+xml': [{ url: '/feed.xml', title: 'Projects and certificates' }] },
+  },
+};
 
 export default async function HomePage() {
-  const snapshot = await getPortfolioSnapshot();
-  return <PortfolioPage snapshot={snapshot} />;
+  const { isEnabled: isPreview } = await draftMode();
+  const snapshot = await getPortfolioSnapshot(isPreview ? 'draft' : 'published');
+  return (
+    <>
+      <JsonLd data={buildPortfolioJsonLd(snapshot, getSiteUrl())} />
+      <PortfolioPage snapshot={snapshot} isPreview={isPreview} />
+    </>
+  );
 }
@@ -0,0 +1,30 @@
+import { getSiteName } from '@/features/public/lib/seo';
+import { OG_IMAGE_SIZE, renderOgImage } from '@/features/public/lib/ogImage';
+import { getProjectBySlug, getSiteSettings } from '@/server/backend/portfolio';
+
+export const revalidate = 3600;
+export const size = OG_IMAGE_SIZE;
+export const contentType = 'image/png';
+export const alt = 'Project preview';
+
+type ProjectImageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+export default async function ProjectOpenGraphImage({ params }: ProjectImageProps) {
+  const { slug } = await params;
+  const [project, settings] = await Promise.all([getProjectBySlug(slug), getSiteSettings()]);
+  const siteName = getSiteName(settings);
+
+  if (!project) {
+    return renderOgImage({ siteName, title: siteName });
+  }
+
+  return renderOgImage({
+    siteName,
+    eyebrow: project.categories[0] ?? 'Project',
+    title: project.title,
+    description: project.description,
+    tags: project.techStack,
+  });
+}
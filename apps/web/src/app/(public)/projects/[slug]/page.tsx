@@ -0,0 +1,62 @@
+import type { Metadata } from 'next';
+import { draftMode } from 'next/headers';
+import { notFound } from 'next/navigation';
+import ProjectPage from '@/features/public/ProjectPage';
+import JsonLd from '@/features/public/components/JsonLd';
+import { buildProjectPageJsonLd } from '@/features/public/lib/seo';
+import { getProjectBySlug, getProjects, getSiteSettings } from '@/server/backend/portfolio';
+import { getSiteUrl } from '@/server/env';
+
+export const revalidate = 3600;
+
+type ProjectRouteProps = {
+  params: Promise<{ slug: string }>;
+};
+
+export async function generateStaticParams() {
+  const projects = await getProjects('published');
+  return projects.map((project) => ({ slug: project.slug }));
+}
+
+export async function generateMetadata({ params }: ProjectRouteProps): Promise<Metadata> {
+  const { slug } = await params;
+  const project = await getProjectBySlug(slug);
+  if (!project) {
+    return {};
+  }
+
+  // The generated image from ./opengraph-image is added to openGraph by Next.
+  return {
+    title: project.title,
+    description: project.description,
+    alternates: { canonical: `/projects/${project.slug}` },
+    openGraph: {
+      type: 'article',
+      title: project.title,
+      description: project.description,
+      url: `/projects/${project.slug}`,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: project.title,
+      description: project.description,
+    },
+  };
+}
+
+export default async function ProjectRoute({ params }: ProjectRouteProps) {
+  const { slug } = await params;
+  const { isEnabled: isPreview } = await draftMode();
+  const mode = isPreview ? 'draft' : 'published';
+  const [project, settings] = await Promise.all([getProjectBySlug(slug, mode), getSiteSettings(mode)]);
+  if (!project) {
+    notFound();
+  }
+
+  return (
+    <>
+      <JsonLd data={buildProjectPageJsonLd(project, settings, getSiteUrl())} />
+      <ProjectPage project={project} isPreview={isPreview} />
+    </>
+  );
+}
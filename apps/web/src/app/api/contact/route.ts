@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { getClientIp, submitContactMessage, type ContactSubmission } from '@/server/backend/contact';
+
+export const dynamic = 'force-dynamic';
+
+function readSubmission(body: unknown): ContactSubmission | null {
+  if (!body || typeof body !== 'object') {
+    return null;
+  }
+
+  const { name, email, message, website } = body as Record<string, unknown>;
+  if (typeof name !== 'string' || typeof email !== 'string' || typeof message !== 'string') {
+    return null;
+  }
+  if (website !== undefined && typeof website !== 'string') {
+    return null;
+  }
+
+  return { name, email, message, website };
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON.' }, { status: 400 });
+  }
+
+  const submission = readSubmission(body);
+  if (!submission) {
+    return NextResponse.json({ error: 'Name, email and message are required.' }, { status: 400 });
+  }
+
+  try {
+    const result = await submitContactMessage(submission, getClientIp(request.headers));
+    if (!result) {
+      return NextResponse.json({ error: 'The contact form is not available right now.' }, { status: 503 });
+    }
+
+    if (result.status === 'invalid') {
+      return NextResponse.json({ error: result.message, field: result.field }, { status: 400 });
+    }
+
+    if (result.status === 'rate_limited') {
+      return NextResponse.json(
+        { error: 'Too many messages. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(result.retryAfterMs / 1000)) } },
+      );
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('Contact submission failed:', error);
+    return NextResponse.json({ error: 'Unable to send your message. Please try again.' }, { status: 500 });
+  }
+}
@@ -1,10 +1,16 @@
 import { NextResponse } from 'next/server';
-import { getPortfolioSnapshot } from '@/server/backend/portfolio';
+import { getPortfolioSnapshotResult } from '@/server/backend/portfolio';
 
 export const dynamic = 'force-static';
-export const revalidate = 60;
+export const revalidate = 3600;
 
+// The headers describe the snapshot as it was when this response was generated.
 export async function GET() {
-  const snapshot = await getPortfolioSnapshot();
-  return NextResponse.json(snapshot);
+  const { snapshot, source, ageSeconds } = await getPortfolioSnapshotResult();
+  return NextResponse.json(snapshot, {
+    headers: {
+      'X-Snapshot-Source': source,
+      'X-Snapshot-Age': String(ageSeconds),
+    },
+  });
 }
@@ -0,0 +1,17 @@
+import { draftMode } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getAdminSessionFromHeaders } from '@/server/auth/session';
+
+export const dynamic = 'force-dynamic';
+
+// Next signs the draft mode cookie itself, so only a signed-in admin can turn
+// it on and every later request carrying it renders draft content.
+export async function GET(request: Request) {
+  const session = await getAdminSessionFromHeaders('/api/preview');
+  if (!session) {
+    return NextResponse.redirect(new URL('/admin/login', request.url));
+  }
+
+  (await draftMode()).enable();
+  return NextResponse.redirect(new URL('/', request.url));
+}
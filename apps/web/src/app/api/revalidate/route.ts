@@ -0,0 +1,31 @@
+import { revalidateTag } from 'next/cache';
+import { NextResponse } from 'next/server';
+import { getPortfolioTag } from '@/server/backend/portfolio';
+import { REVALIDATION_SIGNATURE_HEADER, verifyRevalidationRequest } from '@/server/backend/revalidation';
+import { getRevalidationSecret } from '@/server/env';
+
+export const dynamic = 'force-dynamic';
+
+// Called by Convex after admin changes that affect the public site.
+export async function POST(request: Request) {
+  const secret = getRevalidationSecret();
+  if (!secret) {
+    return NextResponse.json({ error: 'Revalidation is not configured.' }, { status: 503 });
+  }
+
+  const result = verifyRevalidationRequest(
+    await request.text(),
+    request.headers.get(REVALIDATION_SIGNATURE_HEADER),
+    secret,
+  );
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  const tags = result.tables.map(getPortfolioTag);
+  for (const tag of tags) {
+    revalidateTag(tag);
+  }
+
+  return NextResponse.json({ revalidated: tags });
+}
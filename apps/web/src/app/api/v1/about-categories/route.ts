@@ -0,0 +1,6 @@
+import { createPublicApiHandlers } from '@/server/publicApi/http';
+import { PUBLIC_API_RESOURCES } from '@/server/publicApi/resources';
+
+export const dynamic = 'force-dynamic';
+
+export const { GET, OPTIONS } = createPublicApiHandlers(PUBLIC_API_RESOURCES.aboutCategories);
@@ -0,0 +1,9 @@
+import { publicApiJson } from '@/server/publicApi/http';
+import { buildOpenApiDocument } from '@/server/publicApi/openapi';
+import { getSiteUrl } from '@/server/env';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: Request) {
+  return publicApiJson(request, buildOpenApiDocument(getSiteUrl()));
+}
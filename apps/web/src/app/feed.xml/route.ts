@@ -0,0 +1,13 @@
+import { buildAtomFeed } from '@/features/public/lib/feed';
+import { getPortfolioSnapshot } from '@/server/backend/portfolio';
+import { getSiteUrl } from '@/server/env';
+
+export const dynamic = 'force-static';
+export const revalidate = 3600;
+
+export async function GET() {
+  const snapshot = await getPortfolioSnapshot();
+  return new Response(buildAtomFeed(snapshot, getSiteUrl()), {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+  });
+}
@@ -1,25 +1,41 @@
 import type { Metadata } from 'next';
 import './globals.css';
 import { Providers } from '@/app/providers';
+import { getSiteDescription, getSiteName } from '@/features/public/lib/seo';
+import { getSiteSettings } from '@/server/backend/portfolio';
+import { getSiteUrl } from '@/server/env';
 
-const metadataBaseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+// Open Graph images come from the `opengraph-image` routes next to each page.
+export async function generateMetadata(): Promise<Metadata> {
+  const settings = await getSiteSettings();
+  const siteName = getSiteName(settings);
+  const title = `${siteName} - Portfolio`;
+  const description = getSiteDescription(settings);
 
-export const metadata: Metadata = {
-  metadataBase: new URL(metadataBaseUrl),
-  title: 'Kurtik Appadoo - Portfolio',
-  description: 'Kurtik Appadoo portfolio with projects, experience, and contact.',
-  icons: {
-    icon: '/ka-logo-final.svg',
-    shortcut: '/ka-logo-final.svg',
-    apple: '/ka-logo-final.svg',
-  },
-  openGraph: {
-    images: ['/ka-logo-final.svg'],
-  },
-  twitter: {
-    images: ['/ka-logo-final.svg'],
-  },
-};
+  return {
+    metadataBase: new URL(getSiteUrl()),
+    title: { default: title, template: `%s | ${siteName}` },
+    description,
+    applicationName: siteName,
+    icons: {
+      icon: '/ka-logo-final.svg',
+      shortcut: '/ka-logo-final.svg',
+      apple: '/ka-logo-final.svg',
+    },
+    openGraph: {
+      type: 'website',
+      siteName,
+      title,
+      description,
+      url: '/',
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+    },
+  };
+}
 
 export default function RootLayout({
   children,
@@ -0,0 +1,18 @@
+import { getSiteDescription, getSiteName } from '@/features/public/lib/seo';
+import { OG_IMAGE_SIZE, renderOgImage } from '@/features/public/lib/ogImage';
+import { getSiteSettings } from '@/server/backend/portfolio';
+
+export const revalidate = 3600;
+export const size = OG_IMAGE_SIZE;
+export const contentType = 'image/png';
+export const alt = 'Portfolio preview';
+
+export default async function OpenGraphImage() {
+  const settings = await getSiteSettings();
+  return renderOgImage({
+    siteName: getSiteName(settings),
+    title: getSiteName(settings),
+    description: getSiteDescription(settings),
+    tags: ['Portfolio'],
+  });
+}
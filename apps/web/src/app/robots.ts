@@ -0,0 +1,15 @@
+import type { MetadataRoute } from 'next';
+import { getSiteUrl } from '@/server/env';
+
+export default function robots(): MetadataRoute.Robots {
+  const siteUrl = getSiteUrl();
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      disallow: ['/admin', '/api/'],
+    },
+    sitemap: `${siteUrl}/sitemap.xml`,
+    host: siteUrl,
+  };
+}
@@ -0,0 +1,35 @@
+import type { MetadataRoute } from 'next';
+import { getLastModified, getProjectUrl } from '@/features/public/lib/seo';
+import { getPortfolioSnapshot } from '@/server/backend/portfolio';
+import { getSiteUrl } from '@/server/env';
+
+export const revalidate = 3600;
+
+const toDate = (timestamp: number | undefined) => (timestamp ? new Date(timestamp) : undefined);
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const siteUrl = getSiteUrl();
+  const snapshot = await getPortfolioSnapshot('published');
+
+  // The home page shows everything, so it changes whenever anything is added or edited.
+  const timestamps = [
+    snapshot.siteSettings.updatedAt,
+    ...snapshot.projects.map(getLastModified),
+    ...snapshot.cloudProviders.flatMap((provider) => (provider.certificates ?? []).map(getLastModified)),
+  ].filter((timestamp): timestamp is number => timestamp !== undefined);
+
+  return [
+    {
+      url: siteUrl,
+      lastModified: toDate(timestamps.length > 0 ? Math.max(...timestamps) : undefined),
+      changeFrequency: 'weekly',
+      priority: 1,
+    },
+    ...snapshot.projects.map((project) => ({
+      url: getProjectUrl(project, siteUrl),
+      lastModified: toDate(getLastModified(project)),
+      changeFrequency: 'monthly' as const,
+      priority: 0.8,
+    })),
+  ];
+}
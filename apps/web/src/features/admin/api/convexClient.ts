@@ -1,6 +1,7 @@
 'use client';
 
 import { ConvexReactClient } from 'convex/react';
+import { auth } from '@/lib/auth';
 
 const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
 
@@ -11,3 +12,8 @@ if (!convexUrl) {
 export const convex = new ConvexReactClient(
   convexUrl || 'https://placeholder.convex.cloud',
 );
+
+// Admin functions verify the WAY access token server-side, so every Convex
+// request must carry the current token. Convex asks for a forced refresh when
+// the previous token was rejected or is about to expire.
+convex.setAuth(({ forceRefreshToken }) => auth.client.getAccessToken({ forceRefresh: forceRefreshToken }));
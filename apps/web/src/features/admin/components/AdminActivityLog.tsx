@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import { History, Loader2, X } from 'lucide-react';
+import { CONTENT_TABLE_LABELS } from '@/features/admin/config/sectionConfigs';
+import { useAdminActivityLog } from '@/features/admin/hooks/useAdminActivityLog';
+import type { AuditAction, AuditedTable, AuditLogEntry } from '@/features/admin/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  reorder: 'Reordered',
+  restore: 'Restored',
+};
+
+const AUDIT_ACTION_BADGE_CLASSES: Record<AuditAction, string> = {
+  create: 'border-emerald-500/40 text-emerald-500',
+  update: 'border-primary/40 text-primary',
+  delete: 'border-destructive/50 text-destructive',
+  reorder: 'border-border/60 text-muted-foreground',
+  restore: 'border-amber-500/40 text-amber-500',
+};
+
+const MAX_VALUE_PREVIEW_LENGTH = 160;
+
+type EntityHistoryFilter = {
+  table: AuditedTable;
+  documentId: string;
+};
+
+export type AdminActivityLogProps = {
+  resolveDocumentLabel: (table: AuditedTable, documentId: string) => string | null;
+};
+
+function formatAuditValue(value: unknown): string {
+  if (value === undefined) {
+    return '—';
+  }
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_PREVIEW_LENGTH ? `${text.slice(0, MAX_VALUE_PREVIEW_LENGTH)}…` : text;
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+function ActivityEntry({
+  entry,
+  documentLabel,
+  onShowHistory,
+}: {
+  entry: AuditLogEntry;
+  documentLabel: string;
+  onShowHistory: () => void;
+}) {
+  // Create and delete entries carry every field; only show the full list for
+  // edits, where it is the point of the entry.
+  const visibleChanges = entry.action === 'create' || entry.action === 'delete' ? [] : entry.changes;
+
+  return (
+    <article className="rounded-2xl border border-border/60 bg-background-subtle/30 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline" className={AUDIT_ACTION_BADGE_CLASSES[entry.action]}>
+              {AUDIT_ACTION_LABELS[entry.action]}
+            </Badge>
+            <Badge variant="outline">{CONTENT_TABLE_LABELS[entry.table]}</Badge>
+          </div>
+          <p className="font-display text-lg leading-tight text-foreground">{documentLabel}</p>
+          <p className="text-xs text-muted-foreground">
+            {entry.actorEmail ?? entry.actorSubject} · {formatTimestamp(entry.createdAt)}
+          </p>
+        </div>
+
+        <Button type="button" variant="outline" size="sm" onClick={onShowHistory}>
+          <History className="mr-2 h-3.5 w-3.5" />
+          History
+        </Button>
+      </div>
+
+      {visibleChanges.length > 0 ? (
+        <dl className="mt-3 space-y-2 border-t border-border/50 pt-3 text-sm">
+          {visibleChanges.map((change) => (
+            <div key={change.field} className="grid grid-cols-1 gap-1 md:grid-cols-[140px_minmax(0,1fr)]">
+              <dt className="font-mono text-xs text-muted-foreground">{change.field}</dt>
+              <dd className="min-w-0 break-words">
+                <span className="text-destructive/80 line-through">{formatAuditValue(change.before)}</span>
+                <span className="mx-2 text-muted-foreground">→</span>
+                <span className="text-foreground">{formatAuditValue(change.after)}</span>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      ) : null}
+    </article>
+  );
+}
+
+export function AdminActivityLog({ resolveDocumentLabel }: AdminActivityLogProps) {
+  const [tableFilter, setTableFilter] = useState<AuditedTable | ''>('');
+  const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+  const [entityHistory, setEntityHistory] = useState<EntityHistoryFilter | null>(null);
+
+  const { entries, isLoading, isLoadingMore, canLoadMore, loadMore } = useAdminActivityLog({
+    table: entityHistory?.table ?? (tableFilter || undefined),
+    documentId: entityHistory?.documentId,
+    action: actionFilter || undefined,
+  });
+
+  const getDocumentLabel = (table: AuditedTable, documentId: string) =>
+    resolveDocumentLabel(table, documentId) ?? documentId;
+
+  return (
+    <div className="space-y-4">
+      <div className="card-luxe flex flex-wrap items-end gap-3 p-4">
+        <label className="min-w-[200px] flex-1 space-y-1 text-sm">
+          <span className="text-muted-foreground">Section</span>
+          <select
+            className="w-full rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-2 text-sm"
+            value={entityHistory?.table ?? tableFilter}
+            disabled={entityHistory !== null}
+            onChange={(event) => setTableFilter(event.target.value as AuditedTable | '')}
+          >
+            <option value="">All sections</option>
+            {(Object.keys(CONTENT_TABLE_LABELS) as AuditedTable[]).map((table) => (
+              <option key={table} value={table}>
+                {CONTENT_TABLE_LABELS[table]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="min-w-[160px] space-y-1 text-sm">
+          <span className="text-muted-foreground">Action</span>
+          <select
+            className="w-full rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-2 text-sm"
+            value={actionFilter}
+            onChange={(event) => setActionFilter(event.target.value as AuditAction | '')}
+          >
+            <option value="">All actions</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+              <option key={action} value={action}>
+                {AUDIT_ACTION_LABELS[action]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {entityHistory ? (
+          <div className="flex w-full items-center justify-between gap-3 rounded-lg border border-primary/40 bg-primary/5 px-3 py-2 text-sm">
+            <span>
+              History for{' '}
+              <span className="font-medium text-foreground">
+                {getDocumentLabel(entityHistory.table, entityHistory.documentId)}
+              </span>
+            </span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setEntityHistory(null)}>
+              <X className="mr-1 h-3.5 w-3.5" />
+              Clear
+            </Button>
+          </div>
+        ) : null}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading activity...
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="rounded-2xl border border-dashed border-border/70 bg-background-subtle/30 p-8 text-center">
+          <p className="font-display text-2xl text-foreground">No activity yet</p>
+          <p className="mx-auto mt-2 max-w-lg text-sm text-muted-foreground">
+            Changes made from the dashboard will appear here with who made them and what changed.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => (
+            <ActivityEntry
+              key={entry._id}
+              entry={entry}
+              documentLabel={getDocumentLabel(entry.table, entry.documentId)}
+              onShowHistory={() => setEntityHistory({ table: entry.table, documentId: entry.documentId })}
+            />
+          ))}
+
+          {canLoadMore || isLoadingMore ? (
+            <div className="flex justify-center">
+              <Button type="button" variant="outline" disabled={isLoadingMore} onClick={loadMore}>
+                {isLoadingMore ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                {isLoadingMore ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,30 +3,12 @@
 import { memo, useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
 import { useMutation } from 'convex/react';
 import Image from 'next/image';
-import {
-  DndContext,
-  KeyboardSensor,
-  PointerSensor,
-  TouchSensor,
-  closestCenter,
-  type DragEndEvent,
-  useSensor,
-  useSensors,
-} from '@dnd-kit/core';
-import {
-  SortableContext,
-  arrayMove,
-  rectSortingStrategy,
-  sortableKeyboardCoordinates,
-  useSortable,
-} from '@dnd-kit/sortable';
-import { CSS } from '@dnd-kit/utilities';
 import {
   AlertTriangle,
   ChevronDown,
   ChevronUp,
   FileText,
-  GripVertical,
+  History,
   Image as ImageIcon,
   Loader2,
   Pencil,
@@ -43,25 +25,48 @@ import { adminApi } from '@/features/admin/api/convexAdmin';
 import {
   LANGUAGE_LEVEL_OPTIONS,
   PROJECT_STATUS_OPTIONS,
+  SOCIAL_PLATFORM_OPTIONS,
   TECHNOLOGY_CATEGORY_OPTIONS,
 } from '@/features/admin/config/sectionConfigs';
 import { asId, asStringList, asText } from '@/features/admin/lib/normalizers';
 import { areSameIdOrder, getNextOrder, reconcileDraftOrder, sortByOrder } from '@/features/admin/lib/ordering';
 import { uploadAssetWithSignedUrl, type UploadedStorageAsset } from '@/features/admin/api/uploadTransport';
 import { useAdminDashboardController } from '@/features/admin/hooks/useAdminDashboardController';
+import { useUnreadContactMessageCount } from '@/features/admin/hooks/useAdminInbox';
+import { AdminActivityLog } from '@/features/admin/components/AdminActivityLog';
+import { AdminInbox } from '@/features/admin/components/AdminInbox';
+import { AdminTrash } from '@/features/admin/components/AdminTrash';
 import { AdminWorkspaceShell } from '@/features/admin/components/AdminWorkspaceShell';
+import { EntityRevisionHistory } from '@/features/admin/components/EntityRevisionHistory';
+import { MarkdownEditor } from '@/features/admin/components/MarkdownEditor';
+import {
+  MediaGalleryEditor,
+  toGalleryEditorItems,
+  toGalleryPayload,
+  type GalleryEditorItem,
+} from '@/features/admin/components/MediaGalleryEditor';
+import { OrphanedTechnologiesNotice } from '@/features/admin/components/OrphanedTechnologiesNotice';
+import { SocialLinksEditor } from '@/features/admin/components/SocialLinksEditor';
+import { SortableGrid, SortableGridItem } from '@/features/admin/components/SortableGrid';
+import { StorageUsageSummary } from '@/features/admin/components/StorageUsageSummary';
 import type {
   AdminEntity,
   AdminSectionConfig,
   AdminUser,
+  AuditedTable,
   BootstrapData,
   EntitySectionId,
   FieldType,
   InspectorMode,
   MediaFieldConfig,
+  PublishedTable,
   SectionId,
   SelectOption,
   SiteSettingsEntity,
+  SiteSocialLink,
+  TrashEntry,
+  TrashTable,
+  UtilitySectionId,
 } from '@/features/admin/types';
 import { useBreakpoint } from '@/hooks/use-mobile';
 import { useToast } from '@/hooks/use-toast';
@@ -92,9 +97,18 @@ type ReorderItem = {
 };
 
 type DraftOrder = string[] | null;
-type ProjectDraftOrder = DraftOrder;
 type ExperienceDraftOrder = DraftOrder;
 
+type OrderedSectionId = Exclude<EntitySectionId, 'experiences' | 'technologies'>;
+
+type OrderGroup = {
+  key: string;
+  scope: string | undefined;
+  label: string | null;
+  items: AdminEntity[];
+  hasChanges: boolean;
+};
+
 type TechDraftItem = {
   _id: string;
   name: string;
@@ -114,7 +128,8 @@ type UploadValidationRule = {
   hint: string;
 };
 
-type UploadFieldKind = MediaFieldConfig['kind'];
+// Gallery uploads accept images and MP4 videos.
+type UploadFieldKind = MediaFieldConfig['kind'] | 'gallery';
 
 type LookupContext = {
   aboutCategoryMap: Map<string, AdminEntity>;
@@ -140,6 +155,11 @@ const UPLOAD_VALIDATION: Record<UploadFieldKind, UploadValidationRule> = {
     mimeTypes: ['application/pdf'],
     hint: 'PDF up to 10MB',
   },
+  gallery: {
+    maxBytes: 50 * MAX_MB,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/svg+xml', 'video/mp4'],
+    hint: 'Images up to 5MB or MP4 up to 50MB',
+  },
 };
 
 const DEFAULT_BOOTSTRAP: BootstrapData = {
@@ -164,8 +184,72 @@ const ADMIN_TABS: Array<{ id: SectionId; label: string }> = [
   { id: 'certificates', label: 'Certificates' },
   { id: 'about-categories', label: 'About Categories' },
   { id: 'about-items', label: 'About Items' },
+  { id: 'inbox', label: 'Inbox' },
+  { id: 'activity', label: 'Activity' },
+  { id: 'trash', label: 'Trash' },
 ];
 
+// Sections editors cannot open; the matching Convex functions require the owner role too.
+const OWNER_ONLY_SECTIONS: SectionId[] = ['site-settings', 'inbox'];
+const EDITOR_DEFAULT_SECTION: SectionId = 'experiences';
+
+const UTILITY_SECTION_COPY: Record<UtilitySectionId, { title: string; description: string }> = {
+  inbox: {
+    title: 'Inbox',
+    description: 'Messages sent through the contact form. Reply by email, then archive what is done.',
+  },
+  activity: {
+    title: 'Activity',
+    description: 'Review who changed what across every section, newest first.',
+  },
+  trash: {
+    title: 'Trash',
+    description:
+      'Restore deleted items, including anything deleted along with them, before they are purged, and review storage usage.',
+  },
+};
+
+function isUtilitySection(sectionId: SectionId): sectionId is UtilitySectionId {
+  return sectionId in UTILITY_SECTION_COPY;
+}
+
+const CONTENT_TABLE_SECTIONS: Record<Exclude<AuditedTable, 'siteSettings'>, EntitySectionId> = {
+  experiences: 'experiences',
+  projects: 'projects',
+  programmingLanguages: 'languages',
+  technologies: 'technologies',
+  cloudProviders: 'providers',
+  certificates: 'certificates',
+  aboutCategories: 'about-categories',
+  aboutItems: 'about-items',
+};
+
+// Experiences save their order together with the current role and technologies
+// are reordered inside the batch editor, so neither goes through reorderItems.
+const SECTION_ORDER_TABLES: Record<OrderedSectionId, TrashTable> = {
+  projects: 'projects',
+  languages: 'programmingLanguages',
+  providers: 'cloudProviders',
+  certificates: 'certificates',
+  'about-categories': 'aboutCategories',
+  'about-items': 'aboutItems',
+};
+
+const SECTION_ORDER_SCOPE_FIELDS: Partial<Record<OrderedSectionId, 'providerId' | 'categoryId'>> = {
+  certificates: 'providerId',
+  'about-items': 'categoryId',
+};
+
+const TECH_REFERENCE_SECTIONS: SectionId[] = ['experiences', 'projects', 'technologies'];
+
+function isOrderedSection(sectionId: SectionId): sectionId is OrderedSectionId {
+  return sectionId in SECTION_ORDER_TABLES;
+}
+
+function getTableSectionId(table: PublishedTable): SectionId {
+  return table === 'siteSettings' ? 'site-settings' : CONTENT_TABLE_SECTIONS[table];
+}
+
 function toFormValue(value: unknown, type: FieldType): string {
   if (value === undefined || value === null) {
     return '';
@@ -212,7 +296,8 @@ function validateUpload(file: File, kind: UploadFieldKind): string | null {
     return `Invalid file type. Expected ${rule.hint}.`;
   }
 
-  if (file.size > rule.maxBytes) {
+  const maxBytes = kind === 'gallery' && file.type.startsWith('image/') ? UPLOAD_VALIDATION.image.maxBytes : rule.maxBytes;
+  if (file.size > maxBytes) {
     return `File is too large. Expected ${rule.hint}.`;
   }
 
@@ -358,6 +443,8 @@ type MediaUploadFieldProps = {
   value: string;
   required?: boolean;
   disabled?: boolean;
+  /** Accepts several files at once and calls `onChange` for each upload; `value` is ignored. */
+  multiple?: boolean;
   // Keep uploaded asset metadata available for future persistence enhancements.
   onChange: (nextUrl: string | null, uploadedAsset?: UploadedStorageAsset | null) => void;
   generateUploadUrl: () => Promise<string>;
@@ -371,6 +458,7 @@ function MediaUploadField({
   value,
   required,
   disabled,
+  multiple = false,
   onChange,
   generateUploadUrl,
   resolveStorageUrl,
@@ -434,6 +522,17 @@ function MediaUploadField({
     [generateUploadUrl, kind, onChange, resolveStorageUrl],
   );
 
+  // Files upload one at a time so the progress bar and errors stay readable.
+  const uploadFiles = useCallback(
+    async (files: FileList | null | undefined) => {
+      const selected = Array.from(files ?? []);
+      for (const file of multiple ? selected : selected.slice(0, 1)) {
+        await uploadFile(file);
+      }
+    },
+    [multiple, uploadFile],
+  );
+
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between gap-3">
@@ -457,13 +556,12 @@ function MediaUploadField({
         onDrop={(event) => {
           event.preventDefault();
           setIsDragging(false);
-          const file = event.dataTransfer.files?.[0];
-          if (file) {
-            void uploadFile(file);
-          }
+          void uploadFiles(event.dataTransfer.files);
         }}
       >
-        {kind === 'resumePdf' ? (
+        {multiple ? (
+          <p className="mb-3 text-sm text-muted-foreground">Drop files here to add them to the end of the gallery.</p>
+        ) : kind === 'resumePdf' ? (
           <div className="mb-3 flex items-center gap-2 text-sm text-muted-foreground">
             <FileText className="h-4 w-4" />
             {value ? (
@@ -503,10 +601,10 @@ function MediaUploadField({
             onClick={() => inputRef.current?.click()}
           >
             {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
-            {isUploading ? 'Uploading...' : value ? 'Replace File' : 'Upload File'}
+            {isUploading ? 'Uploading...' : multiple ? 'Add Files' : value ? 'Replace File' : 'Upload File'}
           </Button>
 
-          {value ? (
+          {value && !multiple ? (
             <Button
               type="button"
               variant="outline"
@@ -529,12 +627,10 @@ function MediaUploadField({
             type="file"
             className="hidden"
             accept={rule.mimeTypes.join(',')}
+            multiple={multiple}
             disabled={disabled || isUploading}
             onChange={(event) => {
-              const file = event.target.files?.[0];
-              if (file) {
-                void uploadFile(file);
-              }
+              void uploadFiles(event.target.files);
               event.currentTarget.value = '';
             }}
           />
@@ -841,62 +937,20 @@ const SectionCard = memo(
     prev.orderLabel === next.orderLabel,
 );
 
-type SectionCardGridProps = {
-  config: AdminSectionConfig;
-  items: AdminEntity[];
-  selectedItemId: string | null;
-  context: LookupContext;
-  onCreate: () => void;
-  onOpen: (id: string) => void;
-  onEdit: (id: string) => void;
-  onDelete: (id: string) => void;
-};
-
-function SectionCardGrid({
-  config,
-  items,
-  selectedItemId,
-  context,
-  onCreate,
-  onOpen,
-  onEdit,
-  onDelete,
-}: SectionCardGridProps) {
-  if (items.length === 0) {
-    return <EmptyState title={config.emptyTitle} description={config.emptyDescription} onCreate={onCreate} />;
-  }
-
-  return (
-    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-      {items.map((item) => (
-        <SectionCard
-          key={asId(item._id)}
-          sectionId={config.id}
-          item={item}
-          context={context}
-          isSelected={selectedItemId === asId(item._id)}
-          onOpen={onOpen}
-          onEdit={onEdit}
-          onDelete={onDelete}
-        />
-      ))}
-    </div>
-  );
-}
-
-type ProjectOrderToolbarProps = {
+type SectionOrderToolbarProps = {
+  title: string;
   hasChanges: boolean;
   isSaving: boolean;
   onSave: () => void;
   onReset: () => void;
 };
 
-function ProjectOrderToolbar({ hasChanges, isSaving, onSave, onReset }: ProjectOrderToolbarProps) {
+function SectionOrderToolbar({ title, hasChanges, isSaving, onSave, onReset }: SectionOrderToolbarProps) {
   return (
     <div className="rounded-2xl border border-border/60 bg-background-subtle/30 p-4">
       <div className="flex flex-wrap items-center justify-between gap-3">
         <div className="space-y-1">
-          <p className="text-sm font-medium text-foreground">Project order</p>
+          <p className="text-sm font-medium text-foreground">{title}</p>
           <p className="text-xs text-muted-foreground">
             Drag cards by the handle to reorder. Save when you are ready to publish this order.
           </p>
@@ -1029,6 +1083,7 @@ function TechBatchToolbar({ hasChanges, isSaving, onAdd, onSave, onCancel }: Tec
 
 type TechEditableCardProps = {
   item: TechDraftItem;
+  dragHandle?: ReactNode;
   onFieldChange: (id: string, field: keyof TechDraftItem, value: string | number) => void;
   onToggleExpand: (id: string) => void;
   onDelete: (id: string) => void;
@@ -1038,6 +1093,7 @@ type TechEditableCardProps = {
 
 function TechEditableCard({
   item,
+  dragHandle,
   onFieldChange,
   onToggleExpand,
   onDelete,
@@ -1051,6 +1107,7 @@ function TechEditableCard({
       <div className="rounded-2xl border border-primary/40 bg-background-subtle/50 p-4 space-y-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
+            {dragHandle}
             {item._isNew ? (
               <Badge variant="outline" className="text-xs">New</Badge>
             ) : null}
@@ -1133,6 +1190,7 @@ function TechEditableCard({
 
   return (
     <div className="group flex items-center gap-3 rounded-2xl border border-border/60 bg-background-subtle/30 p-3 transition-all hover:border-primary/30">
+      {dragHandle}
       <button
         type="button"
         className="flex flex-1 items-center gap-3 text-left"
@@ -1155,280 +1213,6 @@ function TechEditableCard({
   );
 }
 
-type SortableProjectCardProps = {
-  item: AdminEntity;
-  position: number;
-  context: LookupContext;
-  isSelected: boolean;
-  onOpen: (id: string) => void;
-  onEdit: (id: string) => void;
-  onDelete: (id: string) => void;
-};
-
-function SortableProjectCard({
-  item,
-  position,
-  context,
-  isSelected,
-  onOpen,
-  onEdit,
-  onDelete,
-}: SortableProjectCardProps) {
-  const itemId = asId(item._id);
-  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({
-    id: itemId,
-  });
-
-  const style = {
-    transform: CSS.Transform.toString(transform),
-    transition,
-  };
-
-  return (
-    <div
-      ref={setNodeRef}
-      style={style}
-      className={cn('touch-manipulation', isDragging ? 'z-20 opacity-80' : undefined)}
-    >
-      <SectionCard
-        sectionId="projects"
-        item={item}
-        context={context}
-        isSelected={isSelected}
-        orderLabel={String(position)}
-        dragHandle={
-          <button
-            ref={setActivatorNodeRef}
-            type="button"
-            className="inline-flex h-8 w-8 items-center justify-center rounded-lg border border-border/70 text-muted-foreground transition-colors hover:border-primary/40 hover:text-primary"
-            onClick={(event) => event.stopPropagation()}
-            onKeyDown={(event) => event.stopPropagation()}
-            aria-label={`Reorder ${asText(item.title, 'project')}`}
-            {...attributes}
-            {...listeners}
-          >
-            <GripVertical className="h-3.5 w-3.5" />
-          </button>
-        }
-        onOpen={onOpen}
-        onEdit={onEdit}
-        onDelete={onDelete}
-      />
-    </div>
-  );
-}
-
-type SortableProjectGridProps = {
-  items: AdminEntity[];
-  selectedItemId: string | null;
-  context: LookupContext;
-  onOpen: (id: string) => void;
-  onEdit: (id: string) => void;
-  onDelete: (id: string) => void;
-  onReorder: (nextIds: string[]) => void;
-};
-
-function SortableProjectGrid({
-  items,
-  selectedItemId,
-  context,
-  onOpen,
-  onEdit,
-  onDelete,
-  onReorder,
-}: SortableProjectGridProps) {
-  const ids = useMemo(() => items.map((item) => asId(item._id)), [items]);
-
-  const sensors = useSensors(
-    useSensor(PointerSensor, {
-      activationConstraint: { distance: 8 },
-    }),
-    useSensor(TouchSensor, {
-      activationConstraint: { delay: 180, tolerance: 6 },
-    }),
-    useSensor(KeyboardSensor, {
-      coordinateGetter: sortableKeyboardCoordinates,
-    }),
-  );
-
-  const onDragEnd = useCallback(
-    (event: DragEndEvent) => {
-      const { active, over } = event;
-      if (!over || active.id === over.id) {
-        return;
-      }
-
-      const oldIndex = ids.indexOf(String(active.id));
-      const newIndex = ids.indexOf(String(over.id));
-
-      if (oldIndex < 0 || newIndex < 0) {
-        return;
-      }
-
-      onReorder(arrayMove(ids, oldIndex, newIndex));
-    },
-    [ids, onReorder],
-  );
-
-  return (
-    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={onDragEnd}>
-      <SortableContext items={ids} strategy={rectSortingStrategy}>
-        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-          {items.map((item, index) => (
-            <SortableProjectCard
-              key={asId(item._id)}
-              item={item}
-              position={index + 1}
-              context={context}
-              isSelected={selectedItemId === asId(item._id)}
-              onOpen={onOpen}
-              onEdit={onEdit}
-              onDelete={onDelete}
-            />
-          ))}
-        </div>
-      </SortableContext>
-    </DndContext>
-  );
-}
-
-type SortableExperienceCardProps = {
-  item: AdminEntity;
-  position: number;
-  context: LookupContext;
-  isSelected: boolean;
-  onOpen: (id: string) => void;
-  onEdit: (id: string) => void;
-  onDelete: (id: string) => void;
-};
-
-function SortableExperienceCard({
-  item,
-  position,
-  context,
-  isSelected,
-  onOpen,
-  onEdit,
-  onDelete,
-}: SortableExperienceCardProps) {
-  const itemId = asId(item._id);
-  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({
-    id: itemId,
-  });
-
-  const style = {
-    transform: CSS.Transform.toString(transform),
-    transition,
-  };
-
-  return (
-    <div
-      ref={setNodeRef}
-      style={style}
-      className={cn('touch-manipulation', isDragging ? 'z-20 opacity-80' : undefined)}
-    >
-      <SectionCard
-        sectionId="experiences"
-        item={item}
-        context={context}
-        isSelected={isSelected}
-        orderLabel={String(position)}
-        dragHandle={
-          <button
-            ref={setActivatorNodeRef}
-            type="button"
-            className="inline-flex h-8 w-8 items-center justify-center rounded-lg border border-border/70 text-muted-foreground transition-colors hover:border-primary/40 hover:text-primary"
-            onClick={(event) => event.stopPropagation()}
-            onKeyDown={(event) => event.stopPropagation()}
-            aria-label={`Reorder ${asText(item.role, 'experience')}`}
-            {...attributes}
-            {...listeners}
-          >
-            <GripVertical className="h-3.5 w-3.5" />
-          </button>
-        }
-        onOpen={onOpen}
-        onEdit={onEdit}
-        onDelete={onDelete}
-      />
-    </div>
-  );
-}
-
-type SortableExperienceGridProps = {
-  items: AdminEntity[];
-  selectedItemId: string | null;
-  context: LookupContext;
-  onOpen: (id: string) => void;
-  onEdit: (id: string) => void;
-  onDelete: (id: string) => void;
-  onReorder: (nextIds: string[]) => void;
-};
-
-function SortableExperienceGrid({
-  items,
-  selectedItemId,
-  context,
-  onOpen,
-  onEdit,
-  onDelete,
-  onReorder,
-}: SortableExperienceGridProps) {
-  const ids = useMemo(() => items.map((item) => asId(item._id)), [items]);
-
-  const sensors = useSensors(
-    useSensor(PointerSensor, {
-      activationConstraint: { distance: 8 },
-    }),
-    useSensor(TouchSensor, {
-      activationConstraint: { delay: 180, tolerance: 6 },
-    }),
-    useSensor(KeyboardSensor, {
-      coordinateGetter: sortableKeyboardCoordinates,
-    }),
-  );
-
-  const onDragEnd = useCallback(
-    (event: DragEndEvent) => {
-      const { active, over } = event;
-      if (!over || active.id === over.id) {
-        return;
-      }
-
-      const oldIndex = ids.indexOf(String(active.id));
-      const newIndex = ids.indexOf(String(over.id));
-
-      if (oldIndex < 0 || newIndex < 0) {
-        return;
-      }
-
-      onReorder(arrayMove(ids, oldIndex, newIndex));
-    },
-    [ids, onReorder],
-  );
-
-  return (
-    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={onDragEnd}>
-      <SortableContext items={ids} strategy={rectSortingStrategy}>
-        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-          {items.map((item, index) => (
-            <SortableExperienceCard
-              key={asId(item._id)}
-              item={item}
-              position={index + 1}
-              context={context}
-              isSelected={selectedItemId === asId(item._id)}
-              onOpen={onOpen}
-              onEdit={onEdit}
-              onDelete={onDelete}
-            />
-          ))}
-        </div>
-      </SortableContext>
-    </DndContext>
-  );
-}
-
 type EntityInspectorProps = {
   config: AdminSectionConfig;
   selectedItem: AdminEntity | null;
@@ -1459,12 +1243,25 @@ function EntityInspector({
   const remove = useMutation(config.deleteMutation);
 
   const [form, setForm] = useState<Record<string, string>>({});
+  const [galleries, setGalleries] = useState<Record<string, GalleryEditorItem[]>>({});
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const nextOrder = useMemo(() => getNextOrder(config.items), [config.items]);
 
+  const uploadMarkdownImage = useCallback(
+    async (file: File) => {
+      const validationError = validateUpload(file, 'image');
+      if (validationError) {
+        throw new Error(validationError);
+      }
+      const uploaded = await uploadAssetWithSignedUrl({ file, generateUploadUrl, resolveStorageUrl });
+      return uploaded.url;
+    },
+    [generateUploadUrl, resolveStorageUrl],
+  );
+
   useEffect(() => {
     const nextForm: Record<string, string> = {};
     const source = mode === 'edit' ? selectedItem : null;
@@ -1481,9 +1278,15 @@ function EntityInspector({
       nextForm[mediaField.key] = asText(source?.[mediaField.key]);
     }
 
+    const nextGalleries: Record<string, GalleryEditorItem[]> = {};
+    for (const galleryField of config.galleryFields ?? []) {
+      nextGalleries[galleryField.key] = toGalleryEditorItems(source?.[galleryField.key]);
+    }
+
     setForm(nextForm);
+    setGalleries(nextGalleries);
     setError(null);
-  }, [mode, nextOrder, selectedItem, config.fields, config.mediaFields]);
+  }, [mode, nextOrder, selectedItem, config.fields, config.mediaFields, config.galleryFields]);
 
   const submit = useCallback(
     async (event: React.FormEvent<HTMLFormElement>) => {
@@ -1517,6 +1320,10 @@ function EntityInspector({
           payload[mediaField.key] = mediaValue === '' ? undefined : mediaValue;
         }
 
+        for (const galleryField of config.galleryFields ?? []) {
+          payload[galleryField.key] = toGalleryPayload(galleries[galleryField.key] ?? []);
+        }
+
         if (mode === 'edit' && selectedItem) {
           await update({ id: asId(selectedItem._id), ...payload } as never);
           onModeChange('view');
@@ -1532,7 +1339,19 @@ function EntityInspector({
         setIsSaving(false);
       }
     },
-    [config.fields, config.mediaFields, create, form, mode, onModeChange, onSelectedIdChange, selectedItem, update],
+    [
+      config.fields,
+      config.mediaFields,
+      config.galleryFields,
+      create,
+      form,
+      galleries,
+      mode,
+      onModeChange,
+      onSelectedIdChange,
+      selectedItem,
+      update,
+    ],
   );
 
   if (mode === 'deleteConfirm' && selectedItem) {
@@ -1549,7 +1368,8 @@ function EntityInspector({
         </div>
 
         <p className="text-sm text-muted-foreground">
-          This action cannot be undone. The selected {config.title.toLowerCase()} item will be permanently removed.
+          The selected {config.title.toLowerCase()} item will be moved to Trash, along with anything that belongs to
+          it. You can restore it from Trash until it is purged.
         </p>
 
         <div className="rounded-lg border border-border/60 bg-background-subtle/40 p-3">
@@ -1587,6 +1407,18 @@ function EntityInspector({
     );
   }
 
+  if (mode === 'history' && selectedItem && config.revisionTable) {
+    return (
+      <EntityRevisionHistory
+        table={config.revisionTable}
+        item={selectedItem}
+        title={getCardTitle(config.id, selectedItem, context)}
+        onBack={() => onModeChange('view')}
+        onClose={onClose}
+      />
+    );
+  }
+
   if (mode === 'create' || (mode === 'edit' && selectedItem)) {
     const singularTitle = config.title.endsWith('ies')
       ? `${config.title.slice(0, -3)}y`
@@ -1618,6 +1450,17 @@ function EntityInspector({
                 required={field.required}
                 onChange={(nextValue) => setForm((current) => ({ ...current, [field.key]: nextValue }))}
               />
+            ) : field.type === 'textarea' && field.markdown ? (
+              <MarkdownEditor
+                key={field.key}
+                id={`${config.id}-${field.key}`}
+                label={field.label}
+                value={form[field.key] ?? ''}
+                required={field.required}
+                disabled={isSaving}
+                onChange={(nextValue) => setForm((current) => ({ ...current, [field.key]: nextValue }))}
+                onUploadImage={uploadMarkdownImage}
+              />
             ) : (
             <label key={field.key}>
               <span className="mb-2 block text-xs font-mono text-muted-foreground uppercase tracking-wider">
@@ -1676,6 +1519,45 @@ function EntityInspector({
               }}
             />
           ))}
+
+          {(config.galleryFields ?? []).map((galleryField) => (
+            <MediaGalleryEditor
+              key={galleryField.key}
+              id={`${config.id}-${galleryField.key}`}
+              label={galleryField.label}
+              items={galleries[galleryField.key] ?? []}
+              disabled={isSaving}
+              onChange={(items) => setGalleries((current) => ({ ...current, [galleryField.key]: items }))}
+              uploadField={
+                <MediaUploadField
+                  id={`${config.id}-${galleryField.key}-upload`}
+                  label="Upload Media"
+                  kind="gallery"
+                  value=""
+                  multiple
+                  disabled={isSaving}
+                  generateUploadUrl={generateUploadUrl}
+                  resolveStorageUrl={resolveStorageUrl}
+                  onChange={(nextUrl, uploaded) => {
+                    if (!nextUrl) {
+                      return;
+                    }
+                    const isVideo = uploaded?.fileName.toLowerCase().endsWith('.mp4') ?? false;
+                    const alt = uploaded?.fileName.replace(/\.[^.]+$/, '') ?? '';
+                    setGalleries((current) => ({
+                      ...current,
+                      [galleryField.key]: [
+                        ...(current[galleryField.key] ?? []),
+                        isVideo
+                          ? { key: crypto.randomUUID(), kind: 'video', url: nextUrl }
+                          : { key: crypto.randomUUID(), kind: 'image', url: nextUrl, alt },
+                      ],
+                    }));
+                  }}
+                />
+              }
+            />
+          ))}
         </div>
 
         {error ? <p className="text-sm text-destructive">{error}</p> : null}
@@ -1771,6 +1653,12 @@ function EntityInspector({
             <Pencil className="mr-2 h-4 w-4" />
             Edit
           </Button>
+          {config.revisionTable ? (
+            <Button variant="outline" onClick={() => onModeChange('history')}>
+              <History className="mr-2 h-4 w-4" />
+              History
+            </Button>
+          ) : null}
           <Button variant="destructive" onClick={() => onModeChange('deleteConfirm')}>
             <Trash2 className="mr-2 h-4 w-4" />
             Delete
@@ -1814,10 +1702,15 @@ function SiteSettingsInspector({
   const [form, setForm] = useState({
     siteName: '',
     tagline: '',
+    description: '',
     logoUrl: '',
     profileImageUrl: '',
     resumeUrl: '',
+    contactEmail: '',
+    contactPhone: '',
+    contactLocation: '',
   });
+  const [socialLinks, setSocialLinks] = useState<SiteSocialLink[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -1825,10 +1718,15 @@ function SiteSettingsInspector({
     setForm({
       siteName: asText(settings?.siteName),
       tagline: asText(settings?.tagline),
+      description: asText(settings?.description),
       logoUrl: asText(settings?.logoUrl),
       profileImageUrl: asText(settings?.profileImageUrl),
       resumeUrl: asText(settings?.resumeUrl),
+      contactEmail: asText(settings?.contact?.email),
+      contactPhone: asText(settings?.contact?.phone),
+      contactLocation: asText(settings?.contact?.location),
     });
+    setSocialLinks(settings?.socialLinks ?? []);
     setError(null);
   }, [settings]);
 
@@ -1845,9 +1743,16 @@ function SiteSettingsInspector({
             await upsert({
               siteName: form.siteName.trim() || undefined,
               tagline: form.tagline.trim() || undefined,
+              description: form.description.trim() || undefined,
               logoUrl: form.logoUrl.trim() || undefined,
               profileImageUrl: form.profileImageUrl.trim() || undefined,
               resumeUrl: form.resumeUrl.trim() || undefined,
+              contact: {
+                email: form.contactEmail.trim() || undefined,
+                phone: form.contactPhone.trim() || undefined,
+                location: form.contactLocation.trim() || undefined,
+              },
+              socialLinks,
             });
             onModeChange('view');
           } catch (saveError) {
@@ -1862,7 +1767,7 @@ function SiteSettingsInspector({
             <h3 className="font-display text-xl text-foreground">
               {mode === 'create' ? 'Create Site Settings' : 'Edit Site Settings'}
             </h3>
-            <p className="text-sm text-muted-foreground">Control branding and hero defaults for the public site.</p>
+            <p className="text-sm text-muted-foreground">Control branding, contact details and social links for the public site.</p>
           </div>
           <Button type="button" variant="ghost" size="icon" onClick={onClose}>
             <X className="h-4 w-4" />
@@ -1887,6 +1792,18 @@ function SiteSettingsInspector({
           />
         </label>
 
+        <label>
+          <span className="mb-2 block text-xs font-mono text-muted-foreground uppercase tracking-wider">
+            Meta Description
+          </span>
+          <textarea
+            className="min-h-20 w-full rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-2"
+            value={form.description}
+            placeholder="Shown in search results and link previews. Defaults to the tagline."
+            onChange={(event) => setForm((current) => ({ ...current, description: event.target.value }))}
+          />
+        </label>
+
         <MediaUploadField
           id="site-settings-logo"
           label="Logo"
@@ -1920,6 +1837,37 @@ function SiteSettingsInspector({
           onChange={(nextUrl) => setForm((current) => ({ ...current, resumeUrl: nextUrl ?? '' }))}
         />
 
+        <label>
+          <span className="mb-2 block text-xs font-mono text-muted-foreground uppercase tracking-wider">Contact Email</span>
+          <input
+            type="email"
+            className="w-full rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-2"
+            value={form.contactEmail}
+            onChange={(event) => setForm((current) => ({ ...current, contactEmail: event.target.value }))}
+          />
+        </label>
+
+        <label>
+          <span className="mb-2 block text-xs font-mono text-muted-foreground uppercase tracking-wider">Contact Phone</span>
+          <input
+            type="tel"
+            className="w-full rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-2"
+            value={form.contactPhone}
+            onChange={(event) => setForm((current) => ({ ...current, contactPhone: event.target.value }))}
+          />
+        </label>
+
+        <label>
+          <span className="mb-2 block text-xs font-mono text-muted-foreground uppercase tracking-wider">Location</span>
+          <input
+            className="w-full rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-2"
+            value={form.contactLocation}
+            onChange={(event) => setForm((current) => ({ ...current, contactLocation: event.target.value }))}
+          />
+        </label>
+
+        <SocialLinksEditor links={socialLinks} disabled={isSaving} onChange={setSocialLinks} />
+
         {error ? <p className="text-sm text-destructive">{error}</p> : null}
 
         <div className="flex items-center gap-2">
@@ -2007,6 +1955,38 @@ function SiteSettingsInspector({
         )}
       </div>
 
+      <div className="rounded-lg border border-border/60 bg-background-subtle/40 p-3">
+        <p className="mb-2 text-xs font-mono uppercase tracking-wider text-muted-foreground">Contact</p>
+        {settings.contact ? (
+          <div className="space-y-1 text-sm">
+            {settings.contact.email ? <p className="text-foreground">{settings.contact.email}</p> : null}
+            {settings.contact.phone ? <p className="text-foreground">{settings.contact.phone}</p> : null}
+            {settings.contact.location ? <p className="text-muted-foreground">{settings.contact.location}</p> : null}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No contact details</p>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border/60 bg-background-subtle/40 p-3">
+        <p className="mb-2 text-xs font-mono uppercase tracking-wider text-muted-foreground">Social Links</p>
+        {settings.socialLinks && settings.socialLinks.length > 0 ? (
+          <ul className="space-y-1 text-sm">
+            {settings.socialLinks.map((link, index) => (
+              <li key={index} className="flex items-center gap-2">
+                <span className="text-foreground">
+                  {SOCIAL_PLATFORM_OPTIONS.find((option) => option.value === link.platform)?.label ?? link.platform}
+                </span>
+                <span className="truncate text-muted-foreground">{link.url}</span>
+                {link.visible ? null : <Badge variant="outline">Hidden</Badge>}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No social links</p>
+        )}
+      </div>
+
       <Button onClick={() => onModeChange('edit')}>
         <Pencil className="mr-2 h-4 w-4" />
         Edit Settings
@@ -2071,12 +2051,17 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
 
   const {
     bootstrap,
+    access,
     generateUploadUrl,
     resolveStorageUrl,
     reorderExperiences,
-    reorderProjects,
+    reorderItems,
     batchSaveTechnologies,
+    publishStatus,
+    publishPortfolio,
   } = useAdminDashboardController();
+  const isOwner = access?.isOwner ?? false;
+  const unreadMessageCount = useUnreadContactMessageCount(isOwner);
 
   const [activeSectionId, setActiveSectionId] = useState<SectionId>('site-settings');
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
@@ -2087,8 +2072,9 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     undefined,
   );
   const [isSavingExperienceLayout, setIsSavingExperienceLayout] = useState(false);
-  const [projectDraftOrderIds, setProjectDraftOrderIds] = useState<ProjectDraftOrder>(null);
-  const [isSavingProjectOrder, setIsSavingProjectOrder] = useState(false);
+  const [sectionOrderDrafts, setSectionOrderDrafts] = useState<Record<string, string[]>>({});
+  const [isSavingSectionOrder, setIsSavingSectionOrder] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
   const [techDraftItems, setTechDraftItems] = useState<TechDraftItem[] | null>(null);
   const [isSavingTechBatch, setIsSavingTechBatch] = useState(false);
   const [pendingSectionId, setPendingSectionId] = useState<SectionId | null>(null);
@@ -2100,6 +2086,12 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     setMobileInspectorOpen(false);
   }, [activeSectionId]);
 
+  useEffect(() => {
+    if (access && !access.isOwner && OWNER_ONLY_SECTIONS.includes(activeSectionId)) {
+      setActiveSectionId(EDITOR_DEFAULT_SECTION);
+    }
+  }, [access, activeSectionId]);
+
   useEffect(() => {
     if (isDesktop) {
       setMobileInspectorOpen(false);
@@ -2125,16 +2117,6 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     return null;
   }, [sortedExperiences]);
 
-  const sortedProjects = useMemo(() => sortByOrder(data.projects), [data.projects]);
-  const canonicalProjectOrderIds = useMemo(
-    () => sortedProjects.map((item) => asId(item._id)),
-    [sortedProjects],
-  );
-  const projectsById = useMemo(
-    () => new Map(sortedProjects.map((item) => [asId(item._id), item])),
-    [sortedProjects],
-  );
-
   useEffect(() => {
     setExperienceDraftOrderIds((current) => {
       const reconciled = reconcileDraftOrder(current, canonicalExperienceOrderIds);
@@ -2163,19 +2145,6 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     });
   }, [canonicalCurrentExperienceId, experiencesById]);
 
-  useEffect(() => {
-    setProjectDraftOrderIds((current) => {
-      const reconciled = reconcileDraftOrder(current, canonicalProjectOrderIds);
-      if (reconciled === null) {
-        return null;
-      }
-      if (current && areSameIdOrder(current, reconciled)) {
-        return current;
-      }
-      return areSameIdOrder(reconciled, canonicalProjectOrderIds) ? null : reconciled;
-    });
-  }, [canonicalProjectOrderIds]);
-
   const hasExperienceOrderChanges = useMemo(() => {
     if (!experienceDraftOrderIds) {
       return false;
@@ -2222,35 +2191,6 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     return ordered;
   }, [experienceDraftOrderIds, experiencesById, sortedExperiences]);
 
-  const hasProjectOrderChanges = useMemo(() => {
-    if (!projectDraftOrderIds) {
-      return false;
-    }
-    return !areSameIdOrder(projectDraftOrderIds, canonicalProjectOrderIds);
-  }, [projectDraftOrderIds, canonicalProjectOrderIds]);
-
-  const effectiveProjectItems = useMemo(() => {
-    if (!projectDraftOrderIds || projectDraftOrderIds.length === 0) {
-      return sortedProjects;
-    }
-
-    const ordered = projectDraftOrderIds
-      .map((id) => projectsById.get(id))
-      .filter((item): item is AdminEntity => Boolean(item));
-
-    if (ordered.length !== sortedProjects.length) {
-      const orderedIdSet = new Set(ordered.map((item) => asId(item._id)));
-      for (const item of sortedProjects) {
-        const id = asId(item._id);
-        if (!orderedIdSet.has(id)) {
-          ordered.push(item);
-        }
-      }
-    }
-
-    return ordered;
-  }, [projectDraftOrderIds, projectsById, sortedProjects]);
-
   const sortedTechnologies = useMemo(() => sortByOrder(data.technologies), [data.technologies]);
 
   const canonicalTechItems = useMemo<TechDraftItem[]>(
@@ -2267,7 +2207,7 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     [sortedTechnologies],
   );
 
-  const effectiveTechItems = useMemo(
+  const effectiveTechItems = useMemo<Array<TechDraftItem & AdminEntity>>(
     () => (techDraftItems ?? canonicalTechItems).filter((item) => !item._isDeleted),
     [techDraftItems, canonicalTechItems],
   );
@@ -2377,6 +2317,47 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     setIsDiscardTechChangesDialogOpen(false);
   }, []);
 
+  const techOrderGroups = useMemo(() => {
+    const savedCategoryById = new Map(canonicalTechItems.map((item) => [item._id, item.category]));
+    const groups = new Map<string, TechDraftItem[]>();
+    const newItems: TechDraftItem[] = [];
+
+    for (const item of effectiveTechItems) {
+      const category = savedCategoryById.get(item._id);
+      if (category === undefined) {
+        newItems.push(item);
+        continue;
+      }
+      groups.set(category, [...(groups.get(category) ?? []), item]);
+    }
+
+    return {
+      groups: [...groups.entries()]
+        .sort(([left], [right]) => left.localeCompare(right))
+        .map(([category, items]) => ({
+          category,
+          label: TECHNOLOGY_CATEGORY_OPTIONS.find((option) => option.value === category)?.label ?? category,
+          items: sortByOrder(items),
+        })),
+      newItems,
+    };
+  }, [canonicalTechItems, effectiveTechItems]);
+
+  const handleTechReorder = useCallback(
+    (nextIds: string[]) => {
+      ensureTechDraft();
+      setTechDraftItems((prev) => {
+        if (!prev) return prev;
+        const positions = new Map(nextIds.map((id, index) => [id, index + 1]));
+        return prev.map((item) => {
+          const order = positions.get(item._id);
+          return order === undefined ? item : { ...item, order };
+        });
+      });
+    },
+    [ensureTechDraft],
+  );
+
   const saveTechBatch = useCallback(async () => {
     if (!techDraftItems || !hasTechChanges) return;
 
@@ -2437,7 +2418,11 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
       const result = await batchSaveTechnologies({ creates, updates, deletes });
       toast({
         title: 'Technologies saved',
-        description: `Created ${result.createdCount}, updated ${result.updatedCount}, deleted ${result.deletedCount}.`,
+        description:
+          `Created ${result.createdCount}, updated ${result.updatedCount}, deleted ${result.deletedCount}.` +
+          (result.referenceUpdateCount > 0
+            ? ` Renamed references in ${result.referenceUpdateCount} project(s) and experience(s).`
+            : ''),
       });
       setTechDraftItems(null);
     } catch (err) {
@@ -2520,12 +2505,13 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
         createMutation: adminApi.createExperience,
         updateMutation: adminApi.updateExperience,
         deleteMutation: adminApi.deleteExperience,
+        revisionTable: 'experiences',
         fields: [
           { key: 'company', label: 'Company', type: 'text', required: true },
           { key: 'role', label: 'Role', type: 'text', required: true },
           { key: 'duration', label: 'Duration', type: 'text', required: true },
           { key: 'location', label: 'Location', type: 'text', required: true },
-          { key: 'description', label: 'Description', type: 'textarea', required: true },
+          { key: 'description', label: 'Description', type: 'textarea', required: true, markdown: true },
           { key: 'technologies', label: 'Technologies (comma-separated)', type: 'csv', required: true },
           { key: 'order', label: 'Display Order', type: 'number', required: true },
         ],
@@ -2541,10 +2527,12 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
         createMutation: adminApi.createProject,
         updateMutation: adminApi.updateProject,
         deleteMutation: adminApi.deleteProject,
+        revisionTable: 'projects',
         fields: [
           { key: 'title', label: 'Title', type: 'text', required: true },
+          { key: 'slug', label: 'URL Slug (blank to generate from title)', type: 'text' },
           { key: 'description', label: 'Short Description', type: 'textarea', required: true },
-          { key: 'longDescription', label: 'Long Description', type: 'textarea' },
+          { key: 'longDescription', label: 'Long Description', type: 'textarea', markdown: true },
           { key: 'categories', label: 'Categories (comma-separated)', type: 'csv', required: true },
           { key: 'techStack', label: 'Tech Stack (comma-separated)', type: 'csv', required: true },
           { key: 'features', label: 'Features (one per line)', type: 'list' },
@@ -2558,6 +2546,7 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
           { key: 'order', label: 'Display Order', type: 'number', required: true },
         ],
         mediaFields: [{ key: 'image', label: 'Project Cover Image', kind: 'image' }],
+        galleryFields: [{ key: 'media', label: 'Gallery' }],
       },
       languages: {
         id: 'languages',
@@ -2669,7 +2658,7 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
           { key: 'categoryId', label: 'Category', type: 'select', required: true, options: aboutCategoryOptions },
           { key: 'title', label: 'Title', type: 'text', required: true },
           { key: 'subtitle', label: 'Subtitle', type: 'text' },
-          { key: 'description', label: 'Description', type: 'textarea' },
+          { key: 'description', label: 'Description', type: 'textarea', markdown: true },
           { key: 'date', label: 'Date', type: 'text' },
           { key: 'details', label: 'Details (one per line)', type: 'list' },
           { key: 'icon', label: 'Icon Name', type: 'text', required: true },
@@ -2681,7 +2670,8 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     [data, providerOptions, aboutCategoryOptions],
   );
 
-  const activeEntityConfig = activeSectionId === 'site-settings' ? null : sectionConfigs[activeSectionId];
+  const activeEntityConfig =
+    activeSectionId === 'site-settings' || isUtilitySection(activeSectionId) ? null : sectionConfigs[activeSectionId];
   const activeItems = useMemo(
     () => (activeEntityConfig ? getSectionItems(activeEntityConfig.id, data) : []),
     [activeEntityConfig, data],
@@ -2692,16 +2682,111 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     [activeItems],
   );
 
+  const orderGroups = useMemo<OrderGroup[]>(() => {
+    if (!isOrderedSection(activeSectionId)) {
+      return [];
+    }
+
+    const scopeField = SECTION_ORDER_SCOPE_FIELDS[activeSectionId];
+    const scopeOptions = scopeField === 'providerId' ? providerOptions : aboutCategoryOptions;
+    const scopeRank = (scope: string) => {
+      const index = scopeOptions.findIndex((option) => option.value === scope);
+      return index < 0 ? Number.MAX_SAFE_INTEGER : index;
+    };
+    const scopes =
+      scopeField === undefined
+        ? [undefined]
+        : [...new Set(sortedItems.map((item) => asText(item[scopeField])))].sort(
+            (left, right) => scopeRank(left) - scopeRank(right),
+          );
+
+    return scopes.map((scope) => {
+      const key = `${activeSectionId}:${scope ?? ''}`;
+      const scopeItems =
+        scopeField === undefined ? sortedItems : sortedItems.filter((item) => asText(item[scopeField]) === scope);
+      const canonicalIds = scopeItems.map((item) => asId(item._id));
+      const draftIds = reconcileDraftOrder(sectionOrderDrafts[key] ?? null, canonicalIds) ?? canonicalIds;
+      const itemsById = new Map(scopeItems.map((item) => [asId(item._id), item]));
+
+      return {
+        key,
+        scope,
+        label:
+          scope === undefined
+            ? null
+            : (scopeOptions.find((option) => option.value === scope)?.label ?? 'Unassigned'),
+        items: draftIds
+          .map((id) => itemsById.get(id))
+          .filter((item): item is AdminEntity => Boolean(item)),
+        hasChanges: !areSameIdOrder(draftIds, canonicalIds),
+      };
+    });
+  }, [activeSectionId, aboutCategoryOptions, providerOptions, sectionOrderDrafts, sortedItems]);
+
+  const hasSectionOrderChanges = orderGroups.some((group) => group.hasChanges);
+
+  const handleSectionReorder = useCallback((groupKey: string, nextIds: string[]) => {
+    setSectionOrderDrafts((current) => ({ ...current, [groupKey]: nextIds }));
+  }, []);
+
+  const resetSectionOrderDraft = useCallback(() => {
+    setSectionOrderDrafts((current) =>
+      Object.fromEntries(Object.entries(current).filter(([key]) => !key.startsWith(`${activeSectionId}:`))),
+    );
+  }, [activeSectionId]);
+
+  const saveSectionOrder = useCallback(async () => {
+    if (!isOrderedSection(activeSectionId)) {
+      return;
+    }
+
+    const changedGroups = orderGroups.filter((group) => group.hasChanges);
+    if (changedGroups.length === 0) {
+      return;
+    }
+
+    setIsSavingSectionOrder(true);
+    try {
+      let updatedCount = 0;
+      for (const group of changedGroups) {
+        const result = await reorderItems({
+          table: SECTION_ORDER_TABLES[activeSectionId],
+          scope: group.scope,
+          items: group.items.map((item, index) => ({ id: asId(item._id), order: index + 1 })),
+        });
+        updatedCount += result.updatedCount;
+        setSectionOrderDrafts((current) => {
+          const next = { ...current };
+          delete next[group.key];
+          return next;
+        });
+      }
+
+      toast({
+        title: 'Order saved',
+        description: `Updated ${updatedCount} items.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Unable to save order',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingSectionOrder(false);
+    }
+  }, [activeSectionId, orderGroups, reorderItems, toast]);
+
   const displayItems = useMemo(
     () =>
-      activeSectionId === 'projects'
-        ? effectiveProjectItems
-        : activeSectionId === 'experiences'
-          ? effectiveExperienceItems
-          : activeSectionId === 'technologies'
-            ? effectiveTechItems as unknown as AdminEntity[]
+      activeSectionId === 'experiences'
+        ? effectiveExperienceItems
+        : activeSectionId === 'technologies'
+          ? effectiveTechItems
+          : isOrderedSection(activeSectionId)
+            ? orderGroups.flatMap((group) => group.items)
             : sortedItems,
-    [activeSectionId, effectiveExperienceItems, effectiveProjectItems, effectiveTechItems, sortedItems],
+    [activeSectionId, effectiveExperienceItems, effectiveTechItems, orderGroups, sortedItems],
   );
 
   const selectedItem = useMemo(
@@ -2709,11 +2794,37 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     [displayItems, selectedItemId],
   );
 
-  const sectionTitle = activeSectionId === 'site-settings' ? 'Site Settings' : activeEntityConfig?.title ?? 'Section';
+  const sectionTitle =
+    activeSectionId === 'site-settings'
+      ? 'Site Settings'
+      : isUtilitySection(activeSectionId)
+        ? UTILITY_SECTION_COPY[activeSectionId].title
+        : activeEntityConfig?.title ?? 'Section';
   const sectionDescription =
     activeSectionId === 'site-settings'
       ? 'Manage global branding assets and metadata used across the site.'
-      : activeEntityConfig?.description ?? '';
+      : isUtilitySection(activeSectionId)
+        ? UTILITY_SECTION_COPY[activeSectionId].description
+        : activeEntityConfig?.description ?? '';
+
+  const resolveAuditDocumentLabel = useCallback(
+    (table: AuditedTable, documentId: string) => {
+      if (table === 'siteSettings') {
+        return asText(data.siteSettings?.siteName, 'Site Settings');
+      }
+
+      const sectionId = CONTENT_TABLE_SECTIONS[table];
+      const item = getSectionItems(sectionId, data).find((entry) => asId(entry._id) === documentId);
+      return item ? getCardTitle(sectionId, item, lookupContext) : null;
+    },
+    [data, lookupContext],
+  );
+
+  const getTrashItemLabel = useCallback(
+    (entry: TrashEntry) =>
+      getCardTitle(CONTENT_TABLE_SECTIONS[entry.table], { ...entry.doc, _id: entry.id }, lookupContext),
+    [lookupContext],
+  );
 
   const closeInspector = useCallback(() => {
     setPanelMode('view');
@@ -2780,14 +2891,6 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     setExperienceDraftCurrentRoleId(undefined);
   }, []);
 
-  const handleProjectReorder = useCallback((nextIds: string[]) => {
-    setProjectDraftOrderIds(nextIds);
-  }, []);
-
-  const resetProjectOrderDraft = useCallback(() => {
-    setProjectDraftOrderIds(null);
-  }, []);
-
   const saveExperienceLayout = useCallback(async () => {
     if (!hasExperienceChanges) {
       return;
@@ -2830,37 +2933,37 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     toast,
   ]);
 
-  const saveProjectOrder = useCallback(async () => {
-    if (!hasProjectOrderChanges || !projectDraftOrderIds) {
-      return;
-    }
-
-    setIsSavingProjectOrder(true);
-    try {
-      const payload: ReorderItem[] = projectDraftOrderIds.map((id, index) => ({
-        id,
-        order: index + 1,
-      }));
+  const adminTabs = useMemo(
+    () =>
+      ADMIN_TABS.filter((tab) => isOwner || !OWNER_ONLY_SECTIONS.includes(tab.id)).map((tab) =>
+        tab.id === 'inbox' && unreadMessageCount > 0 ? { ...tab, label: `${tab.label} (${unreadMessageCount})` } : tab,
+      ),
+    [isOwner, unreadMessageCount],
+  );
 
-      const result = await reorderProjects({
-        items: payload.map((item) => ({ id: item.id as Id<'projects'>, order: item.order })),
-      });
+  const unpublishedSectionIds = useMemo(
+    () => [...new Set((publishStatus?.unpublishedTables ?? []).map(getTableSectionId))],
+    [publishStatus],
+  );
 
-      setProjectDraftOrderIds(null);
+  const publishChanges = useCallback(async () => {
+    setIsPublishing(true);
+    try {
+      await publishPortfolio({});
       toast({
-        title: 'Project order saved',
-        description: `Updated ${result.updatedCount} projects.`,
+        title: 'Changes published',
+        description: 'The public site will pick up the new content on its next revalidation.',
       });
     } catch (error) {
       toast({
-        title: 'Unable to save project order',
+        title: 'Unable to publish changes',
         description: error instanceof Error ? error.message : 'Please try again.',
         variant: 'destructive',
       });
     } finally {
-      setIsSavingProjectOrder(false);
+      setIsPublishing(false);
     }
-  }, [hasProjectOrderChanges, projectDraftOrderIds, reorderProjects, toast]);
+  }, [publishPortfolio, toast]);
 
   const isSiteSettingsSection = activeSectionId === 'site-settings';
   const desktopInspectorOpen = useMemo(
@@ -2880,7 +2983,7 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     [hasTechChanges],
   );
 
-  if (!bootstrap) {
+  if (!bootstrap || !access) {
     return (
       <div className="min-h-screen bg-background px-6 py-10 text-foreground">
         <div className="container mx-auto">Loading admin dashboard...</div>
@@ -2914,7 +3017,16 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
       />
     ) : null;
 
-  const cardList = isSiteSettingsSection ? (
+  const cardList = activeSectionId === 'inbox' ? (
+    <AdminInbox />
+  ) : activeSectionId === 'activity' ? (
+    <AdminActivityLog resolveDocumentLabel={resolveAuditDocumentLabel} />
+  ) : activeSectionId === 'trash' ? (
+    <div className="space-y-4">
+      <StorageUsageSummary />
+      <AdminTrash getItemLabel={getTrashItemLabel} />
+    </div>
+  ) : isSiteSettingsSection ? (
     data.siteSettings ? (
       <button
         type="button"
@@ -2953,36 +3065,7 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
       />
     )
   ) : activeEntityConfig ? (
-    activeEntityConfig.id === 'projects' ? (
-      displayItems.length === 0 ? (
-        <EmptyState
-          title={activeEntityConfig.emptyTitle}
-          description={activeEntityConfig.emptyDescription}
-          onCreate={openCreate}
-        />
-      ) : (
-        <div className="space-y-4">
-          <ProjectOrderToolbar
-            hasChanges={hasProjectOrderChanges}
-            isSaving={isSavingProjectOrder}
-            onReset={resetProjectOrderDraft}
-            onSave={() => {
-              void saveProjectOrder();
-            }}
-          />
-
-          <SortableProjectGrid
-            items={displayItems}
-            selectedItemId={selectedItemId}
-            context={lookupContext}
-            onOpen={openView}
-            onEdit={openEdit}
-            onDelete={openDelete}
-            onReorder={handleProjectReorder}
-          />
-        </div>
-      )
-    ) : activeEntityConfig.id === 'experiences' ? (
+    activeEntityConfig.id === 'experiences' ? (
       displayItems.length === 0 ? (
         <EmptyState
           title={activeEntityConfig.emptyTitle}
@@ -3003,15 +3086,25 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
             }}
           />
 
-          <SortableExperienceGrid
-            items={displayItems}
-            selectedItemId={selectedItemId}
-            context={lookupContext}
-            onOpen={openView}
-            onEdit={openEdit}
-            onDelete={openDelete}
-            onReorder={handleExperienceReorder}
-          />
+          <SortableGrid ids={displayItems.map((item) => asId(item._id))} onReorder={handleExperienceReorder}>
+            {displayItems.map((item, index) => (
+              <SortableGridItem key={asId(item._id)} id={asId(item._id)} label={asText(item.role, 'experience')}>
+                {(dragHandle) => (
+                  <SectionCard
+                    sectionId="experiences"
+                    item={item}
+                    context={lookupContext}
+                    isSelected={selectedItemId === asId(item._id)}
+                    orderLabel={String(index + 1)}
+                    dragHandle={dragHandle}
+                    onOpen={openView}
+                    onEdit={openEdit}
+                    onDelete={openDelete}
+                  />
+                )}
+              </SortableGridItem>
+            ))}
+          </SortableGrid>
         </div>
       )
     ) : activeEntityConfig.id === 'technologies' ? (
@@ -3030,32 +3123,102 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
             onCreate={addTechDraftItem}
           />
         ) : (
-          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
-            {effectiveTechItems.map((item) => (
-              <TechEditableCard
-                key={item._id}
-                item={item}
-                onFieldChange={updateTechField}
-                onToggleExpand={toggleTechExpand}
-                onDelete={deleteTechDraftItem}
-                generateUploadUrl={generateUploadUrl}
-                resolveStorageUrl={resolveStorageUrl}
-              />
+          <>
+            {techOrderGroups.groups.map((group) => (
+              <section key={group.category} className="space-y-3">
+                <h3 className="text-xs font-mono uppercase tracking-wider text-muted-foreground">{group.label}</h3>
+                <SortableGrid ids={group.items.map((item) => item._id)} onReorder={handleTechReorder}>
+                  {group.items.map((item) => (
+                    <SortableGridItem key={item._id} id={item._id} label={item.name || 'technology'}>
+                      {(dragHandle) => (
+                        <TechEditableCard
+                          item={item}
+                          dragHandle={dragHandle}
+                          onFieldChange={updateTechField}
+                          onToggleExpand={toggleTechExpand}
+                          onDelete={deleteTechDraftItem}
+                          generateUploadUrl={generateUploadUrl}
+                          resolveStorageUrl={resolveStorageUrl}
+                        />
+                      )}
+                    </SortableGridItem>
+                  ))}
+                </SortableGrid>
+              </section>
             ))}
-          </div>
+            {techOrderGroups.newItems.length > 0 ? (
+              <section className="space-y-3">
+                <h3 className="text-xs font-mono uppercase tracking-wider text-muted-foreground">New technologies</h3>
+                <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                  {techOrderGroups.newItems.map((item) => (
+                    <TechEditableCard
+                      key={item._id}
+                      item={item}
+                      onFieldChange={updateTechField}
+                      onToggleExpand={toggleTechExpand}
+                      onDelete={deleteTechDraftItem}
+                      generateUploadUrl={generateUploadUrl}
+                      resolveStorageUrl={resolveStorageUrl}
+                    />
+                  ))}
+                </div>
+              </section>
+            ) : null}
+          </>
         )}
       </div>
-    ) : (
-      <SectionCardGrid
-        config={activeEntityConfig}
-        items={displayItems}
-        selectedItemId={selectedItemId}
-        context={lookupContext}
+    ) : displayItems.length === 0 ? (
+      <EmptyState
+        title={activeEntityConfig.emptyTitle}
+        description={activeEntityConfig.emptyDescription}
         onCreate={openCreate}
-        onOpen={openView}
-        onEdit={openEdit}
-        onDelete={openDelete}
       />
+    ) : (
+      <div className="space-y-4">
+        <SectionOrderToolbar
+          title="Display order"
+          hasChanges={hasSectionOrderChanges}
+          isSaving={isSavingSectionOrder}
+          onReset={resetSectionOrderDraft}
+          onSave={() => {
+            void saveSectionOrder();
+          }}
+        />
+
+        {orderGroups.map((group) => (
+          <section key={group.key} className="space-y-3">
+            {group.label ? (
+              <h3 className="text-xs font-mono uppercase tracking-wider text-muted-foreground">{group.label}</h3>
+            ) : null}
+            <SortableGrid
+              ids={group.items.map((item) => asId(item._id))}
+              onReorder={(nextIds) => handleSectionReorder(group.key, nextIds)}
+            >
+              {group.items.map((item, index) => (
+                <SortableGridItem
+                  key={asId(item._id)}
+                  id={asId(item._id)}
+                  label={getCardTitle(activeEntityConfig.id, item, lookupContext)}
+                >
+                  {(dragHandle) => (
+                    <SectionCard
+                      sectionId={activeEntityConfig.id}
+                      item={item}
+                      context={lookupContext}
+                      isSelected={selectedItemId === asId(item._id)}
+                      orderLabel={String(index + 1)}
+                      dragHandle={dragHandle}
+                      onOpen={openView}
+                      onEdit={openEdit}
+                      onDelete={openDelete}
+                    />
+                  )}
+                </SortableGridItem>
+              ))}
+            </SortableGrid>
+          </section>
+        ))}
+      </div>
     )
   ) : null;
 
@@ -3063,7 +3226,7 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
     <>
       <AdminWorkspaceShell
         user={user}
-        tabs={ADMIN_TABS}
+        tabs={adminTabs}
         activeSectionId={activeSectionId}
         onSectionChange={handleSectionChange}
         sectionTitle={sectionTitle}
@@ -3077,11 +3240,28 @@ export default function AdminDashboard({ user }: { user: AdminUser }) {
         }}
         onCreateItem={activeSectionId === 'technologies' ? addTechDraftItem : openCreate}
         isSiteSettingsSection={isSiteSettingsSection}
+        canCreateItems={!isUtilitySection(activeSectionId)}
+        canTransferPortfolio={isOwner}
+        unpublishedSectionIds={unpublishedSectionIds}
+        lastPublishedAt={publishStatus?.lastPublishedAt ?? null}
+        isPublishing={isPublishing}
+        onPublish={() => {
+          void publishChanges();
+        }}
         hasSiteSettings={Boolean(data.siteSettings)}
-        cardList={cardList}
+        cardList={
+          TECH_REFERENCE_SECTIONS.includes(activeSectionId) ? (
+            <div className="space-y-4">
+              <OrphanedTechnologiesNotice />
+              {cardList}
+            </div>
+          ) : (
+            cardList
+          )
+        }
         inspector={
           <ItemInspectorPanel
-            open={activeSectionId === 'technologies' ? false : desktopInspectorOpen}
+            open={activeSectionId === 'technologies' || isUtilitySection(activeSectionId) ? false : desktopInspectorOpen}
             title={sectionTitle}
             description={sectionDescription}
           >
@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { Archive, ArchiveRestore, Loader2, Mail, MailOpen, Reply } from 'lucide-react';
+import { useAdminInbox } from '@/features/admin/hooks/useAdminInbox';
+import type { ContactMessage } from '@/features/admin/types';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+function getReplyHref(message: ContactMessage): string {
+  const quoted = message.message
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+  const params = new URLSearchParams({
+    subject: 'Re: your message from my portfolio',
+    body: `\n\nOn ${formatDate(message.createdAt)}, ${message.name} wrote:\n${quoted}`,
+  });
+  // URLSearchParams encodes spaces as "+", which mail clients show literally.
+  return `mailto:${message.email}?${params.toString().replace(/\+/g, '%20')}`;
+}
+
+export function AdminInbox() {
+  const { toast } = useToast();
+  const [showArchived, setShowArchived] = useState(false);
+  const { messages, isLoading, isLoadingMore, canLoadMore, loadMore, setRead, setArchived } =
+    useAdminInbox(showArchived);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const runAction = async (message: ContactMessage, action: () => Promise<unknown>) => {
+    setPendingId(message._id);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: 'Unable to update message',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="card-luxe flex flex-wrap items-center gap-2 p-4">
+        <Button
+          type="button"
+          size="sm"
+          variant={showArchived ? 'outline' : 'default'}
+          onClick={() => setShowArchived(false)}
+        >
+          Inbox
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={showArchived ? 'default' : 'outline'}
+          onClick={() => setShowArchived(true)}
+        >
+          Archived
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading messages...
+        </div>
+      ) : messages.length === 0 ? (
+        <div className="rounded-2xl border border-dashed border-border/70 bg-background-subtle/30 p-8 text-center">
+          <p className="font-display text-2xl text-foreground">
+            {showArchived ? 'No archived messages' : 'Inbox zero'}
+          </p>
+          <p className="mx-auto mt-2 max-w-lg text-sm text-muted-foreground">
+            Messages sent through the contact form on the public site show up here.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {messages.map((message) => {
+            const isUnread = message.readAt === undefined;
+            const isPending = pendingId === message._id;
+            const isArchived = message.archivedAt !== undefined;
+
+            return (
+              <article
+                key={message._id}
+                className={cn(
+                  'rounded-2xl border p-4',
+                  isUnread ? 'border-primary/50 bg-primary/5' : 'border-border/60 bg-background-subtle/30',
+                )}
+              >
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className={cn('text-foreground', isUnread ? 'font-semibold' : 'font-medium')}>
+                        {message.name}
+                      </p>
+                      {isUnread ? <Badge variant="outline">New</Badge> : null}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {message.email} · {formatDate(message.createdAt)}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button type="button" size="sm" asChild>
+                      <a
+                        href={getReplyHref(message)}
+                        onClick={() => {
+                          if (isUnread) {
+                            void runAction(message, () => setRead(message, true));
+                          }
+                        }}
+                      >
+                        <Reply className="mr-2 h-3.5 w-3.5" />
+                        Reply
+                      </a>
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      disabled={isPending}
+                      onClick={() => {
+                        void runAction(message, () => setRead(message, isUnread));
+                      }}
+                    >
+                      {isUnread ? <MailOpen className="mr-2 h-3.5 w-3.5" /> : <Mail className="mr-2 h-3.5 w-3.5" />}
+                      {isUnread ? 'Mark read' : 'Mark unread'}
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      disabled={isPending}
+                      onClick={() => {
+                        void runAction(message, () => setArchived(message, !isArchived));
+                      }}
+                    >
+                      {isPending ? (
+                        <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                      ) : isArchived ? (
+                        <ArchiveRestore className="mr-2 h-3.5 w-3.5" />
+                      ) : (
+                        <Archive className="mr-2 h-3.5 w-3.5" />
+                      )}
+                      {isArchived ? 'Move to inbox' : 'Archive'}
+                    </Button>
+                  </div>
+                </div>
+
+                <p className="mt-3 whitespace-pre-wrap text-sm text-foreground/90">{message.message}</p>
+              </article>
+            );
+          })}
+
+          {canLoadMore || isLoadingMore ? (
+            <div className="flex justify-center">
+              <Button type="button" variant="outline" disabled={isLoadingMore} onClick={loadMore}>
+                {isLoadingMore ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                {isLoadingMore ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { CONTENT_TABLE_LABELS } from '@/features/admin/config/sectionConfigs';
+import { useAdminTrash } from '@/features/admin/hooks/useAdminTrash';
+import type { TrashEntry } from '@/features/admin/types';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+export type AdminTrashProps = {
+  getItemLabel: (entry: TrashEntry) => string;
+};
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+export function AdminTrash({ getItemLabel }: AdminTrashProps) {
+  const { toast } = useToast();
+  const { entries, isLoading, restore, deletePermanently } = useAdminTrash();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const runAction = async (entry: TrashEntry, action: 'restore' | 'delete') => {
+    setPendingId(entry.id);
+    try {
+      if (action === 'restore') {
+        const result = await restore(entry);
+        toast({
+          title: 'Item restored',
+          description:
+            result.restoredCount > 1
+              ? `${getItemLabel(entry)} and ${result.restoredCount - 1} linked item(s) are back.`
+              : `${getItemLabel(entry)} is back.`,
+        });
+      } else {
+        await deletePermanently(entry);
+        setConfirmDeleteId(null);
+        toast({ title: 'Item deleted permanently', description: getItemLabel(entry) });
+      }
+    } catch (error) {
+      toast({
+        title: action === 'restore' ? 'Unable to restore item' : 'Unable to delete item',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (isLoading || !entries) {
+    return (
+      <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading trash...
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="rounded-2xl border border-dashed border-border/70 bg-background-subtle/30 p-8 text-center">
+        <p className="font-display text-2xl text-foreground">Trash is empty</p>
+        <p className="mx-auto mt-2 max-w-lg text-sm text-muted-foreground">
+          Deleted items land here and can be restored until they are purged automatically.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => {
+        const isPending = pendingId === entry.id;
+        const isConfirmingDelete = confirmDeleteId === entry.id;
+
+        return (
+          <article
+            key={`${entry.table}:${entry.id}`}
+            className="rounded-2xl border border-border/60 bg-background-subtle/30 p-4"
+          >
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div className="space-y-1">
+                <Badge variant="outline">{CONTENT_TABLE_LABELS[entry.table]}</Badge>
+                <p className="font-display text-lg leading-tight text-foreground">{getItemLabel(entry)}</p>
+                <p className="text-xs text-muted-foreground">
+                  Deleted {formatDate(entry.deletedAt)} · Purged after {formatDate(entry.purgeAt)}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                {isConfirmingDelete ? (
+                  <>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="destructive"
+                      disabled={isPending}
+                      onClick={() => {
+                        void runAction(entry, 'delete');
+                      }}
+                    >
+                      {isPending ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" /> : null}
+                      Confirm delete
+                    </Button>
+                    <Button type="button" size="sm" variant="outline" onClick={() => setConfirmDeleteId(null)}>
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      type="button"
+                      size="sm"
+                      disabled={isPending}
+                      onClick={() => {
+                        void runAction(entry, 'restore');
+                      }}
+                    >
+                      {isPending ? (
+                        <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <RotateCcw className="mr-2 h-3.5 w-3.5" />
+                      )}
+                      Restore
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      className="border-destructive/60 text-destructive hover:bg-destructive/10"
+                      disabled={isPending}
+                      onClick={() => setConfirmDeleteId(entry.id)}
+                    >
+                      <Trash2 className="mr-2 h-3.5 w-3.5" />
+                      Delete forever
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          </article>
+        );
+      })}
+    </div>
+  );
+}
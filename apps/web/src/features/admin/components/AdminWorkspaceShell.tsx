@@ -2,10 +2,11 @@
 
 import { useState, type ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
-import { LogOut, Pencil, Plus } from 'lucide-react';
+import { Eye, Loader2, LogOut, Pencil, Plus, Send } from 'lucide-react';
 import { auth } from '@/lib/auth';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { PortfolioTransferControls } from '@/features/admin/components/PortfolioTransferControls';
 import type { AdminUser, SectionId } from '@/features/admin/types';
 
 export type AdminWorkspaceShellProps = {
@@ -18,7 +19,13 @@ export type AdminWorkspaceShellProps = {
   onCreateOrEditSettings: () => void;
   onCreateItem: () => void;
   isSiteSettingsSection: boolean;
+  canCreateItems?: boolean;
+  unpublishedSectionIds: SectionId[];
+  lastPublishedAt: number | null;
+  isPublishing: boolean;
+  onPublish: () => void;
   hasSiteSettings: boolean;
+  canTransferPortfolio: boolean;
   cardList: ReactNode;
   inspector: ReactNode;
 };
@@ -33,12 +40,19 @@ export function AdminWorkspaceShell({
   onCreateOrEditSettings,
   onCreateItem,
   isSiteSettingsSection,
+  canCreateItems = true,
+  unpublishedSectionIds,
+  lastPublishedAt,
+  isPublishing,
+  onPublish,
   hasSiteSettings,
+  canTransferPortfolio,
   cardList,
   inspector,
 }: AdminWorkspaceShellProps) {
   const router = useRouter();
   const [isLoggingOut, setIsLoggingOut] = useState(false);
+  const hasUnpublishedChanges = unpublishedSectionIds.length > 0;
 
   return (
     <div className="min-h-screen bg-background text-foreground">
@@ -49,30 +63,51 @@ export function AdminWorkspaceShell({
             <h1 className="font-display text-3xl">Portfolio Control Center</h1>
             <p className="text-sm text-muted-foreground">Signed in as {user.email ?? 'Unknown user'}</p>
           </div>
-          <Button
-            variant="outline"
-            className="border-border/60 hover:border-primary/50"
-            disabled={isLoggingOut}
-            onClick={async () => {
-              if (isLoggingOut) {
-                return;
-              }
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <div className="text-right text-xs text-muted-foreground">
+              <p>
+                {hasUnpublishedChanges
+                  ? `${unpublishedSectionIds.length} section(s) with unpublished changes`
+                  : 'All changes published'}
+              </p>
+              <p>{lastPublishedAt ? `Last published ${new Date(lastPublishedAt).toLocaleString()}` : 'Never published'}</p>
+            </div>
+            {canTransferPortfolio ? <PortfolioTransferControls /> : null}
+            <Button variant="outline" className="border-border/60 hover:border-primary/50" asChild>
+              <a href="/api/preview" target="_blank" rel="noreferrer">
+                <Eye className="mr-2 h-4 w-4" />
+                Preview
+              </a>
+            </Button>
+            <Button disabled={!hasUnpublishedChanges || isPublishing} onClick={onPublish}>
+              {isPublishing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              {isPublishing ? 'Publishing...' : 'Publish'}
+            </Button>
+            <Button
+              variant="outline"
+              className="border-border/60 hover:border-primary/50"
+              disabled={isLoggingOut}
+              onClick={async () => {
+                if (isLoggingOut) {
+                  return;
+                }
 
-              setIsLoggingOut(true);
-              try {
-                await auth.client.logout();
-              } catch (error) {
-                console.error('WAY Auth logout failed:', error);
-              } finally {
-                router.push('/admin/login');
-                router.refresh();
-                setIsLoggingOut(false);
-              }
-            }}
-          >
-            <LogOut className="mr-2 h-4 w-4" />
-            {isLoggingOut ? 'Signing out...' : 'Sign out'}
-          </Button>
+                setIsLoggingOut(true);
+                try {
+                  await auth.client.logout();
+                } catch (error) {
+                  console.error('WAY Auth logout failed:', error);
+                } finally {
+                  router.push('/admin/login');
+                  router.refresh();
+                  setIsLoggingOut(false);
+                }
+              }}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              {isLoggingOut ? 'Signing out...' : 'Sign out'}
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -92,7 +127,12 @@ export function AdminWorkspaceShell({
                 aria-current={activeSectionId === tab.id ? 'page' : undefined}
                 onClick={() => onSectionChange(tab.id)}
               >
-                {tab.label}
+                <span className="flex items-center justify-between gap-2">
+                  {tab.label}
+                  {unpublishedSectionIds.includes(tab.id) ? (
+                    <span className="h-2 w-2 rounded-full bg-amber-500" aria-label="Unpublished changes" />
+                  ) : null}
+                </span>
               </button>
             ))}
           </nav>
@@ -111,12 +151,12 @@ export function AdminWorkspaceShell({
                   <Pencil className="mr-2 h-4 w-4" />
                   {hasSiteSettings ? 'Edit Settings' : 'Create Settings'}
                 </Button>
-              ) : (
+              ) : canCreateItems ? (
                 <Button onClick={onCreateItem}>
                   <Plus className="mr-2 h-4 w-4" />
                   Create Item
                 </Button>
-              )}
+              ) : null}
             </div>
           </section>
 
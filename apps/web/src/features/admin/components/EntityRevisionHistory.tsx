@@ -0,0 +1,151 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ArrowLeft, Loader2, RotateCcw, X } from 'lucide-react';
+import { useEntityRevisions } from '@/features/admin/hooks/useEntityRevisions';
+import { diffRevisionFields, formatRevisionValue } from '@/features/admin/lib/revisionDiff';
+import { asId } from '@/features/admin/lib/normalizers';
+import type { AdminEntity, RevisionEntry, RevisionTable } from '@/features/admin/types';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+export type EntityRevisionHistoryProps = {
+  table: RevisionTable;
+  item: AdminEntity;
+  title: string;
+  onBack: () => void;
+  onClose: () => void;
+};
+
+function formatRevisionTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+export function EntityRevisionHistory({ table, item, title, onBack, onClose }: EntityRevisionHistoryProps) {
+  const { revisions, isLoading, restore } = useEntityRevisions(table, asId(item._id));
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedRevision = useMemo<RevisionEntry | null>(
+    () => revisions?.find((revision) => revision._id === selectedRevisionId) ?? revisions?.[0] ?? null,
+    [revisions, selectedRevisionId],
+  );
+
+  const changes = useMemo(
+    () => (selectedRevision ? diffRevisionFields(selectedRevision.snapshot as Record<string, unknown>, item) : []),
+    [item, selectedRevision],
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="font-display text-xl text-foreground">History</h3>
+          <p className="text-sm text-muted-foreground">{title}</p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading revisions...
+        </div>
+      ) : !revisions || revisions.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border/60 p-6 text-center">
+          <p className="font-display text-lg text-foreground">No revisions yet</p>
+          <p className="mt-2 text-sm text-muted-foreground">A revision is saved every time this item is edited.</p>
+        </div>
+      ) : (
+        <>
+          <ul className="max-h-56 space-y-2 overflow-y-auto pr-1">
+            {revisions.map((revision, index) => (
+              <li key={revision._id}>
+                <button
+                  type="button"
+                  className={cn(
+                    'w-full rounded-lg border px-3 py-2 text-left text-sm transition-colors',
+                    selectedRevision?._id === revision._id
+                      ? 'border-primary/60 bg-primary/5'
+                      : 'border-border/60 bg-background-subtle/30 hover:border-primary/30',
+                  )}
+                  onClick={() => setSelectedRevisionId(revision._id)}
+                >
+                  <span className="flex items-center justify-between gap-2">
+                    <span className="text-foreground">{formatRevisionTimestamp(revision.createdAt)}</span>
+                    {index === 0 ? <Badge variant="outline">Previous</Badge> : null}
+                  </span>
+                  <span className="mt-0.5 block text-xs text-muted-foreground">
+                    {revision.actorEmail ?? revision.actorSubject}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selectedRevision ? (
+            <div className="rounded-xl border border-border/60 bg-background-subtle/40 p-4">
+              <p className="mb-3 text-xs font-mono uppercase tracking-wider text-muted-foreground">
+                Revision vs current
+              </p>
+              {changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This revision matches the current version.</p>
+              ) : (
+                <dl className="space-y-3 text-sm">
+                  {changes.map((change) => (
+                    <div key={change.field}>
+                      <dt className="font-mono text-xs text-muted-foreground">{change.field}</dt>
+                      <dd className="mt-1 space-y-1 break-words">
+                        <p className="text-destructive/80">− {formatRevisionValue(change.current)}</p>
+                        <p className="text-emerald-500">+ {formatRevisionValue(change.revision)}</p>
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </div>
+          ) : null}
+        </>
+      )}
+
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+      <div className="flex items-center gap-2">
+        <Button
+          disabled={!selectedRevision || changes.length === 0 || isRestoring}
+          onClick={async () => {
+            if (!selectedRevision) {
+              return;
+            }
+
+            setError(null);
+            setIsRestoring(true);
+            try {
+              await restore(selectedRevision._id);
+              setSelectedRevisionId(null);
+              onBack();
+            } catch (restoreError) {
+              setError(restoreError instanceof Error ? restoreError.message : 'Failed to restore revision.');
+            } finally {
+              setIsRestoring(false);
+            }
+          }}
+        >
+          {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+          {isRestoring ? 'Restoring...' : 'Restore this version'}
+        </Button>
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+      </div>
+    </div>
+  );
+}
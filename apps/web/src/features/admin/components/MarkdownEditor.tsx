@@ -0,0 +1,123 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { Eye, EyeOff, ImagePlus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+const MarkdownPreview = dynamic(() => import('@/features/admin/components/MarkdownPreview'), {
+  ssr: false,
+  loading: () => <p className="text-sm text-muted-foreground">Loading preview…</p>,
+});
+
+type MarkdownEditorProps = {
+  id: string;
+  label: string;
+  value: string;
+  required?: boolean;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+  /** Uploads an image and returns its storage URL. */
+  onUploadImage: (file: File) => Promise<string>;
+};
+
+export function MarkdownEditor({
+  id,
+  label,
+  value,
+  required,
+  disabled = false,
+  onChange,
+  onUploadImage,
+}: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [showPreview, setShowPreview] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const insertAtCursor = (snippet: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    onChange(`${value.slice(0, start)}${snippet}${value.slice(end)}`);
+  };
+
+  const uploadImage = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+
+    setError(null);
+    setIsUploading(true);
+    try {
+      const url = await onUploadImage(file);
+      const alt = file.name.replace(/\.[^.]+$/, '').replace(/[[\]]/g, '');
+      insertAtCursor(`![${alt}](${url})`);
+    } catch (uploadError) {
+      setError(uploadError instanceof Error ? uploadError.message : 'Upload failed.');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor={id} className="block text-xs font-mono text-muted-foreground uppercase tracking-wider">
+          {label}
+          {required ? ' *' : ''}
+        </label>
+        <div className="flex items-center gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={disabled || isUploading}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {isUploading ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <ImagePlus className="mr-1 h-3.5 w-3.5" />}
+            Image
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setShowPreview((current) => !current)}>
+            {showPreview ? <EyeOff className="mr-1 h-3.5 w-3.5" /> : <Eye className="mr-1 h-3.5 w-3.5" />}
+            Preview
+          </Button>
+        </div>
+      </div>
+
+      <textarea
+        id={id}
+        ref={textareaRef}
+        className="min-h-32 w-full rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-2 font-mono text-sm"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder="Markdown: **bold**, lists, [links](https://...), ```code```"
+        required={required}
+        disabled={disabled}
+      />
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/png,image/jpeg,image/webp,image/svg+xml"
+        className="hidden"
+        onChange={(event) => {
+          void uploadImage(event.target.files?.[0]);
+        }}
+      />
+
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+
+      {showPreview ? (
+        <div className="rounded-lg border border-dashed border-border/60 bg-background-subtle/20 p-3">
+          <p className="mb-2 text-[10px] font-mono uppercase tracking-wider text-muted-foreground">Preview</p>
+          <MarkdownPreview value={value} />
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+'use client';
+
+import { useDeferredValue, useMemo } from 'react';
+import { renderMarkdown } from '@/lib/markdown';
+
+type MarkdownPreviewProps = {
+  value: string;
+};
+
+// Kept apart from the editor so the unified/remark/rehype pipeline loads in its
+// own chunk, only once a preview is shown.
+export default function MarkdownPreview({ value }: MarkdownPreviewProps) {
+  const deferredValue = useDeferredValue(value);
+  const html = useMemo(() => (deferredValue.trim() !== '' ? renderMarkdown(deferredValue) : ''), [deferredValue]);
+
+  return html ? (
+    <div className="markdown-content text-sm text-muted-foreground" dangerouslySetInnerHTML={{ __html: html }} />
+  ) : (
+    <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import Image from 'next/image';
+import { Film, Plus, Trash2 } from 'lucide-react';
+import type { ProjectMediaItem } from '@/features/admin/types';
+import { SortableGrid, SortableGridItem } from '@/features/admin/components/SortableGrid';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+/** Gallery items carry a client-side key so they can be dragged while unsaved. */
+export type GalleryEditorItem = ProjectMediaItem & { key: string };
+
+type MediaGalleryEditorProps = {
+  id: string;
+  label: string;
+  items: GalleryEditorItem[];
+  disabled?: boolean;
+  onChange: (items: GalleryEditorItem[]) => void;
+  /** The multi-file upload field that appends uploaded images and MP4s. */
+  uploadField: ReactNode;
+};
+
+export function toGalleryEditorItems(value: unknown): GalleryEditorItem[] {
+  return Array.isArray(value)
+    ? (value as ProjectMediaItem[]).map((item) => ({ ...item, key: crypto.randomUUID() }))
+    : [];
+}
+
+export function toGalleryPayload(items: GalleryEditorItem[]): ProjectMediaItem[] | undefined {
+  return items.length > 0
+    ? items.map(({ kind, url, alt, caption }) => ({ kind, url, alt, caption }))
+    : undefined;
+}
+
+export function MediaGalleryEditor({ id, label, items, disabled = false, onChange, uploadField }: MediaGalleryEditorProps) {
+  const [videoUrl, setVideoUrl] = useState('');
+
+  const updateItem = (key: string, patch: Partial<ProjectMediaItem>) => {
+    onChange(items.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+  };
+
+  const addVideo = () => {
+    const url = videoUrl.trim();
+    if (url === '') {
+      return;
+    }
+    onChange([...items, { key: crypto.randomUUID(), kind: 'video', url }]);
+    setVideoUrl('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <span className="block text-xs font-mono text-muted-foreground uppercase tracking-wider">{label}</span>
+
+      {uploadField}
+
+      <div className="flex items-center gap-2">
+        <input
+          id={`${id}-video-url`}
+          className="flex-1 rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-2 text-sm"
+          value={videoUrl}
+          placeholder="YouTube, Loom or MP4 URL"
+          disabled={disabled}
+          aria-label="Video URL"
+          onChange={(event) => setVideoUrl(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              event.preventDefault();
+              addVideo();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" size="sm" disabled={disabled || videoUrl.trim() === ''} onClick={addVideo}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Video
+        </Button>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No gallery media yet. The cover image is shown on its own.</p>
+      ) : (
+        <SortableGrid
+          ids={items.map((item) => item.key)}
+          className="gap-2 md:grid-cols-1"
+          onReorder={(nextKeys) => {
+            const byKey = new Map(items.map((item) => [item.key, item]));
+            onChange(nextKeys.flatMap((key) => byKey.get(key) ?? []));
+          }}
+        >
+          {items.map((item, index) => (
+            <SortableGridItem key={item.key} id={item.key} label={`media item ${index + 1}`}>
+              {(dragHandle) => (
+                <div className="flex gap-3 rounded-lg border border-border/60 bg-background-subtle/20 p-3">
+                  <div className="flex flex-col items-center gap-2">
+                    {dragHandle}
+                    <span className="text-[10px] font-mono text-muted-foreground">{index + 1}</span>
+                  </div>
+
+                  {item.kind === 'image' ? (
+                    <div className="relative h-16 w-24 shrink-0 overflow-hidden rounded-md border border-border/60">
+                      <Image src={item.url} alt={item.alt ?? ''} fill sizes="96px" className="object-cover" />
+                    </div>
+                  ) : (
+                    <div className="flex h-16 w-24 shrink-0 items-center justify-center rounded-md border border-border/60 text-muted-foreground">
+                      <Film className="h-5 w-5" />
+                    </div>
+                  )}
+
+                  <div className="min-w-0 flex-1 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs capitalize">
+                        {item.kind}
+                      </Badge>
+                      <span className="truncate text-xs text-muted-foreground">{item.url}</span>
+                    </div>
+                    {item.kind === 'image' ? (
+                      <input
+                        className="w-full rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-1.5 text-sm"
+                        value={item.alt ?? ''}
+                        placeholder="Alt text (required)"
+                        disabled={disabled}
+                        aria-label={`Alt text for media item ${index + 1}`}
+                        onChange={(event) => updateItem(item.key, { alt: event.target.value })}
+                      />
+                    ) : null}
+                    <input
+                      className="w-full rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-1.5 text-sm"
+                      value={item.caption ?? ''}
+                      placeholder="Caption"
+                      disabled={disabled}
+                      aria-label={`Caption for media item ${index + 1}`}
+                      onChange={(event) => updateItem(item.key, { caption: event.target.value })}
+                    />
+                  </div>
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={disabled}
+                    aria-label={`Remove media item ${index + 1}`}
+                    onClick={() => onChange(items.filter((entry) => entry.key !== item.key))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </SortableGridItem>
+          ))}
+        </SortableGrid>
+      )}
+    </div>
+  );
+}
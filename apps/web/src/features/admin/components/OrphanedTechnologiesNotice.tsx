@@ -0,0 +1,40 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { useOrphanedTechnologies } from '@/features/admin/hooks/useOrphanedTechnologies';
+import { Badge } from '@/components/ui/badge';
+
+export function OrphanedTechnologiesNotice() {
+  const { orphans } = useOrphanedTechnologies();
+
+  if (orphans.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-2xl border border-amber-500/40 bg-amber-500/10 p-4">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-foreground">
+            {orphans.length} technology name(s) used in projects or experiences have no matching technology
+          </p>
+          <p className="text-xs text-muted-foreground">
+            These entries render without an icon. Add them under Technologies or fix the spelling in the listed items.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {orphans.map((orphan) => (
+              <Badge
+                key={orphan.name}
+                variant="outline"
+                title={orphan.references.map((reference) => reference.label).join('\n')}
+              >
+                {orphan.name} · {orphan.references.length}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
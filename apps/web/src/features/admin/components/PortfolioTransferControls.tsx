@@ -0,0 +1,257 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Loader2, Upload } from 'lucide-react';
+import { CONTENT_TABLE_LABELS } from '@/features/admin/config/sectionConfigs';
+import {
+  usePortfolioTransfer,
+  type PortfolioImportMode,
+  type PortfolioImportPlan,
+} from '@/features/admin/hooks/usePortfolioTransfer';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Please try again.';
+}
+
+function hasPlannedChanges(plan: PortfolioImportPlan): boolean {
+  return plan.some((table) => table.create.length + table.update.length + table.remove.length > 0);
+}
+
+export function PortfolioTransferControls() {
+  const { toast } = useToast();
+  const { downloadExport, runImport } = usePortfolioTransfer();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [document, setDocument] = useState<unknown>(null);
+  const [mode, setMode] = useState<PortfolioImportMode>('merge');
+  const [plan, setPlan] = useState<PortfolioImportPlan | null>(null);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  const resetImport = () => {
+    setFileName(null);
+    setDocument(null);
+    setMode('merge');
+    setPlan(null);
+    setPlanError(null);
+  };
+
+  const previewImport = async (nextDocument: unknown, nextMode: PortfolioImportMode) => {
+    setPlan(null);
+    setPlanError(null);
+    if (nextDocument === null) {
+      return;
+    }
+
+    setIsPending(true);
+    try {
+      setPlan(await runImport(nextDocument, nextMode, true));
+    } catch (error) {
+      setPlanError(getErrorMessage(error));
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+
+    setFileName(file.name);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setDocument(null);
+      setPlan(null);
+      setPlanError('The selected file is not valid JSON.');
+      return;
+    }
+
+    setDocument(parsed);
+    await previewImport(parsed, mode);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await downloadExport();
+    } catch (error) {
+      toast({ title: 'Unable to export portfolio', description: getErrorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const applyImport = async () => {
+    if (document === null) {
+      return;
+    }
+
+    setIsPending(true);
+    try {
+      await runImport(document, mode, false);
+      toast({
+        title: 'Import applied',
+        description: 'Imported content is saved as a draft. Publish to make it live.',
+      });
+      setIsDialogOpen(false);
+      resetImport();
+    } catch (error) {
+      toast({ title: 'Unable to import portfolio', description: getErrorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="border-border/60 hover:border-primary/50"
+        disabled={isExporting}
+        onClick={() => {
+          void handleExport();
+        }}
+      >
+        {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+        Export
+      </Button>
+      <Button
+        variant="outline"
+        className="border-border/60 hover:border-primary/50"
+        onClick={() => setIsDialogOpen(true)}
+      >
+        <Upload className="mr-2 h-4 w-4" />
+        Import
+      </Button>
+
+      <Dialog
+        open={isDialogOpen}
+        onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) {
+            resetImport();
+          }
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import portfolio</DialogTitle>
+            <DialogDescription>
+              Upload a file produced by Export. Nothing is written until you review the changes and apply them.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <label className="block space-y-1 text-sm">
+              <span className="text-muted-foreground">Export file</span>
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="block w-full text-sm"
+                onChange={(event) => {
+                  void handleFileChange(event.target.files?.[0]);
+                }}
+              />
+            </label>
+
+            <label className="block space-y-1 text-sm">
+              <span className="text-muted-foreground">Mode</span>
+              <select
+                className="w-full rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-2 text-sm"
+                value={mode}
+                onChange={(event) => {
+                  const nextMode = event.target.value as PortfolioImportMode;
+                  setMode(nextMode);
+                  void previewImport(document, nextMode);
+                }}
+              >
+                <option value="merge">Merge: add and update records, keep everything else</option>
+                <option value="replace">Replace: also move records missing from the file to Trash</option>
+              </select>
+            </label>
+
+            {isPending && !plan ? (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Checking {fileName ?? 'file'}...
+              </p>
+            ) : null}
+
+            {planError ? (
+              <p className="rounded-lg border border-destructive/40 bg-destructive/10 p-3 text-sm text-destructive">
+                {planError}
+              </p>
+            ) : null}
+
+            {plan ? (
+              <div className="overflow-hidden rounded-lg border border-border/60">
+                <table className="w-full text-sm">
+                  <thead className="bg-background-subtle/40 text-left text-xs uppercase tracking-wide text-muted-foreground">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Table</th>
+                      <th className="px-3 py-2 font-medium">Create</th>
+                      <th className="px-3 py-2 font-medium">Update</th>
+                      <th className="px-3 py-2 font-medium">Trash</th>
+                      <th className="px-3 py-2 font-medium">Unchanged</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.map((entry) => (
+                      <tr key={entry.table} className="border-t border-border/40">
+                        <td className="px-3 py-2">{CONTENT_TABLE_LABELS[entry.table]}</td>
+                        <td className="px-3 py-2" title={entry.create.join('\n')}>
+                          {entry.create.length}
+                        </td>
+                        <td
+                          className="px-3 py-2"
+                          title={entry.update.map((change) => `${change.key}: ${change.fields.join(', ')}`).join('\n')}
+                        >
+                          {entry.update.length}
+                        </td>
+                        <td className="px-3 py-2" title={entry.remove.join('\n')}>
+                          {entry.remove.length}
+                        </td>
+                        <td className="px-3 py-2 text-muted-foreground">{entry.unchanged}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : null}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant={mode === 'replace' ? 'destructive' : 'default'}
+              disabled={!plan || !hasPlannedChanges(plan) || isPending}
+              onClick={() => {
+                void applyImport();
+              }}
+            >
+              {isPending && plan ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Apply import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { SOCIAL_PLATFORM_OPTIONS } from '@/features/admin/config/sectionConfigs';
+import type { SiteSocialLink, SocialPlatform } from '@/features/admin/types';
+import { Button } from '@/components/ui/button';
+
+type SocialLinksEditorProps = {
+  links: SiteSocialLink[];
+  disabled?: boolean;
+  onChange: (links: SiteSocialLink[]) => void;
+};
+
+function getUrlPlaceholder(platform: SocialPlatform): string {
+  return platform === 'email' ? 'you@example.com' : 'https://';
+}
+
+export function SocialLinksEditor({ links, disabled = false, onChange }: SocialLinksEditorProps) {
+  const updateLink = (index: number, patch: Partial<SiteSocialLink>) => {
+    onChange(links.map((link, linkIndex) => (linkIndex === index ? { ...link, ...patch } : link)));
+  };
+
+  const moveLink = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= links.length) {
+      return;
+    }
+
+    const next = [...links];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <span className="block text-xs font-mono text-muted-foreground uppercase tracking-wider">Social Links</span>
+
+      {links.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No social links yet. They appear in the hero and contact sections.</p>
+      ) : null}
+
+      {links.map((link, index) => (
+        <div key={index} className="space-y-2 rounded-lg border border-border/60 bg-background-subtle/20 p-3">
+          <div className="flex items-center gap-2">
+            <select
+              className="flex-1 rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-2 text-sm"
+              value={link.platform}
+              disabled={disabled}
+              aria-label={`Platform for social link ${index + 1}`}
+              onChange={(event) => updateLink(index, { platform: event.target.value as SocialPlatform })}
+            >
+              {SOCIAL_PLATFORM_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              disabled={disabled || index === 0}
+              aria-label="Move link up"
+              onClick={() => moveLink(index, -1)}
+            >
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              disabled={disabled || index === links.length - 1}
+              aria-label="Move link down"
+              onClick={() => moveLink(index, 1)}
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              disabled={disabled}
+              aria-label="Remove link"
+              onClick={() => onChange(links.filter((_, linkIndex) => linkIndex !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <input
+            className="w-full rounded-lg border border-border/60 bg-background-subtle/30 px-3 py-2 text-sm"
+            value={link.url}
+            placeholder={getUrlPlaceholder(link.platform)}
+            disabled={disabled}
+            aria-label={`URL for social link ${index + 1}`}
+            onChange={(event) => updateLink(index, { url: event.target.value })}
+          />
+
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={link.visible}
+              disabled={disabled}
+              onChange={(event) => updateLink(index, { visible: event.target.checked })}
+            />
+            Show on public site
+          </label>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={disabled}
+        onClick={() => onChange([...links, { platform: 'github', url: '', visible: true }])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Link
+      </Button>
+    </div>
+  );
+}
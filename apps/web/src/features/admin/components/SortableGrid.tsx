@@ -0,0 +1,111 @@
+'use client';
+
+import { useCallback, type ReactNode } from 'react';
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  closestCenter,
+  type DragEndEvent,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  arrayMove,
+  rectSortingStrategy,
+  sortableKeyboardCoordinates,
+  useSortable,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { GripVertical } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export type SortableGridProps = {
+  ids: string[];
+  onReorder: (nextIds: string[]) => void;
+  children: ReactNode;
+  className?: string;
+};
+
+export function SortableGrid({ ids, onReorder, children, className }: SortableGridProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: { distance: 8 },
+    }),
+    useSensor(TouchSensor, {
+      activationConstraint: { delay: 180, tolerance: 6 },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  );
+
+  const onDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      const { active, over } = event;
+      if (!over || active.id === over.id) {
+        return;
+      }
+
+      const oldIndex = ids.indexOf(String(active.id));
+      const newIndex = ids.indexOf(String(over.id));
+
+      if (oldIndex < 0 || newIndex < 0) {
+        return;
+      }
+
+      onReorder(arrayMove(ids, oldIndex, newIndex));
+    },
+    [ids, onReorder],
+  );
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={onDragEnd}>
+      <SortableContext items={ids} strategy={rectSortingStrategy}>
+        <div className={cn('grid grid-cols-1 gap-4 md:grid-cols-2', className)}>{children}</div>
+      </SortableContext>
+    </DndContext>
+  );
+}
+
+export type SortableGridItemProps = {
+  id: string;
+  label: string;
+  children: (dragHandle: ReactNode) => ReactNode;
+};
+
+export function SortableGridItem({ id, label, children }: SortableGridItemProps) {
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, transform, transition, isDragging } = useSortable({
+    id,
+  });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn('touch-manipulation', isDragging ? 'z-20 opacity-80' : undefined)}
+    >
+      {children(
+        <button
+          ref={setActivatorNodeRef}
+          type="button"
+          className="inline-flex h-8 w-8 items-center justify-center rounded-lg border border-border/70 text-muted-foreground transition-colors hover:border-primary/40 hover:text-primary"
+          onClick={(event) => event.stopPropagation()}
+          onKeyDown={(event) => event.stopPropagation()}
+          aria-label={`Reorder ${label}`}
+          {...attributes}
+          {...listeners}
+        >
+          <GripVertical className="h-3.5 w-3.5" />
+        </button>,
+      )}
+    </div>
+  );
+}
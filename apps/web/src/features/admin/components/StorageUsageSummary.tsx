@@ -0,0 +1,63 @@
+'use client';
+
+import { HardDrive, Loader2 } from 'lucide-react';
+import { useStorageUsage } from '@/features/admin/hooks/useStorageUsage';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function StorageUsageSummary() {
+  const { usage, isLoading } = useStorageUsage();
+
+  if (isLoading || !usage) {
+    return (
+      <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading storage usage...
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: 'In use', files: usage.referencedFiles, bytes: usage.referencedBytes },
+    { label: 'Recent uploads', files: usage.pendingFiles, bytes: usage.pendingBytes },
+    { label: 'Unreferenced', files: usage.orphanedFiles, bytes: usage.orphanedBytes },
+  ];
+
+  return (
+    <section className="rounded-2xl border border-border/60 bg-background-subtle/30 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <HardDrive className="h-4 w-4 text-muted-foreground" />
+          <p className="text-sm font-medium text-foreground">Storage</p>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {usage.totalFiles} file(s) · {formatBytes(usage.totalBytes)}
+        </p>
+      </div>
+
+      <dl className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-3">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-xl border border-border/40 bg-background p-3">
+            <dt className="text-xs font-mono uppercase tracking-wider text-muted-foreground">{stat.label}</dt>
+            <dd className="mt-1 text-sm text-foreground">
+              {stat.files} · {formatBytes(stat.bytes)}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      <p className="mt-3 text-xs text-muted-foreground">
+        Unreferenced files are deleted by the nightly cleanup. Uploads from the last 24 hours are kept until their form
+        is saved.
+      </p>
+    </section>
+  );
+}
@@ -1,4 +1,4 @@
-import type { SelectOption } from '@/features/admin/types';
+import type { PublishedTable, SelectOption, SocialPlatform } from '@/features/admin/types';
 
 export const TECHNOLOGY_CATEGORY_OPTIONS: SelectOption[] = [
   { label: 'Frontend', value: 'Frontend' },
@@ -21,3 +21,25 @@ export const PROJECT_STATUS_OPTIONS: SelectOption[] = PROJECT_STATUS_VALUES.map(
   value: status,
   label: status.charAt(0).toUpperCase() + status.slice(1),
 }));
+
+export const SOCIAL_PLATFORM_OPTIONS: Array<{ label: string; value: SocialPlatform }> = [
+  { label: 'GitHub', value: 'github' },
+  { label: 'LinkedIn', value: 'linkedin' },
+  { label: 'X', value: 'x' },
+  { label: 'Instagram', value: 'instagram' },
+  { label: 'YouTube', value: 'youtube' },
+  { label: 'Email', value: 'email' },
+  { label: 'Website', value: 'website' },
+];
+
+export const CONTENT_TABLE_LABELS: Record<PublishedTable, string> = {
+  siteSettings: 'Site Settings',
+  experiences: 'Experiences',
+  projects: 'Projects',
+  programmingLanguages: 'Programming Languages',
+  technologies: 'Technologies',
+  cloudProviders: 'Cloud Providers',
+  certificates: 'Certificates',
+  aboutCategories: 'About Categories',
+  aboutItems: 'About Items',
+};
@@ -0,0 +1,34 @@
+'use client';
+
+import { usePaginatedQuery } from 'convex/react';
+import { adminApi } from '@/features/admin/api/convexAdmin';
+import type { AuditAction, AuditedTable } from '@/features/admin/types';
+
+const ACTIVITY_PAGE_SIZE = 25;
+
+export type AdminActivityLogFilters = {
+  table?: AuditedTable;
+  documentId?: string;
+  action?: AuditAction;
+};
+
+export function useAdminActivityLog(filters: AdminActivityLogFilters) {
+  const { results, status, loadMore } = usePaginatedQuery(
+    adminApi.getAuditLog,
+    {
+      table: filters.table,
+      // The backend only narrows by document together with a table.
+      documentId: filters.table ? filters.documentId : undefined,
+      action: filters.action,
+    },
+    { initialNumItems: ACTIVITY_PAGE_SIZE },
+  );
+
+  return {
+    entries: results,
+    isLoading: status === 'LoadingFirstPage',
+    isLoadingMore: status === 'LoadingMore',
+    canLoadMore: status === 'CanLoadMore',
+    loadMore: () => loadMore(ACTIVITY_PAGE_SIZE),
+  };
+}
@@ -6,21 +6,37 @@ import { adminApi } from '@/features/admin/api/convexAdmin';
 
 export function useAdminDashboardController() {
   const bootstrap = useQuery(adminApi.getAdminBootstrap);
+  const access = useQuery(adminApi.getAdminAccess);
   const generateUploadUrl = useMutation(adminApi.generateUploadUrl);
   const resolveStorageUrl = useMutation(adminApi.resolveStorageUrl);
   const reorderExperiences = useMutation(adminApi.reorderExperiences);
-  const reorderProjects = useMutation(adminApi.reorderProjects);
+  const reorderItems = useMutation(adminApi.reorderItems);
   const batchSaveTechnologies = useMutation(adminApi.batchSaveTechnologies);
+  const publishStatus = useQuery(adminApi.getPublishStatus);
+  const publishPortfolio = useMutation(adminApi.publishPortfolio);
 
   return useMemo(
     () => ({
       bootstrap,
+      access,
       generateUploadUrl,
       resolveStorageUrl,
       reorderExperiences,
-      reorderProjects,
+      reorderItems,
       batchSaveTechnologies,
+      publishStatus,
+      publishPortfolio,
     }),
-    [bootstrap, batchSaveTechnologies, generateUploadUrl, reorderExperiences, reorderProjects, resolveStorageUrl],
+    [
+      access,
+      bootstrap,
+      batchSaveTechnologies,
+      generateUploadUrl,
+      publishPortfolio,
+      publishStatus,
+      reorderExperiences,
+      reorderItems,
+      resolveStorageUrl,
+    ],
   );
 }
@@ -0,0 +1,32 @@
+'use client';
+
+import { useMutation, usePaginatedQuery, useQuery } from 'convex/react';
+import { adminApi } from '@/features/admin/api/convexAdmin';
+import type { ContactMessage } from '@/features/admin/types';
+
+const INBOX_PAGE_SIZE = 25;
+
+export function useAdminInbox(archived: boolean) {
+  const { results, status, loadMore } = usePaginatedQuery(
+    adminApi.getContactMessages,
+    { archived },
+    { initialNumItems: INBOX_PAGE_SIZE },
+  );
+  const setRead = useMutation(adminApi.setContactMessageRead);
+  const setArchived = useMutation(adminApi.setContactMessageArchived);
+
+  return {
+    messages: results,
+    isLoading: status === 'LoadingFirstPage',
+    isLoadingMore: status === 'LoadingMore',
+    canLoadMore: status === 'CanLoadMore',
+    loadMore: () => loadMore(INBOX_PAGE_SIZE),
+    setRead: (message: ContactMessage, read: boolean) => setRead({ id: message._id, read }),
+    setArchived: (message: ContactMessage, archived: boolean) => setArchived({ id: message._id, archived }),
+  };
+}
+
+// The inbox is owner-only, so editors skip the query instead of hitting a Forbidden error.
+export function useUnreadContactMessageCount(enabled: boolean) {
+  return useQuery(adminApi.getUnreadContactMessageCount, enabled ? {} : 'skip') ?? 0;
+}
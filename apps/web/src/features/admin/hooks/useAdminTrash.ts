@@ -0,0 +1,18 @@
+'use client';
+
+import { useMutation, useQuery } from 'convex/react';
+import { adminApi } from '@/features/admin/api/convexAdmin';
+import type { TrashEntry } from '@/features/admin/types';
+
+export function useAdminTrash() {
+  const entries = useQuery(adminApi.getTrash) as TrashEntry[] | undefined;
+  const restoreTrashedItem = useMutation(adminApi.restoreTrashedItem);
+  const deleteTrashedItemPermanently = useMutation(adminApi.deleteTrashedItemPermanently);
+
+  return {
+    entries,
+    isLoading: entries === undefined,
+    restore: (entry: TrashEntry) => restoreTrashedItem({ table: entry.table, id: entry.id }),
+    deletePermanently: (entry: TrashEntry) => deleteTrashedItemPermanently({ table: entry.table, id: entry.id }),
+  };
+}
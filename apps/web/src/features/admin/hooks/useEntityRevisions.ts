@@ -0,0 +1,17 @@
+'use client';
+
+import { useMutation, useQuery } from 'convex/react';
+import type { Id } from '@portfolio/backend/convex/_generated/dataModel';
+import { adminApi } from '@/features/admin/api/convexAdmin';
+import type { RevisionTable } from '@/features/admin/types';
+
+export function useEntityRevisions(table: RevisionTable, documentId: string) {
+  const revisions = useQuery(adminApi.getRevisions, { table, documentId });
+  const restoreRevision = useMutation(adminApi.restoreRevision);
+
+  return {
+    revisions,
+    isLoading: revisions === undefined,
+    restore: (revisionId: Id<'revisions'>) => restoreRevision({ revisionId }),
+  };
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import { useQuery } from 'convex/react';
+import { adminApi } from '@/features/admin/api/convexAdmin';
+import type { OrphanedTechnology } from '@/features/admin/types';
+
+export function useOrphanedTechnologies() {
+  const orphans = useQuery(adminApi.getOrphanedTechnologies) as OrphanedTechnology[] | undefined;
+
+  return {
+    orphans: orphans ?? [],
+    isLoading: orphans === undefined,
+  };
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useAction, useMutation } from 'convex/react';
+import type { FunctionArgs, FunctionReturnType } from 'convex/server';
+import { adminApi } from '@/features/admin/api/convexAdmin';
+
+export type PortfolioExportDocument = FunctionReturnType<typeof adminApi.exportPortfolio>;
+export type PortfolioImportMode = FunctionArgs<typeof adminApi.importPortfolio>['mode'];
+export type PortfolioImportPlan = FunctionReturnType<typeof adminApi.importPortfolio>;
+
+function downloadJson(document: PortfolioExportDocument) {
+  const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = `portfolio-export-${new Date(document.exportedAt).toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function usePortfolioTransfer() {
+  const exportPortfolio = useAction(adminApi.exportPortfolio);
+  const importPortfolio = useMutation(adminApi.importPortfolio);
+
+  const downloadExport = useCallback(async () => {
+    downloadJson(await exportPortfolio({}));
+  }, [exportPortfolio]);
+
+  const runImport = useCallback(
+    (document: unknown, mode: PortfolioImportMode, dryRun: boolean) =>
+      importPortfolio({
+        // The mutation validates the full document shape server-side.
+        document: document as PortfolioExportDocument,
+        mode,
+        dryRun,
+      }),
+    [importPortfolio],
+  );
+
+  return { downloadExport, runImport };
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import { useQuery } from 'convex/react';
+import { adminApi } from '@/features/admin/api/convexAdmin';
+import type { StorageUsage } from '@/features/admin/types';
+
+export function useStorageUsage() {
+  const usage = useQuery(adminApi.getStorageUsage) as StorageUsage | undefined;
+
+  return {
+    usage,
+    isLoading: usage === undefined,
+  };
+}
@@ -0,0 +1,32 @@
+export type RevisionFieldDiff = {
+  field: string;
+  revision: unknown;
+  current: unknown;
+};
+
+const IGNORED_FIELDS = new Set(['_id', '_creationTime', 'order', 'isCurrent']);
+
+export function diffRevisionFields(
+  revision: Record<string, unknown>,
+  current: Record<string, unknown>,
+): RevisionFieldDiff[] {
+  const fields = new Set([...Object.keys(revision), ...Object.keys(current)]);
+
+  return [...fields]
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .filter((field) => JSON.stringify(revision[field]) !== JSON.stringify(current[field]))
+    .sort()
+    .map((field) => ({ field, revision: revision[field], current: current[field] }));
+}
+
+export function formatRevisionValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '—';
+  }
+
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -1,4 +1,5 @@
 import type { FunctionReference } from 'convex/server';
+import type { Doc } from '@portfolio/backend/convex/_generated/dataModel';
 
 export type AdminUser = {
   id: string;
@@ -11,13 +12,24 @@ export type AdminEntity = {
   [key: string]: unknown;
 };
 
+export type SiteContactChannels = NonNullable<Doc<'siteSettings'>['contact']>;
+
+export type SiteSocialLink = NonNullable<Doc<'siteSettings'>['socialLinks']>[number];
+
+export type SocialPlatform = SiteSocialLink['platform'];
+
+export type ProjectMediaItem = NonNullable<Doc<'projects'>['media']>[number];
+
 export type SiteSettingsEntity = {
   _id: string;
   siteName?: string;
   tagline?: string;
+  description?: string;
   logoUrl?: string;
   profileImageUrl?: string;
   resumeUrl?: string;
+  contact?: SiteContactChannels;
+  socialLinks?: SiteSocialLink[];
 } | null;
 
 export type BootstrapData = {
@@ -32,7 +44,7 @@ export type BootstrapData = {
   aboutItems: AdminEntity[];
 };
 
-export type InspectorMode = 'view' | 'edit' | 'create' | 'deleteConfirm';
+export type InspectorMode = 'view' | 'edit' | 'create' | 'deleteConfirm' | 'history';
 
 export type EntitySectionId =
   | 'experiences'
@@ -44,7 +56,55 @@ export type EntitySectionId =
   | 'about-categories'
   | 'about-items';
 
-export type SectionId = 'site-settings' | EntitySectionId;
+// Read-only sections that list records across tables instead of editing one.
+export type UtilitySectionId = 'inbox' | 'activity' | 'trash';
+
+export type SectionId = 'site-settings' | UtilitySectionId | EntitySectionId;
+
+export type AuditLogEntry = Doc<'auditLog'>;
+
+export type ContactMessage = Doc<'contactMessages'>;
+
+export type AuditedTable = AuditLogEntry['table'];
+
+export type AuditAction = AuditLogEntry['action'];
+
+export type RevisionEntry = Doc<'revisions'>;
+
+export type RevisionTable = RevisionEntry['table'];
+
+export type PublishedTable = Doc<'publishedDocuments'>['table'];
+
+export type TrashTable = Exclude<PublishedTable, 'siteSettings'>;
+
+export type TrashEntry = {
+  table: TrashTable;
+  id: string;
+  deletedAt: number;
+  purgeAt: number;
+  doc: Record<string, unknown>;
+};
+
+export type OrphanedTechnology = {
+  name: string;
+  references: Array<{ table: 'projects' | 'experiences'; id: string; label: string }>;
+};
+
+export type StorageUsage = {
+  totalFiles: number;
+  totalBytes: number;
+  referencedFiles: number;
+  referencedBytes: number;
+  orphanedFiles: number;
+  orphanedBytes: number;
+  pendingFiles: number;
+  pendingBytes: number;
+};
+
+export type PublishStatus = {
+  lastPublishedAt: number | null;
+  unpublishedTables: PublishedTable[];
+};
 
 export type SelectOption = {
   label: string;
@@ -59,6 +119,8 @@ export type FormFieldConfig = {
   type: FieldType;
   required?: boolean;
   options?: SelectOption[];
+  /** Renders a `textarea` field with the Markdown editor and preview. */
+  markdown?: boolean;
 };
 
 export type MediaFieldConfig = {
@@ -68,6 +130,12 @@ export type MediaFieldConfig = {
   required?: boolean;
 };
 
+/** An ordered list of uploaded images and video links, such as a project gallery. */
+export type GalleryFieldConfig = {
+  key: string;
+  label: string;
+};
+
 export type AdminSectionConfig = {
   id: EntitySectionId;
   title: string;
@@ -76,8 +144,10 @@ export type AdminSectionConfig = {
   emptyDescription: string;
   fields: FormFieldConfig[];
   mediaFields: MediaFieldConfig[];
+  galleryFields?: GalleryFieldConfig[];
   items: AdminEntity[];
   createMutation: FunctionReference<'mutation'>;
   updateMutation: FunctionReference<'mutation'>;
   deleteMutation: FunctionReference<'mutation'>;
+  revisionTable?: RevisionTable;
 };
@@ -11,13 +11,19 @@ import SkillsSection from '@/features/public/components/SkillsSection';
 import TechnologiesSectionNew from '@/features/public/components/TechnologiesSectionNew';
 import ContactSection from '@/features/public/components/ContactSection';
 import AnimatedSection from '@/features/public/components/AnimatedSection';
+import PreviewBanner from '@/features/public/components/PreviewBanner';
 import type { PortfolioSnapshot } from '@/features/public/types';
 
 const BackgroundSpline = dynamic(() => import('@/features/public/components/BackgroundSpline'), {
   ssr: false,
 });
 
-const PortfolioPage = ({ snapshot }: { snapshot: PortfolioSnapshot }) => {
+type PortfolioPageProps = {
+  snapshot: PortfolioSnapshot;
+  isPreview?: boolean;
+};
+
+const PortfolioPage = ({ snapshot, isPreview = false }: PortfolioPageProps) => {
   return (
     <motion.div
       className="min-h-screen bg-background relative"
@@ -26,6 +32,7 @@ const PortfolioPage = ({ snapshot }: { snapshot: PortfolioSnapshot }) => {
       transition={{ duration: 0.5 }}
     >
       <BackgroundSpline />
+      {isPreview ? <PreviewBanner /> : null}
       <div className="relative z-10">
         <Navigation siteSettings={snapshot.siteSettings} />
         <HeroSection siteSettings={snapshot.siteSettings} />
@@ -43,7 +50,7 @@ const PortfolioPage = ({ snapshot }: { snapshot: PortfolioSnapshot }) => {
           technologies={snapshot.technologies}
           cloudProviders={snapshot.cloudProviders}
         />
-        <ContactSection />
+        <ContactSection siteSettings={snapshot.siteSettings} />
 
         <AnimatedSection>
           <motion.footer
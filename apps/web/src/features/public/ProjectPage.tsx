@@ -0,0 +1,32 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import ProjectDetails from '@/features/public/components/ProjectDetails';
+import PreviewBanner from '@/features/public/components/PreviewBanner';
+import type { Project } from '@/features/public/types';
+
+type ProjectPageProps = {
+  project: Project;
+  isPreview?: boolean;
+};
+
+const ProjectPage = ({ project, isPreview = false }: ProjectPageProps) => {
+  return (
+    <main className="min-h-screen bg-background px-4 py-12 sm:px-6 lg:px-8">
+      {isPreview ? <PreviewBanner /> : null}
+      <div className="mx-auto max-w-4xl">
+        <Link
+          href="/#projects"
+          className="mb-6 inline-flex items-center gap-2 text-sm font-mono text-muted-foreground transition-colors hover:text-primary"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          All projects
+        </Link>
+        <article className="overflow-hidden rounded-2xl border border-border/50 bg-card">
+          <ProjectDetails project={project} />
+        </article>
+      </div>
+    </main>
+  );
+};
+
+export default ProjectPage;
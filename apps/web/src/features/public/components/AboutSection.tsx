@@ -5,6 +5,7 @@ import Image from "next/image";
 import { motion } from "framer-motion";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import AnimatedSection from "./AnimatedSection";
+import MarkdownContent from "./MarkdownContent";
 import { getAboutIcon } from "@/features/public/lib/aboutIcons";
 import type {
   AboutCategory,
@@ -323,11 +324,16 @@ function GridCard({
             )}
 
             {/* Description */}
-            {item.description && (
+            {item.descriptionHtml ? (
+              <MarkdownContent
+                html={item.descriptionHtml}
+                className="markdown-compact text-[10px] text-muted-foreground leading-snug line-clamp-4 flex-1"
+              />
+            ) : item.description ? (
               <p className="text-[10px] text-muted-foreground leading-snug line-clamp-4 flex-1">
                 {item.description}
               </p>
-            )}
+            ) : null}
 
             {/* Date at bottom */}
             {item.date && (
@@ -1,7 +1,8 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { CloudSnow, ExternalLink } from 'lucide-react';
+import { ExternalLink } from 'lucide-react';
 import type { Certificate } from '@/features/public/types';
+import ResponsiveImage from './ResponsiveImage';
 
 interface CertificateItemProps {
   certificate: Certificate;
@@ -16,8 +17,15 @@ const CertificateItem: React.FC<CertificateItemProps> = ({ certificate, onClick
       whileHover={{ scale: 1.02 }}
       whileTap={{ scale: 0.98 }}
     >
-      <div className="w-8 h-8 bg-primary/20 rounded-full flex items-center justify-center group-hover:bg-primary/30 transition-colors duration-200">
-        <CloudSnow className="w-4 h-4 text-primary" />
+      <div className="relative w-10 h-10 shrink-0 overflow-hidden rounded-md bg-primary/20 ring-1 ring-border/50 group-hover:ring-primary/40 transition-all duration-200">
+        <ResponsiveImage
+          src={certificate.image}
+          alt=""
+          asset={certificate.imageAsset}
+          fill
+          sizes="40px"
+          className="object-cover"
+        />
       </div>
       <div className="flex-1">
         <p className="font-medium text-sm group-hover:text-primary transition-colors duration-200">
@@ -1,11 +1,11 @@
 import React from 'react';
-import Image from 'next/image';
 import { motion } from 'framer-motion';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
 import { CalendarDays, Award, ExternalLink } from 'lucide-react';
 import type { Certificate } from '@/features/public/types';
+import ResponsiveImage from './ResponsiveImage';
 
 interface CertificateModalProps {
   isOpen: boolean;
@@ -44,9 +44,10 @@ const CertificateModal: React.FC<CertificateModalProps> = ({
           <div className="flex justify-center">
             <Card className="p-6 bg-gradient-card border-0 shadow-card">
               <div className="relative w-[300px] max-w-full">
-                <Image
+                <ResponsiveImage
                   src={certificate.image}
                   alt={`${certificate.name} Certificate`}
+                  asset={certificate.imageAsset}
                   width={300}
                   height={200}
                   sizes="(max-width: 768px) 100vw, 300px"
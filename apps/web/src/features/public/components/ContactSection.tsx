@@ -1,14 +1,17 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Send, Mail, Phone, MapPin, Github, Linkedin } from 'lucide-react';
+import { Send, Mail, Phone, MapPin } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { isExternalLink, socialPlatformMeta, toPhoneHref } from '@/features/public/lib/socialLinks';
+import type { SiteSettings } from '@/features/public/types';
 import AnimatedSection from './AnimatedSection';
 
-const ContactSection = () => {
+const ContactSection = ({ siteSettings }: { siteSettings: SiteSettings }) => {
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     message: '',
+    website: '',
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
@@ -24,56 +27,53 @@ const ContactSection = () => {
     e.preventDefault();
     setIsSubmitting(true);
 
-    // Simulate form submission
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    try {
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
 
-    toast({
-      title: "Message sent!",
-      description: "Thank you for reaching out. I'll get back to you soon.",
-    });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as { error?: string } | null;
+        toast({
+          title: "Message not sent",
+          description: payload?.error ?? "Something went wrong. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
 
-    setFormData({ name: '', email: '', message: '' });
-    setIsSubmitting(false);
+      toast({
+        title: "Message sent!",
+        description: "Thank you for reaching out. I'll get back to you soon.",
+      });
+      setFormData({ name: '', email: '', message: '', website: '' });
+    } catch {
+      toast({
+        title: "Message not sent",
+        description: "Check your connection and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
+  const contact = siteSettings?.contact;
   const contactInfo = [
-    {
-      icon: Mail,
-      label: 'Email',
-      value: 'kurtik.appadoo.2002@outlook.com',
-      href: 'mailto:kurtik.appadoo.2002@outlook.com',
-    },
-    {
-      icon: Phone,
-      label: 'Phone',
-      value: '+1 (929) 373-9126',
-      href: 'tel:+19293739126',
-    },
-    {
-      icon: MapPin,
-      label: 'Location',
-      value: 'United States',
-      href: '#',
-    },
-  ];
+    contact?.email
+      ? { icon: Mail, label: 'Email', value: contact.email, href: `mailto:${contact.email}` }
+      : null,
+    contact?.phone
+      ? { icon: Phone, label: 'Phone', value: contact.phone, href: toPhoneHref(contact.phone) }
+      : null,
+    contact?.location
+      ? { icon: MapPin, label: 'Location', value: contact.location, href: undefined }
+      : null,
+  ].filter((info) => info !== null);
 
-  const socialLinks = [
-    {
-      icon: Github,
-      label: 'GitHub',
-      href: 'https://github.com/appadook',
-    },
-    {
-      icon: Linkedin,
-      label: 'LinkedIn',
-      href: 'https://www.linkedin.com/in/kurtik-appadoo-863019244/',
-    },
-    {
-      icon: Mail,
-      label: 'Email',
-      href: 'mailto:kurtik.appadoo.2002@outlook.com',
-    },
-  ];
+  const socialLinks = siteSettings?.socialLinks ?? [];
 
   return (
     <AnimatedSection id="contact" className="py-20 md:py-32 relative overflow-hidden">
@@ -145,6 +145,21 @@ const ContactSection = () => {
               </h3>
 
               <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Honeypot: invisible to people, tempting to bots */}
+                <div className="absolute -left-[9999px] h-px w-px overflow-hidden" aria-hidden="true">
+                  <label>
+                    Website
+                    <input
+                      type="text"
+                      name="website"
+                      tabIndex={-1}
+                      autoComplete="off"
+                      value={formData.website}
+                      onChange={handleInputChange}
+                    />
+                  </label>
+                </div>
+
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                   <div>
                     <label className="block text-sm font-medium text-muted-foreground mb-2">
@@ -157,6 +172,7 @@ const ContactSection = () => {
                       value={formData.name}
                       onChange={handleInputChange}
                       required
+                      maxLength={100}
                       className="w-full px-4 py-3 bg-background-subtle border border-border/50 rounded-xl text-foreground placeholder:text-muted-foreground/50 focus:outline-none focus:border-primary/50 focus:ring-1 focus:ring-primary/20 transition-all duration-300"
                     />
                   </div>
@@ -171,6 +187,7 @@ const ContactSection = () => {
                       value={formData.email}
                       onChange={handleInputChange}
                       required
+                      maxLength={254}
                       className="w-full px-4 py-3 bg-background-subtle border border-border/50 rounded-xl text-foreground placeholder:text-muted-foreground/50 focus:outline-none focus:border-primary/50 focus:ring-1 focus:ring-primary/20 transition-all duration-300"
                     />
                   </div>
@@ -186,6 +203,8 @@ const ContactSection = () => {
                     value={formData.message}
                     onChange={handleInputChange}
                     required
+                    minLength={10}
+                    maxLength={5000}
                     rows={5}
                     className="w-full px-4 py-3 bg-background-subtle border border-border/50 rounded-xl text-foreground placeholder:text-muted-foreground/50 focus:outline-none focus:border-primary/50 focus:ring-1 focus:ring-primary/20 transition-all duration-300 resize-none"
                   />
@@ -226,72 +245,76 @@ const ContactSection = () => {
             viewport={{ once: true }}
           >
             {/* Contact Details */}
-            <div className="card-luxe p-6">
-              <h3 className="font-display text-lg font-semibold text-foreground mb-5">
-                Contact Information
-              </h3>
+            {contactInfo.length > 0 ? (
+              <div className="card-luxe p-6">
+                <h3 className="font-display text-lg font-semibold text-foreground mb-5">
+                  Contact Information
+                </h3>
 
-              <div className="space-y-4">
-                {contactInfo.map((info, index) => {
-                  const IconComponent = info.icon;
-                  return (
-                    <motion.a
-                      key={info.label}
-                      href={info.href}
-                      className="flex items-center gap-4 p-3 -mx-3 rounded-xl hover:bg-primary/5 transition-colors duration-300 group"
-                      initial={{ opacity: 0, y: 10 }}
-                      whileInView={{ opacity: 1, y: 0 }}
-                      transition={{ duration: 0.5, delay: 0.4 + index * 0.1 }}
-                      viewport={{ once: true }}
-                    >
-                      <div className="p-2.5 rounded-lg bg-primary/10 border border-primary/20 text-primary group-hover:bg-primary group-hover:text-primary-foreground transition-all duration-300">
-                        <IconComponent className="w-4 h-4" />
-                      </div>
-                      <div>
-                        <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide">
-                          {info.label}
-                        </p>
-                        <p className="text-sm font-medium text-foreground group-hover:text-primary transition-colors">
-                          {info.value}
-                        </p>
-                      </div>
-                    </motion.a>
-                  );
-                })}
+                <div className="space-y-4">
+                  {contactInfo.map((info, index) => {
+                    const IconComponent = info.icon;
+                    return (
+                      <motion.a
+                        key={info.label}
+                        href={info.href}
+                        className="flex items-center gap-4 p-3 -mx-3 rounded-xl hover:bg-primary/5 transition-colors duration-300 group"
+                        initial={{ opacity: 0, y: 10 }}
+                        whileInView={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.5, delay: 0.4 + index * 0.1 }}
+                        viewport={{ once: true }}
+                      >
+                        <div className="p-2.5 rounded-lg bg-primary/10 border border-primary/20 text-primary group-hover:bg-primary group-hover:text-primary-foreground transition-all duration-300">
+                          <IconComponent className="w-4 h-4" />
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide">
+                            {info.label}
+                          </p>
+                          <p className="text-sm font-medium text-foreground group-hover:text-primary transition-colors">
+                            {info.value}
+                          </p>
+                        </div>
+                      </motion.a>
+                    );
+                  })}
+                </div>
               </div>
-            </div>
+            ) : null}
 
             {/* Social Links */}
-            <div className="card-luxe p-6">
-              <h3 className="font-display text-lg font-semibold text-foreground mb-5">
-                Connect With Me
-              </h3>
+            {socialLinks.length > 0 ? (
+              <div className="card-luxe p-6">
+                <h3 className="font-display text-lg font-semibold text-foreground mb-5">
+                  Connect With Me
+                </h3>
 
-              <div className="grid grid-cols-3 gap-3">
-                {socialLinks.map((link, index) => {
-                  const IconComponent = link.icon;
-                  return (
-                    <motion.a
-                      key={link.label}
-                      href={link.href}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex flex-col items-center gap-2 p-4 rounded-xl border border-border/50 hover:border-primary/30 hover:bg-primary/5 transition-all duration-300 group"
-                      initial={{ opacity: 0, scale: 0.9 }}
-                      whileInView={{ opacity: 1, scale: 1 }}
-                      transition={{ duration: 0.4, delay: 0.5 + index * 0.1 }}
-                      viewport={{ once: true }}
-                      whileHover={{ y: -4 }}
-                    >
-                      <IconComponent className="w-5 h-5 text-muted-foreground group-hover:text-primary transition-colors" />
-                      <span className="text-xs font-medium text-muted-foreground group-hover:text-foreground transition-colors">
-                        {link.label}
-                      </span>
-                    </motion.a>
-                  );
-                })}
+                <div className="grid grid-cols-3 gap-3">
+                  {socialLinks.map((link, index) => {
+                    const { label, icon: IconComponent } = socialPlatformMeta[link.platform];
+                    return (
+                      <motion.a
+                        key={`${link.platform}-${link.url}`}
+                        href={link.url}
+                        target={isExternalLink(link) ? '_blank' : undefined}
+                        rel={isExternalLink(link) ? 'noopener noreferrer' : undefined}
+                        className="flex flex-col items-center gap-2 p-4 rounded-xl border border-border/50 hover:border-primary/30 hover:bg-primary/5 transition-all duration-300 group"
+                        initial={{ opacity: 0, scale: 0.9 }}
+                        whileInView={{ opacity: 1, scale: 1 }}
+                        transition={{ duration: 0.4, delay: 0.5 + index * 0.1 }}
+                        viewport={{ once: true }}
+                        whileHover={{ y: -4 }}
+                      >
+                        <IconComponent className="w-5 h-5 text-muted-foreground group-hover:text-primary transition-colors" />
+                        <span className="text-xs font-medium text-muted-foreground group-hover:text-foreground transition-colors">
+                          {label}
+                        </span>
+                      </motion.a>
+                    );
+                  })}
+                </div>
               </div>
-            </div>
+            ) : null}
 
             {/* Availability Status */}
             <motion.div
@@ -5,6 +5,7 @@ import Image from "next/image";
 import { Briefcase, Calendar, MapPin, ArrowUpRight, ChevronDown } from "lucide-react";
 import { useRef, useMemo, useState } from "react";
 import type { Experience, SiteSettings } from "@/features/public/types";
+import MarkdownContent from "./MarkdownContent";
 
 interface ExperienceGroup {
   id: string;
@@ -196,7 +197,11 @@ function EditorialCard({ group, index, isLast }: { group: ExperienceGroup; index
                     <div className="overflow-hidden">
                       <div className="px-5 sm:px-6 pb-5 pt-1">
                         <div className="w-12 h-px bg-gradient-to-r from-primary/40 to-transparent mb-4" />
-                        <p className="text-sm sm:text-[15px] text-muted-foreground leading-relaxed mb-5">{exp.description}</p>
+                        {exp.descriptionHtml ? (
+                          <MarkdownContent html={exp.descriptionHtml} className="text-sm sm:text-[15px] text-muted-foreground leading-relaxed mb-5" />
+                        ) : (
+                          <p className="text-sm sm:text-[15px] text-muted-foreground leading-relaxed mb-5">{exp.description}</p>
+                        )}
                         <div className="flex flex-wrap gap-2">
                           {exp.technologies.map(t => (
                             <span key={t} className="text-[11px] font-mono text-muted-foreground/60 bg-background border border-border/30 px-2.5 py-1 rounded-lg hover:border-primary/25 hover:text-primary/60 transition-colors cursor-default">{t}</span>
@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
 import Image from "next/image";
 import { motion, useScroll, useTransform } from "framer-motion";
-import { ArrowDown, Github, Linkedin, Mail } from "lucide-react";
+import { ArrowDown } from "lucide-react";
+import { isExternalLink, socialPlatformMeta } from "@/features/public/lib/socialLinks";
 import type { SiteSettings } from "@/features/public/types";
 
 const HeroSection = ({ siteSettings }: { siteSettings: SiteSettings }) => {
@@ -42,11 +43,7 @@ const HeroSection = ({ siteSettings }: { siteSettings: SiteSettings }) => {
     document.querySelector("#contact")?.scrollIntoView({ behavior: "smooth" });
   };
 
-  const socialLinks = [
-    { href: "https://github.com/appadook", icon: Github, label: "GitHub" },
-    { href: "https://www.linkedin.com/in/kurtik-appadoo-863019244/", icon: Linkedin, label: "LinkedIn" },
-    { href: "mailto:kurtik.appadoo.2002@outlook.com", icon: Mail, label: "Email" }
-  ];
+  const socialLinks = siteSettings?.socialLinks ?? [];
 
   return (
     <motion.section
@@ -255,21 +252,25 @@ const HeroSection = ({ siteSettings }: { siteSettings: SiteSettings }) => {
             animate={{ opacity: 1 }}
             transition={{ duration: 0.8, delay: 1.4 }}
           >
-            {socialLinks.map((social, index) => (
-              <motion.a
-                key={social.label}
-                href={social.href}
-                target={social.href.startsWith('mailto') ? undefined : "_blank"}
-                rel={social.href.startsWith('mailto') ? undefined : "noopener noreferrer"}
-                className="group p-3 rounded-full border border-border/50 hover:border-primary/50 hover:bg-primary/5 transition-all duration-300"
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.5, delay: 1.5 + (index * 0.1) }}
-                whileHover={{ y: -3 }}
-              >
-                <social.icon className="w-5 h-5 text-muted-foreground group-hover:text-primary transition-colors" />
-              </motion.a>
-            ))}
+            {socialLinks.map((social, index) => {
+              const { label, icon: IconComponent } = socialPlatformMeta[social.platform];
+              return (
+                <motion.a
+                  key={`${social.platform}-${social.url}`}
+                  href={social.url}
+                  target={isExternalLink(social) ? "_blank" : undefined}
+                  rel={isExternalLink(social) ? "noopener noreferrer" : undefined}
+                  aria-label={label}
+                  className="group p-3 rounded-full border border-border/50 hover:border-primary/50 hover:bg-primary/5 transition-all duration-300"
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.5, delay: 1.5 + (index * 0.1) }}
+                  whileHover={{ y: -3 }}
+                >
+                  <IconComponent className="w-5 h-5 text-muted-foreground group-hover:text-primary transition-colors" />
+                </motion.a>
+              );
+            })}
           </motion.div>
         </div>
       </motion.div>
@@ -0,0 +1,13 @@
+interface JsonLdProps {
+  data: Record<string, unknown>;
+}
+
+// Escaping `<` keeps admin-authored text from closing the script element.
+const JsonLd = ({ data }: JsonLdProps) => (
+  <script
+    type="application/ld+json"
+    dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+  />
+);
+
+export default JsonLd;
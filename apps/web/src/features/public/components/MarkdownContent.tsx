@@ -0,0 +1,13 @@
+import { cn } from "@/lib/utils";
+
+interface MarkdownContentProps {
+  html: string;
+  className?: string;
+}
+
+// `html` comes from `renderMarkdown`, which sanitizes it on the server.
+const MarkdownContent = ({ html, className }: MarkdownContentProps) => {
+  return <div className={cn("markdown-content", className)} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default MarkdownContent;
@@ -0,0 +1,18 @@
+import { Eye } from "lucide-react";
+
+const PreviewBanner = () => {
+  return (
+    <div className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-full border border-primary/40 bg-background/95 px-4 py-2 text-sm shadow-lg backdrop-blur">
+      <Eye className="h-4 w-4 text-primary" />
+      <span className="text-foreground">Previewing unpublished changes</span>
+      <a
+        href="/api/preview/exit"
+        className="font-mono text-xs text-muted-foreground transition-colors hover:text-primary"
+      >
+        Exit preview
+      </a>
+    </div>
+  );
+};
+
+export default PreviewBanner;
@@ -0,0 +1,170 @@
+'use client';
+
+import { useCallback, useEffect, useState, type KeyboardEvent } from 'react';
+import useEmblaCarousel from 'embla-carousel-react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { ProjectMedia } from '@/features/public/types';
+import { cn } from '@/lib/utils';
+import ResponsiveImage from './ResponsiveImage';
+
+interface ProjectMediaCarouselProps {
+  media: ProjectMedia[];
+  title: string;
+}
+
+const MediaSlide = ({ item, title, isActive }: { item: ProjectMedia; title: string; isActive: boolean }) => {
+  if (item.kind === 'image') {
+    return (
+      <ResponsiveImage
+        src={item.url}
+        alt={item.alt}
+        asset={item.asset}
+        fill
+        sizes="(max-width: 768px) 100vw, 848px"
+        className="object-contain"
+      />
+    );
+  }
+
+  if (item.provider === 'mp4') {
+    return <video src={item.embedUrl} controls preload="metadata" className="h-full w-full bg-black" />;
+  }
+
+  // Iframes load only once their slide has been shown.
+  return isActive ? (
+    <iframe
+      src={item.embedUrl}
+      title={item.caption ?? `${title} video`}
+      allow="accelerometer; autoplay; clipboard-write; encrypted-media; picture-in-picture; fullscreen"
+      allowFullScreen
+      loading="lazy"
+      className="h-full w-full border-0"
+    />
+  ) : null;
+};
+
+// Left/right arrows move between slides while the carousel has focus.
+const ProjectMediaCarousel = ({ media, title }: ProjectMediaCarouselProps) => {
+  const [emblaRef, emblaApi] = useEmblaCarousel({ loop: false });
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [visited, setVisited] = useState<Set<number>>(() => new Set([0]));
+
+  const scrollPrev = useCallback(() => emblaApi?.scrollPrev(), [emblaApi]);
+  const scrollNext = useCallback(() => emblaApi?.scrollNext(), [emblaApi]);
+
+  useEffect(() => {
+    if (!emblaApi) return;
+    const onSelect = () => {
+      const index = emblaApi.selectedScrollSnap();
+      setSelectedIndex(index);
+      setVisited((current) => (current.has(index) ? current : new Set(current).add(index)));
+    };
+    onSelect();
+    emblaApi.on('select', onSelect);
+    emblaApi.on('reInit', onSelect);
+    return () => {
+      emblaApi.off('select', onSelect);
+      emblaApi.off('reInit', onSelect);
+    };
+  }, [emblaApi]);
+
+  // Stop playing uploaded videos when their slide is left.
+  useEffect(() => {
+    emblaApi?.slideNodes().forEach((node, index) => {
+      if (index !== selectedIndex) {
+        node.querySelector('video')?.pause();
+      }
+    });
+  }, [emblaApi, selectedIndex]);
+
+  const onKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'ArrowLeft') {
+      event.preventDefault();
+      scrollPrev();
+    } else if (event.key === 'ArrowRight') {
+      event.preventDefault();
+      scrollNext();
+    }
+  };
+
+  if (media.length === 0) return null;
+
+  const current = media[selectedIndex] ?? media[0];
+
+  return (
+    <div
+      role="region"
+      aria-roledescription="carousel"
+      aria-label={`${title} gallery`}
+      tabIndex={0}
+      onKeyDown={onKeyDown}
+      className="space-y-3 rounded-xl focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50"
+    >
+      <div className="relative">
+        <div ref={emblaRef} className="overflow-hidden rounded-xl border border-border/50 bg-background-subtle">
+          <div className="flex">
+            {media.map((item, index) => (
+              <div
+                key={`${item.url}-${index}`}
+                role="group"
+                aria-roledescription="slide"
+                aria-label={`${index + 1} of ${media.length}`}
+                className="relative aspect-video min-w-0 flex-[0_0_100%]"
+              >
+                {visited.has(index) ? <MediaSlide item={item} title={title} isActive={index === selectedIndex} /> : null}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {media.length > 1 && (
+          <>
+            <button
+              type="button"
+              onClick={scrollPrev}
+              disabled={selectedIndex === 0}
+              aria-label="Previous media"
+              className="absolute left-3 top-1/2 -translate-y-1/2 rounded-full border border-border/50 bg-card/80 p-2 text-foreground backdrop-blur transition-opacity disabled:opacity-0"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={scrollNext}
+              disabled={selectedIndex === media.length - 1}
+              aria-label="Next media"
+              className="absolute right-3 top-1/2 -translate-y-1/2 rounded-full border border-border/50 bg-card/80 p-2 text-foreground backdrop-blur transition-opacity disabled:opacity-0"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground" aria-live="polite">
+          {current.caption ?? ''}
+        </p>
+        {media.length > 1 && (
+          <div className="flex shrink-0 gap-1.5">
+            {media.map((item, index) => (
+              <button
+                key={`${item.url}-${index}-dot`}
+                type="button"
+                onClick={() => emblaApi?.scrollTo(index)}
+                aria-label={`Show media ${index + 1}`}
+                aria-current={index === selectedIndex}
+                className={cn(
+                  'h-1.5 rounded-full transition-all',
+                  index === selectedIndex ? 'w-5 bg-primary' : 'w-1.5 bg-muted-foreground/40 hover:bg-muted-foreground',
+                )}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectMediaCarousel;
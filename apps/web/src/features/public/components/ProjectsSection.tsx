@@ -1,5 +1,5 @@
-import { useState, useMemo, useCallback, useEffect } from "react";
-import Image from "next/image";
+import { useState, useMemo, useCallback, useEffect, useRef } from "react";
+import { usePathname } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { Github, ExternalLink, ArrowUpRight, ChevronLeft, ChevronRight } from "lucide-react";
 import useEmblaCarousel from "embla-carousel-react";
@@ -7,6 +7,7 @@ import ProjectModal from "./ProjectModal";
 import type { Project } from "@/features/public/types";
 import { getProjectCardMeta } from "@/features/public/lib/projectCardMeta";
 import AnimatedSection from "./AnimatedSection";
+import ResponsiveImage from "./ResponsiveImage";
 import { useBreakpoint } from "@/hooks/use-mobile";
 import { cn } from "@/lib/utils";
 
@@ -95,8 +96,9 @@ function ProjectCardActions({ project, compact = false }: { project: Project; co
 
 const ProjectsSection = ({ projects }: { projects: Project[] }) => {
   const [selectedCategory, setSelectedCategory] = useState("All");
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
-  const [isModalOpen, setIsModalOpen] = useState(false);
+  const pathname = usePathname();
+  // True while the open modal's history entry was pushed from this page.
+  const pushedProjectEntryRef = useRef(false);
   
   // Breakpoint detection for mobile carousel
   const { isSmall } = useBreakpoint();
@@ -140,14 +142,40 @@ const ProjectsSection = ({ projects }: { projects: Project[] }) => {
         );
   }, [projects, selectedCategory]);
 
+  // The modal follows the URL, so back/forward open and close it and the
+  // address bar always holds a link to the standalone project page.
+  const selectedProject = useMemo(() => {
+    const match = /^\/projects\/([^/]+)\/?$/.exec(pathname ?? "");
+    if (!match) return null;
+    const slug = decodeURIComponent(match[1]);
+    return projects.find((project) => project.slug === slug) ?? null;
+  }, [pathname, projects]);
+
+  useEffect(() => {
+    if (!selectedProject) {
+      pushedProjectEntryRef.current = false;
+    }
+  }, [selectedProject]);
+
   const openProjectModal = (project: Project) => {
-    setSelectedProject(project);
-    setIsModalOpen(true);
+    window.history.pushState(
+      null,
+      "",
+      `/projects/${encodeURIComponent(project.slug)}${window.location.search}`
+    );
+    pushedProjectEntryRef.current = true;
   };
 
+  // After a direct visit there is no home page entry to go back to, so the
+  // URL is replaced with the home page's projects section, keeping the query.
   const closeProjectModal = () => {
-    setIsModalOpen(false);
-    setSelectedProject(null);
+    if (pushedProjectEntryRef.current) {
+      window.history.back();
+    } else {
+      window.history.replaceState(null, "", `/${window.location.search}#projects`);
+      document.getElementById("projects")?.scrollIntoView();
+    }
+    pushedProjectEntryRef.current = false;
   };
 
   return (
@@ -271,9 +299,10 @@ const ProjectsSection = ({ projects }: { projects: Project[] }) => {
                             <div className="relative h-28 overflow-hidden">
                               {project.image ? (
                                 <>
-                                  <Image
+                                  <ResponsiveImage
                                     src={project.image}
                                     alt={project.title}
+                                    asset={project.imageAsset}
                                     fill
                                     sizes="(max-width: 768px) 50vw, 280px"
                                     className="object-cover"
@@ -411,9 +440,10 @@ const ProjectsSection = ({ projects }: { projects: Project[] }) => {
                         <div className="relative h-36 overflow-hidden">
                           {project.image ? (
                             <>
-                              <Image
+                              <ResponsiveImage
                                 src={project.image}
                                 alt={project.title}
+                                asset={project.imageAsset}
                                 fill
                                 sizes="(max-width: 1024px) 50vw, (max-width: 1280px) 33vw, 25vw"
                                 className="object-cover transition-transform duration-700 group-hover:scale-110"
@@ -514,7 +544,7 @@ const ProjectsSection = ({ projects }: { projects: Project[] }) => {
         {/* Project Modal */}
         <ProjectModal
           project={selectedProject}
-          isOpen={isModalOpen}
+          isOpen={selectedProject !== null}
           onClose={closeProjectModal}
         />
       </div>
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import type { ImageAsset } from '@/features/public/types';
+import { cn } from '@/lib/utils';
+
+type ResponsiveImageProps = {
+  src: string;
+  alt: string;
+  asset?: ImageAsset;
+  sizes: string;
+  className?: string;
+  priority?: boolean;
+} & ({ fill: true; width?: never; height?: never } | { fill?: false; width: number; height: number });
+
+const FORMATS = ['avif', 'webp'] as const;
+
+/**
+ * Renders an upload with the AVIF/WebP variants generated for it and a blurred
+ * placeholder until it loads. Images without variants (SVGs, or uploads still
+ * being processed) go through `next/image` as before.
+ */
+const ResponsiveImage = ({ src, alt, asset, sizes, className, priority = false, ...layout }: ResponsiveImageProps) => {
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // A cached image can finish loading before hydration attaches `onLoad`.
+  useEffect(() => {
+    if (imageRef.current?.complete) {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  if (!asset || asset.variants.length === 0) {
+    return layout.fill ? (
+      <Image src={src} alt={alt} fill sizes={sizes} priority={priority} className={className} />
+    ) : (
+      <Image
+        src={src}
+        alt={alt}
+        width={layout.width}
+        height={layout.height}
+        sizes={sizes}
+        priority={priority}
+        className={className}
+      />
+    );
+  }
+
+  const webp = asset.variants.filter((variant) => variant.format === 'webp');
+  const fallback = webp.reduce<(typeof webp)[number] | undefined>(
+    (largest, variant) => (!largest || variant.width > largest.width ? variant : largest),
+    undefined,
+  );
+
+  return (
+    <picture>
+      {FORMATS.map((format) => {
+        const variants = asset.variants.filter((variant) => variant.format === format);
+        return variants.length > 0 ? (
+          <source
+            key={format}
+            type={`image/${format}`}
+            sizes={sizes}
+            srcSet={variants.map((variant) => `${variant.url} ${variant.width}w`).join(', ')}
+          />
+        ) : null;
+      })}
+      <img
+        ref={imageRef}
+        src={fallback?.url ?? src}
+        alt={alt}
+        width={layout.fill ? asset.width : layout.width}
+        height={layout.fill ? asset.height : layout.height}
+        loading={priority ? 'eager' : 'lazy'}
+        fetchPriority={priority ? 'high' : undefined}
+        decoding="async"
+        onLoad={() => setIsLoaded(true)}
+        style={
+          isLoaded
+            ? undefined
+            : { backgroundImage: `url(${asset.placeholder})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+        }
+        className={cn(
+          layout.fill ? 'absolute inset-0 h-full w-full' : undefined,
+          'transition-[filter] duration-500',
+          isLoaded ? undefined : 'blur-md',
+          className,
+        )}
+      />
+    </picture>
+  );
+};
+
+export default ResponsiveImage;
@@ -0,0 +1,99 @@
+import type { PortfolioSnapshot } from '@/features/public/types';
+import { getLastModified, getProjectUrl, getSiteDescription, getSiteName } from '@/features/public/lib/seo';
+
+const MAX_FEED_ENTRIES = 50;
+
+type FeedEntry = {
+  id: string;
+  title: string;
+  url: string;
+  published: number;
+  updated: number;
+  summary?: string;
+  categories: string[];
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Atom ids must never change, so they are tag URIs built from the document id
+// and the day it was created rather than from slugs or URLs that can be edited.
+function getEntryId(kind: 'project' | 'certificate', item: { _id: string; _creationTime?: number }, siteUrl: string) {
+  const day = new Date(item._creationTime ?? 0).toISOString().slice(0, 10);
+  return `tag:${new URL(siteUrl).hostname},${day}:${kind}/${item._id}`;
+}
+
+function collectFeedEntries(snapshot: PortfolioSnapshot, siteUrl: string): FeedEntry[] {
+  const projects = snapshot.projects.map((project) => ({
+    id: getEntryId('project', project, siteUrl),
+    title: project.title,
+    url: getProjectUrl(project, siteUrl),
+    published: project._creationTime ?? 0,
+    updated: getLastModified(project) ?? 0,
+    summary: project.description,
+    categories: ['Project', ...project.categories],
+  }));
+
+  const certificates = snapshot.cloudProviders.flatMap((provider) =>
+    (provider.certificates ?? []).map((certificate) => ({
+      id: getEntryId('certificate', certificate, siteUrl),
+      title: `Certified: ${certificate.name}`,
+      url: certificate.verificationUrl ?? `${siteUrl}/#skills`,
+      published: certificate._creationTime ?? 0,
+      updated: getLastModified(certificate) ?? 0,
+      summary: [certificate.issuer ?? provider.name, certificate.year].filter(Boolean).join(' · '),
+      categories: ['Certificate', provider.name],
+    })),
+  );
+
+  return [...projects, ...certificates]
+    .sort((left, right) => right.updated - left.updated)
+    .slice(0, MAX_FEED_ENTRIES);
+}
+
+/**
+ * Builds an Atom feed of published projects and certificates, most recently
+ * added or edited first.
+ */
+export function buildAtomFeed(snapshot: PortfolioSnapshot, siteUrl: string): string {
+  const entries = collectFeedEntries(snapshot, siteUrl);
+  const updated = Math.max(snapshot.siteSettings.updatedAt ?? 0, ...entries.map((entry) => entry.updated));
+  const siteName = getSiteName(snapshot.siteSettings);
+
+  const entryXml = entries.map((entry) =>
+    [
+      '  <entry>',
+      `    <id>${escapeXml(entry.id)}</id>`,
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(entry.url)}"/>`,
+      `    <published>${new Date(entry.published).toISOString()}</published>`,
+      `    <updated>${new Date(entry.updated).toISOString()}</updated>`,
+      entry.summary ? `    <summary>${escapeXml(entry.summary)}</summary>` : null,
+      ...entry.categories.map((category) => `    <category term="${escapeXml(category)}"/>`),
+      '  </entry>',
+    ]
+      .filter((line): line is string => line !== null)
+      .join('\n'),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(`${siteUrl}/`)}</id>`,
+    `  <title>${escapeXml(siteName)}</title>`,
+    `  <subtitle>${escapeXml(getSiteDescription(snapshot.siteSettings))}</subtitle>`,
+    `  <link rel="alternate" href="${escapeXml(`${siteUrl}/`)}"/>`,
+    `  <link rel="self" href="${escapeXml(`${siteUrl}/feed.xml`)}"/>`,
+    `  <updated>${new Date(updated).toISOString()}</updated>`,
+    `  <author><name>${escapeXml(siteName)}</name></author>`,
+    ...entryXml,
+    '</feed>',
+    '',
+  ].join('\n');
+}
@@ -5,9 +5,12 @@ import type {
   ProgrammingLanguage,
   Project,
   SiteSettings,
+  SocialPlatform,
   Technology,
   Experience,
+  ImageAsset,
 } from '@/features/public/types';
+import { mapProjectMedia, type ProjectMediaPayload } from '@/features/public/lib/projectMedia';
 
 export type ExperiencePayload = {
   _id: string;
@@ -25,7 +28,9 @@ export type ExperiencePayload = {
 export type ProjectPayload = {
   _id: string;
   _creationTime?: number;
+  updatedAt?: number;
   title: string;
+  slug?: string;
   description: string;
   longDescription?: string;
   categories: string[];
@@ -34,6 +39,8 @@ export type ProjectPayload = {
   githubUrl?: string;
   liveUrl?: string;
   image?: string;
+  imageAsset?: ImageAsset;
+  media?: ProjectMediaPayload[];
   features?: string[];
   challenges?: string[];
   outcomes?: string[];
@@ -63,8 +70,11 @@ export type TechnologyPayload = {
 
 export type CertificatePayload = {
   _id: string;
+  _creationTime?: number;
+  updatedAt?: number;
   name: string;
   image: string;
+  imageAsset?: ImageAsset;
   year: string;
   description?: string;
   issuer?: string;
@@ -108,11 +118,23 @@ export type AboutItemPayload = {
 
 export type SiteSettingsPayload = {
   _id?: string;
+  updatedAt?: number;
   siteName?: string;
   tagline?: string;
+  description?: string;
   logoUrl?: string;
   profileImageUrl?: string;
   resumeUrl?: string;
+  contact?: {
+    email?: string;
+    phone?: string;
+    location?: string;
+  };
+  socialLinks?: Array<{
+    platform: SocialPlatform;
+    url: string;
+    visible: boolean;
+  }>;
 };
 
 export const mapExperience = (item: ExperiencePayload): Experience => ({
@@ -131,7 +153,10 @@ export const mapExperience = (item: ExperiencePayload): Experience => ({
 export const mapProject = (item: ProjectPayload): Project => ({
   _id: String(item._id),
   _creationTime: item._creationTime,
+  updatedAt: item.updatedAt,
   title: item.title,
+  // Projects published before slugs existed are addressed by id until republished.
+  slug: item.slug ?? String(item._id),
   description: item.description,
   longDescription: item.longDescription,
   categories: item.categories || [],
@@ -140,6 +165,8 @@ export const mapProject = (item: ProjectPayload): Project => ({
   githubUrl: item.githubUrl,
   liveUrl: item.liveUrl,
   image: item.image,
+  imageAsset: item.imageAsset,
+  media: mapProjectMedia(item.media),
   features: item.features,
   challenges: item.challenges,
   outcomes: item.outcomes,
@@ -177,8 +204,11 @@ export const mapCloudProvider = (item: CloudProviderPayload): CloudProvider => (
   order: item.order ?? 0,
   certificates: (item.certificates || []).map((certificate) => ({
     _id: String(certificate._id),
+    _creationTime: certificate._creationTime,
+    updatedAt: certificate.updatedAt,
     name: certificate.name,
     image: certificate.image,
+    imageAsset: certificate.imageAsset,
     year: certificate.year,
     description: certificate.description,
     issuer: certificate.issuer,
@@ -214,8 +244,10 @@ export const mapAboutItem = (item: AboutItemPayload): AboutItem => ({
 
 export const mapSiteSettings = (raw: SiteSettingsPayload): SiteSettings => ({
   _id: String(raw._id ?? 'site-settings'),
+  updatedAt: raw.updatedAt,
   siteName: raw.siteName,
   tagline: raw.tagline,
+  description: raw.description,
   logo: {
     asset: {
       _ref: 'site-logo',
@@ -234,6 +266,10 @@ export const mapSiteSettings = (raw: SiteSettingsPayload): SiteSettings => ({
       url: raw.resumeUrl,
     },
   },
+  contact: raw.contact,
+  socialLinks: (raw.socialLinks ?? [])
+    .filter((link) => link.visible)
+    .map((link) => ({ platform: link.platform, url: link.url })),
 });
 
 export function isPresent<T>(value: T | null | undefined): value is T {
@@ -0,0 +1,93 @@
+import { ImageResponse } from 'next/og';
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+const COLORS = {
+  background: '#0a0a0a',
+  card: '#141414',
+  foreground: '#fbfaf9',
+  muted: '#a3a09b',
+  primary: '#d4a122',
+};
+
+type OgImageContent = {
+  siteName: string;
+  eyebrow?: string;
+  title: string;
+  description?: string;
+  tags?: string[];
+};
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1).trimEnd()}…` : value;
+}
+
+/**
+ * Renders the shared Open Graph card. Text only: uploads may be WebP or AVIF,
+ * which the image renderer cannot decode.
+ */
+export function renderOgImage({ siteName, eyebrow, title, description, tags = [] }: OgImageContent) {
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          width: '100%',
+          height: '100%',
+          padding: '72px 80px',
+          background: `linear-gradient(135deg, ${COLORS.background} 0%, ${COLORS.card} 100%)`,
+          color: COLORS.foreground,
+          fontFamily: 'sans-serif',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+          <div style={{ display: 'flex', width: 48, height: 2, background: COLORS.primary }} />
+          <div
+            style={{
+              display: 'flex',
+              fontSize: 24,
+              letterSpacing: 4,
+              textTransform: 'uppercase',
+              color: COLORS.primary,
+            }}
+          >
+            {eyebrow ?? siteName}
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+          <div style={{ display: 'flex', fontSize: 72, fontWeight: 700, lineHeight: 1.1 }}>{truncate(title, 60)}</div>
+          {description ? (
+            <div style={{ display: 'flex', fontSize: 30, lineHeight: 1.4, color: COLORS.muted }}>
+              {truncate(description, 160)}
+            </div>
+          ) : null}
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <div style={{ display: 'flex', gap: 12 }}>
+            {tags.slice(0, 4).map((tag) => (
+              <div
+                key={tag}
+                style={{
+                  display: 'flex',
+                  padding: '8px 18px',
+                  fontSize: 22,
+                  borderRadius: 999,
+                  border: `1px solid ${COLORS.primary}`,
+                  color: COLORS.foreground,
+                }}
+              >
+                {tag}
+              </div>
+            ))}
+          </div>
+          {eyebrow ? <div style={{ display: 'flex', fontSize: 24, color: COLORS.muted }}>{siteName}</div> : null}
+        </div>
+      </div>
+    ),
+    OG_IMAGE_SIZE,
+  );
+}
@@ -0,0 +1,67 @@
+import type { ImageAsset, ProjectMedia, ProjectVideoProvider } from '@/features/public/types';
+
+export type ProjectMediaPayload = {
+  kind: 'image' | 'video';
+  url: string;
+  alt?: string;
+  caption?: string;
+  asset?: ImageAsset;
+};
+
+type VideoEmbed = { provider: ProjectVideoProvider; embedUrl: string };
+
+const YOUTUBE_ID_PATTERN = /^[A-Za-z0-9_-]{6,}$/;
+
+function parseUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+function getYouTubeId(url: URL): string | null {
+  const host = url.hostname.replace(/^(www|m)\./, '');
+  if (host === 'youtu.be') {
+    return url.pathname.slice(1).split('/')[0] || null;
+  }
+  if (host !== 'youtube.com') {
+    return null;
+  }
+  return url.searchParams.get('v') ?? /^\/(?:embed|shorts)\/([^/]+)/.exec(url.pathname)?.[1] ?? null;
+}
+
+/** Resolves a stored video link to something the carousel can play; unknown links return null. */
+export function getVideoEmbed(value: string): VideoEmbed | null {
+  const url = parseUrl(value);
+  if (!url) {
+    return null;
+  }
+
+  const youTubeId = getYouTubeId(url);
+  if (youTubeId && YOUTUBE_ID_PATTERN.test(youTubeId)) {
+    return { provider: 'youtube', embedUrl: `https://www.youtube-nocookie.com/embed/${youTubeId}` };
+  }
+
+  const loomId = /^\/(?:share|embed)\/([A-Za-z0-9]+)/.exec(url.pathname)?.[1];
+  if (url.hostname.replace(/^www\./, '') === 'loom.com' && loomId) {
+    return { provider: 'loom', embedUrl: `https://www.loom.com/embed/${loomId}` };
+  }
+
+  // Uploaded MP4s are served from Convex storage without a file extension.
+  if (url.pathname.toLowerCase().endsWith('.mp4') || /\/api\/storage\/[^/]+$/.test(url.pathname)) {
+    return { provider: 'mp4', embedUrl: url.toString() };
+  }
+
+  return null;
+}
+
+export const mapProjectMedia = (items: ProjectMediaPayload[] | undefined): ProjectMedia[] =>
+  (items ?? []).flatMap((item): ProjectMedia[] => {
+    if (item.kind === 'image') {
+      return [{ kind: 'image', url: item.url, alt: item.alt ?? '', caption: item.caption, asset: item.asset }];
+    }
+
+    const embed = getVideoEmbed(item.url);
+    return embed ? [{ kind: 'video', url: item.url, caption: item.caption, ...embed }] : [];
+  });
@@ -0,0 +1,80 @@
+import type { Experience, PortfolioSnapshot, Project, SiteSettings } from '@/features/public/types';
+
+export const DEFAULT_SITE_NAME = 'Kurtik Appadoo';
+export const DEFAULT_SITE_DESCRIPTION = 'Kurtik Appadoo portfolio with projects, experience, and contact.';
+
+type JsonLd = Record<string, unknown>;
+
+export function getSiteName(settings: SiteSettings): string {
+  return settings.siteName?.trim() || DEFAULT_SITE_NAME;
+}
+
+export function getSiteDescription(settings: SiteSettings): string {
+  return settings.description?.trim() || settings.tagline?.trim() || DEFAULT_SITE_DESCRIPTION;
+}
+
+const getPersonId = (siteUrl: string) => `${siteUrl}/#person`;
+
+export const getProjectUrl = (project: Project, siteUrl: string) =>
+  `${siteUrl}/projects/${encodeURIComponent(project.slug)}`;
+
+/** When an item last changed: its last content edit, or when it was added. */
+export const getLastModified = (item: { _creationTime?: number; updatedAt?: number }): number | undefined =>
+  Math.max(item.updatedAt ?? 0, item._creationTime ?? 0) || undefined;
+
+export function buildPersonJsonLd(settings: SiteSettings, experiences: Experience[], siteUrl: string): JsonLd {
+  const current = experiences.find((experience) => experience.isCurrent) ?? experiences[0];
+  const knowsAbout = [...new Set(experiences.flatMap((experience) => experience.technologies))];
+
+  return {
+    '@type': 'Person',
+    '@id': getPersonId(siteUrl),
+    name: getSiteName(settings),
+    url: siteUrl,
+    description: getSiteDescription(settings),
+    image: settings.profileImage?.asset.url,
+    email: settings.contact?.email ? `mailto:${settings.contact.email}` : undefined,
+    jobTitle: current?.role,
+    worksFor: current ? { '@type': 'Organization', name: current.company } : undefined,
+    knowsAbout: knowsAbout.length > 0 ? knowsAbout : undefined,
+    sameAs: settings.socialLinks.filter((link) => link.platform !== 'email').map((link) => link.url),
+  };
+}
+
+export function buildProjectJsonLd(project: Project, siteUrl: string): JsonLd {
+  const url = getProjectUrl(project, siteUrl);
+  return {
+    '@type': 'CreativeWork',
+    '@id': `${url}#work`,
+    name: project.title,
+    description: project.description,
+    url,
+    image: project.image,
+    keywords: [...project.categories, ...project.techStack].join(', '),
+    creativeWorkStatus: project.status,
+    creator: { '@id': getPersonId(siteUrl) },
+    sameAs: [project.githubUrl, project.liveUrl].filter(Boolean),
+  };
+}
+
+/** Structured data for the home page: the site owner and every published project. */
+export function buildPortfolioJsonLd(snapshot: PortfolioSnapshot, siteUrl: string): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@graph': [
+      buildPersonJsonLd(snapshot.siteSettings, snapshot.experiences, siteUrl),
+      ...snapshot.projects.map((project) => buildProjectJsonLd(project, siteUrl)),
+    ],
+  };
+}
+
+/**
+ * Structured data for a project page. The creator is described from site
+ * settings only; the home page carries the full profile under the same `@id`.
+ */
+export function buildProjectPageJsonLd(project: Project, settings: SiteSettings, siteUrl: string): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@graph': [buildProjectJsonLd(project, siteUrl), buildPersonJsonLd(settings, [], siteUrl)],
+  };
+}
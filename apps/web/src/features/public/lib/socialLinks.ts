@@ -0,0 +1,17 @@
+import type React from 'react';
+import { Github, Globe, Instagram, Linkedin, Mail, Twitter, Youtube } from 'lucide-react';
+import type { SocialLink, SocialPlatform } from '@/features/public/types';
+
+export const socialPlatformMeta: Record<SocialPlatform, { label: string; icon: React.ElementType }> = {
+  github: { label: 'GitHub', icon: Github },
+  linkedin: { label: 'LinkedIn', icon: Linkedin },
+  x: { label: 'X', icon: Twitter },
+  instagram: { label: 'Instagram', icon: Instagram },
+  youtube: { label: 'YouTube', icon: Youtube },
+  email: { label: 'Email', icon: Mail },
+  website: { label: 'Website', icon: Globe },
+};
+
+export const isExternalLink = (link: SocialLink) => !link.url.startsWith('mailto:');
+
+export const toPhoneHref = (phone: string) => `tel:${phone.replace(/[^\d+]/g, '')}`;
@@ -5,24 +5,47 @@ export interface Experience {
   duration: string;
   location: string;
   description: string;
+  // Sanitized HTML rendered from the Markdown description on the server.
+  descriptionHtml?: string;
   technologies: string[];
   logo?: string;
   isCurrent?: boolean;
   order: number;
 }
 
+/** Responsive variants generated for an uploaded raster image. */
+export interface ImageAsset {
+  width: number;
+  height: number;
+  blurhash: string;
+  /** Tiny data URL shown while the image loads. */
+  placeholder: string;
+  variants: Array<{ format: 'avif' | 'webp'; width: number; url: string }>;
+}
+
+export type ProjectVideoProvider = 'youtube' | 'loom' | 'mp4';
+
+export type ProjectMedia =
+  | { kind: 'image'; url: string; alt: string; caption?: string; asset?: ImageAsset }
+  | { kind: 'video'; provider: ProjectVideoProvider; url: string; embedUrl: string; caption?: string };
+
 export interface Project {
   _id: string;
   _creationTime?: number;
+  updatedAt?: number;
   title: string;
+  slug: string;
   description: string;
   longDescription?: string;
+  longDescriptionHtml?: string;
   categories: string[];
   techStack: string[];
   status?: 'new' | 'active' | 'deprecated';
   githubUrl?: string;
   liveUrl?: string;
   image?: string;
+  imageAsset?: ImageAsset;
+  media: ProjectMedia[];
   features?: string[];
   challenges?: string[];
   outcomes?: string[];
@@ -59,9 +82,12 @@ export interface Technology {
 
 export interface Certificate {
   _id: string;
+  _creationTime?: number;
+  updatedAt?: number;
   name: string;
   providerId?: string;
   image: string;
+  imageAsset?: ImageAsset;
   year: string;
   description?: string;
   issuer?: string;
@@ -80,10 +106,25 @@ export interface CloudProvider {
   certificates?: Certificate[];
 }
 
+export type SocialPlatform = 'github' | 'linkedin' | 'x' | 'instagram' | 'youtube' | 'email' | 'website';
+
+export interface SocialLink {
+  platform: SocialPlatform;
+  url: string;
+}
+
+export interface ContactChannels {
+  email?: string;
+  phone?: string;
+  location?: string;
+}
+
 export interface SiteSettings {
   _id?: string;
+  updatedAt?: number;
   siteName?: string;
   tagline?: string;
+  description?: string;
   logo?: {
     asset: {
       _ref: string;
@@ -102,6 +143,8 @@ export interface SiteSettings {
       url?: string;
     };
   };
+  contact?: ContactChannels;
+  socialLinks: SocialLink[];
 }
 
 export interface AboutCategory {
@@ -119,6 +162,7 @@ export interface AboutItem {
   title: string;
   subtitle?: string;
   description?: string;
+  descriptionHtml?: string;
   date?: string;
   details?: string[];
   icon: string;
@@ -1,3 +1,4 @@
+import { parseAdminSubjects, resolveAdminAccess } from "@portfolio/backend/convex/lib/adminAccess";
 import { createWayAuthNext } from "@way/auth-sdk/next";
 
 function normalizeBaseUrl(rawValue: string, envKey: string): string {
@@ -105,6 +106,16 @@ export const auth = createWayAuthNext({
   baseUrl: wayAuthBaseUrl,
   transportMode: "proxy",
   endpointOriginGuard: "warn",
+  // Admin tabs share one session: a single tab refreshes and logouts reach every tab.
+  tabSync: true,
+  middleware: {
+    // The same rule as the Convex admin functions: allowlisted subjects, owners
+    // and editors use the dashboard. WAY_AUTH_ADMIN_SUBJECTS must match the
+    // Convex deployment's value.
+    authorize: (session) =>
+      resolveAdminAccess(session.user.id, session.roles, parseAdminSubjects(process.env.WAY_AUTH_ADMIN_SUBJECTS)) !==
+      null,
+  },
 });
 
 export const wayAuthMiddleware = auth.middleware;
@@ -0,0 +1,71 @@
+import rehypeHighlight from 'rehype-highlight';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeStringify from 'rehype-stringify';
+import remarkGfm from 'remark-gfm';
+import remarkParse from 'remark-parse';
+import remarkRehype from 'remark-rehype';
+import { unified } from 'unified';
+
+type HastNode = {
+  type: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+};
+
+// Inline images must be uploads served by Convex storage.
+const CONVEX_STORAGE_URL = /^https:\/\/[a-z0-9-]+\.convex\.(cloud|site)\/api\/storage\/[^/?#]+$/i;
+
+function isExternalHref(href: unknown): boolean {
+  return typeof href === 'string' && /^https?:\/\//i.test(href);
+}
+
+function restrictMarkdownElements(node: HastNode) {
+  if (!node.children) {
+    return;
+  }
+
+  node.children = node.children.filter((child) => {
+    if (child.type !== 'element') {
+      return true;
+    }
+
+    if (child.tagName === 'img') {
+      if (typeof child.properties?.src !== 'string' || !CONVEX_STORAGE_URL.test(child.properties.src)) {
+        return false;
+      }
+      child.properties.loading = 'lazy';
+    }
+
+    if (child.tagName === 'a' && isExternalHref(child.properties?.href)) {
+      child.properties = { ...child.properties, target: '_blank', rel: ['noopener', 'noreferrer', 'nofollow'] };
+    }
+
+    restrictMarkdownElements(child);
+    return true;
+  });
+}
+
+// Runs after sanitizing, so the attributes it adds are not stripped.
+function rehypeRestrictElements() {
+  return (tree: HastNode) => restrictMarkdownElements(tree);
+}
+
+const processor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkRehype)
+  .use(rehypeSanitize)
+  .use(rehypeRestrictElements)
+  .use(rehypeHighlight, { detect: false })
+  .use(rehypeStringify)
+  .freeze();
+
+/**
+ * Renders admin-authored Markdown to sanitized HTML. The public site calls this
+ * on the server when building the snapshot; the admin editor uses it for the
+ * live preview, so both show the same output.
+ */
+export function renderMarkdown(source: string): string {
+  return String(processor.processSync(source));
+}
@@ -1,5 +1,6 @@
 import 'server-only';
 
+import { parseAdminSubjects, resolveAdminAccess } from '@portfolio/backend/convex/lib/adminAccess';
 import { headers } from 'next/headers';
 import { redirect } from 'next/navigation';
 import { auth } from '@/lib/auth';
@@ -38,6 +39,17 @@ export async function getAdminSessionFromHeaders(pathname = '/admin'): Promise<S
     return null;
   }
 
+  // A valid WAY token is not enough: routes outside the /admin middleware
+  // (draft preview, /api/auth/me) rely on this for the admin check.
+  const access = resolveAdminAccess(
+    session.claims.sub,
+    session.roles,
+    parseAdminSubjects(process.env.WAY_AUTH_ADMIN_SUBJECTS),
+  );
+  if (!access) {
+    return null;
+  }
+
   return {
     user: {
       id: session.user.id,
@@ -0,0 +1,57 @@
+import 'server-only';
+
+import { createHmac } from 'node:crypto';
+import type { FunctionReturnType } from 'convex/server';
+import { api } from '@portfolio/backend/convex/_generated/api';
+import { getConvexClient } from '@/server/backend/convexClient';
+import { getContactFormSecret, getTrustedProxyCount } from '@/server/env';
+
+export type ContactSubmission = {
+  name: string;
+  email: string;
+  message: string;
+  website?: string;
+};
+
+export type ContactSubmissionResult = FunctionReturnType<typeof api.contact.submitContactMessage>;
+
+/**
+ * Each trusted proxy appends the address it received the request from to
+ * `x-forwarded-for`, so the client is `TRUSTED_PROXY_COUNT` entries from the
+ * end. Entries before it come from the client itself and are ignored. Without
+ * the header the app is not behind a proxy and the address is unknown.
+ */
+export function getClientIp(headers: Headers): string {
+  const hops = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[Math.max(0, hops.length - getTrustedProxyCount())] ?? 'unknown';
+}
+
+// Raw IPs never leave the Next server; Convex only sees a keyed hash that is
+// stable enough to rate limit on.
+function toClientKey(clientIp: string, secret: string): string {
+  return createHmac('sha256', secret).update(clientIp).digest('hex');
+}
+
+/** Returns null when the contact backend is not configured. */
+export async function submitContactMessage(
+  submission: ContactSubmission,
+  clientIp: string,
+): Promise<ContactSubmissionResult | null> {
+  const client = getConvexClient();
+  const secret = getContactFormSecret();
+  if (!client || !secret) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn('Contact form disabled: NEXT_PUBLIC_CONVEX_URL or CONTACT_FORM_SECRET is missing.');
+    }
+    return null;
+  }
+
+  return await client.mutation(api.contact.submitContactMessage, {
+    ...submission,
+    clientKey: toClientKey(clientIp, secret),
+    submitterSecret: secret,
+  });
+}
@@ -0,0 +1,18 @@
+import 'server-only';
+
+import { cache } from 'react';
+import { ConvexHttpClient } from 'convex/browser';
+import { getConvexPublicUrl } from '@/server/env';
+
+export const getConvexClient = cache(() => {
+  const convexUrl = getConvexPublicUrl();
+  if (!convexUrl) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn(
+        'Convex client not created: NEXT_PUBLIC_CONVEX_URL is missing or invalid (must be an origin URL).',
+      );
+    }
+    return null;
+  }
+  return new ConvexHttpClient(convexUrl);
+});
@@ -1,10 +1,16 @@
 import 'server-only';
 
 import { cache } from 'react';
-import { ConvexHttpClient } from 'convex/browser';
+import { unstable_cache } from 'next/cache';
+import type { ConvexHttpClient } from 'convex/browser';
+import type { FunctionReference, FunctionReturnType } from 'convex/server';
 import { api } from '@portfolio/backend/convex/_generated/api';
-import type { PortfolioSnapshot } from '@/features/public/types';
-import { getConvexPublicUrl } from '@/server/env';
+import type { Doc } from '@portfolio/backend/convex/_generated/dataModel';
+import type { AboutItem, Experience, PortfolioSnapshot, Project, SiteSettings } from '@/features/public/types';
+import { renderMarkdown } from '@/lib/markdown';
+import { getConvexClient } from '@/server/backend/convexClient';
+import { getSnapshotStore } from '@/server/backend/snapshotStore';
+import { getPortfolioPreviewSecret } from '@/server/env';
 import {
   mapAboutCategory,
   mapAboutItem,
@@ -20,6 +26,7 @@ import {
 export const EMPTY_SNAPSHOT: PortfolioSnapshot = {
   siteSettings: {
     _id: 'site-settings',
+    socialLinks: [],
   },
   experiences: [],
   projects: [],
@@ -30,60 +37,241 @@ export const EMPTY_SNAPSHOT: PortfolioSnapshot = {
   aboutItems: [],
 };
 
-const getConvexClient = cache(() => {
-  const convexUrl = getConvexPublicUrl();
-  if (!convexUrl) {
-    if (process.env.NODE_ENV !== 'production') {
-      console.warn(
-        'Convex client not created: NEXT_PUBLIC_CONVEX_URL is missing or invalid (must be an origin URL).',
-      );
-    }
-    return null;
-  }
-  return new ConvexHttpClient(convexUrl);
+export type PortfolioMode = 'published' | 'draft';
+
+export type PortfolioTable = Doc<'publishedDocuments'>['table'];
+
+/** Fallback lifetime for cached published data when no revalidation arrives. */
+export const PORTFOLIO_REVALIDATE_SECONDS = 3600;
+
+/** How soon a page rendered from fallback data is regenerated. */
+export const FALLBACK_REVALIDATE_SECONDS = 60;
+
+export const getPortfolioTag = (table: PortfolioTable) => `portfolio:${table}`;
+
+// The tables each query reads, so a change to one table only refetches the
+// queries that depend on it.
+const PORTFOLIO_QUERY_TABLES = {
+  getSiteSettings: ['siteSettings'],
+  getExperiences: ['experiences'],
+  getProjects: ['projects'],
+  getProgrammingLanguages: ['programmingLanguages'],
+  getTechnologies: ['technologies'],
+  getCloudProvidersWithCertificates: ['cloudProviders', 'certificates'],
+  getAboutCategories: ['aboutCategories'],
+  getAboutItems: ['aboutItems', 'aboutCategories'],
+} satisfies Record<string, PortfolioTable[]>;
+
+type PortfolioQuery = keyof typeof PORTFOLIO_QUERY_TABLES;
+
+type PortfolioQueryResult<Query extends PortfolioQuery> = FunctionReturnType<(typeof api.portfolio)[Query]>;
+
+const EMPTY_QUERY_RESULTS: { [Query in PortfolioQuery]: PortfolioQueryResult<Query> } = {
+  getSiteSettings: null,
+  getExperiences: [],
+  getProjects: [],
+  getProgrammingLanguages: [],
+  getTechnologies: [],
+  getCloudProvidersWithCertificates: [],
+  getAboutCategories: [],
+  getAboutItems: [],
+};
+
+/**
+ * Where snapshot data came from: Convex (possibly via the Next data cache), the
+ * last-known-good store after a failed query, or empty defaults when a query
+ * failed with nothing stored.
+ */
+export type SnapshotSource = 'live' | 'last-known-good' | 'empty';
+
+const SOURCE_SEVERITY: Record<SnapshotSource, number> = { live: 0, 'last-known-good': 1, empty: 2 };
+
+type QueryOutcome<T> = {
+  value: T;
+  source: SnapshotSource;
+  storedAt: number | null;
+};
+
+export type PortfolioSnapshotResult = {
+  snapshot: PortfolioSnapshot;
+  /** The worst source among the snapshot's queries. */
+  source: SnapshotSource;
+  /** Age of the oldest last-known-good data served, 0 when everything is live. */
+  ageSeconds: number;
+};
+
+const withExperienceMarkdown = (experience: Experience): Experience => ({
+  ...experience,
+  descriptionHtml: renderMarkdown(experience.description),
 });
 
-export const getPortfolioSnapshot = cache(async (): Promise<PortfolioSnapshot> => {
-  const client = getConvexClient();
-  if (!client) {
-    return EMPTY_SNAPSHOT;
+const withProjectMarkdown = (project: Project): Project =>
+  project.longDescription ? { ...project, longDescriptionHtml: renderMarkdown(project.longDescription) } : project;
+
+const withAboutItemMarkdown = (item: AboutItem): AboutItem =>
+  item.description ? { ...item, descriptionHtml: renderMarkdown(item.description) } : item;
+
+function getPortfolioArgs(mode: PortfolioMode) {
+  const previewSecret = mode === 'draft' ? getPortfolioPreviewSecret() : null;
+  if (mode === 'draft' && !previewSecret && process.env.NODE_ENV !== 'production') {
+    console.warn('Draft snapshot requested but PORTFOLIO_PREVIEW_SECRET is missing; serving published content.');
+  }
+  return previewSecret ? { mode, previewSecret } : { mode: 'published' as const };
+}
+
+/**
+ * Runs a portfolio query. Published results go through the Next data cache,
+ * tagged per table for `/api/revalidate`, and every fresh published result is
+ * kept as the last-known-good copy. Draft reads always hit Convex.
+ */
+function fetchPortfolioQuery<Query extends PortfolioQuery>(
+  client: ConvexHttpClient,
+  query: Query,
+  mode: PortfolioMode,
+): Promise<PortfolioQueryResult<Query>> {
+  const args = getPortfolioArgs(mode);
+  // Every portfolio query takes the same mode args; the union of references
+  // just cannot be called generically.
+  const reference: FunctionReference<'query'> = api.portfolio[query];
+  if (args.mode === 'draft') {
+    return client.query(reference, args);
   }
 
+  const run = async (): Promise<PortfolioQueryResult<Query>> => {
+    const value = await client.query(reference, args);
+    await getSnapshotStore().write(`portfolio-${query}`, value);
+    return value;
+  };
+
+  return unstable_cache(run, ['portfolio', query], {
+    tags: PORTFOLIO_QUERY_TABLES[query].map(getPortfolioTag),
+    revalidate: PORTFOLIO_REVALIDATE_SECONDS,
+  })();
+}
+
+// A statically rendered page is regenerated after the shortest revalidate of the
+// cache entries it read, so reading a short-lived entry keeps fallback data out
+// of the hourly ISR cache. Outside a prerender this is a plain cache read.
+async function shortenPageRevalidate() {
+  await unstable_cache(async () => null, ['portfolio', 'fallback'], {
+    revalidate: FALLBACK_REVALIDATE_SECONDS,
+  })();
+}
+
+// A failed query falls back on its own, so one unavailable table does not
+// blank the rest of the page. Drafts have no fallback. Pages rendered from a
+// fallback are regenerated within `FALLBACK_REVALIDATE_SECONDS`.
+async function queryPortfolio<Query extends PortfolioQuery>(
+  client: ConvexHttpClient,
+  query: Query,
+  mode: PortfolioMode,
+): Promise<QueryOutcome<PortfolioQueryResult<Query>>> {
   try {
+    return { value: await fetchPortfolioQuery(client, query, mode), source: 'live', storedAt: null };
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.error(`Failed to fetch portfolio query ${query}:`, error);
+    }
+    await shortenPageRevalidate();
+
+    const stored =
+      getPortfolioArgs(mode).mode === 'published'
+        ? await getSnapshotStore().read<PortfolioQueryResult<Query>>(`portfolio-${query}`)
+        : null;
+    return stored
+      ? { value: stored.value, source: 'last-known-good', storedAt: stored.storedAt }
+      : { value: EMPTY_QUERY_RESULTS[query], source: 'empty', storedAt: null };
+  }
+}
+
+function summarizeOutcomes(outcomes: Array<QueryOutcome<unknown>>): Omit<PortfolioSnapshotResult, 'snapshot'> {
+  const source = outcomes.reduce<SnapshotSource>(
+    (worst, outcome) => (SOURCE_SEVERITY[outcome.source] > SOURCE_SEVERITY[worst] ? outcome.source : worst),
+    'live',
+  );
+  const storedAt = outcomes.flatMap((outcome) => (outcome.storedAt === null ? [] : [outcome.storedAt]));
+  const ageSeconds = storedAt.length > 0 ? Math.max(0, Math.round((Date.now() - Math.min(...storedAt)) / 1000)) : 0;
+  return { source, ageSeconds };
+}
+
+export const getPortfolioSnapshotResult = cache(
+  async (mode: PortfolioMode = 'published'): Promise<PortfolioSnapshotResult> => {
+    const client = getConvexClient();
+    if (!client) {
+      return { snapshot: EMPTY_SNAPSHOT, source: 'empty', ageSeconds: 0 };
+    }
+
     const [
-      rawSiteSettings,
-      rawExperiences,
-      rawProjects,
-      rawProgrammingLanguages,
-      rawTechnologies,
-      rawCloudProviders,
-      rawAboutCategories,
-      rawAboutItems,
+      siteSettings,
+      experiences,
+      projects,
+      programmingLanguages,
+      technologies,
+      cloudProviders,
+      aboutCategories,
+      aboutItems,
     ] = await Promise.all([
-      client.query(api.portfolio.getSiteSettings, {}),
-      client.query(api.portfolio.getExperiences, {}),
-      client.query(api.portfolio.getProjects, {}),
-      client.query(api.portfolio.getProgrammingLanguages, {}),
-      client.query(api.portfolio.getTechnologies, {}),
-      client.query(api.portfolio.getCloudProvidersWithCertificates, {}),
-      client.query(api.portfolio.getAboutCategories, {}),
-      client.query(api.portfolio.getAboutItems, {}),
+      queryPortfolio(client, 'getSiteSettings', mode),
+      queryPortfolio(client, 'getExperiences', mode),
+      queryPortfolio(client, 'getProjects', mode),
+      queryPortfolio(client, 'getProgrammingLanguages', mode),
+      queryPortfolio(client, 'getTechnologies', mode),
+      queryPortfolio(client, 'getCloudProvidersWithCertificates', mode),
+      queryPortfolio(client, 'getAboutCategories', mode),
+      queryPortfolio(client, 'getAboutItems', mode),
     ]);
 
     return {
-      siteSettings: rawSiteSettings ? mapSiteSettings(rawSiteSettings) : EMPTY_SNAPSHOT.siteSettings,
-      experiences: rawExperiences.map(mapExperience),
-      projects: rawProjects.map(mapProject),
-      programmingLanguages: rawProgrammingLanguages.map(mapProgrammingLanguage),
-      technologies: rawTechnologies.map(mapTechnology),
-      cloudProviders: rawCloudProviders.map(mapCloudProvider),
-      aboutCategories: rawAboutCategories.map(mapAboutCategory),
-      aboutItems: rawAboutItems.filter(isPresent).map(mapAboutItem),
+      snapshot: {
+        siteSettings: siteSettings.value ? mapSiteSettings(siteSettings.value) : EMPTY_SNAPSHOT.siteSettings,
+        experiences: experiences.value.map(mapExperience).map(withExperienceMarkdown),
+        projects: projects.value.map(mapProject).map(withProjectMarkdown),
+        programmingLanguages: programmingLanguages.value.map(mapProgrammingLanguage),
+        technologies: technologies.value.map(mapTechnology),
+        cloudProviders: cloudProviders.value.map(mapCloudProvider),
+        aboutCategories: aboutCategories.value.map(mapAboutCategory),
+        aboutItems: aboutItems.value.filter(isPresent).map(mapAboutItem).map(withAboutItemMarkdown),
+      },
+      ...summarizeOutcomes([
+        siteSettings,
+        experiences,
+        projects,
+        programmingLanguages,
+        technologies,
+        cloudProviders,
+        aboutCategories,
+        aboutItems,
+      ]),
     };
-  } catch (error) {
-    if (process.env.NODE_ENV !== 'production') {
-      console.error('Failed to fetch portfolio snapshot:', error);
-    }
-    return EMPTY_SNAPSHOT;
+  },
+);
+
+export const getPortfolioSnapshot = cache(async (mode: PortfolioMode = 'published'): Promise<PortfolioSnapshot> => {
+  const { snapshot } = await getPortfolioSnapshotResult(mode);
+  return snapshot;
+});
+
+export const getProjects = cache(async (mode: PortfolioMode = 'published'): Promise<Project[]> => {
+  const client = getConvexClient();
+  if (!client) {
+    return [];
   }
+
+  const { value } = await queryPortfolio(client, 'getProjects', mode);
+  return value.map(mapProject).map(withProjectMarkdown);
+});
+
+export async function getProjectBySlug(slug: string, mode: PortfolioMode = 'published'): Promise<Project | null> {
+  const projects = await getProjects(mode);
+  return projects.find((project) => project.slug === slug) ?? null;
+}
+
+export const getSiteSettings = cache(async (mode: PortfolioMode = 'published'): Promise<SiteSettings> => {
+  const client = getConvexClient();
+  if (!client) {
+    return EMPTY_SNAPSHOT.siteSettings;
+  }
+
+  const { value } = await queryPortfolio(client, 'getSiteSettings', mode);
+  return value ? mapSiteSettings(value) : EMPTY_SNAPSHOT.siteSettings;
 });
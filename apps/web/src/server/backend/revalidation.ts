@@ -0,0 +1,93 @@
+import 'server-only';
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { PortfolioTable } from '@/server/backend/portfolio';
+
+export const REVALIDATION_SIGNATURE_HEADER = 'x-revalidation-signature';
+
+// Requests older than this are rejected outright; nonces only need to be
+// remembered for as long as their timestamp would still be accepted.
+const MAX_REQUEST_AGE_MS = 5 * 60 * 1000;
+
+const PORTFOLIO_TABLES = new Set<string>([
+  'siteSettings',
+  'experiences',
+  'projects',
+  'programmingLanguages',
+  'technologies',
+  'cloudProviders',
+  'certificates',
+  'aboutCategories',
+  'aboutItems',
+] satisfies PortfolioTable[]);
+
+// Per server instance: a replay sent to another instance within the window is
+// still accepted, which at worst refreshes the same cache entries again.
+const seenNonces = new Map<string, number>();
+
+export type RevalidationResult =
+  | { ok: true; tables: PortfolioTable[] }
+  | { ok: false; status: 400 | 401 | 409; error: string };
+
+function isValidSignature(body: string, header: string | null, secret: string): boolean {
+  const provided = header?.startsWith('sha256=') ? Buffer.from(header.slice('sha256='.length), 'hex') : null;
+  const expected = createHmac('sha256', secret).update(body).digest();
+  return provided !== null && provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+function rememberNonce(nonce: string, now: number): boolean {
+  for (const [seen, expiresAt] of seenNonces) {
+    if (expiresAt <= now) {
+      seenNonces.delete(seen);
+    }
+  }
+
+  if (seenNonces.has(nonce)) {
+    return false;
+  }
+  seenNonces.set(nonce, now + MAX_REQUEST_AGE_MS);
+  return true;
+}
+
+/**
+ * Checks a revalidation request sent by Convex: an HMAC of the raw body, a
+ * timestamp within the last few minutes and a nonce not seen before.
+ */
+export function verifyRevalidationRequest(
+  body: string,
+  signature: string | null,
+  secret: string,
+  now = Date.now(),
+): RevalidationResult {
+  if (!isValidSignature(body, signature, secret)) {
+    return { ok: false, status: 401, error: 'Invalid signature.' };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return { ok: false, status: 400, error: 'Request body must be JSON.' };
+  }
+
+  const { tables, timestamp, nonce } = (payload ?? {}) as Record<string, unknown>;
+  if (
+    !Array.isArray(tables) ||
+    !tables.every((table) => typeof table === 'string' && PORTFOLIO_TABLES.has(table)) ||
+    typeof timestamp !== 'number' ||
+    typeof nonce !== 'string' ||
+    !nonce
+  ) {
+    return { ok: false, status: 400, error: 'Expected tables, timestamp and nonce.' };
+  }
+
+  if (Math.abs(now - timestamp) > MAX_REQUEST_AGE_MS) {
+    return { ok: false, status: 401, error: 'Request has expired.' };
+  }
+
+  if (!rememberNonce(nonce, now)) {
+    return { ok: false, status: 409, error: 'Request was already processed.' };
+  }
+
+  return { ok: true, tables: tables as PortfolioTable[] };
+}
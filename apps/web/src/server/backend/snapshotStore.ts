@@ -0,0 +1,71 @@
+import 'server-only';
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getSnapshotStoreDir } from '@/server/env';
+
+export type StoredEntry<T> = {
+  value: T;
+  storedAt: number;
+};
+
+/**
+ * Key-value storage for last-known-good query results. The file store below is
+ * the default and needs a writable directory that outlives the process, which
+ * serverless hosts usually lack: there each instance starts empty and only
+ * falls back to what it fetched itself. Use a hosted KV there; it only needs to
+ * implement the same two methods.
+ */
+export interface SnapshotStore {
+  read<T>(key: string): Promise<StoredEntry<T> | null>;
+  write<T>(key: string, value: T): Promise<void>;
+}
+
+const toFileName = (key: string) => `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`;
+
+// Entries are kept in memory as well, so a failing query still has a fallback
+// when the directory is not writable (read-only or ephemeral file systems).
+function createFileSnapshotStore(directory: string): SnapshotStore {
+  const memory = new Map<string, StoredEntry<unknown>>();
+
+  return {
+    async read<T>(key: string) {
+      const cached = memory.get(key);
+      if (cached) {
+        return cached as StoredEntry<T>;
+      }
+
+      try {
+        const entry = JSON.parse(await readFile(path.join(directory, toFileName(key)), 'utf8')) as StoredEntry<T>;
+        memory.set(key, entry);
+        return entry;
+      } catch {
+        return null;
+      }
+    },
+
+    async write<T>(key: string, value: T) {
+      const entry: StoredEntry<T> = { value, storedAt: Date.now() };
+      memory.set(key, entry);
+
+      const target = path.join(directory, toFileName(key));
+      const temporary = `${target}.${process.pid}.tmp`;
+      try {
+        await mkdir(directory, { recursive: true });
+        await writeFile(temporary, JSON.stringify(entry));
+        await rename(temporary, target);
+      } catch (error) {
+        if (process.env.NODE_ENV !== 'production') {
+          console.warn(`Could not persist snapshot entry ${key}:`, error);
+        }
+      }
+    },
+  };
+}
+
+let store: SnapshotStore | null = null;
+
+export function getSnapshotStore(): SnapshotStore {
+  store ??= createFileSnapshotStore(getSnapshotStoreDir());
+  return store;
+}
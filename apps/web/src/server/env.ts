@@ -1,5 +1,8 @@
 import 'server-only';
 
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
 function ensureHttpUrl(value: string, envKey: string): string {
   const trimmed = value.trim();
   if (!trimmed) {
@@ -45,6 +48,59 @@ export function getWayAuthPublicBaseUrl(): string | null {
   return getOptionalHttpOrigin(process.env.NEXT_PUBLIC_WAY_AUTH_BASE_URL, 'NEXT_PUBLIC_WAY_AUTH_BASE_URL');
 }
 
+const DEFAULT_SITE_URL = 'http://localhost:3000';
+
+/** Origin used for canonical URLs, metadata and structured data. */
+export function getSiteUrl(): string {
+  return getOptionalHttpOrigin(process.env.NEXT_PUBLIC_SITE_URL, 'NEXT_PUBLIC_SITE_URL') ?? DEFAULT_SITE_URL;
+}
+
 export function getConvexPublicUrl(): string | null {
   return getOptionalHttpOrigin(process.env.NEXT_PUBLIC_CONVEX_URL, 'NEXT_PUBLIC_CONVEX_URL');
 }
+
+export function getPortfolioPreviewSecret(): string | null {
+  const value = process.env.PORTFOLIO_PREVIEW_SECRET?.trim();
+  return value ? value : null;
+}
+
+export function getContactFormSecret(): string | null {
+  const value = process.env.CONTACT_FORM_SECRET?.trim();
+  return value ? value : null;
+}
+
+export function getRevalidationSecret(): string | null {
+  const value = process.env.REVALIDATION_SECRET?.trim();
+  return value ? value : null;
+}
+
+/**
+ * Reverse proxies in front of the app that append to `x-forwarded-for`, e.g. 1
+ * for Vercel's edge or a single nginx. Defaults to 1.
+ */
+export function getTrustedProxyCount(): number {
+  const value = Number(process.env.TRUSTED_PROXY_COUNT);
+  return Number.isInteger(value) && value > 0 ? value : 1;
+}
+
+/** Directory for last-known-good portfolio data; defaults to the OS temp dir. */
+export function getSnapshotStoreDir(): string {
+  const value = process.env.PORTFOLIO_SNAPSHOT_DIR?.trim();
+  return value || path.join(tmpdir(), 'portfolio-snapshots');
+}
+
+/**
+ * Origins allowed to call the public `/api/v1` portfolio API from a browser:
+ * a comma-separated list, or `*` for any origin. Unset means same-origin only.
+ */
+export function getPublicApiCorsOrigins(): '*' | string[] {
+  const value = process.env.PUBLIC_API_CORS_ORIGINS?.trim();
+  if (value === '*') {
+    return '*';
+  }
+
+  return (value ?? '')
+    .split(',')
+    .map((origin) => getOptionalHttpOrigin(origin.trim(), 'PUBLIC_API_CORS_ORIGINS'))
+    .filter((origin): origin is string => origin !== null);
+}
@@ -0,0 +1,123 @@
+import 'server-only';
+
+import { createHash } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { getPortfolioSnapshotResult } from '@/server/backend/portfolio';
+import { getPublicApiCorsOrigins } from '@/server/env';
+import { getSelectableFields, type PublicResource } from '@/server/publicApi/resources';
+
+const CACHE_CONTROL = 'public, max-age=60, stale-while-revalidate=300';
+
+function getCorsHeaders(request: Request): Record<string, string> {
+  const allowed = getPublicApiCorsOrigins();
+  const origin = request.headers.get('origin');
+  const allowOrigin = allowed === '*' ? '*' : origin && allowed.includes(origin) ? origin : null;
+
+  return {
+    ...(allowOrigin
+      ? {
+          'Access-Control-Allow-Origin': allowOrigin,
+          'Access-Control-Allow-Methods': 'GET, OPTIONS',
+          'Access-Control-Allow-Headers': 'If-None-Match',
+          'Access-Control-Expose-Headers': 'ETag, X-Snapshot-Source',
+          'Access-Control-Max-Age': '86400',
+        }
+      : {}),
+    ...(allowed === '*' ? {} : { Vary: 'Origin' }),
+  };
+}
+
+function matchesEtag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch
+    .split(',')
+    .map((candidate) => candidate.trim().replace(/^W\//, ''))
+    .some((candidate) => candidate === '*' || candidate === etag);
+}
+
+/**
+ * Sends a JSON body with a content-hash ETag, answering `If-None-Match` hits
+ * with 304 and no body.
+ */
+export function publicApiJson(request: Request, payload: unknown, headers: Record<string, string> = {}) {
+  const body = JSON.stringify(payload);
+  const etag = `"${createHash('sha256').update(body).digest('base64url')}"`;
+  const responseHeaders = {
+    ...getCorsHeaders(request),
+    ...headers,
+    ETag: etag,
+    'Cache-Control': CACHE_CONTROL,
+  };
+
+  if (matchesEtag(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers: responseHeaders });
+  }
+
+  return new NextResponse(body, {
+    headers: { ...responseHeaders, 'Content-Type': 'application/json; charset=utf-8' },
+  });
+}
+
+function publicApiError(request: Request, status: number, error: string) {
+  return NextResponse.json({ error }, { status, headers: getCorsHeaders(request) });
+}
+
+const parseList = (value: string | null) =>
+  (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+function pickFields(item: object, fields: string[]): Record<string, unknown> {
+  const record = item as Record<string, unknown>;
+  return Object.fromEntries(fields.filter((field) => field in record).map((field) => [field, record[field]]));
+}
+
+/** Route handlers for one `/api/v1` resource. Content is always the published portfolio. */
+export function createPublicApiHandlers(resource: PublicResource) {
+  async function GET(request: Request) {
+    const params = new URL(request.url).searchParams;
+
+    const fields = parseList(params.get('fields'));
+    const selectable = getSelectableFields(resource);
+    const unknownFields = fields.filter((field) => !selectable.includes(field));
+    if (unknownFields.length > 0) {
+      return publicApiError(
+        request,
+        400,
+        `Unknown fields: ${unknownFields.join(', ')}. Available: ${selectable.join(', ')}.`,
+      );
+    }
+
+    const categories = parseList(params.get('category')).map((category) => category.toLowerCase());
+    const getCategories = resource.kind === 'list' ? resource.getCategories : undefined;
+    if (categories.length > 0 && !getCategories) {
+      return publicApiError(request, 400, `${resource.path} cannot be filtered by category.`);
+    }
+
+    const { snapshot, source } = await getPortfolioSnapshotResult('published');
+    const select = (item: object) => (fields.length > 0 ? pickFields(item, fields) : item);
+
+    let data: object | object[];
+    if (resource.kind === 'item') {
+      data = select(resource.select(snapshot));
+    } else {
+      const items = resource.select(snapshot).filter(
+        (item) =>
+          categories.length === 0 ||
+          (getCategories?.(item) ?? []).some((category) => categories.includes(category.toLowerCase())),
+      );
+      data = items.map(select);
+    }
+
+    return publicApiJson(request, { data }, { 'X-Snapshot-Source': source });
+  }
+
+  function OPTIONS(request: Request) {
+    return new NextResponse(null, { status: 204, headers: getCorsHeaders(request) });
+  }
+
+  return { GET, OPTIONS };
+}
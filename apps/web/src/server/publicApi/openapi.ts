@@ -0,0 +1,101 @@
+import 'server-only';
+
+import { getSelectableFields, PUBLIC_API_RESOURCES, type PublicResource } from '@/server/publicApi/resources';
+import { PUBLIC_API_SCHEMAS, type JsonSchema } from '@/server/publicApi/schemas';
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+function describeOperation(resource: PublicResource): JsonSchema {
+  const item = ref(resource.schema);
+  const parameters: JsonSchema[] = [
+    {
+      name: 'fields',
+      in: 'query',
+      description: 'Comma-separated top-level fields to return. Defaults to all fields.',
+      style: 'form',
+      explode: false,
+      schema: { type: 'array', items: { enum: getSelectableFields(resource) } },
+    },
+  ];
+
+  if (resource.kind === 'list' && resource.getCategories) {
+    parameters.push({
+      name: 'category',
+      in: 'query',
+      description: `${resource.categoryDescription ?? 'Categories.'} Comma-separated; an item matches any of them, ignoring case.`,
+      style: 'form',
+      explode: false,
+      schema: { type: 'array', items: { type: 'string' } },
+    });
+  }
+
+  return {
+    summary: resource.summary,
+    operationId: `get-${resource.path}`,
+    parameters: [...parameters, { $ref: '#/components/parameters/IfNoneMatch' }],
+    responses: {
+      '200': {
+        description: 'The published content.',
+        headers: {
+          ETag: { $ref: '#/components/headers/ETag' },
+          'X-Snapshot-Source': { $ref: '#/components/headers/SnapshotSource' },
+        },
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { data: resource.kind === 'list' ? { type: 'array', items: item } : item },
+              required: ['data'],
+            },
+          },
+        },
+      },
+      '304': { description: 'The content matches `If-None-Match`.' },
+      '400': { $ref: '#/components/responses/BadRequest' },
+    },
+  };
+}
+
+/** OpenAPI 3.1 description of `/api/v1`, built from the resource registry and schemas. */
+export function buildOpenApiDocument(siteUrl: string): JsonSchema {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Portfolio API',
+      version: '1.0.0',
+      description: 'Read-only access to the published portfolio content.',
+    },
+    servers: [{ url: `${siteUrl}/api/v1` }],
+    paths: Object.fromEntries(
+      Object.values(PUBLIC_API_RESOURCES).map((resource) => [`/${resource.path}`, { get: describeOperation(resource) }]),
+    ),
+    components: {
+      schemas: PUBLIC_API_SCHEMAS,
+      parameters: {
+        IfNoneMatch: {
+          name: 'If-None-Match',
+          in: 'header',
+          description: 'ETag from an earlier response; a match returns 304.',
+          schema: { type: 'string' },
+        },
+      },
+      headers: {
+        ETag: { description: 'Hash of the response body.', schema: { type: 'string' } },
+        SnapshotSource: {
+          description: 'Whether the data is live or a fallback served while Convex was unavailable.',
+          schema: { enum: ['live', 'last-known-good', 'empty'] },
+        },
+      },
+      responses: {
+        BadRequest: {
+          description: 'An unknown field was selected, or the resource has no categories.',
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { error: { type: 'string' } }, required: ['error'] },
+            },
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import 'server-only';
+
+import type { PortfolioSnapshot } from '@/features/public/types';
+import { PUBLIC_API_SCHEMAS } from '@/server/publicApi/schemas';
+
+type ResourceBase = {
+  /** Path under `/api/v1`. */
+  path: string;
+  /** Component schema in the OpenAPI document. */
+  schema: keyof typeof PUBLIC_API_SCHEMAS & string;
+  summary: string;
+};
+
+export type PublicListResource = ResourceBase & {
+  kind: 'list';
+  select: (snapshot: PortfolioSnapshot) => object[];
+  /** Values matched by `?category=`; resources without it reject the filter. */
+  getCategories?: (item: object) => string[];
+  categoryDescription?: string;
+};
+
+export type PublicItemResource = ResourceBase & {
+  kind: 'item';
+  select: (snapshot: PortfolioSnapshot) => object;
+};
+
+export type PublicResource = PublicListResource | PublicItemResource;
+
+function defineList<T extends object>(
+  resource: ResourceBase & {
+    select: (snapshot: PortfolioSnapshot) => T[];
+    getCategories?: (item: T) => string[];
+    categoryDescription?: string;
+  },
+): PublicListResource {
+  const { getCategories } = resource;
+  return {
+    ...resource,
+    kind: 'list',
+    getCategories: getCategories ? (item) => getCategories(item as T) : undefined,
+  };
+}
+
+export const PUBLIC_API_RESOURCES = {
+  projects: defineList({
+    path: 'projects',
+    schema: 'Project',
+    summary: 'Published projects in display order.',
+    select: (snapshot) => snapshot.projects,
+    getCategories: (project) => project.categories,
+    categoryDescription: 'Project categories.',
+  }),
+  experiences: defineList({
+    path: 'experiences',
+    schema: 'Experience',
+    summary: 'Work history in display order.',
+    select: (snapshot) => snapshot.experiences,
+  }),
+  technologies: defineList({
+    path: 'technologies',
+    schema: 'Technology',
+    summary: 'Technologies in display order.',
+    select: (snapshot) => snapshot.technologies,
+    getCategories: (technology) => [technology.category],
+    categoryDescription: 'Technology categories, such as Frontend or DevOps.',
+  }),
+  programmingLanguages: defineList({
+    path: 'programming-languages',
+    schema: 'ProgrammingLanguage',
+    summary: 'Programming languages in display order.',
+    select: (snapshot) => snapshot.programmingLanguages,
+  }),
+  certificates: defineList({
+    path: 'certificates',
+    schema: 'Certificate',
+    summary: 'Certificates grouped by cloud provider, in display order.',
+    select: (snapshot) =>
+      snapshot.cloudProviders.flatMap((provider) =>
+        (provider.certificates ?? []).map((certificate) => ({ ...certificate, provider: provider.name })),
+      ),
+    getCategories: (certificate) => [certificate.provider],
+    categoryDescription: 'Cloud provider names.',
+  }),
+  aboutCategories: defineList({
+    path: 'about-categories',
+    schema: 'AboutCategory',
+    summary: 'Sections of the about page in display order.',
+    select: (snapshot) => snapshot.aboutCategories,
+  }),
+  aboutItems: defineList({
+    path: 'about-items',
+    schema: 'AboutItem',
+    summary: 'About page entries in display order.',
+    select: (snapshot) => snapshot.aboutItems,
+    getCategories: (item) => [item.category.name],
+    categoryDescription: 'About category names.',
+  }),
+  site: {
+    kind: 'item',
+    path: 'site',
+    schema: 'SiteSettings',
+    summary: 'Site name, contact details and social links.',
+    select: (snapshot) => snapshot.siteSettings,
+  },
+} satisfies Record<string, PublicResource>;
+
+/** Top-level fields `?fields=` may select, taken from the resource schema. */
+export function getSelectableFields(resource: PublicResource): string[] {
+  const properties = PUBLIC_API_SCHEMAS[resource.schema].properties as Record<string, unknown>;
+  return Object.keys(properties);
+}
@@ -0,0 +1,257 @@
+import 'server-only';
+
+import type {
+  AboutCategory,
+  AboutItem,
+  Certificate,
+  Experience,
+  ImageAsset,
+  Project,
+  ProgrammingLanguage,
+  SiteSettings,
+  Technology,
+} from '@/features/public/types';
+
+export type JsonSchema = Record<string, unknown>;
+
+type RequiredKeys<T> = { [Key in keyof T]-?: object extends Pick<T, Key> ? never : Key }[keyof T];
+
+/**
+ * Describes an object type field by field. The property map must cover every
+ * key of `T` and nothing else, so the schemas fail to compile when the public
+ * types change without them.
+ */
+function objectSchema<T>(
+  description: string,
+  properties: { [Key in keyof Required<T>]: JsonSchema },
+  required: Array<RequiredKeys<T>>,
+): JsonSchema {
+  return { type: 'object', description, properties, required, additionalProperties: false };
+}
+
+const string = (description?: string): JsonSchema => ({ type: 'string', ...(description ? { description } : {}) });
+const integer = (description?: string): JsonSchema => ({ type: 'integer', ...(description ? { description } : {}) });
+const stringArray: JsonSchema = { type: 'array', items: { type: 'string' } };
+const url: JsonSchema = { type: 'string', format: 'uri' };
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+const storageAsset: JsonSchema = {
+  type: 'object',
+  properties: { asset: { type: 'object', properties: { _ref: string(), url } } },
+};
+
+const imageAsset = objectSchema<ImageAsset>(
+  'Responsive variants generated for an uploaded raster image.',
+  {
+    width: integer(),
+    height: integer(),
+    blurhash: string(),
+    placeholder: string('Tiny data URL shown while the image loads.'),
+    variants: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { format: { enum: ['avif', 'webp'] }, width: integer(), url },
+        required: ['format', 'width', 'url'],
+      },
+    },
+  },
+  ['width', 'height', 'blurhash', 'placeholder', 'variants'],
+);
+
+const projectMedia: JsonSchema = {
+  oneOf: [
+    {
+      type: 'object',
+      properties: {
+        kind: { const: 'image' },
+        url,
+        alt: string(),
+        caption: string(),
+        asset: ref('ImageAsset'),
+      },
+      required: ['kind', 'url', 'alt'],
+    },
+    {
+      type: 'object',
+      properties: {
+        kind: { const: 'video' },
+        provider: { enum: ['youtube', 'loom', 'mp4'] },
+        url,
+        embedUrl: url,
+        caption: string(),
+      },
+      required: ['kind', 'provider', 'url', 'embedUrl'],
+    },
+  ],
+};
+
+const project = objectSchema<Project>(
+  'A portfolio project.',
+  {
+    _id: string(),
+    _creationTime: { type: 'number', description: 'Creation time in milliseconds since the epoch.' },
+    updatedAt: { type: 'number', description: 'Last content edit in milliseconds since the epoch.' },
+    title: string(),
+    slug: string(),
+    description: string(),
+    longDescription: string('Markdown.'),
+    longDescriptionHtml: string('Sanitized HTML rendered from `longDescription`.'),
+    categories: stringArray,
+    techStack: stringArray,
+    status: { enum: ['new', 'active', 'deprecated'] },
+    githubUrl: url,
+    liveUrl: url,
+    image: url,
+    imageAsset: ref('ImageAsset'),
+    media: { type: 'array', items: ref('ProjectMedia') },
+    features: stringArray,
+    challenges: stringArray,
+    outcomes: stringArray,
+    timeline: string(),
+    teamSize: string(),
+    order: integer(),
+  },
+  ['_id', 'title', 'slug', 'description', 'categories', 'techStack', 'media', 'order'],
+);
+
+const experience = objectSchema<Experience>(
+  'A role in the work history.',
+  {
+    _id: string(),
+    company: string(),
+    role: string(),
+    duration: string(),
+    location: string(),
+    description: string('Markdown.'),
+    descriptionHtml: string('Sanitized HTML rendered from `description`.'),
+    technologies: stringArray,
+    logo: url,
+    isCurrent: { type: 'boolean' },
+    order: integer(),
+  },
+  ['_id', 'company', 'role', 'duration', 'location', 'description', 'technologies', 'order'],
+);
+
+const technology = objectSchema<Technology>(
+  'A technology on the skills page.',
+  {
+    _id: string(),
+    name: string(),
+    category: string('For example Frontend, Backend, Database, Mobile, Testing & QA or DevOps.'),
+    description: string(),
+    iconName: string(),
+    iconUrl: url,
+    order: integer(),
+  },
+  ['_id', 'name', 'category', 'order'],
+);
+
+const programmingLanguage = objectSchema<ProgrammingLanguage>(
+  'A programming language on the skills page.',
+  {
+    _id: string(),
+    name: string(),
+    level: { enum: ['expert', 'advanced', 'intermediate'] },
+    description: string(),
+    logoUrl: url,
+    order: integer(),
+  },
+  ['_id', 'name', 'level', 'description', 'order'],
+);
+
+const certificate = objectSchema<Certificate & { provider: string }>(
+  'A certificate, with the name of the cloud provider it belongs to.',
+  {
+    _id: string(),
+    _creationTime: { type: 'number', description: 'Creation time in milliseconds since the epoch.' },
+    updatedAt: { type: 'number', description: 'Last content edit in milliseconds since the epoch.' },
+    name: string(),
+    provider: string(),
+    providerId: string(),
+    image: url,
+    imageAsset: ref('ImageAsset'),
+    year: string(),
+    description: string(),
+    issuer: string(),
+    credentialId: string(),
+    verificationUrl: url,
+    skills: stringArray,
+    order: integer(),
+  },
+  ['_id', 'name', 'provider', 'image', 'year', 'order'],
+);
+
+const aboutCategory = objectSchema<AboutCategory>(
+  'A section of the about page.',
+  {
+    _id: string(),
+    name: string(),
+    label: string(),
+    color: string(),
+    icon: string(),
+    order: integer(),
+  },
+  ['_id', 'name', 'label', 'color', 'icon', 'order'],
+);
+
+const aboutItem = objectSchema<AboutItem>(
+  'An entry on the about page.',
+  {
+    _id: string(),
+    category: ref('AboutCategory'),
+    title: string(),
+    subtitle: string(),
+    description: string('Markdown.'),
+    descriptionHtml: string('Sanitized HTML rendered from `description`.'),
+    date: string(),
+    details: stringArray,
+    icon: string(),
+    image: url,
+    order: integer(),
+  },
+  ['_id', 'category', 'title', 'icon', 'order'],
+);
+
+const siteSettings = objectSchema<SiteSettings>(
+  'Site name, contact details and social links.',
+  {
+    _id: string(),
+    updatedAt: { type: 'number', description: 'Last change in milliseconds since the epoch.' },
+    siteName: string(),
+    tagline: string(),
+    description: string(),
+    logo: storageAsset,
+    profileImage: storageAsset,
+    resume: storageAsset,
+    contact: {
+      type: 'object',
+      properties: { email: { type: 'string', format: 'email' }, phone: string(), location: string() },
+    },
+    socialLinks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          platform: { enum: ['github', 'linkedin', 'x', 'instagram', 'youtube', 'email', 'website'] },
+          url,
+        },
+        required: ['platform', 'url'],
+      },
+    },
+  },
+  ['socialLinks'],
+);
+
+export const PUBLIC_API_SCHEMAS = {
+  ImageAsset: imageAsset,
+  ProjectMedia: projectMedia,
+  Project: project,
+  Experience: experience,
+  Technology: technology,
+  ProgrammingLanguage: programmingLanguage,
+  Certificate: certificate,
+  AboutCategory: aboutCategory,
+  AboutItem: aboutItem,
+  SiteSettings: siteSettings,
+} satisfies Record<string, JsonSchema>;
@@ -9,7 +9,25 @@
  */
 
 import type * as admin from "../admin.js";
+import type * as contact from "../contact.js";
+import type * as crons from "../crons.js";
+import type * as imageAssets from "../imageAssets.js";
+import type * as imageProcessing from "../imageProcessing.js";
+import type * as lib_audit from "../lib/audit.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as lib_contact from "../lib/contact.js";
+import type * as lib_fields from "../lib/fields.js";
+import type * as lib_ordering from "../lib/ordering.js";
+import type * as lib_portfolioTransfer from "../lib/portfolioTransfer.js";
+import type * as lib_publishing from "../lib/publishing.js";
+import type * as lib_revisions from "../lib/revisions.js";
+import type * as lib_serialization from "../lib/serialization.js";
+import type * as lib_storage from "../lib/storage.js";
+import type * as lib_technologyReferences from "../lib/technologyReferences.js";
+import type * as lib_trash from "../lib/trash.js";
+import type * as maintenance from "../maintenance.js";
 import type * as portfolio from "../portfolio.js";
+import type * as revalidation from "../revalidation.js";
 
 import type {
   ApiFromModules,
@@ -19,7 +37,25 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   admin: typeof admin;
+  contact: typeof contact;
+  crons: typeof crons;
+  imageAssets: typeof imageAssets;
+  imageProcessing: typeof imageProcessing;
+  "lib/audit": typeof lib_audit;
+  "lib/auth": typeof lib_auth;
+  "lib/contact": typeof lib_contact;
+  "lib/fields": typeof lib_fields;
+  "lib/ordering": typeof lib_ordering;
+  "lib/portfolioTransfer": typeof lib_portfolioTransfer;
+  "lib/publishing": typeof lib_publishing;
+  "lib/revisions": typeof lib_revisions;
+  "lib/serialization": typeof lib_serialization;
+  "lib/storage": typeof lib_storage;
+  "lib/technologyReferences": typeof lib_technologyReferences;
+  "lib/trash": typeof lib_trash;
+  maintenance: typeof maintenance;
   portfolio: typeof portfolio;
+  revalidation: typeof revalidation;
 }>;
 
 /**
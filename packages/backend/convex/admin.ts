@@ -1,96 +1,69 @@
+import { paginationOptsValidator } from 'convex/server';
 import { v } from 'convex/values';
-import { mutation, query } from './_generated/server';
-
-const experienceFields = {
-  company: v.string(),
-  role: v.string(),
-  duration: v.string(),
-  location: v.string(),
-  description: v.string(),
-  technologies: v.array(v.string()),
-  logo: v.optional(v.string()),
-  isCurrent: v.optional(v.boolean()),
-  order: v.number(),
-};
-
-const projectFields = {
-  title: v.string(),
-  description: v.string(),
-  longDescription: v.optional(v.string()),
-  categories: v.array(v.string()),
-  techStack: v.array(v.string()),
-  status: v.optional(
-    v.union(v.literal('new'), v.literal('active'), v.literal('deprecated')),
-  ),
-  githubUrl: v.optional(v.string()),
-  liveUrl: v.optional(v.string()),
-  image: v.optional(v.string()),
-  features: v.optional(v.array(v.string())),
-  challenges: v.optional(v.array(v.string())),
-  outcomes: v.optional(v.array(v.string())),
-  timeline: v.optional(v.string()),
-  teamSize: v.optional(v.string()),
-  order: v.number(),
-};
-
-const programmingLanguageFields = {
-  name: v.string(),
-  level: v.union(v.literal('expert'), v.literal('advanced'), v.literal('intermediate')),
-  description: v.string(),
-  logoUrl: v.optional(v.string()),
-  order: v.number(),
-};
-
-const technologyFields = {
-  name: v.string(),
-  category: v.string(),
-  description: v.optional(v.string()),
-  iconName: v.optional(v.string()),
-  iconUrl: v.optional(v.string()),
-  order: v.number(),
-};
-
-const cloudProviderFields = {
-  name: v.string(),
-  iconName: v.optional(v.string()),
-  iconUrl: v.optional(v.string()),
-  order: v.number(),
-};
-
-const certificateFields = {
-  name: v.string(),
-  providerId: v.id('cloudProviders'),
-  image: v.string(),
-  year: v.string(),
-  description: v.optional(v.string()),
-  issuer: v.optional(v.string()),
-  credentialId: v.optional(v.string()),
-  verificationUrl: v.optional(v.string()),
-  skills: v.optional(v.array(v.string())),
-  order: v.number(),
-};
-
-const aboutCategoryFields = {
-  name: v.string(),
-  label: v.string(),
-  color: v.string(),
-  icon: v.string(),
-  order: v.number(),
-};
-
-const aboutItemFields = {
-  categoryId: v.id('aboutCategories'),
-  title: v.string(),
-  subtitle: v.optional(v.string()),
-  description: v.optional(v.string()),
-  date: v.optional(v.string()),
-  details: v.optional(v.array(v.string())),
-  icon: v.string(),
-  image: v.optional(v.string()),
-  order: v.number(),
-};
-
-export const getAdminBootstrap = query({
+import { api } from './_generated/api';
+import {
+  auditActionValidator,
+  auditedDelete,
+  auditedInsert,
+  auditedPatch,
+  auditedReplace,
+  auditTableValidator,
+} from './lib/audit';
+import { adminAction, adminMutation, adminQuery, requireOwner } from './lib/auth';
+import {
+  aboutCategoryFields,
+  aboutItemFields,
+  certificateFields,
+  cloudProviderFields,
+  experienceFields,
+  programmingLanguageFields,
+  projectFields,
+  siteSettingsFields,
+  technologyFields,
+} from './lib/fields';
+import { applyReorder, reorderItemsValidator } from './lib/ordering';
+import {
+  buildPortfolioExport,
+  importModeValidator,
+  importPortfolio as applyPortfolioImport,
+  portfolioExportValidator,
+  type ImportTablePlan,
+  type PortfolioExport,
+} from './lib/portfolioTransfer';
+import { getLatestPublication, getUnpublishedTables, publishAllTables } from './lib/publishing';
+import {
+  MAX_REVISIONS_PER_DOCUMENT,
+  mergeRevisionSnapshot,
+  revisionedPatch,
+  revisionTableValidator,
+  snapshotRevision,
+} from './lib/revisions';
+import { scheduleImageVariants } from './lib/imageAssets';
+import { normalizeContactChannels, normalizeSocialLinks } from './lib/siteSettings';
+import { normalizeProjectMedia } from './lib/projectMedia';
+import { resolveProjectSlug } from './lib/slugs';
+import { classifyStorage, recordUpload } from './lib/storage';
+import {
+  canonicalizeTechReferences,
+  findOrphanedTechnologies,
+  propagateTechnologyRenames,
+} from './lib/technologyReferences';
+import {
+  collectLive,
+  collectTrashed,
+  getCascadeChildren,
+  getDeletedAt,
+  getTrashRetentionMs,
+  isLive,
+  moveToTrash,
+  moveToTrashWithChildren,
+  restoreCascadeChildren,
+  restoreFromTrash,
+  TRASHABLE_TABLES,
+  trashTableValidator,
+} from './lib/trash';
+
+export const getAdminBootstrap = adminQuery({
   args: {},
   handler: async (ctx) => {
     const [
@@ -108,14 +81,14 @@ export const getAdminBootstrap = query({
         .query('siteSettings')
         .withIndex('by_key', (q) => q.eq('key', 'global'))
         .unique(),
-      ctx.db.query('experiences').collect(),
-      ctx.db.query('projects').collect(),
-      ctx.db.query('programmingLanguages').collect(),
-      ctx.db.query('technologies').collect(),
-      ctx.db.query('cloudProviders').collect(),
-      ctx.db.query('certificates').collect(),
-      ctx.db.query('aboutCategories').collect(),
-      ctx.db.query('aboutItems').collect(),
+      collectLive(ctx, 'experiences'),
+      collectLive(ctx, 'projects'),
+      collectLive(ctx, 'programmingLanguages'),
+      collectLive(ctx, 'technologies'),
+      collectLive(ctx, 'cloudProviders'),
+      collectLive(ctx, 'certificates'),
+      collectLive(ctx, 'aboutCategories'),
+      collectLive(ctx, 'aboutItems'),
     ]);
 
     return {
@@ -132,29 +105,90 @@ export const getAdminBootstrap = query({
   },
 });
 
-export const generateUploadUrl = mutation({
+export const getAdminAccess = adminQuery({
+  args: {},
+  handler: async (ctx) => {
+    return { roles: ctx.admin.roles, isOwner: ctx.admin.isOwner };
+  },
+});
+
+export const getAuditLog = adminQuery({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    table: v.optional(auditTableValidator),
+    documentId: v.optional(v.string()),
+    action: v.optional(auditActionValidator),
+  },
+  handler: async (ctx, args) => {
+    const { table, documentId, action } = args;
+    const entries =
+      table && documentId
+        ? ctx.db
+            .query('auditLog')
+            .withIndex('by_document', (q) => q.eq('table', table).eq('documentId', documentId))
+        : table
+          ? ctx.db.query('auditLog').withIndex('by_table', (q) => q.eq('table', table))
+          : ctx.db.query('auditLog');
+
+    const ordered = entries.order('desc');
+    const filtered = action ? ordered.filter((q) => q.eq(q.field('action'), action)) : ordered;
+
+    return await filtered.paginate(args.paginationOpts);
+  },
+});
+
+export const getPublishStatus = adminQuery({
+  args: {},
+  handler: async (ctx) => {
+    const [latestPublication, unpublishedTables] = await Promise.all([
+      getLatestPublication(ctx),
+      getUnpublishedTables(ctx),
+    ]);
+
+    return {
+      lastPublishedAt: latestPublication?.publishedAt ?? null,
+      unpublishedTables,
+    };
+  },
+});
+
+export const publishPortfolio = adminMutation({
+  args: {},
+  handler: async (ctx) => {
+    await publishAllTables(ctx);
+  },
+});
+
+export const generateUploadUrl = adminMutation({
   args: {},
   handler: async (ctx) => {
     return await ctx.storage.generateUploadUrl();
   },
 });
 
-export const resolveStorageUrl = mutation({
+export const resolveStorageUrl = adminMutation({
   args: { storageId: v.id('_storage') },
   handler: async (ctx, args) => {
-    return await ctx.storage.getUrl(args.storageId);
+    // Every upload passes through here, so raster images get their variants
+    // queued and the URL is recorded against its storage id for the orphan purge.
+    await scheduleImageVariants(ctx, args.storageId);
+    const url = await ctx.storage.getUrl(args.storageId);
+    if (url) {
+      await recordUpload(ctx, args.storageId, url);
+    }
+    return url;
   },
 });
 
-export const upsertSiteSettings = mutation({
-  args: {
-    siteName: v.optional(v.string()),
-    tagline: v.optional(v.string()),
-    logoUrl: v.optional(v.string()),
-    profileImageUrl: v.optional(v.string()),
-    resumeUrl: v.optional(v.string()),
-  },
+export const getStorageUsage = adminQuery({
+  args: {},
+  handler: async (ctx) => (await classifyStorage(ctx, Date.now())).usage,
+});
+
+export const upsertSiteSettings = adminMutation({
+  args: siteSettingsFields,
   handler: async (ctx, args) => {
+    requireOwner(ctx.admin);
     const existing = await ctx.db
       .query('siteSettings')
       .withIndex('by_key', (q) => q.eq('key', 'global'))
@@ -164,129 +198,97 @@ export const upsertSiteSettings = mutation({
       key: 'global',
       siteName: args.siteName,
       tagline: args.tagline,
+      description: args.description,
       logoUrl: args.logoUrl,
       profileImageUrl: args.profileImageUrl,
       resumeUrl: args.resumeUrl,
+      contact: normalizeContactChannels(args.contact),
+      socialLinks: normalizeSocialLinks(args.socialLinks),
       updatedAt: Date.now(),
     };
 
     if (existing) {
-      await ctx.db.patch(existing._id, payload);
+      await auditedPatch(ctx, 'siteSettings', existing._id, payload);
       return existing._id;
     }
 
-    return await ctx.db.insert('siteSettings', payload);
+    return await auditedInsert(ctx, 'siteSettings', payload);
   },
 });
 
-export const createExperience = mutation({
+export const createExperience = adminMutation({
   args: experienceFields,
-  handler: async (ctx, args) => await ctx.db.insert('experiences', args),
+  handler: async (ctx, args) =>
+    await auditedInsert(ctx, 'experiences', {
+      ...args,
+      technologies: await canonicalizeTechReferences(ctx, args.technologies),
+    }),
 });
 
-export const updateExperience = mutation({
+export const updateExperience = adminMutation({
   args: { id: v.id('experiences'), ...experienceFields },
   handler: async (ctx, { id, ...rest }) => {
-    await ctx.db.patch(id, rest);
+    await revisionedPatch(ctx, 'experiences', id, {
+      ...rest,
+      technologies: await canonicalizeTechReferences(ctx, rest.technologies),
+    });
     return id;
   },
 });
 
-export const deleteExperience = mutation({
+export const deleteExperience = adminMutation({
   args: { id: v.id('experiences') },
   handler: async (ctx, args) => {
-    await ctx.db.delete(args.id);
+    await moveToTrash(ctx, 'experiences', args.id, Date.now());
   },
 });
 
-export const createProject = mutation({
+export const createProject = adminMutation({
   args: projectFields,
-  handler: async (ctx, args) => await ctx.db.insert('projects', args),
+  handler: async (ctx, args) =>
+    await auditedInsert(ctx, 'projects', {
+      ...args,
+      slug: await resolveProjectSlug(ctx, args.slug, args.title),
+      media: normalizeProjectMedia(args.media),
+      techStack: await canonicalizeTechReferences(ctx, args.techStack),
+    }),
 });
 
-export const updateProject = mutation({
+export const updateProject = adminMutation({
   args: { id: v.id('projects'), ...projectFields },
   handler: async (ctx, { id, ...rest }) => {
-    await ctx.db.patch(id, rest);
+    // A blank slug keeps the current one so shared links survive title edits.
+    const current = await ctx.db.get(id);
+    await revisionedPatch(ctx, 'projects', id, {
+      ...rest,
+      slug: await resolveProjectSlug(ctx, rest.slug || current?.slug, rest.title, id),
+      media: normalizeProjectMedia(rest.media),
+      techStack: await canonicalizeTechReferences(ctx, rest.techStack),
+    });
     return id;
   },
 });
 
-export const deleteProject = mutation({
+export const deleteProject = adminMutation({
   args: { id: v.id('projects') },
   handler: async (ctx, args) => {
-    await ctx.db.delete(args.id);
+    await moveToTrash(ctx, 'projects', args.id, Date.now());
   },
 });
 
-export const reorderProjects = mutation({
+export const reorderItems = adminMutation({
   args: {
-    items: v.array(
-      v.object({
-        id: v.id('projects'),
-        order: v.number(),
-      }),
-    ),
+    table: trashTableValidator,
+    scope: v.optional(v.string()),
+    items: reorderItemsValidator,
   },
   handler: async (ctx, args) => {
-    const now = Date.now();
-    const payload = args.items;
-
-    if (payload.length === 0) {
-      const existingProjects = await ctx.db.query('projects').take(1);
-      if (existingProjects.length > 0) {
-        throw new Error('Reorder payload must include all existing projects.');
-      }
-      return { updatedCount: 0, updatedAt: now };
-    }
-
-    const ids = new Set<string>();
-    const orders = new Set<number>();
-
-    for (const item of payload) {
-      if (ids.has(item.id)) {
-        throw new Error(`Duplicate project id in reorder payload: ${item.id}`);
-      }
-      ids.add(item.id);
-
-      if (!Number.isInteger(item.order) || item.order < 1) {
-        throw new Error(`Invalid project order in reorder payload: ${item.order}`);
-      }
-      if (orders.has(item.order)) {
-        throw new Error(`Duplicate project order in reorder payload: ${item.order}`);
-      }
-      orders.add(item.order);
-    }
-
-    const existingProjects = await ctx.db.query('projects').collect();
-    if (existingProjects.length !== payload.length) {
-      throw new Error('Reorder payload must include every project exactly once.');
-    }
-
-    const existingIds = new Set(existingProjects.map((project) => project._id));
-    for (const item of payload) {
-      if (!existingIds.has(item.id)) {
-        throw new Error(`Unknown project id in reorder payload: ${item.id}`);
-      }
-    }
-
-    const sortedOrders = [...orders].sort((a, b) => a - b);
-    for (let index = 0; index < sortedOrders.length; index += 1) {
-      const expected = index + 1;
-      if (sortedOrders[index] !== expected) {
-        throw new Error('Project orders must be contiguous integers starting at 1.');
-      }
-    }
-
-    for (const item of payload) {
-      await ctx.db.patch(item.id, { order: item.order });
-    }
-
-    return { updatedCount: payload.length, updatedAt: now };
+    const updatedCount = await applyReorder(ctx, args.table, args.scope, args.items);
+    return { updatedCount, updatedAt: Date.now() };
   },
 });
 
-export const reorderExperiences = mutation({
+export const reorderExperiences = adminMutation({
   args: {
     items: v.array(
       v.object({
@@ -297,232 +299,362 @@ export const reorderExperiences = mutation({
     currentExperienceId: v.union(v.id('experiences'), v.null()),
   },
   handler: async (ctx, args) => {
-    const now = Date.now();
-    const payload = args.items;
-
-    if (payload.length === 0) {
-      const existingExperiences = await ctx.db.query('experiences').take(1);
-      if (existingExperiences.length > 0) {
-        throw new Error('Reorder payload must include all existing experiences.');
-      }
-      return { updatedCount: 0, updatedAt: now, currentExperienceId: null };
-    }
-
-    const ids = new Set<string>();
-    const orders = new Set<number>();
-
-    for (const item of payload) {
-      if (ids.has(item.id)) {
-        throw new Error(`Duplicate experience id in reorder payload: ${item.id}`);
-      }
-      ids.add(item.id);
-
-      if (!Number.isInteger(item.order) || item.order < 1) {
-        throw new Error(`Invalid experience order in reorder payload: ${item.order}`);
-      }
-      if (orders.has(item.order)) {
-        throw new Error(`Duplicate experience order in reorder payload: ${item.order}`);
-      }
-      orders.add(item.order);
+    if (args.currentExperienceId !== null && !args.items.some((item) => item.id === args.currentExperienceId)) {
+      throw new Error(`Unknown experience id for current role: ${args.currentExperienceId}`);
     }
 
-    const existingExperiences = await ctx.db.query('experiences').collect();
-    if (existingExperiences.length !== payload.length) {
-      throw new Error('Reorder payload must include every experience exactly once.');
-    }
+    const updatedCount = await applyReorder(ctx, 'experiences', undefined, args.items, (id, order) => ({
+      order,
+      isCurrent: args.currentExperienceId === id,
+    }));
 
-    const existingIds = new Set(existingExperiences.map((experience) => experience._id));
-    for (const item of payload) {
-      if (!existingIds.has(item.id)) {
-        throw new Error(`Unknown experience id in reorder payload: ${item.id}`);
-      }
-    }
+    return {
+      updatedCount,
+      updatedAt: Date.now(),
+      currentExperienceId: args.currentExperienceId,
+    };
+  },
+});
 
-    if (args.currentExperienceId !== null && !existingIds.has(args.currentExperienceId)) {
-      throw new Error(`Unknown experience id for current role: ${args.currentExperienceId}`);
-    }
+export const getRevisions = adminQuery({
+  args: {
+    table: revisionTableValidator,
+    documentId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('revisions')
+      .withIndex('by_document', (q) => q.eq('table', args.table).eq('documentId', args.documentId))
+      .order('desc')
+      .take(MAX_REVISIONS_PER_DOCUMENT);
+  },
+});
 
-    const sortedOrders = [...orders].sort((a, b) => a - b);
-    for (let index = 0; index < sortedOrders.length; index += 1) {
-      const expected = index + 1;
-      if (sortedOrders[index] !== expected) {
-        throw new Error('Experience orders must be contiguous integers starting at 1.');
-      }
+export const restoreRevision = adminMutation({
+  args: { revisionId: v.id('revisions') },
+  handler: async (ctx, args) => {
+    const revision = await ctx.db.get(args.revisionId);
+    if (!revision) {
+      throw new Error('Revision not found.');
     }
 
-    for (const item of payload) {
-      await ctx.db.patch(item.id, {
-        order: item.order,
-        isCurrent: args.currentExperienceId === item.id,
-      });
+    const id = ctx.db.normalizeId(revision.table, revision.documentId);
+    const current = id ? await ctx.db.get(id) : null;
+    if (!id || !current) {
+      throw new Error('The document for this revision no longer exists.');
     }
 
-    return {
-      updatedCount: payload.length,
-      updatedAt: now,
-      currentExperienceId: args.currentExperienceId,
-    };
+    // Snapshot the version being replaced so a restore can itself be undone.
+    await snapshotRevision(ctx, revision.table, current);
+    await auditedReplace(ctx, revision.table, id, mergeRevisionSnapshot(revision.snapshot, current), 'restore');
+    return id;
   },
 });
 
-export const createProgrammingLanguage = mutation({
+export const createProgrammingLanguage = adminMutation({
   args: programmingLanguageFields,
-  handler: async (ctx, args) => await ctx.db.insert('programmingLanguages', args),
+  handler: async (ctx, args) => await auditedInsert(ctx, 'programmingLanguages', args),
 });
 
-export const updateProgrammingLanguage = mutation({
+export const updateProgrammingLanguage = adminMutation({
   args: { id: v.id('programmingLanguages'), ...programmingLanguageFields },
   handler: async (ctx, { id, ...rest }) => {
-    await ctx.db.patch(id, rest);
+    await auditedPatch(ctx, 'programmingLanguages', id, rest);
     return id;
   },
 });
 
-export const deleteProgrammingLanguage = mutation({
+export const deleteProgrammingLanguage = adminMutation({
   args: { id: v.id('programmingLanguages') },
   handler: async (ctx, args) => {
-    await ctx.db.delete(args.id);
+    await moveToTrash(ctx, 'programmingLanguages', args.id, Date.now());
   },
 });
 
-export const createTechnology = mutation({
+export const createTechnology = adminMutation({
   args: technologyFields,
-  handler: async (ctx, args) => await ctx.db.insert('technologies', args),
+  handler: async (ctx, args) => await auditedInsert(ctx, 'technologies', args),
 });
 
-export const updateTechnology = mutation({
+export const updateTechnology = adminMutation({
   args: { id: v.id('technologies'), ...technologyFields },
   handler: async (ctx, { id, ...rest }) => {
-    await ctx.db.patch(id, rest);
+    const current = await ctx.db.get(id);
+    await auditedPatch(ctx, 'technologies', id, rest);
+    if (current) {
+      await propagateTechnologyRenames(ctx, [{ from: current.name, to: rest.name }]);
+    }
     return id;
   },
 });
 
-export const deleteTechnology = mutation({
+export const deleteTechnology = adminMutation({
   args: { id: v.id('technologies') },
   handler: async (ctx, args) => {
-    await ctx.db.delete(args.id);
+    await moveToTrash(ctx, 'technologies', args.id, Date.now());
   },
 });
 
-export const batchSaveTechnologies = mutation({
+export const batchSaveTechnologies = adminMutation({
   args: {
     creates: v.array(v.object(technologyFields)),
     updates: v.array(v.object({ id: v.id('technologies'), ...technologyFields })),
     deletes: v.array(v.id('technologies')),
   },
   handler: async (ctx, args) => {
+    const deletedAt = Date.now();
     for (const id of args.deletes) {
-      await ctx.db.delete(id);
+      await moveToTrash(ctx, 'technologies', id, deletedAt);
     }
+    const renames: Array<{ from: string; to: string }> = [];
     for (const { id, ...rest } of args.updates) {
-      await ctx.db.patch(id, rest);
+      const current = await ctx.db.get(id);
+      if (current && current.name !== rest.name) {
+        renames.push({ from: current.name, to: rest.name });
+      }
+      await auditedPatch(ctx, 'technologies', id, rest);
     }
     for (const item of args.creates) {
-      await ctx.db.insert('technologies', item);
+      await auditedInsert(ctx, 'technologies', item);
     }
+    const referenceUpdateCount = await propagateTechnologyRenames(ctx, renames);
     return {
       deletedCount: args.deletes.length,
       updatedCount: args.updates.length,
       createdCount: args.creates.length,
+      referenceUpdateCount,
     };
   },
 });
 
-export const createCloudProvider = mutation({
+export const getOrphanedTechnologies = adminQuery({
+  args: {},
+  handler: async (ctx) => await findOrphanedTechnologies(ctx),
+});
+
+export const createCloudProvider = adminMutation({
   args: cloudProviderFields,
-  handler: async (ctx, args) => await ctx.db.insert('cloudProviders', args),
+  handler: async (ctx, args) => await auditedInsert(ctx, 'cloudProviders', args),
 });
 
-export const updateCloudProvider = mutation({
+export const updateCloudProvider = adminMutation({
   args: { id: v.id('cloudProviders'), ...cloudProviderFields },
   handler: async (ctx, { id, ...rest }) => {
-    await ctx.db.patch(id, rest);
+    await auditedPatch(ctx, 'cloudProviders', id, rest);
     return id;
   },
 });
 
-export const deleteCloudProvider = mutation({
+export const deleteCloudProvider = adminMutation({
   args: { id: v.id('cloudProviders') },
   handler: async (ctx, args) => {
-    const relatedCertificates = await ctx.db
-      .query('certificates')
-      .withIndex('by_provider', (q) => q.eq('providerId', args.id))
-      .collect();
-
-    for (const certificate of relatedCertificates) {
-      await ctx.db.delete(certificate._id);
-    }
-
-    await ctx.db.delete(args.id);
+    await moveToTrashWithChildren(ctx, 'cloudProviders', args.id, Date.now());
   },
 });
 
-export const createCertificate = mutation({
+export const createCertificate = adminMutation({
   args: certificateFields,
-  handler: async (ctx, args) => await ctx.db.insert('certificates', args),
+  handler: async (ctx, args) => await auditedInsert(ctx, 'certificates', args),
 });
 
-export const updateCertificate = mutation({
+export const updateCertificate = adminMutation({
   args: { id: v.id('certificates'), ...certificateFields },
   handler: async (ctx, { id, ...rest }) => {
-    await ctx.db.patch(id, rest);
+    await auditedPatch(ctx, 'certificates', id, rest);
     return id;
   },
 });
 
-export const deleteCertificate = mutation({
+export const deleteCertificate = adminMutation({
   args: { id: v.id('certificates') },
   handler: async (ctx, args) => {
-    await ctx.db.delete(args.id);
+    await moveToTrash(ctx, 'certificates', args.id, Date.now());
   },
 });
 
-export const createAboutCategory = mutation({
+export const createAboutCategory = adminMutation({
   args: aboutCategoryFields,
-  handler: async (ctx, args) => await ctx.db.insert('aboutCategories', args),
+  handler: async (ctx, args) => await auditedInsert(ctx, 'aboutCategories', args),
 });
 
-export const updateAboutCategory = mutation({
+export const updateAboutCategory = adminMutation({
   args: { id: v.id('aboutCategories'), ...aboutCategoryFields },
   handler: async (ctx, { id, ...rest }) => {
-    await ctx.db.patch(id, rest);
+    await auditedPatch(ctx, 'aboutCategories', id, rest);
     return id;
   },
 });
 
-export const deleteAboutCategory = mutation({
+export const deleteAboutCategory = adminMutation({
   args: { id: v.id('aboutCategories') },
   handler: async (ctx, args) => {
-    const relatedItems = await ctx.db
-      .query('aboutItems')
-      .withIndex('by_category', (q) => q.eq('categoryId', args.id))
-      .collect();
-
-    for (const item of relatedItems) {
-      await ctx.db.delete(item._id);
-    }
-
-    await ctx.db.delete(args.id);
+    await moveToTrashWithChildren(ctx, 'aboutCategories', args.id, Date.now());
   },
 });
 
-export const createAboutItem = mutation({
+export const createAboutItem = adminMutation({
   args: aboutItemFields,
-  handler: async (ctx, args) => await ctx.db.insert('aboutItems', args),
+  handler: async (ctx, args) => await auditedInsert(ctx, 'aboutItems', args),
 });
 
-export const updateAboutItem = mutation({
+export const updateAboutItem = adminMutation({
   args: { id: v.id('aboutItems'), ...aboutItemFields },
   handler: async (ctx, { id, ...rest }) => {
-    await ctx.db.patch(id, rest);
+    await auditedPatch(ctx, 'aboutItems', id, rest);
     return id;
   },
 });
 
-export const deleteAboutItem = mutation({
+export const deleteAboutItem = adminMutation({
   args: { id: v.id('aboutItems') },
   handler: async (ctx, args) => {
-    await ctx.db.delete(args.id);
+    await moveToTrash(ctx, 'aboutItems', args.id, Date.now());
+  },
+});
+
+const TRASH_PARENTS = {
+  certificates: { table: 'cloudProviders', field: 'providerId', label: 'cloud provider' },
+  aboutItems: { table: 'aboutCategories', field: 'categoryId', label: 'about category' },
+} as const;
+
+export const getTrash = adminQuery({
+  args: {},
+  handler: async (ctx) => {
+    const groups = await Promise.all(
+      TRASHABLE_TABLES.map(async (table) =>
+        (await collectTrashed(ctx, table)).map((doc) => ({
+          table,
+          id: doc._id as string,
+          deletedAt: getDeletedAt(doc) ?? 0,
+          doc: doc as Record<string, unknown>,
+        })),
+      ),
+    );
+    const retentionMs = getTrashRetentionMs();
+
+    return groups
+      .flat()
+      .sort((a, b) => b.deletedAt - a.deletedAt)
+      .map((entry) => ({ ...entry, purgeAt: entry.deletedAt + retentionMs }));
+  },
+});
+
+export const restoreTrashedItem = adminMutation({
+  args: { table: trashTableValidator, id: v.string() },
+  handler: async (ctx, args) => {
+    const id = ctx.db.normalizeId(args.table, args.id);
+    const doc = id ? await ctx.db.get(id) : null;
+    if (!id || !doc || isLive(doc)) {
+      throw new Error('Item is not in the trash.');
+    }
+
+    if (args.table === 'certificates' || args.table === 'aboutItems') {
+      const parentRef = TRASH_PARENTS[args.table];
+      const parentId = (doc as Record<string, unknown>)[parentRef.field] as string;
+      const parentDocId = ctx.db.normalizeId(parentRef.table, parentId);
+      const parent = parentDocId ? await ctx.db.get(parentDocId) : null;
+      if (!parent) {
+        throw new Error(`The ${parentRef.label} this item belongs to was deleted permanently; it cannot be restored.`);
+      }
+      if (!isLive(parent)) {
+        throw new Error(`Restore the ${parentRef.label} first; this item belongs to it.`);
+      }
+    }
+
+    await restoreFromTrash(ctx, args.table, id);
+    const restoredChildren = await restoreCascadeChildren(ctx, args.table, doc);
+
+    return { restoredCount: restoredChildren + 1 };
+  },
+});
+
+export const deleteTrashedItemPermanently = adminMutation({
+  args: { table: trashTableValidator, id: v.string() },
+  handler: async (ctx, args) => {
+    const id = ctx.db.normalizeId(args.table, args.id);
+    const doc = id ? await ctx.db.get(id) : null;
+    if (!id || !doc || isLive(doc)) {
+      throw new Error('Item is not in the trash.');
+    }
+
+    const children = await getCascadeChildren(ctx, args.table, doc);
+    for (const child of children) {
+      await auditedDelete(ctx, child.table, child.id);
+    }
+    await auditedDelete(ctx, args.table, id);
+  },
+});
+
+export const exportPortfolio = adminAction({
+  args: {},
+  handler: async (ctx): Promise<PortfolioExport> => {
+    requireOwner(ctx.admin);
+    const source = await ctx.runQuery(api.admin.getAdminBootstrap, {});
+    return buildPortfolioExport(source, Date.now());
+  },
+});
+
+export const importPortfolio = adminMutation({
+  args: {
+    document: portfolioExportValidator,
+    mode: importModeValidator,
+    dryRun: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<ImportTablePlan[]> => {
+    requireOwner(ctx.admin);
+    return await applyPortfolioImport(ctx, args.document, args.mode, args.dryRun);
+  },
+});
+
+export const getContactMessages = adminQuery({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    archived: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    requireOwner(ctx.admin);
+    const messages = args.archived
+      ? ctx.db.query('contactMessages').withIndex('by_archived_at', (q) => q.gt('archivedAt', 0))
+      : ctx.db.query('contactMessages').withIndex('by_archived_at', (q) => q.eq('archivedAt', undefined));
+
+    return await messages.order('desc').paginate(args.paginationOpts);
+  },
+});
+
+export const getUnreadContactMessageCount = adminQuery({
+  args: {},
+  handler: async (ctx) => {
+    requireOwner(ctx.admin);
+    const inbox = await ctx.db
+      .query('contactMessages')
+      .withIndex('by_archived_at', (q) => q.eq('archivedAt', undefined))
+      .collect();
+    return inbox.filter((message) => message.readAt === undefined).length;
+  },
+});
+
+export const setContactMessageRead = adminMutation({
+  args: { id: v.id('contactMessages'), read: v.boolean() },
+  handler: async (ctx, args) => {
+    requireOwner(ctx.admin);
+    await ctx.db.patch(args.id, { readAt: args.read ? Date.now() : undefined });
+  },
+});
+
+export const setContactMessageArchived = adminMutation({
+  args: { id: v.id('contactMessages'), archived: v.boolean() },
+  handler: async (ctx, args) => {
+    requireOwner(ctx.admin);
+    const message = await ctx.db.get(args.id);
+    if (!message) {
+      throw new Error(`Contact message not found: ${args.id}`);
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.id, {
+      archivedAt: args.archived ? now : undefined,
+      // Archiving implies the message was dealt with.
+      readAt: args.archived ? (message.readAt ?? now) : message.readAt,
+    });
   },
 });
@@ -0,0 +1,38 @@
+// WAY Auth access tokens are RS256 JWTs signed by the auth service. Convex
+// verifies them against the service JWKS, so `ctx.auth.getUserIdentity()`
+// resolves to the WAY subject for every authenticated admin request.
+//
+// Set these on the Convex deployment (dashboard or `npx convex env set`):
+// - WAY_AUTH_ISSUER: token issuer, e.g. https://way-my-auth-service.vercel.app
+// - WAY_AUTH_JWKS_URL: e.g. https://way-my-auth-service.vercel.app/api/v1/jwks
+// - WAY_AUTH_AUDIENCE: expected `aud` claim (defaults to "way-clients")
+
+export class MissingAuthConfigError extends Error {
+  readonly variable: string;
+
+  constructor(variable: string) {
+    super(`${variable} is not set on the Convex deployment; admin tokens cannot be verified without it.`);
+    this.name = 'MissingAuthConfigError';
+    this.variable = variable;
+  }
+}
+
+function requireEnv(variable: string): string {
+  const value = process.env[variable]?.trim();
+  if (!value) {
+    throw new MissingAuthConfigError(variable);
+  }
+  return value;
+}
+
+export default {
+  providers: [
+    {
+      type: 'customJwt',
+      applicationID: process.env.WAY_AUTH_AUDIENCE ?? 'way-clients',
+      issuer: requireEnv('WAY_AUTH_ISSUER'),
+      jwks: requireEnv('WAY_AUTH_JWKS_URL'),
+      algorithm: 'RS256',
+    },
+  ],
+};
@@ -0,0 +1,50 @@
+import { v } from 'convex/values';
+import { mutation } from './_generated/server';
+import {
+  assertContactSubmitter,
+  contactMessageInputFields,
+  type ContactSubmissionResult,
+  RATE_LIMIT_MAX_MESSAGES,
+  RATE_LIMIT_WINDOW_MS,
+  validateContactMessage,
+} from './lib/contact';
+
+export const submitContactMessage = mutation({
+  args: {
+    ...contactMessageInputFields,
+    clientKey: v.string(),
+    submitterSecret: v.string(),
+  },
+  handler: async (ctx, args): Promise<ContactSubmissionResult> => {
+    assertContactSubmitter(args.submitterSecret);
+
+    // Pretend success so bots do not learn to skip the field.
+    if (args.website?.trim()) {
+      return { status: 'accepted' };
+    }
+
+    const validation = validateContactMessage(args);
+    if (!validation.ok) {
+      return { status: 'invalid', field: validation.field, message: validation.message };
+    }
+
+    const now = Date.now();
+    const recent = await ctx.db
+      .query('contactMessages')
+      .withIndex('by_client_key', (q) => q.eq('clientKey', args.clientKey).gt('createdAt', now - RATE_LIMIT_WINDOW_MS))
+      .collect();
+
+    if (recent.length >= RATE_LIMIT_MAX_MESSAGES) {
+      const oldest = Math.min(...recent.map((message) => message.createdAt));
+      return { status: 'rate_limited', retryAfterMs: oldest + RATE_LIMIT_WINDOW_MS - now };
+    }
+
+    await ctx.db.insert('contactMessages', {
+      ...validation.value,
+      clientKey: args.clientKey,
+      createdAt: now,
+    });
+
+    return { status: 'accepted' };
+  },
+});
@@ -0,0 +1,13 @@
+import { cronJobs } from 'convex/server';
+import { internal } from './_generated/api';
+
+const crons = cronJobs();
+
+crons.daily('purge expired trash', { hourUTC: 3, minuteUTC: 0 }, internal.maintenance.purgeExpiredTrash);
+crons.daily(
+  'purge orphaned storage',
+  { hourUTC: 3, minuteUTC: 30 },
+  internal.maintenance.purgeOrphanedStorage,
+);
+
+export default crons;
@@ -0,0 +1,26 @@
+import { internalMutation } from './_generated/server';
+import { imageAssetFields } from './lib/fields';
+import { deleteImageAsset } from './lib/imageAssets';
+import { createSiteChanges, scheduleSiteRevalidation } from './lib/revalidation';
+
+export const saveImageAsset = internalMutation({
+  args: imageAssetFields,
+  handler: async (ctx, args) => {
+    // The original may have been purged while its variants were being built.
+    if (!(await ctx.db.system.get(args.storageId))) {
+      for (const variant of args.variants) {
+        await ctx.storage.delete(variant.storageId);
+      }
+      return null;
+    }
+
+    await deleteImageAsset(ctx, args.storageId);
+    const assetId = await ctx.db.insert('imageAssets', args);
+
+    // Public queries attach variants live, whatever the publish state.
+    const siteChanges = createSiteChanges();
+    siteChanges.published.add('projects').add('certificates');
+    await scheduleSiteRevalidation(ctx, siteChanges);
+    return assetId;
+  },
+});
@@ -0,0 +1,82 @@
+'use node';
+
+import { encode } from 'blurhash';
+import sharp from 'sharp';
+import { v } from 'convex/values';
+import { internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
+import { internalAction } from './_generated/server';
+import type { ImageVariant } from './lib/fields';
+
+const VARIANT_WIDTHS = [320, 640, 960, 1280, 1920];
+const VARIANT_QUALITY = { avif: 55, webp: 75 } as const;
+const BLURHASH_SIZE = 32;
+const PLACEHOLDER_WIDTH = 16;
+
+function getVariantWidths(originalWidth: number): number[] {
+  const largest = Math.min(originalWidth, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]);
+  return [...new Set([...VARIANT_WIDTHS.filter((width) => width < largest), largest])];
+}
+
+/**
+ * Builds AVIF and WebP variants at the standard widths plus a blurhash and a
+ * tiny placeholder for a raster upload. Scheduled by `resolveStorageUrl`, so
+ * it runs once per uploaded image.
+ */
+export const generateImageVariants = internalAction({
+  args: { storageId: v.id('_storage') },
+  handler: async (ctx, { storageId }) => {
+    const [blob, url] = await Promise.all([ctx.storage.get(storageId), ctx.storage.getUrl(storageId)]);
+    if (!blob || !url) {
+      return null;
+    }
+
+    const input = Buffer.from(await blob.arrayBuffer());
+    // `rotate()` applies EXIF orientation, so the sizes below are as displayed.
+    const oriented = () => sharp(input, { failOn: 'none' }).rotate();
+    const metadata = await oriented().metadata();
+    if (!metadata.width || !metadata.height) {
+      throw new Error(`Could not read image dimensions for ${storageId}.`);
+    }
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const width = rotated ? metadata.height : metadata.width;
+    const height = rotated ? metadata.width : metadata.height;
+
+    const variants: ImageVariant[] = [];
+    for (const format of ['avif', 'webp'] as const) {
+      for (const variantWidth of getVariantWidths(width)) {
+        const buffer = await oriented()
+          .resize({ width: variantWidth, withoutEnlargement: true })
+          .toFormat(format, { quality: VARIANT_QUALITY[format] })
+          .toBuffer();
+        const variantId: Id<'_storage'> = await ctx.storage.store(
+          new Blob([new Uint8Array(buffer)], { type: `image/${format}` }),
+        );
+        const variantUrl = await ctx.storage.getUrl(variantId);
+        if (variantUrl) {
+          variants.push({ format, width: variantWidth, storageId: variantId, url: variantUrl });
+        }
+      }
+    }
+
+    const { data, info } = await oriented()
+      .resize(BLURHASH_SIZE, BLURHASH_SIZE, { fit: 'inside' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const blurhash = encode(new Uint8ClampedArray(data), info.width, info.height, 4, 3);
+
+    const placeholder = await oriented().resize({ width: PLACEHOLDER_WIDTH }).webp({ quality: 40 }).toBuffer();
+
+    await ctx.runMutation(internal.imageAssets.saveImageAsset, {
+      storageId,
+      url,
+      width,
+      height,
+      blurhash,
+      placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+      variants,
+    });
+    return { variantCount: variants.length };
+  },
+});
@@ -0,0 +1,45 @@
+// Shared by the Convex admin wrappers and the web app's /admin middleware, so
+// both let in exactly the same tokens. Keep this module free of Convex imports.
+
+// WAY Auth issues one audience to every client app, so roles are namespaced to
+// keep a role granted for another app from opening this dashboard.
+export const OWNER_ROLE = 'portfolio.owner';
+export const EDITOR_ROLE = 'portfolio.editor';
+
+export type AdminAccess = {
+  isOwner: boolean;
+};
+
+export function parseAdminSubjects(raw: string | undefined): Set<string> {
+  return new Set(
+    (raw ?? '')
+      .split(',')
+      .map((subject) => subject.trim())
+      .filter(Boolean),
+  );
+}
+
+export function readRoles(claim: unknown): string[] {
+  if (typeof claim === 'string') {
+    return claim.split(' ').filter(Boolean);
+  }
+  return Array.isArray(claim) ? claim.filter((role): role is string => typeof role === 'string') : [];
+}
+
+/**
+ * Admins are subjects on the allowlist or tokens carrying the `portfolio.owner`
+ * or `portfolio.editor` role. Allowlisted subjects keep full access, so
+ * deployments that predate roles behave as before. Returns `null` for
+ * everyone else.
+ */
+export function resolveAdminAccess(
+  subject: string,
+  roles: string[],
+  adminSubjects: Set<string>,
+): AdminAccess | null {
+  const isAllowlisted = adminSubjects.has(subject);
+  if (!isAllowlisted && !roles.includes(OWNER_ROLE) && !roles.includes(EDITOR_ROLE)) {
+    return null;
+  }
+  return { isOwner: isAllowlisted || roles.includes(OWNER_ROLE) };
+}
@@ -0,0 +1,174 @@
+import { v, type Infer, type Value } from 'convex/values';
+import type { WithOptionalSystemFields, WithoutSystemFields } from 'convex/server';
+import type { Doc, Id, TableNames } from '../_generated/dataModel';
+import type { AdminMutationCtx } from './auth';
+import { stableSerialize } from './serialization';
+import { withStorageIds } from './storage';
+
+export const auditActionValidator = v.union(
+  v.literal('create'),
+  v.literal('update'),
+  v.literal('delete'),
+  v.literal('reorder'),
+  v.literal('restore'),
+);
+
+export const auditTableValidator = v.union(
+  v.literal('siteSettings'),
+  v.literal('experiences'),
+  v.literal('projects'),
+  v.literal('programmingLanguages'),
+  v.literal('technologies'),
+  v.literal('cloudProviders'),
+  v.literal('certificates'),
+  v.literal('aboutCategories'),
+  v.literal('aboutItems'),
+);
+
+export const auditFieldChangeValidator = v.object({
+  field: v.string(),
+  before: v.optional(v.any()),
+  after: v.optional(v.any()),
+});
+
+export type AuditAction = Infer<typeof auditActionValidator>;
+export type AuditedTable = Infer<typeof auditTableValidator> & TableNames;
+export type AuditFieldChange = Infer<typeof auditFieldChangeValidator>;
+
+type AuditSnapshot = Record<string, unknown> | null;
+
+// System fields, bookkeeping timestamps and storage references derived from
+// media URLs change alongside other fields and would drown out the fields an
+// editor actually touched.
+const IGNORED_DIFF_FIELDS = new Set(['_id', '_creationTime', 'updatedAt', 'storageIds']);
+
+export function diffDocuments(before: AuditSnapshot, after: AuditSnapshot): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditFieldChange[] = [];
+
+  for (const field of [...fields].sort()) {
+    if (IGNORED_DIFF_FIELDS.has(field)) {
+      continue;
+    }
+
+    const previous = before?.[field] as Value | undefined;
+    const next = after?.[field] as Value | undefined;
+    if (stableSerialize(previous) === stableSerialize(next)) {
+      continue;
+    }
+
+    changes.push({
+      field,
+      ...(previous !== undefined ? { before: previous } : {}),
+      ...(next !== undefined ? { after: next } : {}),
+    });
+  }
+
+  return changes;
+}
+
+export async function recordAudit(
+  ctx: AdminMutationCtx,
+  entry: {
+    table: AuditedTable;
+    documentId: string;
+    action: AuditAction;
+    before: AuditSnapshot;
+    after: AuditSnapshot;
+  },
+) {
+  const changes = diffDocuments(entry.before, entry.after);
+  if (entry.action !== 'create' && entry.action !== 'delete' && changes.length === 0) {
+    return null;
+  }
+
+  ctx.siteChanges.draft.add(entry.table);
+  return await ctx.db.insert('auditLog', {
+    actorSubject: ctx.admin.subject,
+    actorEmail: ctx.admin.email ?? undefined,
+    table: entry.table,
+    documentId: entry.documentId,
+    action: entry.action,
+    changes,
+    createdAt: Date.now(),
+  });
+}
+
+// The sitemap and feed date these by their last content edit. Layout and trash
+// writes keep the previous value, and so do writes that change nothing.
+const TIMESTAMPED_TABLES = new Set<AuditedTable>(['projects', 'certificates']);
+
+function contentTimestamp(
+  table: AuditedTable,
+  action: AuditAction,
+  before: AuditSnapshot,
+  after: Record<string, unknown>,
+): { updatedAt?: number } {
+  if (!TIMESTAMPED_TABLES.has(table)) {
+    return {};
+  }
+
+  const isContentWrite = action === 'create' || action === 'update' || action === 'restore';
+  const changed = isContentWrite && diffDocuments(before, after).length > 0;
+  return { updatedAt: changed ? Date.now() : (before?.updatedAt as number | undefined) };
+}
+
+export async function auditedInsert<TableName extends AuditedTable>(
+  ctx: AdminMutationCtx,
+  table: TableName,
+  value: WithoutSystemFields<Doc<TableName>>,
+): Promise<Id<TableName>> {
+  const stamped = { ...value, ...contentTimestamp(table, 'create', null, value) };
+  const id = await ctx.db.insert(table, await withStorageIds(ctx, table, stamped));
+  await recordAudit(ctx, { table, documentId: id, action: 'create', before: null, after: value });
+  return id;
+}
+
+export async function auditedPatch<TableName extends AuditedTable>(
+  ctx: AdminMutationCtx,
+  table: TableName,
+  id: Id<TableName>,
+  value: Partial<Doc<TableName>>,
+  action: Exclude<AuditAction, 'create'> = 'update',
+) {
+  const before = await ctx.db.get(id);
+  if (!before) {
+    throw new Error(`Document not found in ${table}: ${id}`);
+  }
+
+  const { storageIds } = await withStorageIds(ctx, table, { ...before, ...value });
+  const stamp = contentTimestamp(table, action, before, { ...before, ...value });
+  await ctx.db.patch(id, { ...value, storageIds, ...stamp });
+  const after = await ctx.db.get(id);
+  await recordAudit(ctx, { table, documentId: id, action, before, after });
+}
+
+export async function auditedReplace<TableName extends AuditedTable>(
+  ctx: AdminMutationCtx,
+  table: TableName,
+  id: Id<TableName>,
+  value: WithOptionalSystemFields<Doc<TableName>>,
+  action: Extract<AuditAction, 'update' | 'restore'> = 'update',
+) {
+  const before = await ctx.db.get(id);
+  if (!before) {
+    throw new Error(`Document not found in ${table}: ${id}`);
+  }
+
+  const stamped = { ...value, ...contentTimestamp(table, action, before, value) };
+  await ctx.db.replace(id, await withStorageIds(ctx, table, stamped));
+  const after = await ctx.db.get(id);
+  await recordAudit(ctx, { table, documentId: id, action, before, after });
+}
+
+export async function auditedDelete<TableName extends AuditedTable>(
+  ctx: AdminMutationCtx,
+  table: TableName,
+  id: Id<TableName>,
+) {
+  const before = await ctx.db.get(id);
+  await ctx.db.delete(id);
+  if (before) {
+    await recordAudit(ctx, { table, documentId: id, action: 'delete', before, after: null });
+  }
+}
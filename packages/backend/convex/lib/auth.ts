@@ -0,0 +1,108 @@
+import type { Auth } from 'convex/server';
+import type { ObjectType, PropertyValidators } from 'convex/values';
+import {
+  action,
+  mutation,
+  query,
+  type ActionCtx,
+  type MutationCtx,
+  type QueryCtx,
+} from '../_generated/server';
+import { OWNER_ROLE, parseAdminSubjects, readRoles, resolveAdminAccess } from './adminAccess';
+import { createSiteChanges, scheduleSiteRevalidation, type SiteChanges } from './revalidation';
+
+export type AdminIdentity = {
+  subject: string;
+  email: string | null;
+  roles: string[];
+  isOwner: boolean;
+};
+
+export type AdminQueryCtx = QueryCtx & { admin: AdminIdentity };
+export type AdminMutationCtx = MutationCtx & { admin: AdminIdentity; siteChanges: SiteChanges };
+export type AdminActionCtx = ActionCtx & { admin: AdminIdentity };
+
+/** Resolves the caller with `resolveAdminAccess`, the rule the web middleware applies too. */
+export async function requireAdmin(ctx: { auth: Auth }): Promise<AdminIdentity> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error('Unauthenticated: a valid WAY Auth access token is required.');
+  }
+
+  const roles = readRoles(identity.roles);
+  const access = resolveAdminAccess(
+    identity.subject,
+    roles,
+    parseAdminSubjects(process.env.WAY_AUTH_ADMIN_SUBJECTS),
+  );
+  if (!access) {
+    throw new Error(`Forbidden: subject ${identity.subject} is not an admin.`);
+  }
+
+  return {
+    subject: identity.subject,
+    email: identity.email ?? null,
+    roles,
+    isOwner: access.isOwner,
+  };
+}
+
+export function requireOwner(admin: AdminIdentity) {
+  if (!admin.isOwner) {
+    throw new Error(`Forbidden: subject ${admin.subject} needs the ${OWNER_ROLE} role.`);
+  }
+}
+
+/**
+ * Lets a scheduled job write through the audited helpers. Its changes are
+ * logged under `subject`, e.g. `system:trash-retention`.
+ */
+export function asSystemActor(ctx: MutationCtx, subject: string): AdminMutationCtx {
+  return {
+    ...ctx,
+    admin: { subject, email: null, roles: [], isOwner: true },
+    siteChanges: createSiteChanges(),
+  };
+}
+
+export function adminQuery<Args extends PropertyValidators, Output>(definition: {
+  args: Args;
+  handler: (ctx: AdminQueryCtx, args: ObjectType<Args>) => Promise<Output>;
+}) {
+  return query({
+    args: definition.args,
+    handler: async (ctx, args: ObjectType<Args>) => {
+      const admin = await requireAdmin(ctx);
+      return definition.handler({ ...ctx, admin }, args);
+    },
+  });
+}
+
+export function adminMutation<Args extends PropertyValidators, Output>(definition: {
+  args: Args;
+  handler: (ctx: AdminMutationCtx, args: ObjectType<Args>) => Promise<Output>;
+}) {
+  return mutation({
+    args: definition.args,
+    handler: async (ctx, args: ObjectType<Args>) => {
+      const admin = await requireAdmin(ctx);
+      const siteChanges = createSiteChanges();
+      const result = await definition.handler({ ...ctx, admin, siteChanges }, args);
+      await scheduleSiteRevalidation(ctx, siteChanges);
+      return result;
+    },
+  });
+}
+
+export function adminAction<Args extends PropertyValidators, Output>(definition: {
+  args: Args;
+  handler: (ctx: AdminActionCtx, args: ObjectType<Args>) => Promise<Output>;
+}) {
+  return action({
+    args: definition.args,
+    handler: async (ctx, args: ObjectType<Args>) => {
+      const admin = await requireAdmin(ctx);
+      return definition.handler({ ...ctx, admin }, args);
+    },
+  });
+}
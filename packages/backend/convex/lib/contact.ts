@@ -0,0 +1,91 @@
+import { v } from 'convex/values';
+
+export const CONTACT_LIMITS = {
+  name: 100,
+  email: 254,
+  message: 5000,
+  minMessage: 10,
+};
+
+// At most RATE_LIMIT_MAX_MESSAGES accepted messages per client per window.
+export const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+export const RATE_LIMIT_MAX_MESSAGES = 5;
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const contactMessageInputFields = {
+  name: v.string(),
+  email: v.string(),
+  message: v.string(),
+  // Honeypot: hidden from people, filled in by naive bots.
+  website: v.optional(v.string()),
+};
+
+export type ContactSubmissionResult =
+  | { status: 'accepted' }
+  | { status: 'invalid'; field: string; message: string }
+  | { status: 'rate_limited'; retryAfterMs: number };
+
+export type ContactMessageInput = {
+  name: string;
+  email: string;
+  message: string;
+};
+
+// Compares every byte regardless of where the first mismatch is, so response
+// times do not reveal how much of a guessed secret was right.
+function constantTimeEqual(left: string, right: string): boolean {
+  const encoder = new TextEncoder();
+  const a = encoder.encode(left);
+  const b = encoder.encode(right);
+  let difference = a.length ^ b.length;
+  for (let index = 0; index < Math.max(a.length, b.length); index += 1) {
+    difference |= (a[index] ?? 0) ^ (b[index] ?? 0);
+  }
+  return difference === 0;
+}
+
+// Only the Next route handler knows the client IP, so submissions must carry the
+// shared secret that proves they came through it.
+export function assertContactSubmitter(submitterSecret: string) {
+  const expected = process.env.CONTACT_FORM_SECRET;
+  if (!expected || !constantTimeEqual(submitterSecret, expected)) {
+    throw new Error('Forbidden: contact submissions must come through the site.');
+  }
+}
+
+export function validateContactMessage(
+  input: ContactMessageInput,
+): { ok: true; value: ContactMessageInput } | { ok: false; field: string; message: string } {
+  const value = {
+    name: input.name.trim(),
+    email: input.email.trim().toLowerCase(),
+    message: input.message.trim(),
+  };
+
+  if (!value.name) {
+    return { ok: false, field: 'name', message: 'Please enter your name.' };
+  }
+  if (value.name.length > CONTACT_LIMITS.name) {
+    return { ok: false, field: 'name', message: `Name must be at most ${CONTACT_LIMITS.name} characters.` };
+  }
+  if (value.email.length > CONTACT_LIMITS.email || !EMAIL_PATTERN.test(value.email)) {
+    return { ok: false, field: 'email', message: 'Please enter a valid email address.' };
+  }
+  if (value.message.length < CONTACT_LIMITS.minMessage) {
+    return {
+      ok: false,
+      field: 'message',
+      message: `Message must be at least ${CONTACT_LIMITS.minMessage} characters.`,
+    };
+  }
+  if (value.message.length > CONTACT_LIMITS.message) {
+    return {
+      ok: false,
+      field: 'message',
+      message: `Message must be at most ${CONTACT_LIMITS.message} characters.`,
+    };
+  }
+
+  return { ok: true, value };
+}
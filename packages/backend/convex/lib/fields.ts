@@ -0,0 +1,173 @@
+import { v, type Infer } from 'convex/values';
+
+export const socialPlatformValidator = v.union(
+  v.literal('github'),
+  v.literal('linkedin'),
+  v.literal('x'),
+  v.literal('instagram'),
+  v.literal('youtube'),
+  v.literal('email'),
+  v.literal('website'),
+);
+
+export const contactChannelsValidator = v.object({
+  email: v.optional(v.string()),
+  phone: v.optional(v.string()),
+  location: v.optional(v.string()),
+});
+
+// Array position is the display order.
+export const socialLinkValidator = v.object({
+  platform: socialPlatformValidator,
+  url: v.string(),
+  visible: v.boolean(),
+});
+
+export type ContactChannels = Infer<typeof contactChannelsValidator>;
+export type SocialLink = Infer<typeof socialLinkValidator>;
+
+export const siteSettingsFields = {
+  siteName: v.optional(v.string()),
+  tagline: v.optional(v.string()),
+  // Meta description for search results and link previews; falls back to the tagline.
+  description: v.optional(v.string()),
+  logoUrl: v.optional(v.string()),
+  profileImageUrl: v.optional(v.string()),
+  resumeUrl: v.optional(v.string()),
+  contact: v.optional(contactChannelsValidator),
+  socialLinks: v.optional(v.array(socialLinkValidator)),
+};
+
+export const experienceFields = {
+  company: v.string(),
+  role: v.string(),
+  duration: v.string(),
+  location: v.string(),
+  description: v.string(),
+  technologies: v.array(v.string()),
+  logo: v.optional(v.string()),
+  isCurrent: v.optional(v.boolean()),
+  order: v.number(),
+};
+
+// Array position is the display order. Videos are YouTube or Loom links, or
+// MP4 files (usually uploads).
+export const projectMediaItemValidator = v.object({
+  kind: v.union(v.literal('image'), v.literal('video')),
+  url: v.string(),
+  alt: v.optional(v.string()),
+  caption: v.optional(v.string()),
+});
+
+export type ProjectMediaItem = Infer<typeof projectMediaItemValidator>;
+
+export const projectFields = {
+  title: v.string(),
+  // Generated from the title when omitted; kept across title changes.
+  slug: v.optional(v.string()),
+  description: v.string(),
+  longDescription: v.optional(v.string()),
+  categories: v.array(v.string()),
+  techStack: v.array(v.string()),
+  status: v.optional(
+    v.union(v.literal('new'), v.literal('active'), v.literal('deprecated')),
+  ),
+  githubUrl: v.optional(v.string()),
+  liveUrl: v.optional(v.string()),
+  image: v.optional(v.string()),
+  media: v.optional(v.array(projectMediaItemValidator)),
+  features: v.optional(v.array(v.string())),
+  challenges: v.optional(v.array(v.string())),
+  outcomes: v.optional(v.array(v.string())),
+  timeline: v.optional(v.string()),
+  teamSize: v.optional(v.string()),
+  order: v.number(),
+};
+
+export const programmingLanguageFields = {
+  name: v.string(),
+  level: v.union(v.literal('expert'), v.literal('advanced'), v.literal('intermediate')),
+  description: v.string(),
+  logoUrl: v.optional(v.string()),
+  order: v.number(),
+};
+
+export const technologyFields = {
+  name: v.string(),
+  category: v.string(),
+  description: v.optional(v.string()),
+  iconName: v.optional(v.string()),
+  iconUrl: v.optional(v.string()),
+  order: v.number(),
+};
+
+export const cloudProviderFields = {
+  name: v.string(),
+  iconName: v.optional(v.string()),
+  iconUrl: v.optional(v.string()),
+  order: v.number(),
+};
+
+// Content fields are split from the reference so exports can swap the id for a
+// stable key.
+export const certificateContentFields = {
+  name: v.string(),
+  image: v.string(),
+  year: v.string(),
+  description: v.optional(v.string()),
+  issuer: v.optional(v.string()),
+  credentialId: v.optional(v.string()),
+  verificationUrl: v.optional(v.string()),
+  skills: v.optional(v.array(v.string())),
+  order: v.number(),
+};
+
+export const certificateFields = {
+  providerId: v.id('cloudProviders'),
+  ...certificateContentFields,
+};
+
+export const aboutCategoryFields = {
+  name: v.string(),
+  label: v.string(),
+  color: v.string(),
+  icon: v.string(),
+  order: v.number(),
+};
+
+export const aboutItemContentFields = {
+  title: v.string(),
+  subtitle: v.optional(v.string()),
+  description: v.optional(v.string()),
+  date: v.optional(v.string()),
+  details: v.optional(v.array(v.string())),
+  icon: v.string(),
+  image: v.optional(v.string()),
+  order: v.number(),
+};
+
+export const aboutItemFields = {
+  categoryId: v.id('aboutCategories'),
+  ...aboutItemContentFields,
+};
+
+export const imageVariantValidator = v.object({
+  format: v.union(v.literal('avif'), v.literal('webp')),
+  width: v.number(),
+  storageId: v.id('_storage'),
+  url: v.string(),
+});
+
+// Generated for raster uploads by `imageProcessing.generateImageVariants`.
+export const imageAssetFields = {
+  storageId: v.id('_storage'),
+  url: v.string(),
+  width: v.number(),
+  height: v.number(),
+  blurhash: v.string(),
+  // Tiny WebP data URL shown while the real image loads.
+  placeholder: v.string(),
+  variants: v.array(imageVariantValidator),
+};
+
+export type ImageVariant = Infer<typeof imageVariantValidator>;
@@ -0,0 +1,95 @@
+import { internal } from '../_generated/api';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { ImageVariant } from './fields';
+
+// SVGs scale on their own and GIFs may be animated, so only these get variants.
+export const RASTER_IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+export type PublicImageAsset = {
+  width: number;
+  height: number;
+  blurhash: string;
+  placeholder: string;
+  variants: Array<Omit<ImageVariant, 'storageId'>>;
+};
+
+async function getImageAsset(ctx: QueryCtx, storageId: Id<'_storage'>) {
+  return await ctx.db
+    .query('imageAssets')
+    .withIndex('by_storage_id', (q) => q.eq('storageId', storageId))
+    .unique();
+}
+
+/**
+ * Queues variant generation for a raster upload that has none yet. Returns
+ * whether a job was scheduled.
+ */
+export async function scheduleImageVariants(ctx: MutationCtx, storageId: Id<'_storage'>): Promise<boolean> {
+  const file = await ctx.db.system.get(storageId);
+  if (!file?.contentType || !RASTER_IMAGE_TYPES.has(file.contentType)) {
+    return false;
+  }
+
+  if (await getImageAsset(ctx, storageId)) {
+    return false;
+  }
+
+  await ctx.scheduler.runAfter(0, internal.imageProcessing.generateImageVariants, { storageId });
+  return true;
+}
+
+/** Removes the asset record of an original upload along with its variant files. */
+export async function deleteImageAsset(ctx: MutationCtx, storageId: Id<'_storage'>) {
+  const asset = await getImageAsset(ctx, storageId);
+  if (!asset) {
+    return;
+  }
+
+  for (const variant of asset.variants) {
+    if (await ctx.db.system.get(variant.storageId)) {
+      await ctx.storage.delete(variant.storageId);
+    }
+  }
+  await ctx.db.delete(asset._id);
+}
+
+/** Variants live as long as their original, so they count as referenced with it. */
+export async function collectVariantStorageIds(ctx: QueryCtx, referenced: Set<string>): Promise<Id<'_storage'>[]> {
+  const assets = await ctx.db.query('imageAssets').collect();
+  return assets
+    .filter((asset) => referenced.has(asset.storageId))
+    .flatMap((asset) => asset.variants.map((variant) => variant.storageId));
+}
+
+function toPublicImageAsset(asset: Doc<'imageAssets'>): PublicImageAsset {
+  return {
+    width: asset.width,
+    height: asset.height,
+    blurhash: asset.blurhash,
+    placeholder: asset.placeholder,
+    variants: asset.variants.map(({ format, width, url }) => ({ format, width, url })),
+  };
+}
+
+/** Looks up the generated variants for image URLs; URLs without any are left out. */
+export async function loadImageAssets(
+  ctx: QueryCtx,
+  urls: Array<string | undefined>,
+): Promise<Map<string, PublicImageAsset>> {
+  const unique = [...new Set(urls.filter((url): url is string => Boolean(url)))];
+  const assets = await Promise.all(
+    unique.map((url) =>
+      ctx.db
+        .query('imageAssets')
+        .withIndex('by_url', (q) => q.eq('url', url))
+        .first(),
+    ),
+  );
+
+  return new Map(
+    assets
+      .filter((asset): asset is Doc<'imageAssets'> => asset !== null)
+      .map((asset) => [asset.url, toPublicImageAsset(asset)]),
+  );
+}
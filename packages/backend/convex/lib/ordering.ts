@@ -0,0 +1,126 @@
+import { v } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import { auditedPatch } from './audit';
+import type { AdminMutationCtx } from './auth';
+import { collectLive, type TrashTable } from './trash';
+
+// Every trashable content table carries an `order` field.
+export type OrderedTable = TrashTable;
+
+export const reorderItemsValidator = v.array(
+  v.object({
+    id: v.string(),
+    order: v.number(),
+  }),
+);
+
+export type ReorderItem = { id: string; order: number };
+
+// A patch for any ordered table: the new order plus fields a caller sets with
+// it, such as the current experience.
+type OrderPatch = Pick<Doc<OrderedTable>, 'order'> & Partial<Doc<OrderedTable>>;
+
+/**
+ * Tables whose `order` is only meaningful within a group. A reorder payload for
+ * these tables covers one group, identified by the value of the scope field.
+ */
+export const ORDER_SCOPE_FIELDS = {
+  technologies: 'category',
+  certificates: 'providerId',
+  aboutItems: 'categoryId',
+} as const satisfies Partial<Record<OrderedTable, string>>;
+
+function getScopeField(table: OrderedTable): string | undefined {
+  return (ORDER_SCOPE_FIELDS as Partial<Record<OrderedTable, string>>)[table];
+}
+
+const TABLE_NOUNS: Record<OrderedTable, string> = {
+  experiences: 'experience',
+  projects: 'project',
+  programmingLanguages: 'programming language',
+  technologies: 'technology',
+  cloudProviders: 'cloud provider',
+  certificates: 'certificate',
+  aboutCategories: 'about category',
+  aboutItems: 'about item',
+};
+
+async function collectScope<TableName extends OrderedTable>(
+  ctx: AdminMutationCtx,
+  table: TableName,
+  scope: string | undefined,
+): Promise<Doc<TableName>[]> {
+  const scopeField = getScopeField(table);
+  if (scopeField === undefined) {
+    if (scope !== undefined) {
+      throw new Error(`${TABLE_NOUNS[table]} order is not scoped; omit the scope.`);
+    }
+    return await collectLive(ctx, table);
+  }
+
+  if (scope === undefined) {
+    throw new Error(`Reordering ${TABLE_NOUNS[table]} items requires a ${scopeField} scope.`);
+  }
+
+  const docs = await collectLive(ctx, table);
+  return docs.filter((doc) => (doc as Record<string, unknown>)[scopeField] === scope);
+}
+
+/**
+ * Validates a full reorder payload for one table (or one scope of a scoped
+ * table) and writes it. The payload must list every live document in the scope
+ * exactly once with contiguous orders starting at 1; nothing is written unless
+ * the whole payload is valid, so the mutation either applies or fails as a unit.
+ */
+export async function applyReorder<TableName extends OrderedTable>(
+  ctx: AdminMutationCtx,
+  table: TableName,
+  scope: string | undefined,
+  payload: ReorderItem[],
+  buildPatch: (id: Id<TableName>, order: number) => OrderPatch = (_id, order) => ({ order }),
+) {
+  const noun = TABLE_NOUNS[table];
+  const existing = await collectScope(ctx, table, scope);
+  const ids = new Set<string>();
+  const orders = new Set<number>();
+
+  for (const item of payload) {
+    if (ids.has(item.id)) {
+      throw new Error(`Duplicate ${noun} id in reorder payload: ${item.id}`);
+    }
+    ids.add(item.id);
+
+    if (!Number.isInteger(item.order) || item.order < 1) {
+      throw new Error(`Invalid ${noun} order in reorder payload: ${item.order}`);
+    }
+    if (orders.has(item.order)) {
+      throw new Error(`Duplicate ${noun} order in reorder payload: ${item.order}`);
+    }
+    orders.add(item.order);
+  }
+
+  if (existing.length !== payload.length) {
+    throw new Error(`Reorder payload must include every ${noun} exactly once.`);
+  }
+
+  const existingIds = new Set<string>(existing.map((doc) => doc._id));
+  for (const item of payload) {
+    if (!existingIds.has(item.id)) {
+      throw new Error(`Unknown ${noun} id in reorder payload: ${item.id}`);
+    }
+  }
+
+  const sortedOrders = [...orders].sort((a, b) => a - b);
+  for (let index = 0; index < sortedOrders.length; index += 1) {
+    if (sortedOrders[index] !== index + 1) {
+      throw new Error(`${noun[0].toUpperCase()}${noun.slice(1)} orders must be contiguous integers starting at 1.`);
+    }
+  }
+
+  for (const item of payload) {
+    const id = item.id as Id<TableName>;
+    await auditedPatch<OrderedTable>(ctx, table, id, buildPatch(id, item.order), 'reorder');
+  }
+
+  return payload.length;
+}
@@ -0,0 +1,464 @@
+import { v, type Infer } from 'convex/values';
+import type { WithoutSystemFields } from 'convex/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import { auditedInsert, auditedReplace } from './audit';
+import type { AdminMutationCtx } from './auth';
+import {
+  aboutCategoryFields,
+  aboutItemContentFields,
+  certificateContentFields,
+  cloudProviderFields,
+  experienceFields,
+  programmingLanguageFields,
+  projectFields,
+  siteSettingsFields,
+  technologyFields,
+} from './fields';
+import { snapshotRevision } from './revisions';
+import { normalizeContactChannels, normalizeSocialLinks } from './siteSettings';
+import { normalizeProjectMedia } from './projectMedia';
+import { resolveProjectSlug } from './slugs';
+import { stableSerialize } from './serialization';
+import { canonicalizeTechNames, normalizeTechName, type TechnologyIndex } from './technologyReferences';
+import { collectLive, isLive, moveToTrash, moveToTrashWithChildren, type TrashTable } from './trash';
+
+export const PORTFOLIO_EXPORT_FORMAT = 'portfolio-export';
+// Version 2 keys records by document id; version 1 keyed them by name.
+export const PORTFOLIO_EXPORT_VERSION = 2;
+
+export const portfolioExportValidator = v.object({
+  format: v.literal(PORTFOLIO_EXPORT_FORMAT),
+  version: v.literal(PORTFOLIO_EXPORT_VERSION),
+  exportedAt: v.number(),
+  siteSettings: v.union(v.object(siteSettingsFields), v.null()),
+  experiences: v.array(v.object({ key: v.string(), ...experienceFields })),
+  projects: v.array(v.object({ key: v.string(), ...projectFields })),
+  programmingLanguages: v.array(v.object({ key: v.string(), ...programmingLanguageFields })),
+  technologies: v.array(v.object({ key: v.string(), ...technologyFields })),
+  cloudProviders: v.array(v.object({ key: v.string(), ...cloudProviderFields })),
+  certificates: v.array(v.object({ key: v.string(), providerKey: v.string(), ...certificateContentFields })),
+  aboutCategories: v.array(v.object({ key: v.string(), ...aboutCategoryFields })),
+  aboutItems: v.array(v.object({ key: v.string(), categoryKey: v.string(), ...aboutItemContentFields })),
+});
+
+export const importModeValidator = v.union(v.literal('merge'), v.literal('replace'));
+
+export type PortfolioExport = Infer<typeof portfolioExportValidator>;
+export type ImportMode = Infer<typeof importModeValidator>;
+
+export type PortfolioSource = {
+  siteSettings: Doc<'siteSettings'> | null;
+  experiences: Doc<'experiences'>[];
+  projects: Doc<'projects'>[];
+  programmingLanguages: Doc<'programmingLanguages'>[];
+  technologies: Doc<'technologies'>[];
+  cloudProviders: Doc<'cloudProviders'>[];
+  certificates: Doc<'certificates'>[];
+  aboutCategories: Doc<'aboutCategories'>[];
+  aboutItems: Doc<'aboutItems'>[];
+};
+
+type ExportRecord = { key: string } & Record<string, unknown>;
+
+type KeyedTables = Record<TrashTable, Array<{ id: string; record: ExportRecord }>>;
+
+export type ImportTablePlan = {
+  table: TrashTable | 'siteSettings';
+  create: string[];
+  update: Array<{ key: string; fields: string[] }>;
+  remove: string[];
+  unchanged: number;
+};
+
+// Parents come first so children can resolve their reference keys.
+const IMPORT_ORDER: TrashTable[] = [
+  'experiences',
+  'projects',
+  'programmingLanguages',
+  'technologies',
+  'cloudProviders',
+  'certificates',
+  'aboutCategories',
+  'aboutItems',
+];
+
+// Storage ids only exist in the deployment that produced the export.
+const OMITTED_EXPORT_FIELDS = new Set(['_id', '_creationTime', 'deletedAt', 'key', 'updatedAt', 'storageIds']);
+
+function sortByOrder<T extends { order: number; _creationTime: number }>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.order - b.order || a._creationTime - b._creationTime);
+}
+
+function toRecord(doc: object, key: string, omit: string[] = []): ExportRecord {
+  const record: ExportRecord = { key };
+  for (const [field, value] of Object.entries(doc)) {
+    if (!OMITTED_EXPORT_FIELDS.has(field) && !omit.includes(field) && value !== undefined) {
+      record[field] = value;
+    }
+  }
+  return record;
+}
+
+// Records are keyed by document id, which survives renames, so re-importing an
+// edited export updates the records it came from. Keys from another deployment
+// match nothing here and are created as new records.
+function keyTable<T extends { _id: string; order: number; _creationTime: number }>(
+  docs: T[],
+  toExportRecord: (doc: T) => ExportRecord = (doc) => toRecord(doc, doc._id),
+) {
+  return sortByOrder(docs).map((doc) => ({ id: doc._id, record: toExportRecord(doc) }));
+}
+
+function keyPortfolio(source: PortfolioSource): KeyedTables {
+  return {
+    experiences: keyTable(source.experiences),
+    projects: keyTable(source.projects),
+    programmingLanguages: keyTable(source.programmingLanguages),
+    technologies: keyTable(source.technologies),
+    cloudProviders: keyTable(source.cloudProviders),
+    certificates: keyTable(source.certificates, (certificate) => ({
+      ...toRecord(certificate, certificate._id, ['providerId']),
+      providerKey: certificate.providerId,
+    })),
+    aboutCategories: keyTable(source.aboutCategories),
+    aboutItems: keyTable(source.aboutItems, (item) => ({
+      ...toRecord(item, item._id, ['categoryId']),
+      categoryKey: item.categoryId,
+    })),
+  };
+}
+
+function toSiteSettingsRecord(settings: Doc<'siteSettings'> | null): PortfolioExport['siteSettings'] {
+  if (!settings) {
+    return null;
+  }
+
+  const record: Record<string, unknown> = toRecord(settings, 'global');
+  delete record.key;
+  return record as PortfolioExport['siteSettings'];
+}
+
+export function buildPortfolioExport(source: PortfolioSource, exportedAt: number): PortfolioExport {
+  const keyed = keyPortfolio(source);
+  const records = (table: TrashTable) => keyed[table].map((entry) => entry.record);
+
+  return {
+    format: PORTFOLIO_EXPORT_FORMAT,
+    version: PORTFOLIO_EXPORT_VERSION,
+    exportedAt,
+    siteSettings: toSiteSettingsRecord(source.siteSettings),
+    experiences: records('experiences') as PortfolioExport['experiences'],
+    projects: records('projects') as PortfolioExport['projects'],
+    programmingLanguages: records('programmingLanguages') as PortfolioExport['programmingLanguages'],
+    technologies: records('technologies') as PortfolioExport['technologies'],
+    cloudProviders: records('cloudProviders') as PortfolioExport['cloudProviders'],
+    certificates: records('certificates') as PortfolioExport['certificates'],
+    aboutCategories: records('aboutCategories') as PortfolioExport['aboutCategories'],
+    aboutItems: records('aboutItems') as PortfolioExport['aboutItems'],
+  };
+}
+
+function changedFields(current: Record<string, unknown>, incoming: Record<string, unknown>): string[] {
+  const fields = new Set([...Object.keys(current), ...Object.keys(incoming)]);
+  return [...fields]
+    .filter((field) => field !== 'key')
+    .filter((field) => stableSerialize(current[field]) !== stableSerialize(incoming[field]))
+    .sort();
+}
+
+function assertImportIsConsistent(document: PortfolioExport, existing: KeyedTables, mode: ImportMode) {
+  for (const table of IMPORT_ORDER) {
+    const seen = new Set<string>();
+    for (const record of document[table]) {
+      if (seen.has(record.key)) {
+        throw new Error(`Import failed validation: duplicate key "${record.key}" in ${table}.`);
+      }
+      seen.add(record.key);
+    }
+  }
+
+  // Replace mode trashes everything missing from the file, so references must
+  // resolve within the file; merge mode may also point at existing parents.
+  const resolvableKeys = (table: 'cloudProviders' | 'aboutCategories') =>
+    new Set([
+      ...document[table].map((record) => record.key),
+      ...(mode === 'merge' ? existing[table].map((entry) => entry.record.key) : []),
+    ]);
+
+  const providerKeys = resolvableKeys('cloudProviders');
+  for (const certificate of document.certificates) {
+    if (!providerKeys.has(certificate.providerKey)) {
+      throw new Error(
+        `Import failed validation: certificate "${certificate.key}" references unknown providerKey "${certificate.providerKey}".`,
+      );
+    }
+  }
+
+  const categoryKeys = resolvableKeys('aboutCategories');
+  for (const item of document.aboutItems) {
+    if (!categoryKeys.has(item.categoryKey)) {
+      throw new Error(
+        `Import failed validation: about item "${item.key}" references unknown categoryKey "${item.categoryKey}".`,
+      );
+    }
+  }
+}
+
+function planSiteSettings(document: PortfolioExport, source: PortfolioSource): ImportTablePlan {
+  const plan: ImportTablePlan = { table: 'siteSettings', create: [], update: [], remove: [], unchanged: 0 };
+  if (!document.siteSettings) {
+    return plan;
+  }
+
+  const current = toSiteSettingsRecord(source.siteSettings);
+  if (!current) {
+    plan.create.push('global');
+    return plan;
+  }
+
+  const fields = changedFields(current, document.siteSettings);
+  if (fields.length > 0) {
+    plan.update.push({ key: 'global', fields });
+  } else {
+    plan.unchanged += 1;
+  }
+  return plan;
+}
+
+/**
+ * Stores technology references in the spelling of the technology they match,
+ * as the dashboard write paths do. Technologies in the file take precedence;
+ * merge mode also matches the live ones it keeps.
+ */
+function canonicalizeTechnologyReferences(
+  document: PortfolioExport,
+  source: PortfolioSource,
+  mode: ImportMode,
+): PortfolioExport {
+  const index: TechnologyIndex = new Map();
+  for (const technology of [...(mode === 'merge' ? source.technologies : []), ...document.technologies]) {
+    index.set(normalizeTechName(technology.name), technology.name);
+  }
+
+  return {
+    ...document,
+    experiences: document.experiences.map((experience) => ({
+      ...experience,
+      technologies: canonicalizeTechNames(experience.technologies, index).names,
+    })),
+    projects: document.projects.map((project) => ({
+      ...project,
+      techStack: canonicalizeTechNames(project.techStack, index).names,
+    })),
+  };
+}
+
+function planCanonicalImport(
+  document: PortfolioExport,
+  source: PortfolioSource,
+  mode: ImportMode,
+): ImportTablePlan[] {
+  const existing = keyPortfolio(source);
+  assertImportIsConsistent(document, existing, mode);
+
+  const tablePlans = IMPORT_ORDER.map((table): ImportTablePlan => {
+    const plan: ImportTablePlan = { table, create: [], update: [], remove: [], unchanged: 0 };
+    const current = new Map(existing[table].map((entry) => [entry.record.key, entry.record]));
+    const incomingKeys = new Set<string>();
+
+    for (const record of document[table] as ExportRecord[]) {
+      incomingKeys.add(record.key);
+      const match = current.get(record.key);
+      if (!match) {
+        plan.create.push(record.key);
+        continue;
+      }
+
+      const fields = changedFields(match, record);
+      if (fields.length > 0) {
+        plan.update.push({ key: record.key, fields });
+      } else {
+        plan.unchanged += 1;
+      }
+    }
+
+    if (mode === 'replace') {
+      plan.remove = [...current.keys()].filter((key) => !incomingKeys.has(key));
+    }
+
+    return plan;
+  });
+
+  return [planSiteSettings(document, source), ...tablePlans];
+}
+
+export function planPortfolioImport(
+  document: PortfolioExport,
+  source: PortfolioSource,
+  mode: ImportMode,
+): ImportTablePlan[] {
+  return planCanonicalImport(canonicalizeTechnologyReferences(document, source, mode), source, mode);
+}
+
+async function loadPortfolioSource(ctx: AdminMutationCtx): Promise<PortfolioSource> {
+  const [
+    siteSettings,
+    experiences,
+    projects,
+    programmingLanguages,
+    technologies,
+    cloudProviders,
+    certificates,
+    aboutCategories,
+    aboutItems,
+  ] = await Promise.all([
+    ctx.db
+      .query('siteSettings')
+      .withIndex('by_key', (q) => q.eq('key', 'global'))
+      .unique(),
+    collectLive(ctx, 'experiences'),
+    collectLive(ctx, 'projects'),
+    collectLive(ctx, 'programmingLanguages'),
+    collectLive(ctx, 'technologies'),
+    collectLive(ctx, 'cloudProviders'),
+    collectLive(ctx, 'certificates'),
+    collectLive(ctx, 'aboutCategories'),
+    collectLive(ctx, 'aboutItems'),
+  ]);
+
+  return {
+    siteSettings,
+    experiences,
+    projects,
+    programmingLanguages,
+    technologies,
+    cloudProviders,
+    certificates,
+    aboutCategories,
+    aboutItems,
+  };
+}
+
+function toDocumentValue(
+  table: TrashTable,
+  record: ExportRecord,
+  parentIds: { cloudProviders: Map<string, string>; aboutCategories: Map<string, string> },
+): Record<string, unknown> {
+  const value: Record<string, unknown> = { ...record };
+  delete value.key;
+
+  if (table === 'certificates') {
+    value.providerId = parentIds.cloudProviders.get(record.providerKey as string);
+    delete value.providerKey;
+  }
+
+  if (table === 'aboutItems') {
+    value.categoryId = parentIds.aboutCategories.get(record.categoryKey as string);
+    delete value.categoryKey;
+  }
+
+  return value;
+}
+
+async function applySiteSettings(ctx: AdminMutationCtx, document: PortfolioExport, source: PortfolioSource) {
+  if (!document.siteSettings) {
+    return;
+  }
+
+  const payload = {
+    key: 'global',
+    ...document.siteSettings,
+    contact: normalizeContactChannels(document.siteSettings.contact),
+    socialLinks: normalizeSocialLinks(document.siteSettings.socialLinks),
+    updatedAt: Date.now(),
+  };
+  if (source.siteSettings) {
+    await auditedReplace(ctx, 'siteSettings', source.siteSettings._id, payload);
+  } else {
+    await auditedInsert(ctx, 'siteSettings', payload);
+  }
+}
+
+export async function importPortfolio(
+  ctx: AdminMutationCtx,
+  input: PortfolioExport,
+  mode: ImportMode,
+  dryRun: boolean,
+) {
+  const source = await loadPortfolioSource(ctx);
+  const document = canonicalizeTechnologyReferences(input, source, mode);
+  const plan = planCanonicalImport(document, source, mode);
+  if (dryRun) {
+    return plan;
+  }
+
+  const existing = keyPortfolio(source);
+  const parentIds = {
+    cloudProviders: new Map(existing.cloudProviders.map((entry) => [entry.record.key, entry.id])),
+    aboutCategories: new Map(existing.aboutCategories.map((entry) => [entry.record.key, entry.id])),
+  };
+
+  await applySiteSettings(ctx, document, source);
+
+  for (const table of IMPORT_ORDER) {
+    const currentIds = new Map(existing[table].map((entry) => [entry.record.key, entry.id]));
+    const currentDocs = new Map(
+      (source[table] as Array<{ _id: string }>).map((doc) => [doc._id, doc]),
+    );
+
+    for (const record of document[table] as ExportRecord[]) {
+      const value = toDocumentValue(table, record, parentIds) as WithoutSystemFields<Doc<TrashTable>>;
+      const id = currentIds.get(record.key) as Id<TrashTable> | undefined;
+      if (table === 'projects') {
+        const project = value as WithoutSystemFields<Doc<'projects'>>;
+        const currentSlug = id ? (currentDocs.get(id) as Doc<'projects'> | undefined)?.slug : undefined;
+        project.slug = await resolveProjectSlug(
+          ctx,
+          project.slug || currentSlug,
+          project.title,
+          id as Id<'projects'> | undefined,
+        );
+        project.media = normalizeProjectMedia(project.media);
+      }
+
+      if (!id) {
+        const createdId = await auditedInsert(ctx, table, value);
+        if (table === 'cloudProviders' || table === 'aboutCategories') {
+          parentIds[table].set(record.key, createdId);
+        }
+        continue;
+      }
+
+      const currentDoc = currentDocs.get(id);
+      if (currentDoc && (table === 'projects' || table === 'experiences')) {
+        await snapshotRevision(ctx, table, currentDoc as Doc<typeof table>);
+      }
+      await auditedReplace(ctx, table, id, value);
+    }
+  }
+
+  if (mode === 'replace') {
+    const deletedAt = Date.now();
+    // Parents come first and take their children along, so restoring a parent
+    // from the Trash brings them back too. Children in the file keep their
+    // parent in the file, so every child of a removed parent is removed as well.
+    for (const table of IMPORT_ORDER) {
+      const tablePlan = plan.find((entry) => entry.table === table);
+      const currentIds = new Map(existing[table].map((entry) => [entry.record.key, entry.id]));
+      for (const key of tablePlan?.remove ?? []) {
+        const id = currentIds.get(key) as Id<TrashTable> | undefined;
+        const doc = id ? await ctx.db.get(id) : null;
+        if (!id || !doc || !isLive(doc)) {
+          continue;
+        }
+        if (table === 'cloudProviders' || table === 'aboutCategories') {
+          await moveToTrashWithChildren(ctx, table, id as Id<typeof table>, deletedAt);
+        } else {
+          await moveToTrash(ctx, table, id, deletedAt);
+        }
+      }
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,67 @@
+import type { ProjectMediaItem } from './fields';
+
+const YOUTUBE_HOSTS = new Set(['youtube.com', 'www.youtube.com', 'm.youtube.com', 'youtu.be']);
+const LOOM_HOSTS = new Set(['loom.com', 'www.loom.com']);
+const STORAGE_PATH_PATTERN = /\/api\/storage\/[^/?#]+$/;
+const CONVEX_HOST_PATTERN = /\.convex\.(cloud|site)$/i;
+
+function optionalText(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function parseHttpUrl(value: string, position: number): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Media item ${position} has an invalid URL: ${value}`);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Media item ${position} must use an http(s) URL: ${value}`);
+  }
+  return url;
+}
+
+// Gallery images are served through the public site's image optimizer, which
+// only allows Convex storage.
+function isStorageUpload(url: URL): boolean {
+  return url.protocol === 'https:' && CONVEX_HOST_PATTERN.test(url.hostname) && STORAGE_PATH_PATTERN.test(url.pathname);
+}
+
+/** Videos are YouTube or Loom links, or MP4 files (uploads or direct links). */
+function isSupportedVideoUrl(url: URL): boolean {
+  const host = url.hostname.toLowerCase();
+  if (YOUTUBE_HOSTS.has(host)) {
+    return host === 'youtu.be' || url.searchParams.has('v') || /^\/(embed|shorts)\/[^/]+/.test(url.pathname);
+  }
+  if (LOOM_HOSTS.has(host)) {
+    return /^\/(share|embed)\/[^/]+/.test(url.pathname);
+  }
+  return url.pathname.toLowerCase().endsWith('.mp4') || STORAGE_PATH_PATTERN.test(url.pathname);
+}
+
+export function normalizeProjectMedia(media: ProjectMediaItem[] | undefined): ProjectMediaItem[] | undefined {
+  if (!media || media.length === 0) {
+    return undefined;
+  }
+
+  return media.map((item, index) => {
+    const position = index + 1;
+    const url = parseHttpUrl(item.url.trim(), position);
+    const alt = optionalText(item.alt);
+
+    if (item.kind === 'image' && !isStorageUpload(url)) {
+      throw new Error(`Media item ${position} must be an uploaded image.`);
+    }
+    if (item.kind === 'image' && !alt) {
+      throw new Error(`Media item ${position} needs alt text.`);
+    }
+    if (item.kind === 'video' && !isSupportedVideoUrl(url)) {
+      throw new Error(`Media item ${position} must be a YouTube, Loom or MP4 URL: ${item.url}`);
+    }
+
+    return { kind: item.kind, url: url.toString(), alt, caption: optionalText(item.caption) };
+  });
+}
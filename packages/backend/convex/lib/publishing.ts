@@ -0,0 +1,178 @@
+import { v, type Infer } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { QueryCtx } from '../_generated/server';
+import type { AdminMutationCtx } from './auth';
+import { stableSerialize } from './serialization';
+import { isLive } from './trash';
+
+export const PUBLISHED_TABLES = [
+  'siteSettings',
+  'experiences',
+  'projects',
+  'programmingLanguages',
+  'technologies',
+  'cloudProviders',
+  'certificates',
+  'aboutCategories',
+  'aboutItems',
+] as const;
+
+export type PublishedTable = (typeof PUBLISHED_TABLES)[number];
+
+export const publishedTableValidator = v.union(
+  v.literal('siteSettings'),
+  v.literal('experiences'),
+  v.literal('projects'),
+  v.literal('programmingLanguages'),
+  v.literal('technologies'),
+  v.literal('cloudProviders'),
+  v.literal('certificates'),
+  v.literal('aboutCategories'),
+  v.literal('aboutItems'),
+);
+
+export const portfolioModeValidator = v.union(v.literal('published'), v.literal('draft'));
+
+export type PortfolioMode = Infer<typeof portfolioModeValidator>;
+
+export const portfolioModeArgs = {
+  mode: v.optional(portfolioModeValidator),
+  previewSecret: v.optional(v.string()),
+};
+
+export type PortfolioModeArgs = {
+  mode?: PortfolioMode;
+  previewSecret?: string;
+};
+
+// Drafts are the working tables the dashboard edits, so reading them is only
+// allowed for callers that hold the preview secret (the Next server in draft mode).
+function assertDraftAccess(previewSecret: string | undefined) {
+  const expected = process.env.PORTFOLIO_PREVIEW_SECRET;
+  if (!expected || previewSecret !== expected) {
+    throw new Error('Forbidden: draft content requires a valid preview secret.');
+  }
+}
+
+export async function getLatestPublication(ctx: QueryCtx) {
+  return await ctx.db.query('publications').withIndex('by_published_at').order('desc').first();
+}
+
+// Convex reserves `_`-prefixed field names, so published copies store system
+// fields in their own columns and are reassembled on read.
+function toPublishedValue(doc: { _id: string; _creationTime: number }) {
+  const value: Record<string, unknown> = { ...doc };
+  delete value._id;
+  delete value._creationTime;
+  return value;
+}
+
+function toPublishedDoc<TableName extends PublishedTable>(entry: Doc<'publishedDocuments'>): Doc<TableName> {
+  return {
+    ...(entry.value as Record<string, unknown>),
+    _id: entry.documentId as Id<TableName>,
+    _creationTime: entry.creationTime,
+  } as Doc<TableName>;
+}
+
+async function readPortfolioDocs<TableName extends PublishedTable>(
+  ctx: QueryCtx,
+  table: TableName,
+  args: PortfolioModeArgs,
+): Promise<Doc<TableName>[]> {
+  if (args.mode === 'draft') {
+    assertDraftAccess(args.previewSecret);
+    return await ctx.db.query(table).collect();
+  }
+
+  if (!(await getLatestPublication(ctx))) {
+    return await ctx.db.query(table).collect();
+  }
+
+  const published = await ctx.db
+    .query('publishedDocuments')
+    .withIndex('by_table', (q) => q.eq('table', table))
+    .collect();
+
+  return published.map((entry) => toPublishedDoc<TableName>(entry));
+}
+
+/**
+ * Reads a content table as the public site should see it, without trashed
+ * items. Published reads come from the copies made by the last publish; until
+ * the first publish the working tables are served so existing deployments keep
+ * rendering.
+ */
+export async function readPortfolioTable<TableName extends PublishedTable>(
+  ctx: QueryCtx,
+  table: TableName,
+  args: PortfolioModeArgs,
+): Promise<Doc<TableName>[]> {
+  const docs = await readPortfolioDocs(ctx, table, args);
+  return docs.filter(isLive);
+}
+
+function serializeTable(docs: Array<{ _id: string; _creationTime: number }>): string {
+  return stableSerialize([...docs].sort((a, b) => a._id.localeCompare(b._id)));
+}
+
+export async function getUnpublishedTables(ctx: QueryCtx): Promise<PublishedTable[]> {
+  const hasPublication = Boolean(await getLatestPublication(ctx));
+  const unpublished: PublishedTable[] = [];
+
+  for (const table of PUBLISHED_TABLES) {
+    const drafts = await ctx.db.query(table).collect();
+    if (!hasPublication) {
+      if (drafts.length > 0) {
+        unpublished.push(table);
+      }
+      continue;
+    }
+
+    const published = await ctx.db
+      .query('publishedDocuments')
+      .withIndex('by_table', (q) => q.eq('table', table))
+      .collect();
+
+    if (serializeTable(drafts) !== serializeTable(published.map((entry) => toPublishedDoc(entry)))) {
+      unpublished.push(table);
+    }
+  }
+
+  return unpublished;
+}
+
+export async function publishAllTables(ctx: AdminMutationCtx) {
+  for (const table of await getUnpublishedTables(ctx)) {
+    ctx.siteChanges.published.add(table);
+  }
+
+  for (const table of PUBLISHED_TABLES) {
+    const [drafts, previous] = await Promise.all([
+      ctx.db.query(table).collect(),
+      ctx.db
+        .query('publishedDocuments')
+        .withIndex('by_table', (q) => q.eq('table', table))
+        .collect(),
+    ]);
+
+    for (const entry of previous) {
+      await ctx.db.delete(entry._id);
+    }
+
+    for (const doc of drafts) {
+      await ctx.db.insert('publishedDocuments', {
+        table,
+        documentId: doc._id,
+        creationTime: doc._creationTime,
+        value: toPublishedValue(doc),
+      });
+    }
+  }
+
+  return await ctx.db.insert('publications', {
+    actorSubject: ctx.admin.subject,
+    actorEmail: ctx.admin.email ?? undefined,
+    publishedAt: Date.now(),
+  });
+}
@@ -0,0 +1,36 @@
+import { internal } from '../_generated/api';
+import type { MutationCtx } from '../_generated/server';
+import { getLatestPublication, type PublishedTable } from './publishing';
+
+/**
+ * Tables an admin mutation changed, split by layer: `draft` for the working
+ * tables and `published` for tables a publish replaced.
+ */
+export type SiteChanges = {
+  draft: Set<PublishedTable>;
+  published: Set<PublishedTable>;
+};
+
+export function createSiteChanges(): SiteChanges {
+  return { draft: new Set(), published: new Set() };
+}
+
+/**
+ * Asks the web app to refresh the cached data for the changed tables once the
+ * mutation commits. Draft edits only reach the public site until the first
+ * publish; after that only publishing does.
+ */
+export async function scheduleSiteRevalidation(ctx: MutationCtx, changes: SiteChanges) {
+  const tables = new Set(changes.published);
+  if (changes.draft.size > 0 && !(await getLatestPublication(ctx))) {
+    for (const table of changes.draft) {
+      tables.add(table);
+    }
+  }
+
+  if (tables.size === 0) {
+    return;
+  }
+
+  await ctx.scheduler.runAfter(0, internal.revalidation.revalidateSite, { tables: [...tables].sort() });
+}
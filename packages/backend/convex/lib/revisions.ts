@@ -0,0 +1,96 @@
+import { v, type Infer } from 'convex/values';
+import type { WithoutSystemFields } from 'convex/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import { auditedPatch } from './audit';
+import type { AdminMutationCtx } from './auth';
+import { stableSerialize } from './serialization';
+
+export const revisionTableValidator = v.union(v.literal('projects'), v.literal('experiences'));
+
+export type RevisionTable = Infer<typeof revisionTableValidator>;
+
+// Layout fields are owned by the reorder toolbars, `deletedAt` by the trash and
+// `slug` by links already shared, so restoring content must not move a card,
+// change the current role, resurrect a trashed item, or break a project URL.
+const PRESERVED_FIELDS = ['order', 'isCurrent', 'deletedAt', 'slug'] as const;
+
+// The history panel shows this many; older snapshots are pruned as new ones land.
+export const MAX_REVISIONS_PER_DOCUMENT = 50;
+
+export function stripSystemFields<TableName extends RevisionTable>(
+  doc: Doc<TableName>,
+): WithoutSystemFields<Doc<TableName>> {
+  const fields: Record<string, unknown> = { ...doc };
+  delete fields._id;
+  delete fields._creationTime;
+  return fields as WithoutSystemFields<Doc<TableName>>;
+}
+
+export async function snapshotRevision<TableName extends RevisionTable>(
+  ctx: AdminMutationCtx,
+  table: TableName,
+  doc: Doc<TableName>,
+) {
+  const revisionId = await ctx.db.insert('revisions', {
+    table,
+    documentId: doc._id,
+    snapshot: stripSystemFields(doc),
+    actorSubject: ctx.admin.subject,
+    actorEmail: ctx.admin.email ?? undefined,
+    createdAt: Date.now(),
+  });
+
+  const revisions = await ctx.db
+    .query('revisions')
+    .withIndex('by_document', (q) => q.eq('table', table).eq('documentId', doc._id))
+    .order('desc')
+    .collect();
+  for (const stale of revisions.slice(MAX_REVISIONS_PER_DOCUMENT)) {
+    await ctx.db.delete(stale._id);
+  }
+
+  return revisionId;
+}
+
+export async function revisionedPatch<TableName extends RevisionTable>(
+  ctx: AdminMutationCtx,
+  table: TableName,
+  id: Id<TableName>,
+  value: Partial<Doc<TableName>>,
+) {
+  const current = await ctx.db.get(id);
+  if (!current) {
+    throw new Error(`Document not found in ${table}: ${id}`);
+  }
+
+  // Saving an unchanged form would otherwise push a duplicate snapshot and
+  // prune a real one once the document is at the cap.
+  const currentFields = current as Record<string, unknown>;
+  const changed = Object.entries(value).some(
+    ([field, next]) => stableSerialize(currentFields[field]) !== stableSerialize(next),
+  );
+  if (!changed) {
+    return;
+  }
+
+  await snapshotRevision(ctx, table, current);
+  await auditedPatch(ctx, table, id, value);
+}
+
+export function mergeRevisionSnapshot<TableName extends RevisionTable>(
+  snapshot: WithoutSystemFields<Doc<TableName>>,
+  current: Doc<TableName>,
+): WithoutSystemFields<Doc<TableName>> {
+  const restored: Record<string, unknown> = { ...snapshot };
+  const currentFields = current as Record<string, unknown>;
+
+  for (const field of PRESERVED_FIELDS) {
+    if (currentFields[field] === undefined) {
+      delete restored[field];
+    } else {
+      restored[field] = currentFields[field];
+    }
+  }
+
+  return restored as WithoutSystemFields<Doc<TableName>>;
+}
@@ -0,0 +1,64 @@
+import { EMAIL_PATTERN } from './contact';
+import type { ContactChannels, SocialLink } from './fields';
+
+function optionalText(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+export function normalizeContactChannels(contact: ContactChannels | undefined): ContactChannels | undefined {
+  if (!contact) {
+    return undefined;
+  }
+
+  const normalized = {
+    email: optionalText(contact.email)?.toLowerCase(),
+    phone: optionalText(contact.phone),
+    location: optionalText(contact.location),
+  };
+
+  if (normalized.email && !EMAIL_PATTERN.test(normalized.email)) {
+    throw new Error(`Invalid contact email: ${normalized.email}`);
+  }
+
+  return Object.values(normalized).some((value) => value !== undefined) ? normalized : undefined;
+}
+
+function normalizeSocialUrl(link: SocialLink, position: number): string {
+  const url = link.url.trim();
+  if (!url) {
+    throw new Error(`Social link ${position} needs a URL.`);
+  }
+
+  // Email links accept a bare address and are stored as mailto: URLs.
+  if (link.platform === 'email') {
+    const address = url.replace(/^mailto:/i, '');
+    if (!EMAIL_PATTERN.test(address)) {
+      throw new Error(`Social link ${position} is not a valid email address: ${url}`);
+    }
+    return `mailto:${address}`;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Social link ${position} is not a valid URL: ${url}`);
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error(`Social link ${position} must use http or https: ${url}`);
+  }
+  return parsed.toString();
+}
+
+export function normalizeSocialLinks(links: SocialLink[] | undefined): SocialLink[] | undefined {
+  if (!links || links.length === 0) {
+    return undefined;
+  }
+
+  return links.map((link, index) => ({
+    platform: link.platform,
+    url: normalizeSocialUrl(link, index + 1),
+    visible: link.visible,
+  }));
+}
@@ -0,0 +1,62 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { QueryCtx } from '../_generated/server';
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_SLUG_LENGTH = 80;
+
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+}
+
+/** `base` for the first attempt, then `base-2`, `base-3`, ... until one is unused. */
+export function suffixedSlug(base: string, attempt: number): string {
+  return attempt === 1 ? base : `${base}-${attempt}`;
+}
+
+// Trashed projects keep their slug so restoring one never collides.
+async function findSlugOwner(ctx: QueryCtx, slug: string): Promise<Doc<'projects'> | null> {
+  return await ctx.db
+    .query('projects')
+    .withIndex('by_slug', (q) => q.eq('slug', slug))
+    .first();
+}
+
+/**
+ * Returns the slug to store for a project. An explicit slug must be well formed
+ * and unused; otherwise one is generated from the title, with a numeric suffix
+ * when another project already has it.
+ */
+export async function resolveProjectSlug(
+  ctx: QueryCtx,
+  requested: string | undefined,
+  title: string,
+  projectId?: Id<'projects'>,
+): Promise<string> {
+  const explicit = requested?.trim();
+  if (explicit) {
+    if (!SLUG_PATTERN.test(explicit) || explicit.length > MAX_SLUG_LENGTH) {
+      throw new Error(`Invalid project slug "${explicit}". Use lowercase letters, numbers and single hyphens.`);
+    }
+
+    const owner = await findSlugOwner(ctx, explicit);
+    if (owner && owner._id !== projectId) {
+      throw new Error(`Project slug "${explicit}" is already used by "${owner.title}".`);
+    }
+    return explicit;
+  }
+
+  const base = slugify(title) || 'project';
+  for (let attempt = 1; ; attempt += 1) {
+    const candidate = suffixedSlug(base, attempt);
+    const owner = await findSlugOwner(ctx, candidate);
+    if (!owner || owner._id === projectId) {
+      return candidate;
+    }
+  }
+}
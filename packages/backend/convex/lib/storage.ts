@@ -0,0 +1,229 @@
+import type { Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { AuditedTable } from './audit';
+import { collectVariantStorageIds } from './imageAssets';
+
+/** Fields that hold URLs returned by `resolveStorageUrl` after an upload. */
+export const MEDIA_FIELDS: Record<AuditedTable, readonly string[]> = {
+  siteSettings: ['logoUrl', 'profileImageUrl', 'resumeUrl'],
+  experiences: ['logo'],
+  projects: ['image'],
+  programmingLanguages: ['logoUrl'],
+  technologies: ['iconUrl'],
+  cloudProviders: ['iconUrl'],
+  certificates: ['image'],
+  aboutCategories: [],
+  aboutItems: ['image'],
+};
+
+/** Markdown fields that may embed uploaded images inline. */
+export const MARKDOWN_FIELDS: Partial<Record<AuditedTable, readonly string[]>> = {
+  experiences: ['description'],
+  projects: ['longDescription'],
+  aboutItems: ['description'],
+};
+
+/** Array fields whose items carry an uploaded `url`, such as project galleries. */
+export const MEDIA_LIST_FIELDS: Partial<Record<AuditedTable, readonly string[]>> = {
+  projects: ['media'],
+};
+
+// Uploads are stored before the form that uses them is saved, so recent files
+// are never treated as orphans.
+export const STORAGE_GC_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Only used to recognise storage URLs. The id in the path is not a storage
+// document id, so ids come from the `uploads` table instead.
+const STORAGE_URL_PATTERN = /\/api\/storage\/[^/?#]+/;
+const STORAGE_URL_IN_TEXT_PATTERN = /https?:\/\/[^\s()"'<>]+\/api\/storage\/[^\s()"'<>]+/g;
+
+function isStorageUrl(value: unknown): value is string {
+  return typeof value === 'string' && STORAGE_URL_PATTERN.test(value);
+}
+
+/** Every storage URL the document's media fields, galleries and Markdown point at. */
+export function getMediaStorageUrls(table: AuditedTable, doc: object): string[] {
+  const fields = doc as Record<string, unknown>;
+  const urls = new Set<string>();
+  for (const field of MEDIA_FIELDS[table]) {
+    if (isStorageUrl(fields[field])) {
+      urls.add(fields[field]);
+    }
+  }
+
+  for (const field of MEDIA_LIST_FIELDS[table] ?? []) {
+    const items = fields[field];
+    if (!Array.isArray(items)) {
+      continue;
+    }
+    for (const item of items) {
+      const url = (item as { url?: unknown } | null)?.url;
+      if (isStorageUrl(url)) {
+        urls.add(url);
+      }
+    }
+  }
+
+  for (const field of MARKDOWN_FIELDS[table] ?? []) {
+    const text = fields[field];
+    if (typeof text !== 'string') {
+      continue;
+    }
+    for (const match of text.matchAll(STORAGE_URL_IN_TEXT_PATTERN)) {
+      urls.add(match[0]);
+    }
+  }
+  return [...urls];
+}
+
+/** Remembers which file an upload URL serves. `resolveStorageUrl` calls this for every upload. */
+export async function recordUpload(ctx: MutationCtx, storageId: Id<'_storage'>, url: string) {
+  const existing = await ctx.db
+    .query('uploads')
+    .withIndex('by_storage_id', (q) => q.eq('storageId', storageId))
+    .unique();
+  if (!existing) {
+    await ctx.db.insert('uploads', { storageId, url });
+  } else if (existing.url !== url) {
+    await ctx.db.patch(existing._id, { url });
+  }
+}
+
+export async function deleteUploadRecord(ctx: MutationCtx, storageId: Id<'_storage'>) {
+  const existing = await ctx.db
+    .query('uploads')
+    .withIndex('by_storage_id', (q) => q.eq('storageId', storageId))
+    .unique();
+  if (existing) {
+    await ctx.db.delete(existing._id);
+  }
+}
+
+type ResolvedMedia = {
+  storageIds: Id<'_storage'>[];
+  /** Storage URLs with no upload record, so the file behind them is unknown. */
+  unresolvedUrls: string[];
+};
+
+export async function resolveMediaStorageIds(ctx: QueryCtx, table: AuditedTable, doc: object): Promise<ResolvedMedia> {
+  const storageIds = new Set<Id<'_storage'>>();
+  const unresolvedUrls: string[] = [];
+  for (const url of getMediaStorageUrls(table, doc)) {
+    const upload = await ctx.db
+      .query('uploads')
+      .withIndex('by_url', (q) => q.eq('url', url))
+      .first();
+    if (upload) {
+      storageIds.add(upload.storageId);
+    } else {
+      unresolvedUrls.push(url);
+    }
+  }
+  return { storageIds: [...storageIds], unresolvedUrls };
+}
+
+/**
+ * Returns the document with `storageIds` set from its media fields. The audited
+ * write helpers call this so every content write keeps the references current.
+ */
+export async function withStorageIds<T extends object>(ctx: QueryCtx, table: AuditedTable, doc: T): Promise<T> {
+  const { storageIds } = await resolveMediaStorageIds(ctx, table, doc);
+  return { ...doc, storageIds: storageIds.length > 0 ? storageIds : undefined };
+}
+
+/**
+ * Everything that may still be served or brought back: working documents
+ * (trashed ones included), the published copies, and revision snapshots.
+ * URLs are resolved afresh rather than trusting `storageIds`, so a storage URL
+ * anywhere that cannot be resolved is reported instead of silently dropped.
+ */
+export async function collectReferencedStorageIds(ctx: QueryCtx) {
+  const referenced = new Set<Id<'_storage'>>();
+  const unresolvedUrls = new Set<string>();
+  const add = async (table: AuditedTable, doc: object) => {
+    const resolved = await resolveMediaStorageIds(ctx, table, doc);
+    resolved.storageIds.forEach((id) => referenced.add(id));
+    resolved.unresolvedUrls.forEach((url) => unresolvedUrls.add(url));
+    (doc as { storageIds?: Id<'_storage'>[] }).storageIds?.forEach((id) => referenced.add(id));
+  };
+
+  for (const table of Object.keys(MEDIA_FIELDS) as AuditedTable[]) {
+    for (const doc of await ctx.db.query(table).collect()) {
+      await add(table, doc);
+    }
+  }
+
+  for (const entry of await ctx.db.query('publishedDocuments').collect()) {
+    await add(entry.table, entry.value as object);
+  }
+
+  for (const revision of await ctx.db.query('revisions').collect()) {
+    await add(revision.table, revision.snapshot as object);
+  }
+
+  (await collectVariantStorageIds(ctx, referenced)).forEach((id) => referenced.add(id));
+  return { referenced, unresolvedUrls: [...unresolvedUrls] };
+}
+
+export type StorageUsage = {
+  totalFiles: number;
+  totalBytes: number;
+  referencedFiles: number;
+  referencedBytes: number;
+  orphanedFiles: number;
+  orphanedBytes: number;
+  pendingFiles: number;
+  pendingBytes: number;
+};
+
+/**
+ * Sorts every stored file into referenced, pending and orphaned. When some
+ * storage URLs cannot be resolved (such as URLs from another deployment that
+ * came in with an import, or uploads that predate the `uploads` table), files
+ * without an upload record might be what they point at, so those count as
+ * referenced and are reported in `unverifiedFiles` instead of being orphaned.
+ */
+export async function classifyStorage(ctx: QueryCtx, now: number) {
+  const [files, uploads, { referenced, unresolvedUrls }] = await Promise.all([
+    ctx.db.system.query('_storage').collect(),
+    ctx.db.query('uploads').collect(),
+    collectReferencedStorageIds(ctx),
+  ]);
+  const recorded = new Set<string>(uploads.map((upload) => upload.storageId));
+  let unverifiedFiles = 0;
+
+  const orphaned: Id<'_storage'>[] = [];
+  const usage: StorageUsage = {
+    totalFiles: 0,
+    totalBytes: 0,
+    referencedFiles: 0,
+    referencedBytes: 0,
+    orphanedFiles: 0,
+    orphanedBytes: 0,
+    pendingFiles: 0,
+    pendingBytes: 0,
+  };
+
+  for (const file of files) {
+    usage.totalFiles += 1;
+    usage.totalBytes += file.size;
+
+    const isUnverified = unresolvedUrls.length > 0 && !recorded.has(file._id);
+    if (referenced.has(file._id) || isUnverified) {
+      usage.referencedFiles += 1;
+      usage.referencedBytes += file.size;
+      if (!referenced.has(file._id)) {
+        unverifiedFiles += 1;
+      }
+    } else if (now - file._creationTime < STORAGE_GC_GRACE_MS) {
+      usage.pendingFiles += 1;
+      usage.pendingBytes += file.size;
+    } else {
+      usage.orphanedFiles += 1;
+      usage.orphanedBytes += file.size;
+      orphaned.push(file._id);
+    }
+  }
+
+  return { usage, orphaned, unresolvedUrls, unverifiedFiles };
+}
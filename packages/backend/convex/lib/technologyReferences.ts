@@ -0,0 +1,144 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { QueryCtx } from '../_generated/server';
+import type { AdminMutationCtx } from './auth';
+import { revisionedPatch } from './revisions';
+import { collectLive } from './trash';
+
+/**
+ * Projects and experiences reference technologies by name. Names are matched
+ * case- and whitespace-insensitively and stored in the technology's own
+ * spelling, which is what the public icon lookups key on.
+ */
+export const TECH_REFERENCE_FIELDS = {
+  projects: 'techStack',
+  experiences: 'technologies',
+} as const;
+
+export type TechReferenceTable = keyof typeof TECH_REFERENCE_FIELDS;
+
+export type TechnologyIndex = Map<string, string>;
+
+export type OrphanedTechnology = {
+  name: string;
+  references: Array<{ table: TechReferenceTable; id: string; label: string }>;
+};
+
+export function normalizeTechName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export async function loadTechnologyIndex(ctx: QueryCtx): Promise<TechnologyIndex> {
+  const technologies = await collectLive(ctx, 'technologies');
+  return new Map(technologies.map((technology) => [normalizeTechName(technology.name), technology.name]));
+}
+
+/** Maps names to their canonical spelling, dropping duplicates; unknown names are kept as given. */
+export function canonicalizeTechNames(names: string[], index: TechnologyIndex) {
+  const canonical: string[] = [];
+  const orphaned: string[] = [];
+  const seen = new Set<string>();
+
+  for (const name of names) {
+    const key = normalizeTechName(name);
+    if (key === '' || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const match = index.get(key);
+    if (match === undefined) {
+      orphaned.push(name.trim());
+      canonical.push(name.trim());
+    } else {
+      canonical.push(match);
+    }
+  }
+
+  return { names: canonical, orphaned };
+}
+
+/**
+ * Used by the project and experience write paths. Names that match a live
+ * technology are stored in its spelling; the rest are kept and surface in the
+ * dashboard's orphaned technology warning.
+ */
+export async function canonicalizeTechReferences(ctx: QueryCtx, names: string[]): Promise<string[]> {
+  return canonicalizeTechNames(names, await loadTechnologyIndex(ctx)).names;
+}
+
+function getReferencedNames(table: TechReferenceTable, doc: Doc<TechReferenceTable>): string[] {
+  return table === 'projects'
+    ? (doc as Doc<'projects'>).techStack
+    : (doc as Doc<'experiences'>).technologies;
+}
+
+/**
+ * Rewrites references after technologies are renamed. Trashed projects and
+ * experiences are updated too so restoring them does not bring back stale
+ * names. A rename is skipped while another live technology still carries the
+ * old name, since those references are still valid.
+ */
+export async function propagateTechnologyRenames(
+  ctx: AdminMutationCtx,
+  renames: Array<{ from: string; to: string }>,
+) {
+  const index = await loadTechnologyIndex(ctx);
+  const replacements = new Map<string, string>();
+  for (const { from, to } of renames) {
+    const key = normalizeTechName(from);
+    if (key !== normalizeTechName(to) && !index.has(key)) {
+      replacements.set(key, to);
+    }
+  }
+
+  if (replacements.size === 0) {
+    return 0;
+  }
+
+  let updatedCount = 0;
+  for (const table of Object.keys(TECH_REFERENCE_FIELDS) as TechReferenceTable[]) {
+    const docs = await ctx.db.query(table).collect();
+    for (const doc of docs) {
+      const names = getReferencedNames(table, doc);
+      if (!names.some((name) => replacements.has(normalizeTechName(name)))) {
+        continue;
+      }
+
+      const renamed = names.map((name) => replacements.get(normalizeTechName(name)) ?? name);
+      const { names: canonical } = canonicalizeTechNames(renamed, index);
+      await revisionedPatch(
+        ctx,
+        table,
+        doc._id as Id<typeof table>,
+        { [TECH_REFERENCE_FIELDS[table]]: canonical } as Partial<Doc<typeof table>>,
+      );
+      updatedCount += 1;
+    }
+  }
+
+  return updatedCount;
+}
+
+export async function findOrphanedTechnologies(ctx: QueryCtx): Promise<OrphanedTechnology[]> {
+  const index = await loadTechnologyIndex(ctx);
+  const orphans = new Map<string, OrphanedTechnology>();
+
+  for (const table of Object.keys(TECH_REFERENCE_FIELDS) as TechReferenceTable[]) {
+    const docs = await collectLive(ctx, table);
+    for (const doc of docs) {
+      const label =
+        table === 'projects'
+          ? (doc as Doc<'projects'>).title
+          : `${(doc as Doc<'experiences'>).company} · ${(doc as Doc<'experiences'>).role}`;
+
+      for (const name of canonicalizeTechNames(getReferencedNames(table, doc), index).orphaned) {
+        const key = normalizeTechName(name);
+        const entry = orphans.get(key) ?? { name, references: [] };
+        entry.references.push({ table, id: doc._id, label });
+        orphans.set(key, entry);
+      }
+    }
+  }
+
+  return [...orphans.values()].sort((left, right) => left.name.localeCompare(right.name));
+}
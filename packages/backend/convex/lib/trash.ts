@@ -0,0 +1,182 @@
+import { v, type Infer } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { QueryCtx } from '../_generated/server';
+import { auditedDelete, auditedPatch } from './audit';
+import type { AdminMutationCtx } from './auth';
+
+export const TRASHABLE_TABLES = [
+  'experiences',
+  'projects',
+  'programmingLanguages',
+  'technologies',
+  'cloudProviders',
+  'certificates',
+  'aboutCategories',
+  'aboutItems',
+] as const;
+
+export const trashTableValidator = v.union(
+  v.literal('experiences'),
+  v.literal('projects'),
+  v.literal('programmingLanguages'),
+  v.literal('technologies'),
+  v.literal('cloudProviders'),
+  v.literal('certificates'),
+  v.literal('aboutCategories'),
+  v.literal('aboutItems'),
+);
+
+export type TrashTable = Infer<typeof trashTableValidator>;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Takes `object` because generic `Doc<TableName>` does not expose `deletedAt`
+// even though every trashable table declares it.
+export function getDeletedAt(doc: object): number | undefined {
+  return (doc as { deletedAt?: number }).deletedAt;
+}
+
+export function isLive(doc: object): boolean {
+  return getDeletedAt(doc) === undefined;
+}
+
+export async function collectLive<TableName extends TrashTable>(
+  ctx: QueryCtx,
+  table: TableName,
+): Promise<Doc<TableName>[]> {
+  const docs = await ctx.db.query(table).collect();
+  return docs.filter(isLive);
+}
+
+export async function collectTrashed<TableName extends TrashTable>(
+  ctx: QueryCtx,
+  table: TableName,
+): Promise<Doc<TableName>[]> {
+  const docs = await ctx.db.query(table).collect();
+  return docs.filter((doc) => !isLive(doc));
+}
+
+export function getTrashRetentionMs(): number {
+  const configured = Number(process.env.TRASH_RETENTION_DAYS);
+  const days = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TRASH_RETENTION_DAYS;
+  return days * DAY_MS;
+}
+
+export async function moveToTrash<TableName extends TrashTable>(
+  ctx: AdminMutationCtx,
+  table: TableName,
+  id: Id<TableName>,
+  deletedAt: number,
+) {
+  await auditedPatch<TrashTable>(ctx, table, id, { deletedAt }, 'delete');
+}
+
+export async function restoreFromTrash<TableName extends TrashTable>(
+  ctx: AdminMutationCtx,
+  table: TableName,
+  id: Id<TableName>,
+) {
+  await auditedPatch<TrashTable>(ctx, table, id, { deletedAt: undefined }, 'restore');
+}
+
+export type TrashParentTable = 'cloudProviders' | 'aboutCategories';
+
+type CascadeChild =
+  | { table: 'certificates'; doc: Doc<'certificates'> }
+  | { table: 'aboutItems'; doc: Doc<'aboutItems'> };
+
+async function getChildren(ctx: QueryCtx, table: TrashTable, parentId: string): Promise<CascadeChild[]> {
+  const providerId = table === 'cloudProviders' ? ctx.db.normalizeId('cloudProviders', parentId) : null;
+  if (providerId) {
+    const certificates = await ctx.db
+      .query('certificates')
+      .withIndex('by_provider', (q) => q.eq('providerId', providerId))
+      .collect();
+    return certificates.map((doc) => ({ table: 'certificates' as const, doc }));
+  }
+
+  const categoryId = table === 'aboutCategories' ? ctx.db.normalizeId('aboutCategories', parentId) : null;
+  if (categoryId) {
+    const items = await ctx.db
+      .query('aboutItems')
+      .withIndex('by_category', (q) => q.eq('categoryId', categoryId))
+      .collect();
+    return items.map((doc) => ({ table: 'aboutItems' as const, doc }));
+  }
+
+  return [];
+}
+
+/**
+ * Trashes a provider or category together with its live children. The children
+ * record the parent in `trashedWith`, so restoring the parent brings back only
+ * them and not children that were deleted on their own.
+ */
+export async function moveToTrashWithChildren(
+  ctx: AdminMutationCtx,
+  table: TrashParentTable,
+  id: Id<TrashParentTable>,
+  deletedAt: number,
+) {
+  for (const child of await getChildren(ctx, table, id)) {
+    if (!isLive(child.doc)) {
+      continue;
+    }
+    if (child.table === 'certificates') {
+      const trashedWith = child.doc.providerId;
+      await auditedPatch(ctx, 'certificates', child.doc._id, { deletedAt, trashedWith }, 'delete');
+    } else {
+      const trashedWith = child.doc.categoryId;
+      await auditedPatch(ctx, 'aboutItems', child.doc._id, { deletedAt, trashedWith }, 'delete');
+    }
+  }
+
+  await moveToTrash(ctx, table, id, deletedAt);
+}
+
+export async function getCascadeChildren(
+  ctx: QueryCtx,
+  table: TrashTable,
+  parent: { _id: string },
+): Promise<Array<{ table: 'certificates'; id: Id<'certificates'> } | { table: 'aboutItems'; id: Id<'aboutItems'> }>> {
+  const children = await getChildren(ctx, table, parent._id);
+  return children
+    .filter((child) => !isLive(child.doc) && child.doc.trashedWith === parent._id)
+    .map((child) =>
+      child.table === 'certificates'
+        ? { table: 'certificates' as const, id: child.doc._id }
+        : { table: 'aboutItems' as const, id: child.doc._id },
+    );
+}
+
+export async function restoreCascadeChildren(ctx: AdminMutationCtx, table: TrashTable, parent: { _id: string }) {
+  const children = await getCascadeChildren(ctx, table, parent);
+  for (const child of children) {
+    if (child.table === 'certificates') {
+      await auditedPatch(ctx, 'certificates', child.id, { deletedAt: undefined, trashedWith: undefined }, 'restore');
+    } else {
+      await auditedPatch(ctx, 'aboutItems', child.id, { deletedAt: undefined, trashedWith: undefined }, 'restore');
+    }
+  }
+  return children.length;
+}
+
+/** Runs from the retention cron; the deletes are audited under the cron's actor. */
+export async function purgeTrashedBefore(ctx: AdminMutationCtx, cutoff: number) {
+  let purgedCount = 0;
+
+  for (const table of TRASHABLE_TABLES) {
+    const trashed = await collectTrashed(ctx, table);
+    for (const doc of trashed) {
+      const deletedAt = getDeletedAt(doc);
+      if (deletedAt !== undefined && deletedAt < cutoff) {
+        await auditedDelete(ctx, table, doc._id);
+        purgedCount += 1;
+      }
+    }
+  }
+
+  return purgedCount;
+}
@@ -0,0 +1,195 @@
+import { v } from 'convex/values';
+import type { Doc } from './_generated/dataModel';
+import { internalMutation } from './_generated/server';
+import { asSystemActor } from './lib/auth';
+import {
+  canonicalizeTechNames,
+  loadTechnologyIndex,
+  TECH_REFERENCE_FIELDS,
+  type TechReferenceTable,
+} from './lib/technologyReferences';
+import { resolveProjectSlug } from './lib/slugs';
+import { deleteImageAsset, scheduleImageVariants } from './lib/imageAssets';
+import {
+  classifyStorage,
+  collectReferencedStorageIds,
+  deleteUploadRecord,
+  recordUpload,
+} from './lib/storage';
+import { getTrashRetentionMs, purgeTrashedBefore } from './lib/trash';
+
+const MAX_REPORTED_URLS = 20;
+
+export const purgeExpiredTrash = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const purgedCount = await purgeTrashedBefore(
+      asSystemActor(ctx, 'system:trash-retention'),
+      Date.now() - getTrashRetentionMs(),
+    );
+    return { purgedCount };
+  },
+});
+
+/**
+ * Deletes uploads that no document, published copy or revision references.
+ * Files younger than the grace period are kept because their form may not have
+ * been saved yet. Storage URLs without an upload record are reported rather
+ * than failing the run, and files without a record are kept while any exist;
+ * run `backfillUploads` on deployments with uploads from before the table.
+ */
+export const purgeOrphanedStorage = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const { orphaned, usage, unresolvedUrls, unverifiedFiles } = await classifyStorage(ctx, Date.now());
+    for (const storageId of orphaned) {
+      await deleteImageAsset(ctx, storageId);
+      await deleteUploadRecord(ctx, storageId);
+      if (await ctx.db.system.get(storageId)) {
+        await ctx.storage.delete(storageId);
+      }
+    }
+    return {
+      deletedCount: orphaned.length,
+      freedBytes: usage.orphanedBytes,
+      keptUnverifiedCount: unverifiedFiles,
+      unresolvedUrls: unresolvedUrls.slice(0, MAX_REPORTED_URLS),
+    };
+  },
+});
+
+/**
+ * One-off migration that records the URL of every stored file, for uploads
+ * made before `resolveStorageUrl` kept upload records. Safe to run again.
+ *
+ *   npx convex run maintenance:backfillUploads
+ */
+export const backfillUploads = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    let recordedCount = 0;
+    for (const file of await ctx.db.system.query('_storage').collect()) {
+      const url = await ctx.storage.getUrl(file._id);
+      if (url) {
+        await recordUpload(ctx, file._id, url);
+        recordedCount += 1;
+      }
+    }
+    return { recordedCount };
+  },
+});
+
+/**
+ * One-off migration that rewrites project and experience technology names to
+ * the spelling used in the technologies table. Names with no matching
+ * technology are left in place and reported.
+ *
+ *   npx convex run maintenance:migrateTechnologyReferences '{"dryRun": true}'
+ */
+export const migrateTechnologyReferences = internalMutation({
+  args: { dryRun: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const index = await loadTechnologyIndex(ctx);
+    const orphanedNames = new Set<string>();
+    let updatedCount = 0;
+
+    for (const table of Object.keys(TECH_REFERENCE_FIELDS) as TechReferenceTable[]) {
+      const field = TECH_REFERENCE_FIELDS[table];
+      const docs = await ctx.db.query(table).collect();
+      for (const doc of docs) {
+        const current = (doc as Record<string, unknown>)[field] as string[];
+        const { names, orphaned } = canonicalizeTechNames(current, index);
+        orphaned.forEach((name) => orphanedNames.add(name));
+
+        if (names.length === current.length && names.every((name, position) => name === current[position])) {
+          continue;
+        }
+
+        updatedCount += 1;
+        if (!args.dryRun) {
+          await ctx.db.patch(doc._id, { [field]: names } as Partial<Doc<typeof table>>);
+        }
+      }
+    }
+
+    return { updatedCount, orphanedNames: [...orphanedNames].sort() };
+  },
+});
+
+/**
+ * One-off migration that gives every project without a slug one generated from
+ * its title. Existing slugs are left alone.
+ *
+ *   npx convex run maintenance:backfillProjectSlugs
+ */
+export const backfillProjectSlugs = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const projects = await ctx.db.query('projects').collect();
+    let updatedCount = 0;
+    for (const project of [...projects].sort((a, b) => a._creationTime - b._creationTime)) {
+      if (project.slug) {
+        continue;
+      }
+      await ctx.db.patch(project._id, { slug: await resolveProjectSlug(ctx, undefined, project.title, project._id) });
+      updatedCount += 1;
+    }
+    return { updatedCount };
+  },
+});
+
+/**
+ * One-off migration that queues variant generation for referenced raster
+ * uploads made before variants existed. Images that already have variants are
+ * skipped, so it is safe to run again.
+ *
+ *   npx convex run maintenance:backfillImageVariants
+ */
+export const backfillImageVariants = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    let scheduledCount = 0;
+    for (const storageId of (await collectReferencedStorageIds(ctx)).referenced) {
+      if (await scheduleImageVariants(ctx, storageId)) {
+        scheduledCount += 1;
+      }
+    }
+    return { scheduledCount };
+  },
+});
+
+/**
+ * One-off migration for children trashed with their provider or category
+ * before cascades set `trashedWith`. A trashed child whose parent was trashed
+ * at the same moment is linked to it. Safe to run again.
+ *
+ *   npx convex run maintenance:backfillTrashedWith
+ */
+export const backfillTrashedWith = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    let linkedCount = 0;
+
+    for (const certificate of await ctx.db.query('certificates').collect()) {
+      const provider = await ctx.db.get(certificate.providerId);
+      if (
+        certificate.deletedAt !== undefined &&
+        !certificate.trashedWith &&
+        provider?.deletedAt === certificate.deletedAt
+      ) {
+        await ctx.db.patch(certificate._id, { trashedWith: provider._id });
+        linkedCount += 1;
+      }
+    }
+
+    for (const item of await ctx.db.query('aboutItems').collect()) {
+      const category = await ctx.db.get(item.categoryId);
+      if (item.deletedAt !== undefined && !item.trashedWith && category?.deletedAt === item.deletedAt) {
+        await ctx.db.patch(item._id, { trashedWith: category._id });
+        linkedCount += 1;
+      }
+    }
+
+    return { linkedCount };
+  },
+});
@@ -1,60 +1,77 @@
 import { v } from 'convex/values';
-import { query } from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import { query, type QueryCtx } from './_generated/server';
+import { loadImageAssets } from './lib/imageAssets';
+import { portfolioModeArgs, readPortfolioTable } from './lib/publishing';
 
 const sortByOrder = <T extends { order: number }>(items: T[]) =>
   [...items].sort((a, b) => a.order - b.order);
 
+// Images with generated variants carry them as `imageAsset` (or `asset` on
+// gallery items) so the site can render responsive sources and placeholders.
+async function withProjectImageAssets(ctx: QueryCtx, projects: Doc<'projects'>[]) {
+  const assets = await loadImageAssets(
+    ctx,
+    projects.flatMap((project) => [project.image, ...(project.media ?? []).map((item) => item.url)]),
+  );
+
+  return projects.map((project) => ({
+    ...project,
+    imageAsset: project.image ? assets.get(project.image) : undefined,
+    media: project.media?.map((item) => ({ ...item, asset: assets.get(item.url) })),
+  }));
+}
+
 export const getSiteSettings = query({
-  args: {},
-  handler: async (ctx) => {
-    return await ctx.db
-      .query('siteSettings')
-      .withIndex('by_key', (q) => q.eq('key', 'global'))
-      .unique();
+  args: portfolioModeArgs,
+  handler: async (ctx, args) => {
+    const settings = await readPortfolioTable(ctx, 'siteSettings', args);
+    return settings.find((entry) => entry.key === 'global') ?? null;
   },
 });
 
 export const getExperiences = query({
-  args: {},
-  handler: async (ctx) => {
-    const experiences = await ctx.db.query('experiences').collect();
+  args: portfolioModeArgs,
+  handler: async (ctx, args) => {
+    const experiences = await readPortfolioTable(ctx, 'experiences', args);
     return sortByOrder(experiences);
   },
 });
 
 export const getProjects = query({
-  args: {},
-  handler: async (ctx) => {
-    const projects = await ctx.db.query('projects').collect();
-    return sortByOrder(projects);
+  args: portfolioModeArgs,
+  handler: async (ctx, args) => {
+    const projects = await readPortfolioTable(ctx, 'projects', args);
+    return await withProjectImageAssets(ctx, sortByOrder(projects));
   },
 });
 
 export const getProjectsByCategory = query({
-  args: { category: v.string() },
+  args: { category: v.string(), ...portfolioModeArgs },
   handler: async (ctx, args) => {
-    const projects = await ctx.db.query('projects').collect();
+    const projects = await readPortfolioTable(ctx, 'projects', args);
     if (args.category === 'All') {
-      return sortByOrder(projects);
+      return await withProjectImageAssets(ctx, sortByOrder(projects));
     }
-    return sortByOrder(projects).filter((project) =>
-      project.categories.includes(args.category),
+    return await withProjectImageAssets(
+      ctx,
+      sortByOrder(projects).filter((project) => project.categories.includes(args.category)),
     );
   },
 });
 
 export const getProgrammingLanguages = query({
-  args: {},
-  handler: async (ctx) => {
-    const languages = await ctx.db.query('programmingLanguages').collect();
+  args: portfolioModeArgs,
+  handler: async (ctx, args) => {
+    const languages = await readPortfolioTable(ctx, 'programmingLanguages', args);
     return sortByOrder(languages);
   },
 });
 
 export const getTechnologies = query({
-  args: {},
-  handler: async (ctx) => {
-    const technologies = await ctx.db.query('technologies').collect();
+  args: portfolioModeArgs,
+  handler: async (ctx, args) => {
+    const technologies = await readPortfolioTable(ctx, 'technologies', args);
     return technologies.sort((a, b) => {
       if (a.category === b.category) {
         return a.order - b.order;
@@ -65,53 +82,49 @@ export const getTechnologies = query({
 });
 
 export const getTechnologiesByCategory = query({
-  args: { category: v.string() },
+  args: { category: v.string(), ...portfolioModeArgs },
   handler: async (ctx, args) => {
-    const technologies = await ctx.db
-      .query('technologies')
-      .withIndex('by_category_order', (q) => q.eq('category', args.category))
-      .collect();
-    return sortByOrder(technologies);
+    const technologies = await readPortfolioTable(ctx, 'technologies', args);
+    return sortByOrder(technologies.filter((technology) => technology.category === args.category));
   },
 });
 
 export const getCloudProvidersWithCertificates = query({
-  args: {},
-  handler: async (ctx) => {
-    const providers = sortByOrder(await ctx.db.query('cloudProviders').collect());
-
-    const providersWithCertificates = await Promise.all(
-      providers.map(async (provider) => {
-        const certificates = await ctx.db
-          .query('certificates')
-          .withIndex('by_provider', (q) => q.eq('providerId', provider._id))
-          .collect();
+  args: portfolioModeArgs,
+  handler: async (ctx, args) => {
+    const [providers, certificates] = await Promise.all([
+      readPortfolioTable(ctx, 'cloudProviders', args),
+      readPortfolioTable(ctx, 'certificates', args),
+    ]);
 
-        return {
-          ...provider,
-          certificates: sortByOrder(certificates),
-        };
-      }),
+    const assets = await loadImageAssets(
+      ctx,
+      certificates.map((certificate) => certificate.image),
     );
 
-    return providersWithCertificates;
+    return sortByOrder(providers).map((provider) => ({
+      ...provider,
+      certificates: sortByOrder(
+        certificates.filter((certificate) => certificate.providerId === provider._id),
+      ).map((certificate) => ({ ...certificate, imageAsset: assets.get(certificate.image) })),
+    }));
   },
 });
 
 export const getAboutCategories = query({
-  args: {},
-  handler: async (ctx) => {
-    const categories = await ctx.db.query('aboutCategories').collect();
+  args: portfolioModeArgs,
+  handler: async (ctx, args) => {
+    const categories = await readPortfolioTable(ctx, 'aboutCategories', args);
     return sortByOrder(categories);
   },
 });
 
 export const getAboutItems = query({
-  args: {},
-  handler: async (ctx) => {
+  args: portfolioModeArgs,
+  handler: async (ctx, args) => {
     const [items, categories] = await Promise.all([
-      ctx.db.query('aboutItems').collect(),
-      ctx.db.query('aboutCategories').collect(),
+      readPortfolioTable(ctx, 'aboutItems', args),
+      readPortfolioTable(ctx, 'aboutCategories', args),
     ]);
 
     const categoryMap = new Map(categories.map((category) => [category._id, category]));
@@ -133,21 +146,19 @@ export const getAboutItems = query({
 });
 
 export const getAboutItemsByCategory = query({
-  args: { categoryId: v.id('aboutCategories') },
+  args: { categoryId: v.id('aboutCategories'), ...portfolioModeArgs },
   handler: async (ctx, args) => {
-    const [items, category] = await Promise.all([
-      ctx.db
-        .query('aboutItems')
-        .withIndex('by_category', (q) => q.eq('categoryId', args.categoryId))
-        .collect(),
-      ctx.db.get(args.categoryId),
+    const [items, categories] = await Promise.all([
+      readPortfolioTable(ctx, 'aboutItems', args),
+      readPortfolioTable(ctx, 'aboutCategories', args),
     ]);
 
+    const category = categories.find((entry) => entry._id === args.categoryId);
     if (!category) {
       return [];
     }
 
-    return sortByOrder(items).map((item) => ({
+    return sortByOrder(items.filter((item) => item.categoryId === args.categoryId)).map((item) => ({
       ...item,
       category,
     }));
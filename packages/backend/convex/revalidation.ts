@@ -0,0 +1,47 @@
+import { v } from 'convex/values';
+import { internalAction } from './_generated/server';
+import { publishedTableValidator } from './lib/publishing';
+
+const SIGNATURE_HEADER = 'X-Revalidation-Signature';
+
+async function sign(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The body carries a timestamp and a one-time nonce under the signature, so the
+// web app can reject stale or replayed requests.
+export const revalidateSite = internalAction({
+  args: { tables: v.array(publishedTableValidator) },
+  handler: async (_ctx, { tables }) => {
+    const siteUrl = process.env.SITE_URL;
+    const secret = process.env.REVALIDATION_SECRET;
+    if (!siteUrl || !secret) {
+      return { status: 'skipped' as const };
+    }
+
+    const body = JSON.stringify({ tables, timestamp: Date.now(), nonce: crypto.randomUUID() });
+    const response = await fetch(new URL('/api/revalidate', siteUrl), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [SIGNATURE_HEADER]: `sha256=${await sign(secret, body)}`,
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Site revalidation failed with ${response.status}: ${await response.text()}`);
+    }
+
+    return { status: 'revalidated' as const };
+  },
+});
@@ -1,14 +1,31 @@
 import { defineSchema, defineTable } from 'convex/server';
 import { v } from 'convex/values';
+import {
+  auditActionValidator,
+  auditFieldChangeValidator,
+  auditTableValidator,
+} from './lib/audit';
+import {
+  contactChannelsValidator,
+  imageAssetFields,
+  projectMediaItemValidator,
+  socialLinkValidator,
+} from './lib/fields';
+import { publishedTableValidator } from './lib/publishing';
+import { revisionTableValidator } from './lib/revisions';
 
 export default defineSchema({
   siteSettings: defineTable({
     key: v.string(),
     siteName: v.optional(v.string()),
     tagline: v.optional(v.string()),
+    description: v.optional(v.string()),
     logoUrl: v.optional(v.string()),
     profileImageUrl: v.optional(v.string()),
     resumeUrl: v.optional(v.string()),
+    contact: v.optional(contactChannelsValidator),
+    socialLinks: v.optional(v.array(socialLinkValidator)),
+    storageIds: v.optional(v.array(v.id('_storage'))),
     updatedAt: v.number(),
   }).index('by_key', ['key']),
 
@@ -22,10 +39,13 @@ export default defineSchema({
     logo: v.optional(v.string()),
     isCurrent: v.optional(v.boolean()),
     order: v.number(),
+    storageIds: v.optional(v.array(v.id('_storage'))),
+    deletedAt: v.optional(v.number()),
   }).index('by_order', ['order']),
 
   projects: defineTable({
     title: v.string(),
+    slug: v.optional(v.string()),
     description: v.string(),
     longDescription: v.optional(v.string()),
     categories: v.array(v.string()),
@@ -36,13 +56,18 @@ export default defineSchema({
     githubUrl: v.optional(v.string()),
     liveUrl: v.optional(v.string()),
     image: v.optional(v.string()),
+    media: v.optional(v.array(projectMediaItemValidator)),
     features: v.optional(v.array(v.string())),
     challenges: v.optional(v.array(v.string())),
     outcomes: v.optional(v.array(v.string())),
     timeline: v.optional(v.string()),
     teamSize: v.optional(v.string()),
     order: v.number(),
-  }).index('by_order', ['order']),
+    storageIds: v.optional(v.array(v.id('_storage'))),
+    // Last content edit, set by the audited writes; absent until the first one.
+    updatedAt: v.optional(v.number()),
+    deletedAt: v.optional(v.number()),
+  }).index('by_order', ['order']).index('by_slug', ['slug']),
 
   programmingLanguages: defineTable({
     name: v.string(),
@@ -50,6 +75,8 @@ export default defineSchema({
     description: v.string(),
     logoUrl: v.optional(v.string()),
     order: v.number(),
+    storageIds: v.optional(v.array(v.id('_storage'))),
+    deletedAt: v.optional(v.number()),
   }).index('by_order', ['order']),
 
   technologies: defineTable({
@@ -59,6 +86,8 @@ export default defineSchema({
     iconName: v.optional(v.string()),
     iconUrl: v.optional(v.string()),
     order: v.number(),
+    storageIds: v.optional(v.array(v.id('_storage'))),
+    deletedAt: v.optional(v.number()),
   }).index('by_category_order', ['category', 'order']),
 
   cloudProviders: defineTable({
@@ -66,6 +95,8 @@ export default defineSchema({
     iconName: v.optional(v.string()),
     iconUrl: v.optional(v.string()),
     order: v.number(),
+    storageIds: v.optional(v.array(v.id('_storage'))),
+    deletedAt: v.optional(v.number()),
   }).index('by_order', ['order']),
 
   certificates: defineTable({
@@ -79,6 +110,12 @@ export default defineSchema({
     verificationUrl: v.optional(v.string()),
     skills: v.optional(v.array(v.string())),
     order: v.number(),
+    storageIds: v.optional(v.array(v.id('_storage'))),
+    // Last content edit, set by the audited writes; absent until the first one.
+    updatedAt: v.optional(v.number()),
+    deletedAt: v.optional(v.number()),
+    // Set when the certificate was trashed together with its provider.
+    trashedWith: v.optional(v.id('cloudProviders')),
   }).index('by_provider', ['providerId']).index('by_order', ['order']),
 
   aboutCategories: defineTable({
@@ -87,6 +124,7 @@ export default defineSchema({
     color: v.string(),
     icon: v.string(),
     order: v.number(),
+    deletedAt: v.optional(v.number()),
   }).index('by_order', ['order']),
 
   aboutItems: defineTable({
@@ -99,5 +137,66 @@ export default defineSchema({
     icon: v.string(),
     image: v.optional(v.string()),
     order: v.number(),
+    storageIds: v.optional(v.array(v.id('_storage'))),
+    deletedAt: v.optional(v.number()),
+    // Set when the item was trashed together with its category.
+    trashedWith: v.optional(v.id('aboutCategories')),
   }).index('by_category', ['categoryId']).index('by_order', ['order']),
+
+  auditLog: defineTable({
+    actorSubject: v.string(),
+    actorEmail: v.optional(v.string()),
+    table: auditTableValidator,
+    documentId: v.string(),
+    action: auditActionValidator,
+    changes: v.array(auditFieldChangeValidator),
+    createdAt: v.number(),
+  })
+    .index('by_table', ['table'])
+    .index('by_document', ['table', 'documentId']),
+
+  contactMessages: defineTable({
+    name: v.string(),
+    email: v.string(),
+    message: v.string(),
+    // Salted hash of the sender's IP, computed by the Next route handler.
+    clientKey: v.string(),
+    createdAt: v.number(),
+    readAt: v.optional(v.number()),
+    archivedAt: v.optional(v.number()),
+  })
+    .index('by_client_key', ['clientKey', 'createdAt'])
+    .index('by_archived_at', ['archivedAt', 'createdAt']),
+
+  revisions: defineTable({
+    table: revisionTableValidator,
+    documentId: v.string(),
+    snapshot: v.any(),
+    actorSubject: v.string(),
+    actorEmail: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index('by_document', ['table', 'documentId']),
+
+  publishedDocuments: defineTable({
+    table: publishedTableValidator,
+    documentId: v.string(),
+    creationTime: v.number(),
+    value: v.any(),
+  }).index('by_table', ['table']),
+
+  publications: defineTable({
+    actorSubject: v.string(),
+    actorEmail: v.optional(v.string()),
+    publishedAt: v.number(),
+  }).index('by_published_at', ['publishedAt']),
+
+  imageAssets: defineTable(imageAssetFields).index('by_storage_id', ['storageId']).index('by_url', ['url']),
+
+  // The storage id behind each upload URL. Media fields only keep the URL.
+  uploads: defineTable({
+    storageId: v.id('_storage'),
+    url: v.string(),
+  })
+    .index('by_storage_id', ['storageId'])
+    .index('by_url', ['url']),
 });
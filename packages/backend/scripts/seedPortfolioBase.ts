@@ -8,6 +8,16 @@ import type { Id } from '../convex/_generated/dataModel';
 type SeedSiteSettings = {
   siteName?: string;
   tagline?: string;
+  contact?: {
+    email?: string;
+    phone?: string;
+    location?: string;
+  };
+  socialLinks?: Array<{
+    platform: 'github' | 'linkedin' | 'x' | 'instagram' | 'youtube' | 'email' | 'website';
+    url: string;
+    visible: boolean;
+  }>;
 };
 
 type SeedExperience = {
@@ -334,8 +344,16 @@ async function seedPortfolioData(client: ConvexHttpClient, seed: SeedPayload) {
   await client.mutation(api.admin.upsertSiteSettings, {
     siteName: seed.siteSettings?.siteName,
     tagline: seed.siteSettings?.tagline,
+    contact: seed.siteSettings?.contact,
+    socialLinks: seed.siteSettings?.socialLinks,
   });
 
+  // Technologies go first so project and experience tech names are stored in
+  // their canonical spelling.
+  for (const technology of sortByOrder(seed.technologies)) {
+    await client.mutation(api.admin.createTechnology, technology);
+  }
+
   for (const experience of sortByOrder(seed.experiences)) {
     await client.mutation(api.admin.createExperience, experience);
   }
@@ -348,10 +366,6 @@ async function seedPortfolioData(client: ConvexHttpClient, seed: SeedPayload) {
     await client.mutation(api.admin.createProgrammingLanguage, language);
   }
 
-  for (const technology of sortByOrder(seed.technologies)) {
-    await client.mutation(api.admin.createTechnology, technology);
-  }
-
   const providerIdByKey = new Map<string, Id<'cloudProviders'>>();
 
   for (const provider of sortByOrder(seed.cloudProviders)) {
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { api } from '../convex/_generated/api';
+import { diffDocuments } from '../convex/lib/audit';
+import { ADMIN_SUBJECT, finishScheduledFunctions, setupConvex } from './convexTest';
+
+describe('diffDocuments', () => {
+  it('lists changed fields in order and skips bookkeeping fields', () => {
+    const before = { _id: 'a', _creationTime: 1, updatedAt: 1, title: 'Old', tags: ['x', 'y'], order: 1 };
+    const after = { _id: 'a', _creationTime: 1, updatedAt: 2, title: 'New', tags: ['x', 'y'], image: '/a.png' };
+
+    expect(diffDocuments(before, after)).toEqual([
+      { field: 'image', after: '/a.png' },
+      { field: 'order', before: 1 },
+      { field: 'title', before: 'Old', after: 'New' },
+    ]);
+  });
+
+  it('compares nested values by content', () => {
+    expect(diffDocuments({ media: [{ type: 'image', url: '/a' }] }, { media: [{ url: '/a', type: 'image' }] })).toEqual(
+      [],
+    );
+  });
+});
+
+describe('audit log', () => {
+  afterEach(finishScheduledFunctions);
+
+  it('records the actor and the changed fields of each admin write', async () => {
+    const { admin } = setupConvex();
+    const id = await admin.mutation(api.admin.createCloudProvider, { name: 'AWS', order: 0 });
+    await admin.mutation(api.admin.updateCloudProvider, { id, name: 'Amazon Web Services', order: 0 });
+    await admin.mutation(api.admin.updateCloudProvider, { id, name: 'Amazon Web Services', order: 0 });
+
+    const { page } = await admin.query(api.admin.getAuditLog, {
+      paginationOpts: { numItems: 10, cursor: null },
+      table: 'cloudProviders',
+      documentId: id,
+    });
+
+    expect(page.map((entry) => [entry.action, entry.actorSubject])).toEqual([
+      ['update', ADMIN_SUBJECT],
+      ['create', ADMIN_SUBJECT],
+    ]);
+    expect(page[0].changes).toEqual([{ field: 'name', before: 'AWS', after: 'Amazon Web Services' }]);
+  });
+
+  it('filters entries by action', async () => {
+    const { admin } = setupConvex();
+    const id = await admin.mutation(api.admin.createCloudProvider, { name: 'AWS', order: 0 });
+    await admin.mutation(api.admin.deleteCloudProvider, { id });
+
+    const { page } = await admin.query(api.admin.getAuditLog, {
+      paginationOpts: { numItems: 10, cursor: null },
+      action: 'create',
+    });
+
+    expect(page.map((entry) => entry.documentId)).toEqual([id]);
+  });
+});
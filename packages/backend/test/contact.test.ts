@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { api } from '../convex/_generated/api';
+import { RATE_LIMIT_MAX_MESSAGES, RATE_LIMIT_WINDOW_MS } from '../convex/lib/contact';
+import { finishScheduledFunctions, setupConvex } from './convexTest';
+
+const SECRET = 'contact-secret';
+
+const submission = (clientKey: string, overrides: Record<string, string> = {}) => ({
+  name: 'Ada',
+  email: 'ada@example.com',
+  message: 'Hello there, nice portfolio!',
+  clientKey,
+  submitterSecret: SECRET,
+  ...overrides,
+});
+
+describe('submitContactMessage', () => {
+  beforeEach(() => {
+    process.env.CONTACT_FORM_SECRET = SECRET;
+  });
+  afterEach(finishScheduledFunctions);
+
+  it('rate limits each client separately', async () => {
+    const { t } = setupConvex();
+    for (let attempt = 0; attempt < RATE_LIMIT_MAX_MESSAGES; attempt += 1) {
+      expect(await t.mutation(api.contact.submitContactMessage, submission('client-a'))).toEqual({
+        status: 'accepted',
+      });
+    }
+
+    const limited = await t.mutation(api.contact.submitContactMessage, submission('client-a'));
+    expect(limited).toMatchObject({ status: 'rate_limited', retryAfterMs: expect.any(Number) });
+    expect(await t.mutation(api.contact.submitContactMessage, submission('client-b'))).toEqual({
+      status: 'accepted',
+    });
+  });
+
+  it('accepts again once the window has passed', async () => {
+    const { t } = setupConvex();
+    for (let attempt = 0; attempt < RATE_LIMIT_MAX_MESSAGES; attempt += 1) {
+      await t.mutation(api.contact.submitContactMessage, submission('client-a'));
+    }
+
+    const realNow = Date.now;
+    Date.now = () => realNow() + RATE_LIMIT_WINDOW_MS + 1;
+    try {
+      expect(await t.mutation(api.contact.submitContactMessage, submission('client-a'))).toEqual({
+        status: 'accepted',
+      });
+    } finally {
+      Date.now = realNow;
+    }
+  });
+
+  it('rejects submissions without the shared secret', async () => {
+    const { t } = setupConvex();
+    for (const submitterSecret of ['', 'contact-secreT', `${SECRET}-longer`]) {
+      await expect(
+        t.mutation(api.contact.submitContactMessage, submission('client-a', { submitterSecret })),
+      ).rejects.toThrow('Forbidden');
+    }
+  });
+
+  it('drops honeypot submissions without storing them', async () => {
+    const { t } = setupConvex();
+    const result = await t.mutation(
+      api.contact.submitContactMessage,
+      submission('client-a', { website: 'https://spam.example' }),
+    );
+
+    expect(result).toEqual({ status: 'accepted' });
+    expect(await t.run((ctx) => ctx.db.query('contactMessages').collect())).toHaveLength(0);
+  });
+});
@@ -0,0 +1,33 @@
+import { convexTest } from 'convex-test';
+import schema from '../convex/schema';
+
+export const ADMIN_SUBJECT = 'admin_1';
+
+// convex-test finds the functions through this map; every module is listed so
+// scheduled functions resolve as they would on a deployment.
+const modules = Object.fromEntries(
+  [...new Bun.Glob('**/*.{ts,js}').scanSync(`${import.meta.dir}/../convex`)]
+    .filter((path) => !path.endsWith('.d.ts'))
+    .map((path) => [`../convex/${path}`, () => import(`../convex/${path}`)]),
+);
+
+let deployment: ReturnType<typeof convexTest> | undefined;
+
+/** A fresh in-memory deployment plus a client signed in as an allowlisted owner. */
+export function setupConvex() {
+  process.env.WAY_AUTH_ADMIN_SUBJECTS = ADMIN_SUBJECT;
+  const t = convexTest(schema, modules);
+  deployment = t;
+  return { t, admin: t.withIdentity({ subject: ADMIN_SUBJECT }) };
+}
+
+/**
+ * Every content write schedules a revalidation job, and convex-test keeps one
+ * deployment at a time. Register as `afterEach`, and call it before setting up
+ * a second deployment, so those jobs never run against the wrong one.
+ */
+export async function finishScheduledFunctions() {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  await deployment?.finishInProgressScheduledFunctions();
+  deployment = undefined;
+}
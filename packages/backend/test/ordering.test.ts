@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { api } from '../convex/_generated/api';
+import { finishScheduledFunctions, setupConvex } from './convexTest';
+
+async function seedTechnologies(admin: ReturnType<typeof setupConvex>['admin']) {
+  const create = (name: string, category: string, order: number) =>
+    admin.mutation(api.admin.createTechnology, { name, category, order });
+  return {
+    react: await create('React', 'frontend', 1),
+    vue: await create('Vue', 'frontend', 2),
+    convex: await create('Convex', 'backend', 1),
+  };
+}
+
+describe('reorderItems', () => {
+  afterEach(finishScheduledFunctions);
+
+  it('reorders one scope and leaves the others alone', async () => {
+    const { t, admin } = setupConvex();
+    const { react, vue, convex } = await seedTechnologies(admin);
+
+    const result = await admin.mutation(api.admin.reorderItems, {
+      table: 'technologies',
+      scope: 'frontend',
+      items: [
+        { id: vue, order: 1 },
+        { id: react, order: 2 },
+      ],
+    });
+
+    expect(result.updatedCount).toBe(2);
+    const orders = await t.run(async (ctx) => Promise.all([react, vue, convex].map((id) => ctx.db.get(id))));
+    expect(orders.map((doc) => doc?.order)).toEqual([2, 1, 1]);
+  });
+
+  it('rejects items from another scope and incomplete payloads', async () => {
+    const { admin } = setupConvex();
+    const { react, vue, convex } = await seedTechnologies(admin);
+    const reorder = (items: Array<{ id: string; order: number }>) =>
+      admin.mutation(api.admin.reorderItems, { table: 'technologies', scope: 'frontend', items });
+
+    await expect(
+      reorder([
+        { id: react, order: 1 },
+        { id: convex, order: 2 },
+      ]),
+    ).rejects.toThrow('Unknown technology id');
+    await expect(reorder([{ id: vue, order: 1 }])).rejects.toThrow('every technology exactly once');
+    await expect(
+      reorder([
+        { id: react, order: 1 },
+        { id: vue, order: 3 },
+      ]),
+    ).rejects.toThrow('contiguous');
+  });
+
+  it('requires a scope exactly for scoped tables', async () => {
+    const { admin } = setupConvex();
+    const { react } = await seedTechnologies(admin);
+
+    await expect(
+      admin.mutation(api.admin.reorderItems, { table: 'technologies', items: [{ id: react, order: 1 }] }),
+    ).rejects.toThrow('requires a category scope');
+    await expect(
+      admin.mutation(api.admin.reorderItems, { table: 'projects', scope: 'web', items: [] }),
+    ).rejects.toThrow('not scoped');
+  });
+
+  it('moves the current role with the experience order', async () => {
+    const { t, admin } = setupConvex();
+    const experience = (company: string, order: number) =>
+      admin.mutation(api.admin.createExperience, {
+        company,
+        role: 'Engineer',
+        duration: '2020 - 2024',
+        location: 'Remote',
+        description: 'Built things.',
+        technologies: [],
+        isCurrent: order === 1,
+        order,
+      });
+    const first = await experience('Acme', 1);
+    const second = await experience('Globex', 2);
+
+    await admin.mutation(api.admin.reorderExperiences, {
+      items: [
+        { id: second, order: 1 },
+        { id: first, order: 2 },
+      ],
+      currentExperienceId: second,
+    });
+
+    const docs = await t.run(async (ctx) => Promise.all([ctx.db.get(first), ctx.db.get(second)]));
+    expect(docs.map((doc) => [doc?.order, doc?.isCurrent])).toEqual([
+      [2, false],
+      [1, true],
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { api } from '../convex/_generated/api';
+import { finishScheduledFunctions, setupConvex } from './convexTest';
+
+async function seedPortfolio(admin: ReturnType<typeof setupConvex>['admin']) {
+  await admin.mutation(api.admin.createTechnology, { name: 'TypeScript', category: 'language', order: 0 });
+  const providerId = await admin.mutation(api.admin.createCloudProvider, { name: 'AWS', order: 0 });
+  await admin.mutation(api.admin.createCertificate, {
+    providerId,
+    name: 'Solutions Architect',
+    image: '/certificates/aws.png',
+    year: '2024',
+    order: 0,
+  });
+  await admin.mutation(api.admin.createProject, {
+    title: 'Portfolio',
+    description: 'This site.',
+    categories: ['web'],
+    techStack: ['typescript'],
+    order: 0,
+  });
+}
+
+describe('portfolio export and import', () => {
+  afterEach(finishScheduledFunctions);
+
+  it('re-imports its own export without changes', async () => {
+    const { admin } = setupConvex();
+    await seedPortfolio(admin);
+
+    const exported = await admin.action(api.admin.exportPortfolio, {});
+    const plan = await admin.mutation(api.admin.importPortfolio, { document: exported, mode: 'replace', dryRun: true });
+
+    for (const table of plan) {
+      expect(table).toMatchObject({ create: [], update: [], remove: [] });
+    }
+  });
+
+  it('updates a renamed record instead of creating a new one', async () => {
+    const { t, admin } = setupConvex();
+    await seedPortfolio(admin);
+
+    const exported = await admin.action(api.admin.exportPortfolio, {});
+    const [project] = exported.projects;
+    const plan = await admin.mutation(api.admin.importPortfolio, {
+      document: { ...exported, projects: [{ ...project, title: 'Portfolio site' }] },
+      mode: 'merge',
+      dryRun: false,
+    });
+
+    expect(plan.find((entry) => entry.table === 'projects')).toMatchObject({
+      create: [],
+      update: [{ key: project.key, fields: ['title'] }],
+    });
+    const projects = await t.run((ctx) => ctx.db.query('projects').collect());
+    expect(projects.map(({ _id, title, slug }) => ({ _id, title, slug }))).toEqual([
+      { _id: project.key as (typeof projects)[number]['_id'], title: 'Portfolio site', slug: 'portfolio' },
+    ]);
+  });
+
+  it('creates records and resolves parent keys in another deployment', async () => {
+    const source = setupConvex();
+    await seedPortfolio(source.admin);
+    const exported = await source.admin.action(api.admin.exportPortfolio, {});
+    await finishScheduledFunctions();
+
+    const { t, admin } = setupConvex();
+    const plan = await admin.mutation(api.admin.importPortfolio, { document: exported, mode: 'merge', dryRun: false });
+
+    expect(plan.find((entry) => entry.table === 'certificates')?.create).toHaveLength(1);
+    const [provider] = await t.run((ctx) => ctx.db.query('cloudProviders').collect());
+    const [certificate] = await t.run((ctx) => ctx.db.query('certificates').collect());
+    expect(certificate.providerId).toBe(provider._id);
+  });
+
+  it('stores technology references in the canonical spelling', async () => {
+    const { t, admin } = setupConvex();
+    await seedPortfolio(admin);
+
+    const exported = await admin.action(api.admin.exportPortfolio, {});
+    const [project] = exported.projects;
+    const plan = await admin.mutation(api.admin.importPortfolio, {
+      document: {
+        ...exported,
+        technologies: [...exported.technologies, { key: 'new-tech', name: 'Convex', category: 'backend', order: 1 }],
+        projects: [{ ...project, techStack: [' typescript', 'TYPESCRIPT', 'convex', 'Unlisted'] }],
+      },
+      mode: 'merge',
+      dryRun: false,
+    });
+
+    expect(plan.find((entry) => entry.table === 'projects')?.update).toEqual([
+      { key: project.key, fields: ['techStack'] },
+    ]);
+    const [stored] = await t.run((ctx) => ctx.db.query('projects').collect());
+    expect(stored.techStack).toEqual(['TypeScript', 'Convex', 'Unlisted']);
+  });
+
+  it('rejects name-keyed version 1 files', async () => {
+    const { admin } = setupConvex();
+    const exported = await admin.action(api.admin.exportPortfolio, {});
+
+    await expect(
+      admin.mutation(api.admin.importPortfolio, {
+        document: { ...exported, version: 1 as unknown as 2 },
+        mode: 'merge',
+        dryRun: true,
+      }),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { api } from '../convex/_generated/api';
+import type { Id } from '../convex/_generated/dataModel';
+import { MAX_REVISIONS_PER_DOCUMENT } from '../convex/lib/revisions';
+import { finishScheduledFunctions, setupConvex } from './convexTest';
+
+const PROJECT = {
+  title: 'Portfolio',
+  slug: 'portfolio',
+  description: 'This site.',
+  categories: ['web'],
+  techStack: [],
+  order: 0,
+};
+
+function listRevisions(admin: ReturnType<typeof setupConvex>['admin'], id: Id<'projects'>) {
+  return admin.query(api.admin.getRevisions, { table: 'projects', documentId: id });
+}
+
+describe('revisions', () => {
+  afterEach(finishScheduledFunctions);
+
+  it('records nothing when a save changes no field', async () => {
+    const { t, admin } = setupConvex();
+    const id = await admin.mutation(api.admin.createProject, PROJECT);
+
+    await admin.mutation(api.admin.updateProject, { id, ...PROJECT });
+
+    expect(await listRevisions(admin, id)).toHaveLength(0);
+    const auditLog = await t.run((ctx) => ctx.db.query('auditLog').collect());
+    expect(auditLog.map((entry) => entry.action)).toEqual(['create']);
+  });
+
+  it('moves updatedAt on content edits but not on reorders', async () => {
+    const { t, admin } = setupConvex();
+    const id = await admin.mutation(api.admin.createProject, PROJECT);
+    const updatedAt = async () => (await t.run((ctx) => ctx.db.get(id)))?.updatedAt;
+    const created = await updatedAt();
+    expect(created).toBeNumber();
+
+    await admin.mutation(api.admin.reorderItems, { table: 'projects', items: [{ id, order: 1 }] });
+    await admin.mutation(api.admin.updateProject, { id, ...PROJECT, order: 1 });
+    expect(await updatedAt()).toBe(created);
+
+    await Bun.sleep(2);
+    await admin.mutation(api.admin.updateProject, { id, ...PROJECT, order: 1, title: 'Renamed' });
+    expect(await updatedAt()).toBeGreaterThan(created ?? 0);
+  });
+
+  it(`keeps the latest ${MAX_REVISIONS_PER_DOCUMENT} revisions`, async () => {
+    const { admin } = setupConvex();
+    const id = await admin.mutation(api.admin.createProject, PROJECT);
+
+    for (let edit = 1; edit <= MAX_REVISIONS_PER_DOCUMENT + 2; edit += 1) {
+      await admin.mutation(api.admin.updateProject, { id, ...PROJECT, description: `Edit ${edit}` });
+    }
+
+    const revisions = await listRevisions(admin, id);
+    expect(revisions).toHaveLength(MAX_REVISIONS_PER_DOCUMENT);
+    expect(revisions[0].snapshot.description).toBe(`Edit ${MAX_REVISIONS_PER_DOCUMENT + 1}`);
+    expect(revisions.at(-1)?.snapshot.description).toBe('Edit 2');
+  });
+
+  it('restores content but keeps the current layout and snapshots the replaced version', async () => {
+    const { t, admin } = setupConvex();
+    const id = await admin.mutation(api.admin.createProject, PROJECT);
+    await admin.mutation(api.admin.updateProject, { id, ...PROJECT, title: 'Renamed', order: 3 });
+
+    const [original] = await listRevisions(admin, id);
+    await admin.mutation(api.admin.restoreRevision, { revisionId: original._id });
+
+    expect(await t.run((ctx) => ctx.db.get(id))).toMatchObject({ title: 'Portfolio', order: 3 });
+    const [replaced] = await listRevisions(admin, id);
+    expect(replaced.snapshot).toMatchObject({ title: 'Renamed', order: 3 });
+  });
+});
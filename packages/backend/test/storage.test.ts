@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { api, internal } from '../convex/_generated/api';
+import type { Id } from '../convex/_generated/dataModel';
+import { STORAGE_GC_GRACE_MS } from '../convex/lib/storage';
+import { finishScheduledFunctions, setupConvex } from './convexTest';
+
+const FOREIGN_URL = 'https://other-deployment.convex.cloud/api/storage/5f1c3e0a-0000-4000-8000-000000000000';
+
+const PROJECT = {
+  title: 'Portfolio',
+  description: 'This site.',
+  categories: ['web'],
+  techStack: [],
+  order: 0,
+};
+
+async function upload(t: ReturnType<typeof setupConvex>['t'], admin: ReturnType<typeof setupConvex>['admin']) {
+  const storageId = await t.run((ctx) => ctx.storage.store(new Blob(['file'], { type: 'text/plain' })));
+  const url = await admin.mutation(api.admin.resolveStorageUrl, { storageId });
+  return { storageId, url: url as string };
+}
+
+// Pretends the files were uploaded before the grace period started.
+function ageStorage() {
+  const realNow = Date.now;
+  Date.now = () => realNow() + STORAGE_GC_GRACE_MS + 1;
+  return () => {
+    Date.now = realNow;
+  };
+}
+
+describe('purgeOrphanedStorage', () => {
+  afterEach(finishScheduledFunctions);
+
+  it('keeps referenced uploads and deletes unreferenced ones', async () => {
+    const { t, admin } = setupConvex();
+    const used = await upload(t, admin);
+    const unused = await upload(t, admin);
+    await admin.mutation(api.admin.createProject, { ...PROJECT, image: used.url });
+
+    const restore = ageStorage();
+    try {
+      const result = await t.mutation(internal.maintenance.purgeOrphanedStorage, {});
+      expect(result).toMatchObject({ deletedCount: 1, unresolvedUrls: [] });
+    } finally {
+      restore();
+    }
+
+    expect(await t.run((ctx) => ctx.db.system.get(used.storageId))).not.toBeNull();
+    expect(await t.run((ctx) => ctx.db.system.get(unused.storageId))).toBeNull();
+  });
+
+  it('reports storage URLs from an imported file and keeps unrecorded files instead of failing', async () => {
+    const { t, admin } = setupConvex();
+    const used = await upload(t, admin);
+    const unused = await upload(t, admin);
+    const unrecorded = await t.run((ctx) => ctx.storage.store(new Blob(['legacy'], { type: 'text/plain' })));
+    await admin.mutation(api.admin.createProject, { ...PROJECT, image: used.url });
+
+    const exported = await admin.action(api.admin.exportPortfolio, {});
+    await admin.mutation(api.admin.importPortfolio, {
+      document: {
+        ...exported,
+        projects: [...exported.projects, { ...PROJECT, key: 'from-elsewhere', title: 'Elsewhere', image: FOREIGN_URL }],
+      },
+      mode: 'merge',
+      dryRun: false,
+    });
+
+    const restore = ageStorage();
+    try {
+      const result = await t.mutation(internal.maintenance.purgeOrphanedStorage, {});
+      expect(result).toEqual({
+        deletedCount: 1,
+        freedBytes: 4,
+        keptUnverifiedCount: 1,
+        unresolvedUrls: [FOREIGN_URL],
+      });
+    } finally {
+      restore();
+    }
+
+    const exists = (storageId: Id<'_storage'>) => t.run(async (ctx) => (await ctx.db.system.get(storageId)) !== null);
+    expect(await exists(used.storageId)).toBe(true);
+    expect(await exists(unrecorded)).toBe(true);
+    expect(await exists(unused.storageId)).toBe(false);
+  });
+});
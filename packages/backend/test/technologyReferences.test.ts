@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { api } from '../convex/_generated/api';
+import { canonicalizeTechNames, normalizeTechName } from '../convex/lib/technologyReferences';
+import { finishScheduledFunctions, setupConvex } from './convexTest';
+
+const PROJECT = {
+  title: 'Portfolio',
+  slug: 'portfolio',
+  description: 'This site.',
+  categories: ['web'],
+  order: 0,
+};
+
+describe('canonicalizeTechNames', () => {
+  it('uses the technology spelling, drops duplicates and keeps unknown names', () => {
+    const index = new Map([[normalizeTechName('Next.js'), 'Next.js']]);
+
+    expect(canonicalizeTechNames([' next.JS ', 'Next.js', 'Tail  wind', ''], index)).toEqual({
+      names: ['Next.js', 'Tail  wind'],
+      orphaned: ['Tail  wind'],
+    });
+  });
+});
+
+describe('technology references', () => {
+  afterEach(finishScheduledFunctions);
+
+  it('stores project technologies in their canonical spelling', async () => {
+    const { t, admin } = setupConvex();
+    await admin.mutation(api.admin.createTechnology, { name: 'TypeScript', category: 'language', order: 1 });
+
+    const id = await admin.mutation(api.admin.createProject, { ...PROJECT, techStack: ['typescript', 'Bun'] });
+
+    expect((await t.run((ctx) => ctx.db.get(id)))?.techStack).toEqual(['TypeScript', 'Bun']);
+    expect(await admin.query(api.admin.getOrphanedTechnologies, {})).toEqual([
+      { name: 'Bun', references: [{ table: 'projects', id, label: 'Portfolio' }] },
+    ]);
+  });
+
+  it('rewrites references when a technology is renamed, trashed documents included', async () => {
+    const { t, admin } = setupConvex();
+    const technology = await admin.mutation(api.admin.createTechnology, {
+      name: 'React',
+      category: 'frontend',
+      order: 1,
+    });
+    const live = await admin.mutation(api.admin.createProject, { ...PROJECT, techStack: ['React'] });
+    const trashed = await admin.mutation(api.admin.createProject, {
+      ...PROJECT,
+      slug: 'archive',
+      order: 1,
+      techStack: ['react'],
+    });
+    await admin.mutation(api.admin.deleteProject, { id: trashed });
+
+    await admin.mutation(api.admin.updateTechnology, {
+      id: technology,
+      name: 'React.js',
+      category: 'frontend',
+      order: 1,
+    });
+
+    const docs = await t.run((ctx) => Promise.all([ctx.db.get(live), ctx.db.get(trashed)]));
+    expect(docs.map((doc) => doc?.techStack)).toEqual([['React.js'], ['React.js']]);
+    expect(await admin.query(api.admin.getOrphanedTechnologies, {})).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { api, internal } from '../convex/_generated/api';
+import { getTrashRetentionMs } from '../convex/lib/trash';
+import { finishScheduledFunctions, setupConvex } from './convexTest';
+
+async function seedProvider(admin: ReturnType<typeof setupConvex>['admin']) {
+  const providerId = await admin.mutation(api.admin.createCloudProvider, { name: 'AWS', order: 0 });
+  const certificate = (name: string, order: number) =>
+    admin.mutation(api.admin.createCertificate, { providerId, name, image: '/aws.png', year: '2024', order });
+  return { providerId, first: await certificate('Architect', 0), second: await certificate('Developer', 1) };
+}
+
+describe('trash', () => {
+  afterEach(finishScheduledFunctions);
+
+  it('restores only the children trashed with their parent', async () => {
+    const { t, admin } = setupConvex();
+    const { providerId, first, second } = await seedProvider(admin);
+
+    await admin.mutation(api.admin.deleteCertificate, { id: first });
+    await admin.mutation(api.admin.deleteCloudProvider, { id: providerId });
+    expect(await t.run((ctx) => ctx.db.get(second))).toMatchObject({ trashedWith: providerId });
+
+    const result = await admin.mutation(api.admin.restoreTrashedItem, { table: 'cloudProviders', id: providerId });
+
+    expect(result).toEqual({ restoredCount: 2 });
+    const [restored, stillTrashed] = await t.run((ctx) => Promise.all([ctx.db.get(second), ctx.db.get(first)]));
+    expect(restored?.deletedAt).toBeUndefined();
+    expect(restored?.trashedWith).toBeUndefined();
+    expect(stillTrashed?.deletedAt).toBeNumber();
+  });
+
+  it('refuses to restore a child whose parent is trashed or deleted permanently', async () => {
+    const { admin } = setupConvex();
+    const { providerId, first } = await seedProvider(admin);
+
+    await admin.mutation(api.admin.deleteCertificate, { id: first });
+    await admin.mutation(api.admin.deleteCloudProvider, { id: providerId });
+    const restoreChild = () => admin.mutation(api.admin.restoreTrashedItem, { table: 'certificates', id: first });
+    await expect(restoreChild()).rejects.toThrow('Restore the cloud provider first');
+
+    await admin.mutation(api.admin.deleteTrashedItemPermanently, { table: 'cloudProviders', id: providerId });
+    await expect(restoreChild()).rejects.toThrow('deleted permanently');
+  });
+
+  it('purges expired items through the audit log', async () => {
+    const { t, admin } = setupConvex();
+    const { providerId, first, second } = await seedProvider(admin);
+    await admin.mutation(api.admin.deleteCloudProvider, { id: providerId });
+
+    const realNow = Date.now;
+    Date.now = () => realNow() + getTrashRetentionMs() + 1;
+    try {
+      expect(await t.mutation(internal.maintenance.purgeExpiredTrash, {})).toEqual({ purgedCount: 3 });
+    } finally {
+      Date.now = realNow;
+    }
+
+    const auditLog = await t.run((ctx) => ctx.db.query('auditLog').collect());
+    expect(
+      auditLog
+        .filter((entry) => entry.actorSubject === 'system:trash-retention')
+        .map((entry) => [entry.action, entry.documentId])
+        .sort(),
+    ).toEqual(
+      [
+        ['delete', providerId],
+        ['delete', first],
+        ['delete', second],
+      ].sort(),
+    );
+  });
+});
@@ -0,0 +1,182 @@
+#!/usr/bin/env node
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { createWayAuthMockServer, type WayAuthMockUser } from "./server";
+
+type CliOptions = {
+  port: number;
+  baseUrl?: string;
+  audience?: string;
+  users: WayAuthMockUser[];
+  accessTokenTtlSeconds?: number;
+  signupSecret?: string;
+  help?: boolean;
+};
+
+const DEFAULT_PORT = 4010;
+const DEFAULT_USER: WayAuthMockUser = {
+  email: "owner@example.com",
+  password: "password123",
+  roles: ["portfolio.owner"],
+};
+
+// email:password[:role,role]
+function parseUser(value: string): WayAuthMockUser {
+  const [email, password, roles] = value.split(":");
+  if (!email || !password) {
+    throw new Error(`Invalid --user value: ${value}. Expected email:password[:role,role].`);
+  }
+  return { email, password, roles: roles ? roles.split(",").filter(Boolean) : [] };
+}
+
+function parsePositiveInteger(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${flag} must be a positive integer.`);
+  }
+  return parsed;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { port: DEFAULT_PORT, users: [] };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    const next = argv[index + 1];
+    if (arg === "--help" || arg === "-h") {
+      options.help = true;
+      continue;
+    }
+    if (arg === "--port") {
+      options.port = parsePositiveInteger(arg, next);
+      index += 1;
+      continue;
+    }
+    if (arg === "--base-url" && next) {
+      options.baseUrl = next;
+      index += 1;
+      continue;
+    }
+    if (arg === "--audience" && next) {
+      options.audience = next;
+      index += 1;
+      continue;
+    }
+    if (arg === "--user" && next) {
+      options.users.push(parseUser(next));
+      index += 1;
+      continue;
+    }
+    if (arg === "--access-token-ttl") {
+      options.accessTokenTtlSeconds = parsePositiveInteger(arg, next);
+      index += 1;
+      continue;
+    }
+    if (arg === "--signup-secret" && next) {
+      options.signupSecret = next;
+      index += 1;
+      continue;
+    }
+
+    throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  return options;
+}
+
+function printUsage() {
+  const message = [
+    "",
+    "way-auth-mock",
+    "",
+    "Usage:",
+    "  way-auth-mock [options]",
+    "",
+    "Options:",
+    `  --port                     (default: ${DEFAULT_PORT})`,
+    "  --base-url                 public origin, used as issuer (default: http://localhost:<port>)",
+    "  --audience                 (default: way-clients)",
+    "  --user                     email:password[:role,role], repeatable",
+    `                             (default: ${DEFAULT_USER.email}:${DEFAULT_USER.password}:portfolio.owner)`,
+    "  --access-token-ttl         seconds (default: 900)",
+    "  --signup-secret            require x-way-signup-secret on signup",
+    "  --help                     show help",
+    "",
+  ].join("\n");
+
+  console.log(message);
+}
+
+async function toRequest(incoming: IncomingMessage, baseUrl: string): Promise<Request> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of incoming) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(incoming.headers)) {
+    for (const entry of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      headers.append(name, entry);
+    }
+  }
+
+  const method = incoming.method ?? "GET";
+  return new Request(new URL(incoming.url ?? "/", baseUrl), {
+    method,
+    headers,
+    body: method === "GET" || method === "HEAD" || chunks.length === 0 ? undefined : Buffer.concat(chunks),
+  });
+}
+
+async function writeResponse(response: Response, outgoing: ServerResponse) {
+  const headers: Record<string, string | string[]> = {};
+  response.headers.forEach((value, name) => {
+    if (name !== "set-cookie") {
+      headers[name] = value;
+    }
+  });
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length > 0) {
+    headers["set-cookie"] = cookies;
+  }
+
+  outgoing.writeHead(response.status, headers);
+  outgoing.end(Buffer.from(await response.arrayBuffer()));
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.help) {
+    printUsage();
+    process.exit(0);
+  }
+
+  const baseUrl = options.baseUrl ?? `http://localhost:${options.port}`;
+  const mock = await createWayAuthMockServer({
+    baseUrl,
+    audience: options.audience,
+    users: options.users.length > 0 ? options.users : [DEFAULT_USER],
+    accessTokenTtlSeconds: options.accessTokenTtlSeconds,
+    signupSecret: options.signupSecret,
+  });
+
+  const server = createServer((incoming, outgoing) => {
+    void toRequest(incoming, baseUrl)
+      .then((request) => mock.handle(request))
+      .then((response) => writeResponse(response, outgoing))
+      .catch((error: unknown) => {
+        console.error(error);
+        outgoing.writeHead(500, { "content-type": "application/json" });
+        outgoing.end(JSON.stringify({ error: { code: "internal_error", message: "Something went wrong." } }));
+      });
+  });
+
+  server.listen(options.port, () => {
+    console.log(`WAY Auth mock listening on ${baseUrl} (issuer ${mock.issuer}, audience ${mock.audience})`);
+  });
+}
+
+void main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : "Mock server failed to start.";
+  console.error(message);
+  process.exit(1);
+});
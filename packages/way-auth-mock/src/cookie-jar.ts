@@ -0,0 +1,92 @@
+import type { WayAuthMockServer } from "./server";
+
+type StoredCookie = {
+  value: string;
+  path: string;
+  expiresAt: number | null;
+};
+
+export type WayAuthMockFetchOptions = {
+  /** Handles requests for other origins. Without it they are rejected. */
+  fallback?: typeof fetch;
+};
+
+function parseSetCookie(header: string): { name: string; cookie: StoredCookie } | null {
+  const [pair, ...attributes] = header.split(";");
+  const separator = pair.indexOf("=");
+  if (separator === -1) {
+    return null;
+  }
+
+  const cookie: StoredCookie = { value: pair.slice(separator + 1).trim(), path: "/", expiresAt: null };
+  for (const attribute of attributes) {
+    const [key, value = ""] = attribute.split("=").map((part) => part.trim());
+    if (key.toLowerCase() === "path") {
+      cookie.path = value || "/";
+    } else if (key.toLowerCase() === "max-age") {
+      cookie.expiresAt = Date.now() + Number(value) * 1000;
+    }
+  }
+  return { name: pair.slice(0, separator).trim(), cookie };
+}
+
+/**
+ * A `fetch` that sends requests for the mock's origin to `server.handle` and
+ * keeps its cookies like a browser would, so SDK clients can log in, refresh
+ * and log out without a network.
+ */
+export function createWayAuthMockFetch(server: WayAuthMockServer, options: WayAuthMockFetchOptions = {}) {
+  const origin = new URL(server.baseUrl).origin;
+  const jar = new Map<string, StoredCookie>();
+
+  function readJar(pathname: string): string {
+    const now = Date.now();
+    const pairs: string[] = [];
+    for (const [name, cookie] of jar) {
+      if (cookie.expiresAt !== null && cookie.expiresAt <= now) {
+        jar.delete(name);
+      } else if (pathname === cookie.path || pathname.startsWith(`${cookie.path.replace(/\/+$/, "")}/`)) {
+        pairs.push(`${name}=${cookie.value}`);
+      }
+    }
+    return pairs.join("; ");
+  }
+
+  const mockFetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    if (url.origin !== origin) {
+      if (!options.fallback) {
+        throw new Error(`No mock handler for ${url.origin}.`);
+      }
+      return options.fallback(input, init);
+    }
+
+    // An explicit cookie header wins over the jar, so tests can replay old cookies.
+    const headers = new Headers(request.headers);
+    const cookie = headers.has("cookie") || request.credentials === "omit" ? "" : readJar(url.pathname);
+    if (cookie) {
+      headers.set("cookie", cookie);
+    }
+
+    const response = await server.handle(new Request(request, { headers }));
+    for (const header of response.headers.getSetCookie()) {
+      const parsed = parseSetCookie(header);
+      if (!parsed) {
+        continue;
+      }
+      if (parsed.cookie.expiresAt !== null && parsed.cookie.expiresAt <= Date.now()) {
+        jar.delete(parsed.name);
+      } else {
+        jar.set(parsed.name, parsed.cookie);
+      }
+    }
+    return response;
+  };
+
+  return {
+    fetch: mockFetch,
+    getCookie: (name: string) => jar.get(name)?.value ?? null,
+    clearCookies: () => jar.clear(),
+  };
+}
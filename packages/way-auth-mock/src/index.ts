@@ -0,0 +1,9 @@
+export {
+  createWayAuthMockServer,
+  type WayAuthMockEndpoint,
+  type WayAuthMockErrorInjection,
+  type WayAuthMockServer,
+  type WayAuthMockServerOptions,
+  type WayAuthMockUser,
+} from "./server";
+export { createWayAuthMockFetch, type WayAuthMockFetchOptions } from "./cookie-jar";
@@ -0,0 +1,399 @@
+import { randomUUID } from "node:crypto";
+import {
+  createWayAuthVerifier,
+  extractBearerTokenFromRequest,
+  WAY_AUTH_DEFAULT_ENDPOINTS,
+  WAY_AUTH_DISCOVERY_PATH,
+  WAY_AUTH_ERROR_MESSAGES,
+  type WayAuthDiscoveryDocument,
+  type WayAuthErrorCode,
+  type WayAuthTokenResponse,
+  type WayAuthUser,
+} from "@way/auth-sdk";
+import { createWayAuthTestIssuer, type WayAuthTestAlgorithm } from "@way/auth-sdk/testing";
+
+export type WayAuthMockEndpoint = "signup" | "login" | "refresh" | "logout" | "me" | "jwks" | "discovery";
+
+export type WayAuthMockUser = {
+  id?: string;
+  email: string;
+  password: string;
+  roles?: string[];
+  permissions?: string[];
+};
+
+export type WayAuthMockErrorInjection = {
+  endpoint: WayAuthMockEndpoint;
+  code: WayAuthErrorCode;
+  /** Number of requests that fail before the endpoint recovers. Defaults to 1. */
+  times?: number;
+  /** Overrides the status normally used for the code. */
+  status?: number;
+};
+
+export type WayAuthMockServerOptions = {
+  /** Origin the mock is reached at; also the token issuer unless `issuer` is set. */
+  baseUrl?: string;
+  issuer?: string;
+  audience?: string;
+  alg?: WayAuthTestAlgorithm;
+  users?: WayAuthMockUser[];
+  accessTokenTtlSeconds?: number;
+  refreshTokenTtlSeconds?: number;
+  /** When set, signup requires it in the `x-way-signup-secret` header. */
+  signupSecret?: string;
+  /** Roles given to accounts created through signup. */
+  signupRoles?: string[];
+  refreshCookieName?: string;
+  /** Clock used for refresh token expiry; tests can move it forward. */
+  now?: () => number;
+};
+
+type StoredUser = Required<Omit<WayAuthMockUser, "id">> & { id: string };
+
+type MockSession = {
+  id: string;
+  userId: string;
+  refreshToken: string;
+  refreshExpiresAt: number;
+  revoked: boolean;
+};
+
+const DEFAULT_MOCK_BASE_URL = "http://localhost:4010";
+const DEFAULT_MOCK_AUDIENCE = "way-clients";
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+const DEFAULT_REFRESH_COOKIE_NAME = "way_refresh_token";
+const SIGNUP_SECRET_HEADER = "x-way-signup-secret";
+const RATE_LIMIT_RETRY_AFTER_SECONDS = 1;
+const MIN_PASSWORD_LENGTH = 8;
+
+const ERROR_STATUS: Record<WayAuthErrorCode, number> = {
+  email_taken: 409,
+  forbidden: 403,
+  internal_error: 500,
+  invalid_credentials: 401,
+  invalid_input: 400,
+  invalid_json: 400,
+  invalid_origin: 403,
+  expired_refresh_token: 401,
+  invalid_refresh_token: 401,
+  invalid_session_id: 400,
+  invalid_signup_secret: 403,
+  invalid_token: 401,
+  login_failed: 500,
+  missing_bearer_token: 401,
+  missing_refresh_token: 401,
+  rate_limited: 429,
+  session_not_found: 401,
+  signup_failed: 500,
+};
+
+function json(body: unknown, status = 200, headers: HeadersInit = {}): Response {
+  const responseHeaders = new Headers(headers);
+  responseHeaders.set("content-type", "application/json");
+  responseHeaders.set("cache-control", "no-store");
+  return new Response(JSON.stringify(body), { status, headers: responseHeaders });
+}
+
+function errorResponse(code: WayAuthErrorCode, status = ERROR_STATUS[code]): Response {
+  const headers: HeadersInit =
+    code === "rate_limited" ? { "retry-after": String(RATE_LIMIT_RETRY_AFTER_SECONDS) } : {};
+  return json({ error: { code, message: WAY_AUTH_ERROR_MESSAGES[code] } }, status, headers);
+}
+
+function readCookie(request: Request, name: string): string | null {
+  for (const part of (request.headers.get("cookie") ?? "").split(";")) {
+    const separator = part.indexOf("=");
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+  return null;
+}
+
+async function readCredentials(request: Request): Promise<{ email: string; password: string } | WayAuthErrorCode> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return "invalid_json";
+  }
+
+  const record = body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+  const email = typeof record.email === "string" ? record.email.trim().toLowerCase() : "";
+  const password = typeof record.password === "string" ? record.password : "";
+  if (!email.includes("@") || !password) {
+    return "invalid_input";
+  }
+  return { email, password };
+}
+
+const toPublicUser = (user: StoredUser): WayAuthUser => ({ id: user.id, email: user.email });
+
+/**
+ * In-process stand-in for the WAY Auth service. `handle` answers the same
+ * endpoints, with tokens signed by keys published at the JWKS endpoint and a
+ * refresh cookie that rotates on every refresh.
+ */
+export async function createWayAuthMockServer(options: WayAuthMockServerOptions = {}) {
+  const baseUrl = (options.baseUrl ?? DEFAULT_MOCK_BASE_URL).replace(/\/+$/, "");
+  const issuer = await createWayAuthTestIssuer({
+    issuer: options.issuer ?? baseUrl,
+    audience: options.audience ?? DEFAULT_MOCK_AUDIENCE,
+    alg: options.alg,
+  });
+  const accessTokenTtlSeconds = options.accessTokenTtlSeconds ?? DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+  const refreshTokenTtlSeconds = options.refreshTokenTtlSeconds ?? DEFAULT_REFRESH_TOKEN_TTL_SECONDS;
+  const refreshCookieName = options.refreshCookieName ?? DEFAULT_REFRESH_COOKIE_NAME;
+  const now = options.now ?? Date.now;
+
+  const users = new Map<string, StoredUser>();
+  const sessions = new Map<string, MockSession>();
+  // Every refresh token ever issued, so a rotated one can be recognised on reuse.
+  const refreshTokens = new Map<string, string>();
+  const injections: Array<Required<Omit<WayAuthMockErrorInjection, "status">> & { status?: number }> = [];
+
+  function addUser(user: WayAuthMockUser): WayAuthUser {
+    const email = user.email.trim().toLowerCase();
+    if ([...users.values()].some((existing) => existing.email === email)) {
+      throw new Error(`A mock user with email ${email} already exists.`);
+    }
+
+    const stored: StoredUser = {
+      id: user.id ?? `user_${randomUUID()}`,
+      email,
+      password: user.password,
+      roles: user.roles ?? [],
+      permissions: user.permissions ?? [],
+    };
+    users.set(stored.id, stored);
+    return toPublicUser(stored);
+  }
+
+  for (const user of options.users ?? []) {
+    addUser(user);
+  }
+
+  function findUserByEmail(email: string): StoredUser | undefined {
+    return [...users.values()].find((user) => user.email === email);
+  }
+
+  function injectError(injection: WayAuthMockErrorInjection): void {
+    injections.push({ ...injection, times: injection.times ?? 1 });
+  }
+
+  function takeInjectedError(endpoint: WayAuthMockEndpoint): Response | null {
+    const index = injections.findIndex((injection) => injection.endpoint === endpoint);
+    if (index === -1) {
+      return null;
+    }
+
+    const injection = injections[index];
+    injection.times -= 1;
+    if (injection.times <= 0) {
+      injections.splice(index, 1);
+    }
+    return errorResponse(injection.code, injection.status);
+  }
+
+  function refreshCookie(value: string, maxAgeSeconds: number): string {
+    const secure = baseUrl.startsWith("https://") ? "; Secure" : "";
+    const encoded = encodeURIComponent(value);
+    return `${refreshCookieName}=${encoded}; Path=/api/v1; Max-Age=${maxAgeSeconds}; HttpOnly; SameSite=Lax${secure}`;
+  }
+
+  function rotateRefreshToken(session: MockSession): string {
+    session.refreshToken = randomUUID();
+    session.refreshExpiresAt = now() + refreshTokenTtlSeconds * 1000;
+    refreshTokens.set(session.refreshToken, session.id);
+    return refreshCookie(session.refreshToken, refreshTokenTtlSeconds);
+  }
+
+  async function tokenResponse(user: StoredUser, session: MockSession): Promise<WayAuthTokenResponse> {
+    const accessToken = await issuer.mintAccessToken(
+      { sub: user.id, sid: session.id, email: user.email, roles: user.roles, permissions: user.permissions },
+      { expiresIn: accessTokenTtlSeconds },
+    );
+    return { accessToken, tokenType: "Bearer", expiresIn: accessTokenTtlSeconds };
+  }
+
+  async function startSession(user: StoredUser, status: number): Promise<Response> {
+    const session: MockSession = {
+      id: `sess_${randomUUID()}`,
+      userId: user.id,
+      refreshToken: "",
+      refreshExpiresAt: 0,
+      revoked: false,
+    };
+    sessions.set(session.id, session);
+    const cookie = rotateRefreshToken(session);
+    const body = { ...(await tokenResponse(user, session)), user: toPublicUser(user) };
+    return json(body, status, { "set-cookie": cookie });
+  }
+
+  async function signup(request: Request): Promise<Response> {
+    if (options.signupSecret && request.headers.get(SIGNUP_SECRET_HEADER) !== options.signupSecret) {
+      return errorResponse("invalid_signup_secret");
+    }
+
+    const credentials = await readCredentials(request);
+    if (typeof credentials === "string") {
+      return errorResponse(credentials);
+    }
+    if (credentials.password.length < MIN_PASSWORD_LENGTH) {
+      return errorResponse("invalid_input");
+    }
+    if (findUserByEmail(credentials.email)) {
+      return errorResponse("email_taken");
+    }
+
+    const { id } = addUser({ ...credentials, roles: options.signupRoles });
+    return startSession(users.get(id)!, 201);
+  }
+
+  async function login(request: Request): Promise<Response> {
+    const credentials = await readCredentials(request);
+    if (typeof credentials === "string") {
+      return errorResponse(credentials);
+    }
+
+    const user = findUserByEmail(credentials.email);
+    if (!user || user.password !== credentials.password) {
+      return errorResponse("invalid_credentials");
+    }
+    return startSession(user, 200);
+  }
+
+  async function refresh(request: Request): Promise<Response> {
+    const token = readCookie(request, refreshCookieName);
+    if (!token) {
+      return errorResponse("missing_refresh_token");
+    }
+
+    const session = sessions.get(refreshTokens.get(token) ?? "");
+    if (!session || session.revoked) {
+      return errorResponse("invalid_refresh_token");
+    }
+    if (session.refreshToken !== token) {
+      // A rotated token came back: treat it as stolen and end the session.
+      session.revoked = true;
+      return errorResponse("invalid_refresh_token");
+    }
+    if (session.refreshExpiresAt <= now()) {
+      return errorResponse("expired_refresh_token");
+    }
+
+    const user = users.get(session.userId);
+    if (!user) {
+      return errorResponse("session_not_found");
+    }
+
+    const cookie = rotateRefreshToken(session);
+    return json(await tokenResponse(user, session), 200, { "set-cookie": cookie });
+  }
+
+  function logout(request: Request): Response {
+    const token = readCookie(request, refreshCookieName);
+    const session = token ? sessions.get(refreshTokens.get(token) ?? "") : undefined;
+    if (session) {
+      session.revoked = true;
+    }
+    return json({ success: true }, 200, { "set-cookie": refreshCookie("", 0) });
+  }
+
+  async function me(request: Request): Promise<Response> {
+    const token = extractBearerTokenFromRequest(request);
+    if (!token) {
+      return errorResponse("missing_bearer_token");
+    }
+
+    let claims;
+    try {
+      claims = await createWayAuthVerifier(issuer.verifierOptions()).verifyAccessToken(token);
+    } catch {
+      return errorResponse("invalid_token");
+    }
+
+    const session = typeof claims.sid === "string" ? sessions.get(claims.sid) : undefined;
+    const user = users.get(claims.sub);
+    if (!session || session.revoked || !user) {
+      return errorResponse("session_not_found");
+    }
+    return json({ user: toPublicUser(user), sessionId: session.id });
+  }
+
+  function discoveryDocument(): WayAuthDiscoveryDocument {
+    const { jwks, ...endpoints } = WAY_AUTH_DEFAULT_ENDPOINTS;
+    return {
+      version: "1",
+      issuer: issuer.issuer,
+      audience: issuer.audience,
+      jwks_url: `${baseUrl}${jwks}`,
+      endpoints,
+    };
+  }
+
+  const routes: Record<string, { endpoint: WayAuthMockEndpoint; method: "GET" | "POST" }> = {
+    [WAY_AUTH_DEFAULT_ENDPOINTS.signup]: { endpoint: "signup", method: "POST" },
+    [WAY_AUTH_DEFAULT_ENDPOINTS.login]: { endpoint: "login", method: "POST" },
+    [WAY_AUTH_DEFAULT_ENDPOINTS.refresh]: { endpoint: "refresh", method: "POST" },
+    [WAY_AUTH_DEFAULT_ENDPOINTS.logout]: { endpoint: "logout", method: "POST" },
+    [WAY_AUTH_DEFAULT_ENDPOINTS.me]: { endpoint: "me", method: "GET" },
+    [WAY_AUTH_DEFAULT_ENDPOINTS.jwks]: { endpoint: "jwks", method: "GET" },
+    [WAY_AUTH_DISCOVERY_PATH]: { endpoint: "discovery", method: "GET" },
+  };
+
+  async function handle(request: Request): Promise<Response> {
+    const pathname = new URL(request.url).pathname.replace(/\/+$/, "");
+    const route = routes[pathname];
+    if (!route) {
+      return json({ error: { code: "not_found", message: "Not found." } }, 404);
+    }
+    if (request.method !== route.method) {
+      return json({ error: { code: "method_not_allowed", message: "Method not allowed." } }, 405, {
+        allow: route.method,
+      });
+    }
+
+    const injected = takeInjectedError(route.endpoint);
+    if (injected) {
+      return injected;
+    }
+
+    switch (route.endpoint) {
+      case "signup":
+        return signup(request);
+      case "login":
+        return login(request);
+      case "refresh":
+        return refresh(request);
+      case "logout":
+        return logout(request);
+      case "me":
+        return me(request);
+      case "jwks":
+        return json(issuer.getJwks());
+      case "discovery":
+        return json(discoveryDocument());
+    }
+  }
+
+  return {
+    baseUrl,
+    issuer: issuer.issuer,
+    audience: issuer.audience,
+    handle,
+    addUser,
+    injectError,
+    clearInjectedErrors: () => {
+      injections.length = 0;
+    },
+    /** Signs new tokens with a fresh key; the old key stays in the JWKS. */
+    rotateSigningKey: () => issuer.rotateKey(),
+    /** Local verifier options, for checking mock tokens without fetching the JWKS. */
+    verifierOptions: () => issuer.verifierOptions(),
+  };
+}
+
+export type WayAuthMockServer = Awaited<ReturnType<typeof createWayAuthMockServer>>;
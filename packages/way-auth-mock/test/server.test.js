@@ -0,0 +1,145 @@
+import { describe, expect, it } from "bun:test";
+import { createWayAuthClient, createWayAuthGuard, resolveWayAuthConfig, WayAuthApiError } from "@way/auth-sdk";
+import { createWayAuthMockFetch, createWayAuthMockServer } from "../src/index.ts";
+
+const OWNER = { email: "owner@example.com", password: "password123", roles: ["owner"] };
+
+async function setup(options = {}) {
+  const server = await createWayAuthMockServer({ users: [OWNER], ...options });
+  const mockFetch = createWayAuthMockFetch(server);
+  const client = createWayAuthClient({ baseUrl: server.baseUrl, fetch: mockFetch.fetch });
+  return { server, mockFetch, client };
+}
+
+describe("createWayAuthMockServer", () => {
+  it("serves a discovery document the SDK resolves", async () => {
+    const { server, mockFetch } = await setup();
+
+    const config = await resolveWayAuthConfig({
+      baseUrl: server.baseUrl,
+      discoveryMode: "always",
+      discoveryCacheTtlMs: 0,
+      fetch: mockFetch.fetch,
+    });
+
+    expect(config.issuer).toBe(server.issuer);
+    expect(config.audience).toBe(server.audience);
+    expect(config.jwksUrl).toBe(`${server.baseUrl}/api/v1/jwks`);
+  });
+
+  it("issues access tokens that verify against its JWKS", async () => {
+    const { server, mockFetch, client } = await setup();
+    const { accessToken, user } = await client.login({ email: OWNER.email, password: OWNER.password });
+
+    const guard = createWayAuthGuard({
+      jwksUrl: `${server.baseUrl}/api/v1/jwks`,
+      issuer: server.issuer,
+      audience: server.audience,
+      fetch: mockFetch.fetch,
+    });
+    const claims = await guard.verifyAccessToken(accessToken);
+
+    expect(claims.sub).toBe(user.id);
+    expect(claims.roles).toEqual(["owner"]);
+    expect(await client.me()).toMatchObject({ user: { email: OWNER.email }, sessionId: claims.sid });
+  });
+
+  it("rotates the refresh cookie and rejects a reused one", async () => {
+    const { mockFetch, client } = await setup();
+    await client.login({ email: OWNER.email, password: OWNER.password });
+    const firstCookie = mockFetch.getCookie("way_refresh_token");
+
+    await client.refresh();
+    const secondCookie = mockFetch.getCookie("way_refresh_token");
+    expect(secondCookie).not.toBe(firstCookie);
+
+    const replay = await mockFetch.fetch("http://localhost:4010/api/v1/refresh", {
+      method: "POST",
+      credentials: "omit",
+      headers: { cookie: `way_refresh_token=${firstCookie}` },
+    });
+    expect(replay.status).toBe(401);
+    expect((await replay.json()).error.code).toBe("invalid_refresh_token");
+
+    // Reuse ends the whole session.
+    await expect(client.refresh()).rejects.toMatchObject({ code: "invalid_refresh_token" });
+  });
+
+  it("expires refresh tokens after their TTL", async () => {
+    let now = Date.now();
+    const { client } = await setup({ refreshTokenTtlSeconds: 60, now: () => now });
+    await client.login({ email: OWNER.email, password: OWNER.password });
+
+    now += 61_000;
+    await expect(client.refresh()).rejects.toMatchObject({ code: "expired_refresh_token", status: 401 });
+  });
+
+  it("logs out by clearing the cookie and ending the session", async () => {
+    const { mockFetch, client } = await setup();
+    const { accessToken } = await client.login({ email: OWNER.email, password: OWNER.password });
+
+    await expect(client.logout()).resolves.toEqual({ success: true });
+    expect(mockFetch.getCookie("way_refresh_token")).toBeNull();
+
+    const response = await mockFetch.fetch("http://localhost:4010/api/v1/me", {
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+    expect(response.status).toBe(401);
+    expect((await response.json()).error.code).toBe("session_not_found");
+  });
+
+  it("creates accounts on signup and enforces the signup secret", async () => {
+    const { server, client } = await setup({ signupSecret: "let-me-in", signupRoles: ["editor"] });
+    await expect(client.signup({ email: "new@example.com", password: "password123" })).rejects.toMatchObject({
+      code: "invalid_signup_secret",
+      status: 403,
+    });
+
+    const signedUp = createWayAuthClient({
+      baseUrl: server.baseUrl,
+      fetch: createWayAuthMockFetch(server).fetch,
+      signupSecret: "let-me-in",
+    });
+    const result = await signedUp.signup({ email: "new@example.com", password: "password123" });
+    expect(result.user.email).toBe("new@example.com");
+    await expect(signedUp.signup({ email: "new@example.com", password: "password123" })).rejects.toMatchObject({
+      code: "email_taken",
+    });
+  });
+
+  it("rejects wrong credentials", async () => {
+    const { client } = await setup();
+    const error = await client.login({ email: OWNER.email, password: "nope" }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(WayAuthApiError);
+    expect(error.code).toBe("invalid_credentials");
+  });
+
+  it("fails injected requests, then recovers", async () => {
+    const { server, client } = await setup();
+    server.injectError({ endpoint: "login", code: "rate_limited", times: 2 });
+
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      await expect(client.login({ email: OWNER.email, password: OWNER.password })).rejects.toMatchObject({
+        code: "rate_limited",
+        status: 429,
+      });
+    }
+    await expect(client.login({ email: OWNER.email, password: OWNER.password })).resolves.toMatchObject({
+      tokenType: "Bearer",
+    });
+
+    server.injectError({ endpoint: "refresh", code: "expired_refresh_token" });
+    await expect(client.refresh()).rejects.toMatchObject({ code: "expired_refresh_token" });
+    await expect(client.refresh()).resolves.toMatchObject({ tokenType: "Bearer" });
+  });
+
+  it("uses the configured access token TTL", async () => {
+    const { client } = await setup({ accessTokenTtlSeconds: 30 });
+    const { accessToken, expiresIn } = await client.login({ email: OWNER.email, password: OWNER.password });
+    const payload = JSON.parse(Buffer.from(accessToken.split(".")[1], "base64url").toString());
+
+    expect(expiresIn).toBe(30);
+    expect(payload.exp - payload.iat).toBe(30);
+  });
+});
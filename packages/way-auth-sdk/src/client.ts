@@ -9,6 +9,7 @@ import type {
   WayAuthRefreshResponse,
   WayAuthSignupResponse,
 } from "./types";
+import type { WayAuthTabSync } from "./tab-sync";
 
 const DEFAULT_ENDPOINTS: WayAuthEndpoints = {
   signup: "/api/v1/signup",
@@ -19,6 +20,10 @@ const DEFAULT_ENDPOINTS: WayAuthEndpoints = {
   jwks: "/api/v1/jwks",
 };
 const SIGNUP_SECRET_HEADER = "x-way-signup-secret";
+const DEFAULT_REFRESH_BEFORE_EXPIRY_SECONDS = 30;
+const DEFAULT_RETRY_BASE_DELAY_MS = 300;
+const DEFAULT_RETRY_MAX_DELAY_MS = 5_000;
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD"]);
 
 type JsonMethod = "GET" | "POST";
 
@@ -26,11 +31,31 @@ type ClientRequestOptions = {
   retryOn401?: boolean;
 };
 
+export type WayAuthRetryOptions = {
+  /** Extra attempts after a 429 response, or a network error on GET/HEAD. Defaults to 0. */
+  retries?: number;
+  /** First backoff delay, doubled on every attempt. Defaults to 300 ms. */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay, including `Retry-After`. Defaults to 5 s. */
+  maxDelayMs?: number;
+};
+
 export type WayAuthClientOptions = {
   baseUrl: string;
   fetch?: typeof fetch;
   credentials?: RequestCredentials;
   autoRefresh?: boolean;
+  /**
+   * `fetchWithAuth` refreshes first when the access token expires within this
+   * many seconds. Defaults to 30; 0 turns it off.
+   */
+  refreshBeforeExpirySeconds?: number;
+  retry?: WayAuthRetryOptions;
+  /**
+   * Refreshes through the leader tab: other tabs ask it to refresh and take the
+   * token it publishes, so the refresh token rotates in one tab only.
+   */
+  tabSync?: WayAuthTabSync;
   tokenStore?: AccessTokenStore;
   endpoints?: Partial<WayAuthEndpoints>;
   signupSecret?: string;
@@ -150,12 +175,60 @@ async function readJsonResponse<T>(response: Response): Promise<T> {
   }
 }
 
+// Reads `exp` without verifying the token; only used to decide when to refresh.
+function readTokenExpiryMs(token: string): number | null {
+  const payload = token.split(".")[1];
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const claims = JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="))) as { exp?: unknown };
+    return typeof claims.exp === "number" ? claims.exp * 1_000 : null;
+  } catch {
+    return null;
+  }
+}
+
+function readExpiresInSeconds(token: string): number {
+  const expiresAt = readTokenExpiryMs(token);
+  return expiresAt === null ? 0 : Math.max(0, Math.floor((expiresAt - Date.now()) / 1_000));
+}
+
+function readRetryAfterMs(response: Response): number | null {
+  const value = response.headers.get("retry-after");
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1_000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isReplayableBody(body: RequestInit["body"]): boolean {
+  return !(typeof ReadableStream !== "undefined" && body instanceof ReadableStream);
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
 export function createWayAuthClient(options: WayAuthClientOptions) {
   const fetchImpl = options.fetch ?? fetch;
   const credentials = options.credentials ?? "include";
   const autoRefresh = options.autoRefresh ?? true;
   const tokenStore = options.tokenStore ?? createInMemoryTokenStore();
   const signupSecret = options.signupSecret?.trim() || null;
+  const refreshBeforeExpiryMs = (options.refreshBeforeExpirySeconds ?? DEFAULT_REFRESH_BEFORE_EXPIRY_SECONDS) * 1_000;
+  const retries = Math.max(0, options.retry?.retries ?? 0);
+  const retryBaseDelayMs = options.retry?.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  const retryMaxDelayMs = options.retry?.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+  const tabSync = options.tabSync ?? null;
+  let refreshPromise: Promise<WayAuthRefreshResponse> | null = null;
   const endpoints: WayAuthEndpoints = {
     ...DEFAULT_ENDPOINTS,
     ...options.endpoints,
@@ -169,6 +242,41 @@ export function createWayAuthClient(options: WayAuthClientOptions) {
     await tokenStore.setAccessToken(token);
   }
 
+  function getBackoffDelayMs(attempt: number): number {
+    const delay = Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** attempt);
+    // Jitter keeps tabs and clients that failed together from retrying together.
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  // Retries 429 responses, which the server rejected unprocessed, with
+  // exponential backoff honouring `Retry-After`. Network errors are retried for
+  // GET and HEAD only: a lost response to a POST such as /refresh may have been
+  // processed, and replaying a rotated refresh token ends the session.
+  // Streamed bodies cannot be replayed and are sent once.
+  async function send(url: string, init: RequestInit): Promise<Response> {
+    const maxAttempts = isReplayableBody(init.body) ? retries + 1 : 1;
+    const isIdempotent = IDEMPOTENT_METHODS.has((init.method ?? "GET").toUpperCase());
+
+    for (let attempt = 0; ; attempt += 1) {
+      const isLastAttempt = attempt + 1 >= maxAttempts;
+      let response: Response;
+      try {
+        response = await fetchImpl(url, init);
+      } catch (error) {
+        if (isLastAttempt || !isIdempotent || init.signal?.aborted) {
+          throw error;
+        }
+        await sleep(getBackoffDelayMs(attempt));
+        continue;
+      }
+
+      if (response.status !== 429 || isLastAttempt) {
+        return response;
+      }
+      await sleep(Math.min(retryMaxDelayMs, readRetryAfterMs(response) ?? getBackoffDelayMs(attempt)));
+    }
+  }
+
   async function requestAuthJson<T>(
     method: JsonMethod,
     path: string,
@@ -180,7 +288,7 @@ export function createWayAuthClient(options: WayAuthClientOptions) {
       requestHeaders.set("content-type", "application/json");
     }
 
-    const response = await fetchImpl(joinUrl(options.baseUrl, path), {
+    const response = await send(joinUrl(options.baseUrl, path), {
       method,
       credentials,
       headers: requestHeaders,
@@ -207,10 +315,52 @@ export function createWayAuthClient(options: WayAuthClientOptions) {
     return result;
   }
 
-  async function refresh(): Promise<WayAuthRefreshResponse> {
-    const result = await requestAuthJson<WayAuthRefreshResponse>("POST", endpoints.refresh);
-    await setAccessToken(result.accessToken);
-    return result;
+  // Concurrent callers share one refresh, so the refresh token rotates once.
+  // With tab sync, only the leader tab calls the refresh endpoint.
+  function refresh(): Promise<WayAuthRefreshResponse> {
+    if (!refreshPromise) {
+      refreshPromise = (async () => {
+        const shared = await tabSync?.requestRefresh();
+        if (shared) {
+          await setAccessToken(shared.accessToken);
+          return {
+            accessToken: shared.accessToken,
+            tokenType: "Bearer",
+            expiresIn: shared.expiresIn ?? readExpiresInSeconds(shared.accessToken),
+          };
+        }
+
+        const result = await requestAuthJson<WayAuthRefreshResponse>("POST", endpoints.refresh);
+        await setAccessToken(result.accessToken);
+        tabSync?.publish({ type: "session", accessToken: result.accessToken, expiresIn: result.expiresIn });
+        return result;
+      })().finally(() => {
+        refreshPromise = null;
+      });
+    }
+
+    return refreshPromise;
+  }
+
+  // Waits for a pending refresh, or starts one when the token is about to expire.
+  // Failures are left to the 401 handling of the request itself.
+  tabSync?.onRefreshRequest(() => {
+    void refresh().catch(() => {
+      // The requesting tab falls back to refreshing itself when no token arrives.
+    });
+  });
+
+  async function prepareAccessToken(): Promise<void> {
+    if (refreshPromise) {
+      await refreshPromise.catch(() => undefined);
+      return;
+    }
+
+    const token = await getAccessToken();
+    const expiresAt = token && refreshBeforeExpiryMs > 0 ? readTokenExpiryMs(token) : null;
+    if (expiresAt !== null && expiresAt - Date.now() <= refreshBeforeExpiryMs) {
+      await refresh().catch(() => undefined);
+    }
   }
 
   async function logout(): Promise<WayAuthLogoutResponse> {
@@ -241,17 +391,26 @@ export function createWayAuthClient(options: WayAuthClientOptions) {
     const url = resolveRequestUrl(options.baseUrl, input);
     const refreshUrl = joinUrl(options.baseUrl, endpoints.refresh);
     const isRefreshRequest = normalizeComparableUrl(url) === normalizeComparableUrl(refreshUrl);
-    const headers = new Headers(init.headers);
-    const token = await getAccessToken();
-    if (token) {
-      headers.set("authorization", `Bearer ${token}`);
+
+    if (autoRefresh && !isRefreshRequest) {
+      await prepareAccessToken();
     }
 
-    const response = await fetchImpl(url, {
-      ...init,
-      headers,
-      credentials: init.credentials ?? credentials,
-    });
+    const sendWithToken = (token: string | null) => {
+      const headers = new Headers(init.headers);
+      if (token) {
+        headers.set("authorization", `Bearer ${token}`);
+      }
+
+      return send(url, {
+        ...init,
+        headers,
+        credentials: init.credentials ?? credentials,
+      });
+    };
+
+    const token = await getAccessToken();
+    const response = await sendWithToken(token);
 
     const canRetry =
       autoRefresh &&
@@ -263,24 +422,18 @@ export function createWayAuthClient(options: WayAuthClientOptions) {
       return response;
     }
 
-    try {
-      await refresh();
-    } catch {
-      await setAccessToken(null);
-      return response;
+    // Another request may already have refreshed while this one was in flight.
+    const currentToken = await getAccessToken();
+    if (!currentToken || currentToken === token) {
+      try {
+        await refresh();
+      } catch {
+        await setAccessToken(null);
+        return response;
+      }
     }
 
-    const retryHeaders = new Headers(init.headers);
-    const retryToken = await getAccessToken();
-    if (retryToken) {
-      retryHeaders.set("authorization", `Bearer ${retryToken}`);
-    }
-
-    return fetchImpl(url, {
-      ...init,
-      headers: retryHeaders,
-      credentials: init.credentials ?? credentials,
-    });
+    return sendWithToken(await getAccessToken());
   }
 
   return {
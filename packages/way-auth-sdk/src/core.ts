@@ -14,6 +14,7 @@ export {
   WayAuthApiError,
   type WayAuthClient,
   type WayAuthClientOptions,
+  type WayAuthRetryOptions,
 } from "./client";
 export {
   WayAuthAuthorizationError,
@@ -34,6 +35,12 @@ export {
   type WayAuthStateOptions,
   type WayAuthStatus,
 } from "./state";
+export {
+  createWayAuthTabSync,
+  type WayAuthTabSync,
+  type WayAuthTabSyncMessage,
+  type WayAuthTabSyncOptions,
+} from "./tab-sync";
 export { WAY_AUTH_ERROR_MESSAGES, getWayAuthErrorMessage } from "./errors";
 export { validatePasswordConfirmation } from "./validation";
 export type {
@@ -14,6 +14,7 @@ export {
   WayAuthApiError,
   type WayAuthClient,
   type WayAuthClientOptions,
+  type WayAuthRetryOptions,
 } from "./client";
 export {
   createWayAuthNext,
@@ -29,10 +30,21 @@ export {
 export {
   WayAuthAuthorizationError,
   WayAuthTokenVerificationError,
+  createLocalKeyResolver,
   createWayAuthGuard,
   createWayAuthVerifier,
   extractBearerToken,
   extractBearerTokenFromRequest,
+  getTokenPermissions,
+  getTokenRoles,
+  hasPermission,
+  hasRole,
+  requirePermission,
+  requireRole,
+  type WayAuthLocalKey,
+  type WayAuthLocalKeySource,
+  type WayAuthLocalVerifierOptions,
+  type WayAuthRemoteVerifierOptions,
   type WayAuthVerifiedToken,
   type WayAuthVerifierOptions,
 } from "./server";
@@ -45,6 +57,12 @@ export {
   type WayAuthStateOptions,
   type WayAuthStatus,
 } from "./state";
+export {
+  createWayAuthTabSync,
+  type WayAuthTabSync,
+  type WayAuthTabSyncMessage,
+  type WayAuthTabSyncOptions,
+} from "./tab-sync";
 export { WAY_AUTH_ERROR_MESSAGES, getWayAuthErrorMessage } from "./errors";
 export { validatePasswordConfirmation } from "./validation";
 export type {
@@ -1,7 +1,26 @@
-import { createInMemoryTokenStore, createWayAuthClient, type WayAuthClientOptions } from "./client";
+import {
+  createInMemoryTokenStore,
+  createWayAuthClient,
+  type WayAuthClientOptions,
+  type WayAuthRetryOptions,
+} from "./client";
 import { resolveWayAuthConfig, type ResolveWayAuthConfigOptions } from "./config";
 import { getWayAuthErrorMessage } from "./errors";
-import { createWayAuthGuard, WayAuthTokenVerificationError, type WayAuthVerifiedToken } from "./server";
+import {
+  createWayAuthGuard,
+  getTokenPermissions,
+  getTokenRoles,
+  hasRole,
+  WayAuthTokenVerificationError,
+  type WayAuthLocalKeySource,
+  type WayAuthVerifiedToken,
+} from "./server";
+import {
+  createWayAuthTabSync,
+  type WayAuthTabSync,
+  type WayAuthTabSyncMessage,
+  type WayAuthTabSyncOptions,
+} from "./tab-sync";
 import type { WayAuthCredentialInput, WayAuthEndpoints, WayAuthMeResponse, WayAuthUser } from "./types";
 
 type HydrationStrategy = "best-effort" | "required";
@@ -20,6 +39,15 @@ export type WayAuthNextMiddlewareOptions = {
   loginPath: string;
   postLoginPath: string;
   nextParamName: string;
+  /** Path prefix -> roles; a session needs any one of them. The longest matching prefix applies. */
+  roleRequirements: Record<string, string[]>;
+  /**
+   * Extra check for protected routes, run after `roleRequirements`, for rules
+   * roles alone cannot express (e.g. a subject allowlist). Returning `false` forbids.
+   */
+  authorize: ((session: WayAuthNextSession, pathname: string) => boolean) | null;
+  /** Where sessions without a required role are sent; `null` answers 403. */
+  forbiddenPath: string | null;
 };
 
 export type WayAuthNextSessionUser = {
@@ -31,6 +59,8 @@ export type WayAuthNextSession = {
   accessToken: string;
   user: WayAuthNextSessionUser;
   claims: WayAuthVerifiedToken;
+  roles: string[];
+  permissions: string[];
   source: "claims" | "me";
 };
 
@@ -47,12 +77,20 @@ export type WayAuthNextOptions = ResolveWayAuthConfigOptions & {
   accessTokenCookieName?: string;
   clientCredentials?: RequestCredentials;
   clientAutoRefresh?: boolean;
+  clientRetry?: WayAuthRetryOptions;
   transportMode?: WayAuthTransportMode;
   endpointOriginGuard?: WayAuthEndpointOriginGuard;
   transportEndpoints?: Partial<Pick<WayAuthEndpoints, "signup" | "login" | "refresh" | "logout" | "me">>;
   signupSecret?: string;
   middleware?: Partial<WayAuthNextMiddlewareOptions>;
   hydrationStrategy?: HydrationStrategy;
+  /** Verifies access tokens against these keys instead of fetching the JWKS. */
+  localKeys?: WayAuthLocalKeySource;
+  /**
+   * Shares tokens and logouts between browser tabs, and lets only the leader
+   * tab refresh; the others ask it to. Off by default.
+   */
+  tabSync?: boolean | WayAuthTabSyncOptions;
 };
 
 export type WayAuthBootstrapResult =
@@ -88,6 +126,9 @@ const DEFAULT_MIDDLEWARE_OPTIONS: WayAuthNextMiddlewareOptions = {
   loginPath: "/admin/login",
   postLoginPath: "/admin",
   nextParamName: "next",
+  roleRequirements: {},
+  authorize: null,
+  forbiddenPath: null,
 };
 
 function normalizePath(path: string): string {
@@ -223,9 +264,20 @@ function getPathnameFromRelativeTarget(target: string): string | null {
   }
 }
 
+function resolveRequiredRoles(
+  pathname: string,
+  roleRequirements: Array<[string, string[]]>,
+): string[] | null {
+  const match = roleRequirements.find(([prefix]) => isWithinAdminPrefix(pathname, prefix));
+  return match ? match[1] : null;
+}
+
 function resolveMiddlewareOptions(
   options: WayAuthNextOptions,
-): WayAuthNextMiddlewareOptions & { matcher: string[] } {
+): Omit<WayAuthNextMiddlewareOptions, "roleRequirements"> & {
+  roleRequirements: Array<[string, string[]]>;
+  matcher: string[];
+} {
   const merged = {
     ...DEFAULT_MIDDLEWARE_OPTIONS,
     ...options.middleware,
@@ -235,6 +287,9 @@ function resolveMiddlewareOptions(
   const loginPath = normalizePath(merged.loginPath);
   const postLoginPath = normalizePath(merged.postLoginPath);
   const publicPaths = Array.from(new Set(merged.publicPaths.map((path) => normalizePath(path))));
+  const roleRequirements = Object.entries(merged.roleRequirements)
+    .map(([path, roles]): [string, string[]] => [normalizePath(path), roles])
+    .sort(([left], [right]) => right.length - left.length);
 
   return {
     adminPrefix,
@@ -242,6 +297,9 @@ function resolveMiddlewareOptions(
     loginPath,
     postLoginPath,
     nextParamName: merged.nextParamName,
+    roleRequirements,
+    authorize: merged.authorize,
+    forbiddenPath: merged.forbiddenPath === null ? null : normalizePath(merged.forbiddenPath),
     matcher: [`${adminPrefix}/:path*`],
   };
 }
@@ -285,6 +343,12 @@ function buildProxyTransportEndpoints(
   };
 }
 
+function resolveAccessTokenMaxAgeSeconds(expiresIn: unknown): number {
+  return typeof expiresIn === "number" && Number.isFinite(expiresIn) && expiresIn > 0
+    ? Math.floor(expiresIn)
+    : DEFAULT_ACCESS_TOKEN_COOKIE_MAX_AGE_SECONDS;
+}
+
 function resolveAdaptiveKeepAliveIntervalMs(accessTokenTtlSeconds: number): number {
   const derived = Math.floor((accessTokenTtlSeconds * 1_000) / 2);
   return Math.max(KEEP_ALIVE_MIN_INTERVAL_MS, Math.min(KEEP_ALIVE_MAX_INTERVAL_MS, derived));
@@ -314,6 +378,8 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
       }>
     | null = null;
   let hasWarnedOnEndpointOriginMismatch = false;
+  let tabSync: WayAuthTabSync | null = null;
+  const sessionChangeListeners = new Set<(message: WayAuthTabSyncMessage) => void>();
 
   async function getRuntimeConfig() {
     if (!runtimeConfigPromise) {
@@ -373,6 +439,8 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
           fetch: fetchImpl,
           credentials: options.clientCredentials ?? "include",
           autoRefresh: options.clientAutoRefresh ?? true,
+          retry: options.clientRetry,
+          tabSync: getTabSync() ?? undefined,
           tokenStore,
           endpoints: runtimeConfig.clientEndpoints,
           signupSecret: options.signupSecret,
@@ -389,6 +457,13 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
       guardPromise = (async () => {
         const runtimeConfig = await getRuntimeConfig();
         const resolved = runtimeConfig.resolved;
+        if (options.localKeys) {
+          return createWayAuthGuard({
+            ...options.localKeys,
+            issuer: resolved.issuer,
+            audience: resolved.audience,
+          });
+        }
         return createWayAuthGuard({
           jwksUrl: resolved.jwksUrl,
           issuer: resolved.issuer,
@@ -401,6 +476,46 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
     return guardPromise;
   }
 
+  function getTabSync(): WayAuthTabSync | null {
+    if (!options.tabSync || typeof window === "undefined") {
+      return null;
+    }
+
+    if (!tabSync) {
+      tabSync = createWayAuthTabSync(options.tabSync === true ? {} : options.tabSync);
+      tabSync.subscribe((message) => {
+        void applyTabSyncMessage(message);
+      });
+      // The client answers other tabs' refresh requests once this tab leads.
+      void getClient().catch(() => undefined);
+    }
+    return tabSync;
+  }
+
+  async function applyTabSyncMessage(message: WayAuthTabSyncMessage) {
+    if (message.type === "session") {
+      if (message.expiresIn !== undefined) {
+        accessTokenCookieMaxAgeSeconds = resolveAccessTokenMaxAgeSeconds(message.expiresIn);
+      }
+      await tokenStore.setAccessToken(message.accessToken);
+    } else {
+      await tokenStore.setAccessToken(null);
+    }
+    await syncAccessTokenCookieFromStore();
+
+    for (const listener of sessionChangeListeners) {
+      listener(message);
+    }
+  }
+
+  async function publishSession(expiresIn: number, user?: WayAuthUser) {
+    const sync = getTabSync();
+    const accessToken = await tokenStore.getAccessToken();
+    if (sync && accessToken) {
+      sync.publish({ type: "session", accessToken, expiresIn, user });
+    }
+  }
+
   async function syncAccessTokenCookieFromStore() {
     const token = await tokenStore.getAccessToken();
     if (token) {
@@ -449,10 +564,15 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
       return null;
     }
 
+    const roles = getTokenRoles(claims);
+    const permissions = getTokenPermissions(claims);
+
     if (sessionOptions.skipUserHydration) {
       return {
         accessToken,
         claims,
+        roles,
+        permissions,
         user: {
           id: claims.sub,
           email: null,
@@ -466,6 +586,8 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
       return {
         accessToken,
         claims,
+        roles,
+        permissions,
         user: {
           id: meUser.id,
           email: meUser.email,
@@ -481,6 +603,8 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
     return {
       accessToken,
       claims,
+      roles,
+      permissions,
       user: {
         id: claims.sub,
         email: null,
@@ -536,38 +660,50 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
       return Response.redirect(redirectUrl, 307);
     }
 
+    const requiredRoles = isPublicPath
+      ? null
+      : resolveRequiredRoles(normalizePath(pathname), middlewareOptions.roleRequirements);
+    const isForbidden =
+      !!session &&
+      !isPublicPath &&
+      ((requiredRoles !== null && !hasRole(session.claims, requiredRoles)) ||
+        (middlewareOptions.authorize !== null && !middlewareOptions.authorize(session, normalizePath(pathname))));
+    if (isForbidden) {
+      const { forbiddenPath } = middlewareOptions;
+      if (forbiddenPath && normalizePath(pathname) !== forbiddenPath) {
+        return Response.redirect(new URL(forbiddenPath, request.url), 307);
+      }
+      return new Response("Forbidden", { status: 403 });
+    }
+
     return undefined;
   }
 
   async function login(input: WayAuthCredentialInput) {
     const client = await getClient();
     const result = await client.login(input);
-    accessTokenCookieMaxAgeSeconds =
-      typeof result.expiresIn === "number" && Number.isFinite(result.expiresIn) && result.expiresIn > 0
-        ? Math.floor(result.expiresIn)
-        : DEFAULT_ACCESS_TOKEN_COOKIE_MAX_AGE_SECONDS;
+    accessTokenCookieMaxAgeSeconds = resolveAccessTokenMaxAgeSeconds(result.expiresIn);
     await syncAccessTokenCookieFromStore();
+    await publishSession(accessTokenCookieMaxAgeSeconds, result.user);
     return result;
   }
 
   async function signup(input: WayAuthCredentialInput) {
     const client = await getClient();
     const result = await client.signup(input);
-    accessTokenCookieMaxAgeSeconds =
-      typeof result.expiresIn === "number" && Number.isFinite(result.expiresIn) && result.expiresIn > 0
-        ? Math.floor(result.expiresIn)
-        : DEFAULT_ACCESS_TOKEN_COOKIE_MAX_AGE_SECONDS;
+    accessTokenCookieMaxAgeSeconds = resolveAccessTokenMaxAgeSeconds(result.expiresIn);
     await syncAccessTokenCookieFromStore();
+    await publishSession(accessTokenCookieMaxAgeSeconds, result.user);
     return result;
   }
 
+  // With tab sync the client refreshes through the leader tab and publishes the
+  // new token itself, so `getAccessToken` and Convex's `setAuth` never rotate
+  // the refresh token in several tabs at once.
   async function refresh() {
     const client = await getClient();
     const result = await client.refresh();
-    accessTokenCookieMaxAgeSeconds =
-      typeof result.expiresIn === "number" && Number.isFinite(result.expiresIn) && result.expiresIn > 0
-        ? Math.floor(result.expiresIn)
-        : DEFAULT_ACCESS_TOKEN_COOKIE_MAX_AGE_SECONDS;
+    accessTokenCookieMaxAgeSeconds = resolveAccessTokenMaxAgeSeconds(result.expiresIn);
     await syncAccessTokenCookieFromStore();
     return result;
   }
@@ -576,6 +712,7 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
     const client = await getClient();
     const result = await client.logout();
     await syncAccessTokenCookieFromStore();
+    getTabSync()?.publish({ type: "logout" });
     return result;
   }
 
@@ -583,12 +720,10 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
     const client = await getClient();
     try {
       const refreshed = await client.refresh();
-      accessTokenCookieMaxAgeSeconds =
-        typeof refreshed.expiresIn === "number" && Number.isFinite(refreshed.expiresIn) && refreshed.expiresIn > 0
-          ? Math.floor(refreshed.expiresIn)
-          : DEFAULT_ACCESS_TOKEN_COOKIE_MAX_AGE_SECONDS;
+      accessTokenCookieMaxAgeSeconds = resolveAccessTokenMaxAgeSeconds(refreshed.expiresIn);
       const me = await client.me();
       await syncAccessTokenCookieFromStore();
+      await publishSession(accessTokenCookieMaxAgeSeconds, me.user);
       return {
         ok: true,
         user: me.user,
@@ -604,6 +739,23 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
     }
   }
 
+  async function getAccessToken(tokenOptions: { forceRefresh?: boolean } = {}): Promise<string | null> {
+    if (!tokenOptions.forceRefresh) {
+      const token = await tokenStore.getAccessToken();
+      if (token) {
+        return token;
+      }
+    }
+
+    try {
+      await refresh();
+    } catch {
+      return null;
+    }
+
+    return tokenStore.getAccessToken();
+  }
+
   function isPublicAuthRoute(pathname: string): boolean {
     return middlewareOptions.publicPaths.includes(normalizePath(pathname));
   }
@@ -615,7 +767,12 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
 
     const intervalMs = options.intervalMs ?? resolveAdaptiveKeepAliveIntervalMs(accessTokenCookieMaxAgeSeconds);
 
+    // With tab sync, only the leader refreshes; the other tabs receive its tokens.
+    const sync = getTabSync();
     const runRefresh = () => {
+      if (sync && !sync.isLeader()) {
+        return;
+      }
       void refresh().catch(() => {
         // Keep-alive should be best-effort and never throw in global listeners.
       });
@@ -636,6 +793,14 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
     };
   }
 
+  // Notifies about logins, refreshes and logouts that happened in other tabs.
+  // Requires the `tabSync` option; without it the listener is never called.
+  function onSessionChange(listener: (message: WayAuthTabSyncMessage) => void): () => void {
+    getTabSync();
+    sessionChangeListeners.add(listener);
+    return () => sessionChangeListeners.delete(listener);
+  }
+
   return {
     middleware,
     matcher: middlewareOptions.matcher,
@@ -645,8 +810,10 @@ export function createWayAuthNext(options: WayAuthNextOptions = {}) {
       refresh,
       logout,
       bootstrapSession,
+      getAccessToken,
       isPublicAuthRoute,
       startSessionKeepAlive,
+      onSessionChange,
     },
     server: {
       getSession,
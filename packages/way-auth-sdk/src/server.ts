@@ -1,27 +1,63 @@
 import {
   createRemoteJWKSet,
   customFetch,
+  importJWK,
+  importSPKI,
   jwtVerify,
+  type CryptoKey,
+  type JSONWebKeySet,
+  type JWK,
+  type JWTHeaderParameters,
   type JWTPayload,
+  type JWTVerifyGetKey,
   type JWTVerifyOptions,
 } from "jose";
 
 export type WayAuthVerifiedToken = JWTPayload & {
   sub: string;
   sid?: string;
+  roles?: string[];
+  permissions?: string[];
 };
 
-export type WayAuthVerifierOptions = {
-  jwksUrl: string;
+type WayAuthVerifierBaseOptions = {
   issuer: string;
   audience: string | string[];
   clockTolerance?: JWTVerifyOptions["clockTolerance"];
+};
+
+export type WayAuthRemoteVerifierOptions = WayAuthVerifierBaseOptions & {
+  jwksUrl: string;
   cacheMaxAgeMs?: number;
   timeoutMs?: number;
   headers?: Record<string, string>;
   fetch?: (url: string, options: RequestInit) => Promise<Response>;
 };
 
+export type WayAuthLocalKey = {
+  kid: string;
+  alg?: string;
+  /** SPKI public key (`-----BEGIN PUBLIC KEY-----`); `alg` or the token header names the algorithm. */
+  publicKeyPem?: string;
+  jwk?: JWK;
+  /** When the key stopped signing. Its tokens verify for `rotationGraceMs` longer. */
+  retiredAt?: number | Date;
+};
+
+export type WayAuthLocalKeySource = {
+  jwks?: JSONWebKeySet;
+  keys?: WayAuthLocalKey[];
+  rotationGraceMs?: number;
+};
+
+export type WayAuthLocalVerifierOptions = WayAuthVerifierBaseOptions & WayAuthLocalKeySource;
+
+export type WayAuthVerifierOptions = WayAuthRemoteVerifierOptions | WayAuthLocalVerifierOptions;
+
+// Matches the default access token lifetime, so a token signed just before
+// rotation stays valid until it expires.
+const DEFAULT_ROTATION_GRACE_MS = 15 * 60_000;
+
 export class WayAuthTokenVerificationError extends Error {
   readonly code: "missing_token" | "invalid_token";
 
@@ -62,7 +98,123 @@ export function extractBearerTokenFromRequest(request: Request): string | null {
   return extractBearerToken(request.headers.get("authorization"));
 }
 
-export function createWayAuthVerifier(options: WayAuthVerifierOptions) {
+function readStringListClaim(value: unknown): string[] {
+  if (typeof value === "string") {
+    return value.split(" ").filter(Boolean);
+  }
+
+  if (Array.isArray(value)) {
+    return value.filter((entry): entry is string => typeof entry === "string" && entry.length > 0);
+  }
+
+  return [];
+}
+
+export function getTokenRoles(auth: Pick<WayAuthVerifiedToken, "roles">): string[] {
+  return readStringListClaim(auth.roles);
+}
+
+export function getTokenPermissions(auth: Pick<WayAuthVerifiedToken, "permissions">): string[] {
+  return readStringListClaim(auth.permissions);
+}
+
+export function hasRole(auth: Pick<WayAuthVerifiedToken, "roles">, roles: string | string[]): boolean {
+  const granted = getTokenRoles(auth);
+  return (Array.isArray(roles) ? roles : [roles]).some((role) => granted.includes(role));
+}
+
+export function hasPermission(auth: Pick<WayAuthVerifiedToken, "permissions">, permissions: string | string[]): boolean {
+  const granted = getTokenPermissions(auth);
+  return (Array.isArray(permissions) ? permissions : [permissions]).every((permission) => granted.includes(permission));
+}
+
+// Passes when the token carries any of the given roles.
+export function requireRole(auth: Pick<WayAuthVerifiedToken, "roles">, roles: string | string[]): void {
+  if (!hasRole(auth, roles)) {
+    const required = Array.isArray(roles) ? roles.join(", ") : roles;
+    throw new WayAuthAuthorizationError(`Authenticated user is missing a required role (${required}).`);
+  }
+}
+
+// Passes when the token carries every given permission.
+export function requirePermission(
+  auth: Pick<WayAuthVerifiedToken, "permissions">,
+  permissions: string | string[],
+): void {
+  if (!hasPermission(auth, permissions)) {
+    const required = Array.isArray(permissions) ? permissions.join(", ") : permissions;
+    throw new WayAuthAuthorizationError(`Authenticated user is missing a required permission (${required}).`);
+  }
+}
+
+function isRemoteVerifierOptions(options: WayAuthVerifierOptions): options is WayAuthRemoteVerifierOptions {
+  return "jwksUrl" in options && typeof options.jwksUrl === "string";
+}
+
+function toLocalKeys(source: WayAuthLocalKeySource): WayAuthLocalKey[] {
+  const fromJwks = (source.jwks?.keys ?? []).map((jwk): WayAuthLocalKey => {
+    if (!jwk.kid) {
+      throw new Error("Local JWKS keys must have a kid.");
+    }
+    return { kid: jwk.kid, alg: jwk.alg, jwk };
+  });
+
+  const keys = [...fromJwks, ...(source.keys ?? [])];
+  for (const key of keys) {
+    if (!key.jwk && !key.publicKeyPem) {
+      throw new Error(`Local key ${key.kid} needs a jwk or publicKeyPem.`);
+    }
+  }
+  if (keys.length === 0) {
+    throw new Error("Local verification requires at least one key.");
+  }
+  return keys;
+}
+
+function isKeyAccepted(key: WayAuthLocalKey, now: number, graceMs: number): boolean {
+  if (key.retiredAt === undefined) {
+    return true;
+  }
+  const retiredAt = key.retiredAt instanceof Date ? key.retiredAt.getTime() : key.retiredAt;
+  return now < retiredAt + graceMs;
+}
+
+/**
+ * Resolves verification keys without the network. The token's `kid` picks the
+ * key; a token without one is only accepted when a single key is in use.
+ * Retired keys keep verifying for the grace window.
+ */
+export function createLocalKeyResolver(source: WayAuthLocalKeySource): JWTVerifyGetKey {
+  const keys = toLocalKeys(source);
+  const graceMs = source.rotationGraceMs ?? DEFAULT_ROTATION_GRACE_MS;
+  const imported = new Map<string, Promise<CryptoKey | Uint8Array>>();
+
+  return async (header: JWTHeaderParameters) => {
+    const accepted = keys.filter((key) => isKeyAccepted(key, Date.now(), graceMs));
+    const key = header.kid
+      ? accepted.find((candidate) => candidate.kid === header.kid)
+      : accepted.length === 1
+        ? accepted[0]
+        : undefined;
+
+    if (!key) {
+      throw new Error(header.kid ? `No active key matches kid ${header.kid}.` : "Token has no kid.");
+    }
+    if (key.alg && key.alg !== header.alg) {
+      throw new Error(`Key ${key.kid} does not sign with ${header.alg}.`);
+    }
+
+    const cacheKey = `${key.kid}:${header.alg}`;
+    let pending = imported.get(cacheKey);
+    if (!pending) {
+      pending = key.jwk ? importJWK(key.jwk, header.alg) : importSPKI(key.publicKeyPem ?? "", header.alg);
+      imported.set(cacheKey, pending);
+    }
+    return pending;
+  };
+}
+
+function createRemoteKeyResolver(options: WayAuthRemoteVerifierOptions): JWTVerifyGetKey {
   const jwksOptions: NonNullable<Parameters<typeof createRemoteJWKSet>[1]> = {};
 
   if (options.cacheMaxAgeMs !== undefined) {
@@ -78,7 +230,11 @@ export function createWayAuthVerifier(options: WayAuthVerifierOptions) {
     jwksOptions[customFetch] = options.fetch;
   }
 
-  const jwks = createRemoteJWKSet(new URL(options.jwksUrl), jwksOptions);
+  return createRemoteJWKSet(new URL(options.jwksUrl), jwksOptions);
+}
+
+export function createWayAuthVerifier(options: WayAuthVerifierOptions) {
+  const jwks = isRemoteVerifierOptions(options) ? createRemoteKeyResolver(options) : createLocalKeyResolver(options);
 
   async function verifyAccessToken(token: string): Promise<WayAuthVerifiedToken> {
     try {
@@ -147,5 +303,7 @@ export function createWayAuthGuard(options: WayAuthVerifierOptions) {
     requireAuth,
     optionalAuth,
     assertOwner,
+    requireRole,
+    requirePermission,
   };
 }
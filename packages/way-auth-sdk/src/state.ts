@@ -1,5 +1,6 @@
 import type { WayAuthClient } from "./client";
 import { getWayAuthErrorMessage } from "./errors";
+import type { WayAuthTabSync, WayAuthTabSyncMessage } from "./tab-sync";
 import type { WayAuthCredentialInput, WayAuthSignupInputWithConfirm, WayAuthUser } from "./types";
 import { validatePasswordConfirmation } from "./validation";
 
@@ -25,6 +26,8 @@ export type WayAuthStateCallbacks = {
 export type WayAuthStateOptions = {
   initialState?: Partial<WayAuthState>;
   callbacks?: WayAuthStateCallbacks;
+  /** Shares logins, refreshed tokens and logouts with the app's other tabs. */
+  tabSync?: WayAuthTabSync;
 };
 
 type Listener = () => void;
@@ -55,6 +58,7 @@ export function createWayAuthState(client: WayAuthClient, options: WayAuthStateO
 
   const listeners = new Set<Listener>();
   let callbacks = options.callbacks ?? {};
+  const tabSync = options.tabSync ?? null;
 
   function emit() {
     for (const listener of listeners) {
@@ -89,6 +93,31 @@ export function createWayAuthState(client: WayAuthClient, options: WayAuthStateO
     });
   }
 
+  async function publishSession() {
+    const accessToken = await client.getAccessToken();
+    if (tabSync && accessToken && state.user) {
+      tabSync.publish({ type: "session", accessToken, user: state.user });
+    }
+  }
+
+  async function applyTabSyncMessage(message: WayAuthTabSyncMessage) {
+    if (message.type === "session") {
+      await client.setAccessToken(message.accessToken);
+      if (message.user) {
+        setAuthenticated(message.user);
+      }
+      return;
+    }
+
+    await client.clearAccessToken();
+    if (state.status !== "unauthenticated") {
+      setUnauthenticated();
+      callbacks.onLogout?.(state);
+    }
+  }
+
+  let unsubscribeTabSync: (() => void) | null = null;
+
   async function bootstrap(): Promise<WayAuthState> {
     patchState({ status: "loading", errorMessage: null });
 
@@ -96,6 +125,7 @@ export function createWayAuthState(client: WayAuthClient, options: WayAuthStateO
       await client.refresh();
       const me = await client.me();
       setAuthenticated(me.user);
+      await publishSession();
       return state;
     } catch (error) {
       setUnauthenticated();
@@ -110,6 +140,7 @@ export function createWayAuthState(client: WayAuthClient, options: WayAuthStateO
     try {
       const result = await client.signup(input);
       setAuthenticated(result.user);
+      await publishSession();
       callbacks.onSignupSuccess?.(state, result.user);
       return state;
     } catch (error) {
@@ -151,6 +182,7 @@ export function createWayAuthState(client: WayAuthClient, options: WayAuthStateO
     try {
       const result = await client.login(input);
       setAuthenticated(result.user);
+      await publishSession();
       callbacks.onLoginSuccess?.(state, result.user);
       return state;
     } catch (error) {
@@ -172,6 +204,7 @@ export function createWayAuthState(client: WayAuthClient, options: WayAuthStateO
       await client.refresh();
       const me = await client.me();
       setAuthenticated(me.user);
+      await publishSession();
       return state;
     } catch (error) {
       setUnauthenticated();
@@ -209,6 +242,7 @@ export function createWayAuthState(client: WayAuthClient, options: WayAuthStateO
       await client.logout();
     } finally {
       setUnauthenticated();
+      tabSync?.publish({ type: "logout" });
       callbacks.onLogout?.(state);
     }
 
@@ -231,9 +265,23 @@ export function createWayAuthState(client: WayAuthClient, options: WayAuthStateO
     callbacks = nextCallbacks;
   }
 
+  // Other tabs are followed while anyone is subscribed, so an unmounted
+  // `useWayAuthState` does not leave a listener on the tab sync.
   function subscribe(listener: Listener): () => void {
     listeners.add(listener);
-    return () => listeners.delete(listener);
+    if (tabSync && !unsubscribeTabSync) {
+      unsubscribeTabSync = tabSync.subscribe((message) => {
+        void applyTabSyncMessage(message);
+      });
+    }
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && unsubscribeTabSync) {
+        unsubscribeTabSync();
+        unsubscribeTabSync = null;
+      }
+    };
   }
 
   return {
@@ -253,3 +301,10 @@ export function createWayAuthState(client: WayAuthClient, options: WayAuthStateO
 }
 
 export type WayAuthStateController = ReturnType<typeof createWayAuthState>;
+
+export {
+  createWayAuthTabSync,
+  type WayAuthTabSync,
+  type WayAuthTabSyncMessage,
+  type WayAuthTabSyncOptions,
+} from "./tab-sync";
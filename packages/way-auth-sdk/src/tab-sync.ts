@@ -0,0 +1,266 @@
+import type { WayAuthUser } from "./types";
+
+export type WayAuthTabSyncMessage =
+  | {
+      type: "session";
+      accessToken: string;
+      expiresIn?: number;
+      user?: WayAuthUser;
+    }
+  | {
+      type: "logout";
+    };
+
+export type WayAuthTabSyncOptions = {
+  /** Shared by every tab of the app; tabs on different names do not see each other. */
+  channelName?: string;
+  /** How often the leader announces itself. Another tab takes over after three missed beats. */
+  heartbeatIntervalMs?: number;
+};
+
+type WayAuthTabSyncSession = Extract<WayAuthTabSyncMessage, { type: "session" }>;
+
+type Envelope =
+  | { tabId: string; kind: "message"; message: WayAuthTabSyncMessage }
+  | { tabId: string; kind: "heartbeat" }
+  | { tabId: string; kind: "resign" }
+  | { tabId: string; kind: "refresh-request" };
+
+type Transport = {
+  post: (envelope: Envelope) => void;
+  close: () => void;
+};
+
+type Listener = (message: WayAuthTabSyncMessage) => void;
+
+const DEFAULT_CHANNEL_NAME = "way-auth";
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 5_000;
+const MISSED_HEARTBEATS_BEFORE_TAKEOVER = 3;
+const DEFAULT_REFRESH_REQUEST_TIMEOUT_MS = 10_000;
+
+function createTabId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function isEnvelope(value: unknown): value is Envelope {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as Envelope).tabId === "string" &&
+    typeof (value as Envelope).kind === "string"
+  );
+}
+
+function createBroadcastChannelTransport(name: string, receive: (envelope: Envelope) => void): Transport {
+  const channel = new BroadcastChannel(name);
+  channel.onmessage = (event: MessageEvent) => {
+    if (isEnvelope(event.data)) {
+      receive(event.data);
+    }
+  };
+
+  return {
+    post: (envelope) => channel.postMessage(envelope),
+    close: () => channel.close(),
+  };
+}
+
+// Fallback for browsers without BroadcastChannel: other tabs get a `storage`
+// event for every write to the shared key. Each write is removed right away, so
+// access tokens in session messages never stay in localStorage.
+function createStorageTransport(name: string, receive: (envelope: Envelope) => void): Transport {
+  const key = `${name}:tab-sync`;
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== key || !event.newValue) {
+      return;
+    }
+    try {
+      const parsed: unknown = JSON.parse(event.newValue);
+      if (isEnvelope(parsed)) {
+        receive(parsed);
+      }
+    } catch {
+      // Ignore values written by something else.
+    }
+  };
+  window.addEventListener("storage", onStorage);
+
+  return {
+    post: (envelope) => {
+      try {
+        // The nonce makes every write a change, so repeated messages still fire events.
+        window.localStorage.setItem(key, JSON.stringify({ ...envelope, nonce: createTabId() }));
+        window.localStorage.removeItem(key);
+      } catch {
+        // Storage can be full or disabled; the tab then behaves as if it were alone.
+      }
+    },
+    close: () => {
+      window.removeEventListener("storage", onStorage);
+      try {
+        window.localStorage.removeItem(key);
+      } catch {
+        // Nothing to clean up when storage is disabled.
+      }
+    },
+  };
+}
+
+function createTransport(name: string, receive: (envelope: Envelope) => void): Transport | null {
+  if (typeof BroadcastChannel !== "undefined") {
+    return createBroadcastChannelTransport(name, receive);
+  }
+  if (typeof window !== "undefined" && typeof window.localStorage !== "undefined") {
+    return createStorageTransport(name, receive);
+  }
+  return null;
+}
+
+/**
+ * Connects the tabs of one app. Session changes published in a tab reach the
+ * subscribers of every other tab, and exactly one tab at a time is the leader,
+ * chosen by heartbeats, so periodic work such as refreshing runs once. Other
+ * tabs ask the leader to refresh instead of rotating the refresh token themselves.
+ * Without BroadcastChannel or localStorage the tab is always its own leader.
+ */
+export function createWayAuthTabSync(options: WayAuthTabSyncOptions = {}) {
+  const tabId = createTabId();
+  const heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+  const leaderTimeoutMs = heartbeatIntervalMs * MISSED_HEARTBEATS_BEFORE_TAKEOVER;
+  const listeners = new Set<Listener>();
+  const refreshRequestListeners = new Set<() => void>();
+
+  let leaderId: string | null = null;
+  let leaderSeenAt = 0;
+  let closed = false;
+
+  function receive(envelope: Envelope) {
+    if (closed || envelope.tabId === tabId) {
+      return;
+    }
+
+    if (envelope.kind === "message") {
+      for (const listener of listeners) {
+        listener(envelope.message);
+      }
+      return;
+    }
+
+    if (envelope.kind === "refresh-request") {
+      if (leaderId === tabId) {
+        refreshRequestListeners.forEach((listener) => listener());
+      }
+      return;
+    }
+
+    if (envelope.kind === "resign") {
+      if (leaderId === envelope.tabId) {
+        leaderId = null;
+        tick();
+      }
+      return;
+    }
+
+    // Two leaders can briefly coexist after a takeover; the lower id wins.
+    if (leaderId === tabId && envelope.tabId > tabId) {
+      return;
+    }
+    leaderId = envelope.tabId;
+    leaderSeenAt = Date.now();
+  }
+
+  const transport = createTransport(options.channelName ?? DEFAULT_CHANNEL_NAME, receive);
+
+  function tick() {
+    if (closed || !transport) {
+      return;
+    }
+
+    const leaderIsStale = leaderId === null || (leaderId !== tabId && Date.now() - leaderSeenAt > leaderTimeoutMs);
+    if (leaderIsStale) {
+      leaderId = tabId;
+    }
+    if (leaderId === tabId) {
+      transport.post({ tabId, kind: "heartbeat" });
+    }
+  }
+
+  // The first tick waits one interval, so a new tab hears an existing leader
+  // before it would claim leadership itself.
+  const intervalId = transport ? setInterval(tick, heartbeatIntervalMs) : null;
+
+  function isLeader(): boolean {
+    return !transport || leaderId === tabId;
+  }
+
+  function publish(message: WayAuthTabSyncMessage) {
+    if (!closed) {
+      transport?.post({ tabId, kind: "message", message });
+    }
+  }
+
+  function subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  /**
+   * Asks the leader to refresh and resolves with the session it publishes.
+   * Resolves `null` when this tab should refresh itself: it is the leader, no
+   * live leader is known yet, or none answered within `timeoutMs`.
+   */
+  function requestRefresh(timeoutMs = DEFAULT_REFRESH_REQUEST_TIMEOUT_MS): Promise<WayAuthTabSyncSession | null> {
+    const hasLiveLeader = leaderId !== null && leaderId !== tabId && Date.now() - leaderSeenAt <= leaderTimeoutMs;
+    if (closed || !transport || !hasLiveLeader) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      const finish = (session: WayAuthTabSyncSession | null) => {
+        clearTimeout(timeoutId);
+        unsubscribe();
+        resolve(session);
+      };
+      const timeoutId = setTimeout(() => finish(null), timeoutMs);
+      const unsubscribe = subscribe((message) => finish(message.type === "session" ? message : null));
+      transport.post({ tabId, kind: "refresh-request" });
+    });
+  }
+
+  /** Called in the leader tab when another tab asks it to refresh. */
+  function onRefreshRequest(listener: () => void): () => void {
+    refreshRequestListeners.add(listener);
+    return () => refreshRequestListeners.delete(listener);
+  }
+
+  function close() {
+    if (closed) {
+      return;
+    }
+    if (intervalId !== null) {
+      clearInterval(intervalId);
+    }
+    if (leaderId === tabId) {
+      transport?.post({ tabId, kind: "resign" });
+    }
+    closed = true;
+    listeners.clear();
+    refreshRequestListeners.clear();
+    transport?.close();
+  }
+
+  return {
+    tabId,
+    isLeader,
+    publish,
+    subscribe,
+    requestRefresh,
+    onRefreshRequest,
+    close,
+  };
+}
+
+export type WayAuthTabSync = ReturnType<typeof createWayAuthTabSync>;
@@ -0,0 +1,139 @@
+import { exportJWK, exportSPKI, generateKeyPair, SignJWT, type CryptoKey, type JSONWebKeySet, type JWK } from "jose";
+import type { WayAuthLocalKey, WayAuthLocalVerifierOptions } from "./server";
+
+export type WayAuthTestAlgorithm = "RS256" | "ES256" | "EdDSA";
+
+export type WayAuthTestKey = {
+  kid: string;
+  alg: WayAuthTestAlgorithm;
+  privateKey: CryptoKey;
+  publicJwk: JWK;
+  publicKeyPem: string;
+  retiredAt?: number;
+};
+
+export type WayAuthTestTokenClaims = {
+  sub: string;
+  sid?: string;
+  roles?: string[];
+  permissions?: string[];
+  [claim: string]: unknown;
+};
+
+export type WayAuthTestTokenOptions = {
+  /** Seconds, or a jose time span such as `"5m"`. Negative values mint expired tokens. */
+  expiresIn?: number | string;
+  /** Signs with this key instead of the current one. */
+  kid?: string;
+  issuer?: string;
+  audience?: string | string[];
+};
+
+export type WayAuthTestIssuerOptions = {
+  issuer?: string;
+  audience?: string;
+  alg?: WayAuthTestAlgorithm;
+  rotationGraceMs?: number;
+};
+
+const DEFAULT_TEST_ISSUER = "https://auth.test.local";
+const DEFAULT_TEST_AUDIENCE = "way-clients";
+const DEFAULT_TEST_EXPIRES_IN = "5m";
+
+let keyCounter = 0;
+
+export async function generateWayAuthTestKey(
+  options: { kid?: string; alg?: WayAuthTestAlgorithm } = {},
+): Promise<WayAuthTestKey> {
+  const alg = options.alg ?? "RS256";
+  const kid = options.kid ?? `test-key-${++keyCounter}`;
+  const { publicKey, privateKey } = await generateKeyPair(alg);
+  const publicJwk = { ...(await exportJWK(publicKey)), kid, alg, use: "sig" };
+
+  return {
+    kid,
+    alg,
+    privateKey,
+    publicJwk,
+    publicKeyPem: await exportSPKI(publicKey),
+  };
+}
+
+/**
+ * In-memory token issuer for tests. Tokens are signed with real keys, and
+ * `verifierOptions()` plugs straight into `createWayAuthVerifier` or
+ * `createWayAuthGuard`, so protected routes run without an auth server.
+ */
+export async function createWayAuthTestIssuer(options: WayAuthTestIssuerOptions = {}) {
+  const issuer = options.issuer ?? DEFAULT_TEST_ISSUER;
+  const audience = options.audience ?? DEFAULT_TEST_AUDIENCE;
+  const alg = options.alg ?? "RS256";
+  const keys: WayAuthTestKey[] = [await generateWayAuthTestKey({ alg })];
+
+  function getCurrentKey(): WayAuthTestKey {
+    return keys[keys.length - 1];
+  }
+
+  async function mintAccessToken(
+    claims: WayAuthTestTokenClaims,
+    tokenOptions: WayAuthTestTokenOptions = {},
+  ): Promise<string> {
+    const key = tokenOptions.kid ? keys.find((candidate) => candidate.kid === tokenOptions.kid) : getCurrentKey();
+    if (!key) {
+      throw new Error(`Unknown test key: ${tokenOptions.kid}`);
+    }
+
+    const { sub, ...rest } = claims;
+    const expiresIn = tokenOptions.expiresIn ?? DEFAULT_TEST_EXPIRES_IN;
+    const now = Math.floor(Date.now() / 1000);
+
+    return new SignJWT(rest)
+      .setProtectedHeader({ alg: key.alg, kid: key.kid, typ: "JWT" })
+      .setSubject(sub)
+      .setIssuer(tokenOptions.issuer ?? issuer)
+      .setAudience(tokenOptions.audience ?? audience)
+      .setIssuedAt(now)
+      .setExpirationTime(typeof expiresIn === "number" ? now + expiresIn : expiresIn)
+      .sign(key.privateKey);
+  }
+
+  async function mintAuthorizationHeader(claims: WayAuthTestTokenClaims, tokenOptions?: WayAuthTestTokenOptions) {
+    return `Bearer ${await mintAccessToken(claims, tokenOptions)}`;
+  }
+
+  /** Starts signing with a new key and retires the previous one now. */
+  async function rotateKey(): Promise<WayAuthTestKey> {
+    getCurrentKey().retiredAt = Date.now();
+    const next = await generateWayAuthTestKey({ alg });
+    keys.push(next);
+    return next;
+  }
+
+  function getJwks(): JSONWebKeySet {
+    return { keys: keys.map((key) => key.publicJwk) };
+  }
+
+  function verifierOptions(): WayAuthLocalVerifierOptions {
+    return {
+      issuer,
+      audience,
+      rotationGraceMs: options.rotationGraceMs,
+      keys: keys.map(
+        (key): WayAuthLocalKey => ({ kid: key.kid, alg: key.alg, jwk: key.publicJwk, retiredAt: key.retiredAt }),
+      ),
+    };
+  }
+
+  return {
+    issuer,
+    audience,
+    keys,
+    mintAccessToken,
+    mintAuthorizationHeader,
+    rotateKey,
+    getJwks,
+    verifierOptions,
+  };
+}
+
+export type WayAuthTestIssuer = Awaited<ReturnType<typeof createWayAuthTestIssuer>>;
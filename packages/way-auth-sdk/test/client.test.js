@@ -29,6 +29,31 @@ function createMockFetch(handlers) {
   };
 }
 
+function createRouteMockFetch(routes) {
+  const calls = [];
+
+  return {
+    calls,
+    fetch: async (input, init = {}) => {
+      const url = String(input);
+      calls.push({ input: url, init });
+      const handler = routes[url];
+      if (!handler) {
+        throw new Error(`Unexpected fetch call for ${url}.`);
+      }
+
+      return handler(init);
+    },
+  };
+}
+
+function createUnsignedToken(claims) {
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "none" })}.${encode(claims)}.signature`;
+}
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
 describe("createWayAuthClient", () => {
   it("uses auth service base URL for me endpoint", async () => {
     const mock = createMockFetch([
@@ -159,3 +184,146 @@ describe("createWayAuthClient", () => {
     );
   });
 });
+
+describe("createWayAuthClient refresh coordination", () => {
+  const authorizationOf = (init) => new Headers(init.headers).get("authorization");
+
+  it("shares one refresh between concurrent 401 responses", async () => {
+    let refreshCount = 0;
+    const mock = createRouteMockFetch({
+      "https://auth.example.com/api/v1/refresh": async () => {
+        refreshCount += 1;
+        await wait(10);
+        return jsonResponse({ accessToken: "fresh_token", tokenType: "Bearer", expiresIn: 900 });
+      },
+      "https://api.example.com/private": async (init) =>
+        authorizationOf(init) === "Bearer fresh_token"
+          ? jsonResponse({ value: "ok" })
+          : jsonResponse({ error: { code: "invalid_token", message: "Expired." } }, 401),
+    });
+    const client = createWayAuthClient({
+      baseUrl: "https://auth.example.com",
+      fetch: mock.fetch,
+      tokenStore: createInMemoryTokenStore("stale_token"),
+    });
+
+    const responses = await Promise.all(
+      Array.from({ length: 3 }, () => client.fetchWithAuth("https://api.example.com/private")),
+    );
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    expect(refreshCount).toBe(1);
+  });
+
+  it("queues requests while a refresh is pending", async () => {
+    const mock = createRouteMockFetch({
+      "https://auth.example.com/api/v1/refresh": async () => {
+        await wait(10);
+        return jsonResponse({ accessToken: "fresh_token", tokenType: "Bearer", expiresIn: 900 });
+      },
+      "https://api.example.com/private": async () => jsonResponse({ value: "ok" }),
+    });
+    const client = createWayAuthClient({
+      baseUrl: "https://auth.example.com",
+      fetch: mock.fetch,
+      tokenStore: createInMemoryTokenStore("stale_token"),
+    });
+
+    const refreshing = client.refresh();
+    expect(client.refresh()).toBe(refreshing);
+    const response = await client.fetchWithAuth("https://api.example.com/private");
+
+    expect(response.status).toBe(200);
+    const apiCalls = mock.calls.filter((call) => call.input === "https://api.example.com/private");
+    expect(apiCalls.map((call) => authorizationOf(call.init))).toEqual(["Bearer fresh_token"]);
+  });
+
+  it("refreshes before sending when the access token is about to expire", async () => {
+    const expiring = createUnsignedToken({ sub: "user_1", exp: Math.floor(Date.now() / 1000) + 10 });
+    const lasting = createUnsignedToken({ sub: "user_1", exp: Math.floor(Date.now() / 1000) + 900 });
+    const mock = createRouteMockFetch({
+      "https://auth.example.com/api/v1/refresh": async () =>
+        jsonResponse({ accessToken: lasting, tokenType: "Bearer", expiresIn: 900 }),
+      "https://api.example.com/private": async () => jsonResponse({ value: "ok" }),
+    });
+    const client = createWayAuthClient({
+      baseUrl: "https://auth.example.com",
+      fetch: mock.fetch,
+      tokenStore: createInMemoryTokenStore(expiring),
+    });
+
+    await client.fetchWithAuth("https://api.example.com/private");
+    await client.fetchWithAuth("https://api.example.com/private");
+
+    expect(mock.calls.map((call) => call.input)).toEqual([
+      "https://auth.example.com/api/v1/refresh",
+      "https://api.example.com/private",
+      "https://api.example.com/private",
+    ]);
+    expect(authorizationOf(mock.calls[1].init)).toBe(`Bearer ${lasting}`);
+  });
+
+  it("retries network errors and rate limits with backoff when configured", async () => {
+    const attempts = [
+      () => {
+        throw new TypeError("fetch failed");
+      },
+      () =>
+        new Response(JSON.stringify({ error: { code: "rate_limited", message: "Slow down." } }), {
+          status: 429,
+          headers: { "content-type": "application/json", "retry-after": "0" },
+        }),
+      () => jsonResponse({ value: "ok" }),
+    ];
+    const mock = createMockFetch([...attempts]);
+    const client = createWayAuthClient({
+      baseUrl: "https://auth.example.com",
+      fetch: mock.fetch,
+      retry: { retries: 2, baseDelayMs: 1 },
+    });
+
+    const response = await client.fetchWithAuth("https://api.example.com/private");
+    expect(response.status).toBe(200);
+    expect(mock.calls).toHaveLength(3);
+
+    const withoutRetry = createWayAuthClient({
+      baseUrl: "https://auth.example.com",
+      fetch: createMockFetch([...attempts]).fetch,
+    });
+    await expect(withoutRetry.fetchWithAuth("https://api.example.com/private")).rejects.toThrow("fetch failed");
+  });
+
+  it("does not retry POST requests such as refresh after a network error", async () => {
+    const mock = createMockFetch([
+      () => {
+        throw new TypeError("fetch failed");
+      },
+      () => jsonResponse({ accessToken: "fresh_token", tokenType: "Bearer", expiresIn: 900 }),
+    ]);
+    const client = createWayAuthClient({
+      baseUrl: "https://auth.example.com",
+      fetch: mock.fetch,
+      retry: { retries: 2, baseDelayMs: 1 },
+    });
+
+    await expect(client.refresh()).rejects.toThrow("fetch failed");
+    expect(mock.calls).toHaveLength(1);
+  });
+
+  it("returns the last rate-limited response once retries are used up", async () => {
+    const rateLimited = () =>
+      jsonResponse({ error: { code: "rate_limited", message: "Too many requests." } }, 429);
+    const mock = createMockFetch([rateLimited, rateLimited]);
+    const client = createWayAuthClient({
+      baseUrl: "https://auth.example.com",
+      fetch: mock.fetch,
+      retry: { retries: 1, baseDelayMs: 1 },
+    });
+
+    await expect(client.login({ email: "demo@example.com", password: "password" })).rejects.toMatchObject({
+      status: 429,
+      code: "rate_limited",
+    });
+    expect(mock.calls).toHaveLength(2);
+  });
+});
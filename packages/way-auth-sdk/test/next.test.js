@@ -23,11 +23,11 @@ function createRouteFetch(routes) {
   };
 }
 
-async function createSignedToken() {
+async function createSignedToken(claims = {}) {
   const { publicKey, privateKey } = await generateKeyPair("RS256");
   const kid = "kid_test";
   const jwk = await exportJWK(publicKey);
-  const token = await new SignJWT({ sid: "session_1" })
+  const token = await new SignJWT({ sid: "session_1", ...claims })
     .setProtectedHeader({ alg: "RS256", kid })
     .setSubject("user_1")
     .setIssuer("https://auth.example.com")
@@ -97,6 +97,90 @@ describe("next adapter", () => {
     expect(response.headers.get("location")).toBe("https://app.example.com/admin");
   });
 
+  it("enforces per-path role requirements", async () => {
+    const editor = await createSignedToken({ roles: ["editor"] });
+    const auth = createWayAuthNext({
+      baseUrl: "https://auth.example.com",
+      issuer: "https://auth.example.com",
+      audience: "way-clients",
+      jwksUrl: "https://auth.example.com/api/v1/jwks",
+      discoveryMode: "never",
+      middleware: {
+        roleRequirements: {
+          "/admin": ["owner", "editor"],
+          "/admin/settings": ["owner"],
+        },
+      },
+      fetch: createRouteFetch({
+        "https://auth.example.com/api/v1/jwks": async () => jsonResponse(editor.jwks),
+      }),
+    });
+    const headers = { cookie: `way_access_token=${encodeURIComponent(editor.token)}` };
+
+    const allowed = await auth.middleware(new NextRequest("https://app.example.com/admin/projects", { headers }));
+    expect(allowed).toBeUndefined();
+
+    const forbidden = await auth.middleware(new NextRequest("https://app.example.com/admin/settings", { headers }));
+    expect(forbidden.status).toBe(403);
+
+    const session = await auth.server.getSession(new Request("https://app.example.com/admin", { headers }), {
+      skipUserHydration: true,
+    });
+    expect(session?.roles).toEqual(["editor"]);
+  });
+
+  it("forbids protected routes the authorize hook rejects", async () => {
+    const signed = await createSignedToken();
+    const auth = createWayAuthNext({
+      baseUrl: "https://auth.example.com",
+      issuer: "https://auth.example.com",
+      audience: "way-clients",
+      jwksUrl: "https://auth.example.com/api/v1/jwks",
+      discoveryMode: "never",
+      middleware: {
+        authorize: (session, pathname) => pathname !== "/admin/settings" && session.user.id === "user_1",
+      },
+      fetch: createRouteFetch({
+        "https://auth.example.com/api/v1/jwks": async () => jsonResponse(signed.jwks),
+      }),
+    });
+    const headers = { cookie: `way_access_token=${encodeURIComponent(signed.token)}` };
+
+    expect(await auth.middleware(new NextRequest("https://app.example.com/admin", { headers }))).toBeUndefined();
+
+    const forbidden = await auth.middleware(new NextRequest("https://app.example.com/admin/settings", { headers }));
+    expect(forbidden.status).toBe(403);
+
+    const login = await auth.middleware(new NextRequest("https://app.example.com/admin/login", { headers }));
+    expect(login.status).toBe(307);
+  });
+
+  it("redirects sessions without a required role to the forbidden path", async () => {
+    const signed = await createSignedToken();
+    const auth = createWayAuthNext({
+      baseUrl: "https://auth.example.com",
+      issuer: "https://auth.example.com",
+      audience: "way-clients",
+      jwksUrl: "https://auth.example.com/api/v1/jwks",
+      discoveryMode: "never",
+      middleware: {
+        roleRequirements: { "/admin": ["owner"] },
+        forbiddenPath: "/admin/forbidden",
+      },
+      fetch: createRouteFetch({
+        "https://auth.example.com/api/v1/jwks": async () => jsonResponse(signed.jwks),
+      }),
+    });
+
+    const response = await auth.middleware(
+      new NextRequest("https://app.example.com/admin", {
+        headers: { cookie: `way_access_token=${encodeURIComponent(signed.token)}` },
+      }),
+    );
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe("https://app.example.com/admin/forbidden");
+  });
+
   it("bootstraps client session with refresh + me", async () => {
     const auth = createWayAuthNext({
       baseUrl: "https://auth.example.com",
@@ -328,6 +412,42 @@ describe("next adapter", () => {
     );
   });
 
+  it("returns the stored access token and refreshes when missing or forced", async () => {
+    let refreshCount = 0;
+    const auth = createWayAuthNext({
+      baseUrl: "https://auth.example.com",
+      discoveryMode: "never",
+      fetch: createRouteFetch({
+        "https://auth.example.com/api/v1/refresh": async () => {
+          refreshCount += 1;
+          return jsonResponse({
+            accessToken: `token_${refreshCount}`,
+            tokenType: "Bearer",
+            expiresIn: 900,
+          });
+        },
+      }),
+    });
+
+    expect(await auth.client.getAccessToken()).toBe("token_1");
+    expect(await auth.client.getAccessToken()).toBe("token_1");
+    expect(await auth.client.getAccessToken({ forceRefresh: true })).toBe("token_2");
+    expect(refreshCount).toBe(2);
+  });
+
+  it("returns null from getAccessToken when refresh fails", async () => {
+    const auth = createWayAuthNext({
+      baseUrl: "https://auth.example.com",
+      discoveryMode: "never",
+      fetch: createRouteFetch({
+        "https://auth.example.com/api/v1/refresh": async () =>
+          jsonResponse({ error: { code: "missing_refresh_token", message: "Refresh token is required." } }, 401),
+      }),
+    });
+
+    expect(await auth.client.getAccessToken()).toBeNull();
+  });
+
   it("exposes route helper for public auth routes", () => {
     const auth = createWayAuthNext({
       baseUrl: "https://auth.example.com",
@@ -412,4 +532,123 @@ describe("next adapter", () => {
       }
     }
   });
+
+  it("runs keep-alive refreshes only in the leader tab and shares the token", async () => {
+    const originalWindow = globalThis.window;
+    const originalDocument = globalThis.document;
+    const keepAliveCallbacks = [];
+    let refreshCount = 0;
+
+    globalThis.window = {
+      setInterval: (fn) => {
+        keepAliveCallbacks.push(fn);
+        return keepAliveCallbacks.length;
+      },
+      clearInterval: () => {},
+      location: { protocol: "https:" },
+    };
+    globalThis.document = {
+      visibilityState: "visible",
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      cookie: "",
+    };
+
+    const createTab = () =>
+      createWayAuthNext({
+        baseUrl: "https://auth.example.com",
+        discoveryMode: "never",
+        tabSync: { channelName: "next-keep-alive", heartbeatIntervalMs: 20 },
+        fetch: createRouteFetch({
+          "https://auth.example.com/api/v1/refresh": async () => {
+            refreshCount += 1;
+            return jsonResponse({ accessToken: `token_${refreshCount}`, tokenType: "Bearer", expiresIn: 900 });
+          },
+        }),
+      });
+
+    const tabs = [createTab(), createTab()];
+    const stops = tabs.map((tab) => tab.client.startSessionKeepAlive({ intervalMs: 60_000 }));
+    const changes = tabs.map(() => []);
+    const unsubscribes = tabs.map((tab, index) =>
+      tab.client.onSessionChange((message) => changes[index].push(message)),
+    );
+
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      for (const runKeepAlive of keepAliveCallbacks) {
+        runKeepAlive();
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(refreshCount).toBe(1);
+      expect(changes.flat()).toEqual([{ type: "session", accessToken: "token_1", expiresIn: 900 }]);
+      for (const tab of tabs) {
+        expect(await tab.client.getAccessToken()).toBe("token_1");
+      }
+    } finally {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      stops.forEach((stop) => stop());
+      if (originalWindow === undefined) {
+        delete globalThis.window;
+      } else {
+        globalThis.window = originalWindow;
+      }
+      if (originalDocument === undefined) {
+        delete globalThis.document;
+      } else {
+        globalThis.document = originalDocument;
+      }
+    }
+  });
+
+  it("sends forced refreshes from every tab through the leader", async () => {
+    const originalWindow = globalThis.window;
+    const originalDocument = globalThis.document;
+    globalThis.window = { location: { protocol: "https:" } };
+    globalThis.document = { cookie: "" };
+
+    const refreshCounts = [0, 0];
+    let issued = 0;
+    const createTab = (index) =>
+      createWayAuthNext({
+        baseUrl: "https://auth.example.com",
+        discoveryMode: "never",
+        tabSync: { channelName: "next-forced-refresh", heartbeatIntervalMs: 20 },
+        fetch: createRouteFetch({
+          "https://auth.example.com/api/v1/refresh": async () => {
+            refreshCounts[index] += 1;
+            issued += 1;
+            return jsonResponse({ accessToken: `token_${issued}`, tokenType: "Bearer", expiresIn: 900 });
+          },
+        }),
+      });
+
+    const tabs = [createTab(0), createTab(1)];
+    const unsubscribes = tabs.map((tab) => tab.client.onSessionChange(() => {}));
+
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const first = await tabs[0].client.getAccessToken({ forceRefresh: true });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const second = await tabs[1].client.getAccessToken({ forceRefresh: true });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(refreshCounts.filter((count) => count > 0)).toEqual([2]);
+      expect([first, second]).toEqual(["token_1", "token_2"]);
+      expect(await tabs[0].client.getAccessToken()).toBe("token_2");
+    } finally {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      if (originalWindow === undefined) {
+        delete globalThis.window;
+      } else {
+        globalThis.window = originalWindow;
+      }
+      if (originalDocument === undefined) {
+        delete globalThis.document;
+      } else {
+        globalThis.document = originalDocument;
+      }
+    }
+  });
 });
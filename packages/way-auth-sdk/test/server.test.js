@@ -1,5 +1,13 @@
 import { describe, expect, it } from "bun:test";
-import { createWayAuthGuard, WayAuthAuthorizationError, extractBearerToken } from "../src/server.ts";
+import {
+  createWayAuthGuard,
+  extractBearerToken,
+  hasPermission,
+  hasRole,
+  requirePermission,
+  requireRole,
+  WayAuthAuthorizationError,
+} from "../src/server.ts";
 
 describe("extractBearerToken", () => {
   it("returns token for valid Bearer header", () => {
@@ -40,3 +48,23 @@ describe("createWayAuthGuard", () => {
     expect(() => guard.assertOwner({ sub: "user_1" }, "user_2")).toThrow(WayAuthAuthorizationError);
   });
 });
+
+describe("role and permission checks", () => {
+  it("requireRole passes when any listed role is granted", () => {
+    expect(() => requireRole({ roles: ["editor"] }, ["owner", "editor"])).not.toThrow();
+    expect(() => requireRole({ roles: ["editor"] }, "owner")).toThrow(WayAuthAuthorizationError);
+    expect(() => requireRole({}, "owner")).toThrow(WayAuthAuthorizationError);
+  });
+
+  it("requirePermission needs every listed permission", () => {
+    const auth = { permissions: ["projects:write", "projects:read"] };
+    expect(() => requirePermission(auth, ["projects:read", "projects:write"])).not.toThrow();
+    expect(() => requirePermission(auth, ["projects:read", "settings:write"])).toThrow(WayAuthAuthorizationError);
+  });
+
+  it("reads space-separated claims and ignores malformed ones", () => {
+    expect(hasPermission({ permissions: "projects:read projects:write" }, "projects:write")).toBe(true);
+    expect(hasRole({ roles: [1, "owner"] }, "owner")).toBe(true);
+    expect(hasRole({ roles: { owner: true } }, "owner")).toBe(false);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "bun:test";
-import { createWayAuthState } from "../src/state.ts";
+import { createWayAuthState, createWayAuthTabSync } from "../src/state.ts";
 
 function createMockClient(overrides = {}) {
   return {
@@ -140,3 +140,41 @@ describe("createWayAuthState", () => {
     expect(errorContext).toBe("login");
   });
 });
+
+describe("createWayAuthState tab sync", () => {
+  it("follows logins and logouts from other tabs while subscribed", async () => {
+    const firstSync = createWayAuthTabSync({ channelName: "state-tab-sync", heartbeatIntervalMs: 20 });
+    const secondSync = createWayAuthTabSync({ channelName: "state-tab-sync", heartbeatIntervalMs: 20 });
+    let secondToken = null;
+    const first = createWayAuthState(createMockClient(), { tabSync: firstSync });
+    const second = createWayAuthState(
+      createMockClient({
+        setAccessToken: async (token) => {
+          secondToken = token;
+        },
+        clearAccessToken: async () => {
+          secondToken = null;
+        },
+      }),
+      { tabSync: secondSync },
+    );
+    const unsubscribe = second.subscribe(() => {});
+
+    try {
+      await first.login({ email: "demo@example.com", password: "secret-password" });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(second.getState().status).toBe("authenticated");
+      expect(second.getState().user?.email).toBe("demo@example.com");
+      expect(secondToken).toBe("token");
+
+      await first.logout();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(second.getState().status).toBe("unauthenticated");
+      expect(secondToken).toBeNull();
+    } finally {
+      unsubscribe();
+      firstSync.close();
+      secondSync.close();
+    }
+  });
+});
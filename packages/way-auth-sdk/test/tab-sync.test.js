@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { createWayAuthTabSync } from "../src/tab-sync.ts";
+
+const HEARTBEAT_MS = 20;
+const opened = [];
+
+function openTab(channelName) {
+  const sync = createWayAuthTabSync({ channelName, heartbeatIntervalMs: HEARTBEAT_MS });
+  opened.push(sync);
+  return sync;
+}
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+afterEach(() => {
+  for (const sync of opened.splice(0)) {
+    sync.close();
+  }
+});
+
+describe("createWayAuthTabSync", () => {
+  it("delivers published messages to other tabs only", async () => {
+    const first = openTab("tab-sync-messages");
+    const second = openTab("tab-sync-messages");
+    const received = { first: [], second: [] };
+    first.subscribe((message) => received.first.push(message));
+    second.subscribe((message) => received.second.push(message));
+
+    first.publish({ type: "logout" });
+    await wait(HEARTBEAT_MS);
+
+    expect(received.first).toEqual([]);
+    expect(received.second).toEqual([{ type: "logout" }]);
+  });
+
+  it("elects a single leader and hands over when it closes", async () => {
+    const tabs = [openTab("tab-sync-leader"), openTab("tab-sync-leader"), openTab("tab-sync-leader")];
+    await wait(HEARTBEAT_MS * 5);
+
+    const leaders = tabs.filter((tab) => tab.isLeader());
+    expect(leaders).toHaveLength(1);
+
+    leaders[0].close();
+    await wait(HEARTBEAT_MS * 5);
+
+    const remaining = tabs.filter((tab) => tab !== leaders[0]);
+    expect(remaining.filter((tab) => tab.isLeader())).toHaveLength(1);
+  });
+
+  it("leaves nothing in localStorage when falling back to storage events", async () => {
+    const originalBroadcastChannel = globalThis.BroadcastChannel;
+    const listeners = new Set();
+    const items = new Map();
+    globalThis.window = {
+      localStorage: {
+        setItem: (key, newValue) => {
+          items.set(key, newValue);
+          listeners.forEach((listener) => listener({ key, newValue }));
+        },
+        removeItem: (key) => {
+          items.delete(key);
+          listeners.forEach((listener) => listener({ key, newValue: null }));
+        },
+      },
+      addEventListener: (_type, listener) => listeners.add(listener),
+      removeEventListener: (_type, listener) => listeners.delete(listener),
+    };
+    delete globalThis.BroadcastChannel;
+
+    try {
+      const first = openTab("tab-sync-storage");
+      const second = openTab("tab-sync-storage");
+      const received = [];
+      second.subscribe((message) => received.push(message));
+
+      first.publish({ type: "session", accessToken: "secret_token", expiresIn: 900 });
+
+      expect(received).toEqual([{ type: "session", accessToken: "secret_token", expiresIn: 900 }]);
+      expect(items.size).toBe(0);
+    } finally {
+      for (const sync of opened.splice(0)) {
+        sync.close();
+      }
+      globalThis.BroadcastChannel = originalBroadcastChannel;
+      delete globalThis.window;
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "bun:test";
+import { createWayAuthGuard, createWayAuthVerifier, WayAuthTokenVerificationError } from "../src/server.ts";
+import { createWayAuthTestIssuer, generateWayAuthTestKey } from "../src/testing.ts";
+
+describe("createWayAuthTestIssuer", () => {
+  it("mints tokens that verify offline", async () => {
+    const issuer = await createWayAuthTestIssuer();
+    const guard = createWayAuthGuard(issuer.verifierOptions());
+
+    const request = new Request("https://api.example.com/private", {
+      headers: { authorization: await issuer.mintAuthorizationHeader({ sub: "user_1", roles: ["owner"] }) },
+    });
+    const auth = await guard.requireAuth(request);
+
+    expect(auth.sub).toBe("user_1");
+    expect(auth.roles).toEqual(["owner"]);
+    expect(auth.iss).toBe(issuer.issuer);
+  });
+
+  it("rejects expired tokens and tokens for another audience", async () => {
+    const issuer = await createWayAuthTestIssuer();
+    const verifier = createWayAuthVerifier(issuer.verifierOptions());
+
+    const expired = await issuer.mintAccessToken({ sub: "user_1" }, { expiresIn: -60 });
+    const otherAudience = await issuer.mintAccessToken({ sub: "user_1" }, { audience: "other-app" });
+
+    await expect(verifier.verifyAccessToken(expired)).rejects.toBeInstanceOf(WayAuthTokenVerificationError);
+    await expect(verifier.verifyAccessToken(otherAudience)).rejects.toBeInstanceOf(WayAuthTokenVerificationError);
+  });
+
+  it("keeps retired keys valid for the rotation grace window", async () => {
+    const issuer = await createWayAuthTestIssuer();
+    const oldToken = await issuer.mintAccessToken({ sub: "user_1" });
+    await issuer.rotateKey();
+    const newToken = await issuer.mintAccessToken({ sub: "user_1" });
+
+    const withinGrace = createWayAuthVerifier(issuer.verifierOptions());
+    await expect(withinGrace.verifyAccessToken(oldToken)).resolves.toMatchObject({ sub: "user_1" });
+    await expect(withinGrace.verifyAccessToken(newToken)).resolves.toMatchObject({ sub: "user_1" });
+
+    const pastGrace = createWayAuthVerifier({ ...issuer.verifierOptions(), rotationGraceMs: 0 });
+    await expect(pastGrace.verifyAccessToken(oldToken)).rejects.toBeInstanceOf(WayAuthTokenVerificationError);
+    await expect(pastGrace.verifyAccessToken(newToken)).resolves.toMatchObject({ sub: "user_1" });
+  });
+});
+
+describe("local key verification", () => {
+  it("accepts a pinned JWKS", async () => {
+    const issuer = await createWayAuthTestIssuer({ alg: "ES256" });
+    const verifier = createWayAuthVerifier({
+      issuer: issuer.issuer,
+      audience: issuer.audience,
+      jwks: issuer.getJwks(),
+    });
+
+    const token = await issuer.mintAccessToken({ sub: "user_1" });
+    await expect(verifier.verifyAccessToken(token)).resolves.toMatchObject({ sub: "user_1" });
+  });
+
+  it("accepts PEM public keys", async () => {
+    const issuer = await createWayAuthTestIssuer();
+    const [key] = issuer.keys;
+    const verifier = createWayAuthVerifier({
+      issuer: issuer.issuer,
+      audience: issuer.audience,
+      keys: [{ kid: key.kid, alg: key.alg, publicKeyPem: key.publicKeyPem }],
+    });
+
+    const token = await issuer.mintAccessToken({ sub: "user_1" });
+    await expect(verifier.verifyAccessToken(token)).resolves.toMatchObject({ sub: "user_1" });
+  });
+
+  it("rejects tokens signed by a key it does not know", async () => {
+    const issuer = await createWayAuthTestIssuer();
+    const stranger = await generateWayAuthTestKey();
+    const verifier = createWayAuthVerifier({
+      issuer: issuer.issuer,
+      audience: issuer.audience,
+      keys: [{ kid: stranger.kid, alg: stranger.alg, jwk: stranger.publicJwk }],
+    });
+
+    const token = await issuer.mintAccessToken({ sub: "user_1" });
+    await expect(verifier.verifyAccessToken(token)).rejects.toBeInstanceOf(WayAuthTokenVerificationError);
+  });
+
+  it("requires a kid or at least one usable key", async () => {
+    expect(() => createWayAuthVerifier({ issuer: "https://auth.test.local", audience: "way-clients" })).toThrow(
+      "Local verification requires at least one key.",
+    );
+
+    const key = await generateWayAuthTestKey();
+    const { kid: _kid, ...jwkWithoutKid } = key.publicJwk;
+    expect(() =>
+      createWayAuthVerifier({
+        issuer: "https://auth.test.local",
+        audience: "way-clients",
+        jwks: { keys: [jwkWithoutKid] },
+      }),
+    ).toThrow("Local JWKS keys must have a kid.");
+  });
+});